@@ -0,0 +1,268 @@
+/**
+ * Web 控制面板認證與授權
+ *
+ * 登入方式：ADMIN_TOKEN（角色 operator），或 AUTH_USERS 中的用戶名 / 密碼。
+ * 登入後發放 HttpOnly session cookie（只存在記憶體中，重啟後需要重新登入）；
+ * 腳本可以直接帶 Authorization: Bearer <ADMIN_TOKEN>。
+ * 兩者都沒有設定時啟動時生成一次性 admin token 並輸出到日誌，不會無認證開放。
+ * Prometheus 抓取 /metrics 可以用只讀的 METRICS_TOKEN，不能訪問其他 API。
+ *
+ * 角色：viewer 只能查看；operator 可以啟動 / 停止、修改配置、重新啟用風控。
+ * 修改狀態的請求和 WebSocket 握手都檢查 Origin，只接受同源和 CORS_ORIGINS。
+ */
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { NextFunction, Request, Response } from 'express';
+import { config } from '../config.js';
+
+export type Role = 'viewer' | 'operator';
+
+export interface AuthUser {
+  username: string;
+  password: string; // 明文或 scrypt$salt$hash
+  role: Role;
+}
+
+export interface Session {
+  id: string; // Bearer token 認證時為空字串（不建立 session）
+  username: string;
+  role: Role;
+  expiresAt: number;
+}
+
+export interface LoginCredentials {
+  username?: string;
+  password?: string;
+  token?: string;
+}
+
+export interface AuthOptions {
+  adminToken?: string;
+  metricsToken?: string;
+  users?: string; // AUTH_USERS 格式
+  sessionTtlMs?: number;
+  corsOrigins?: string[];
+}
+
+export const SESSION_COOKIE = 'polybot_session';
+const ROLES: Role[] = ['viewer', 'operator']; // 權限從低到高
+const MAX_FAILED_LOGINS = 10; // 同一 IP 在窗口內的失敗次數上限
+const FAILED_LOGIN_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * scrypt 雜湊，AUTH_USERS 中可以用它代替明文密碼
+ */
+export function hashPassword(password: string, salt: string = randomBytes(16).toString('hex')): string {
+  return `scrypt$${salt}$${scryptSync(password, salt, 64).toString('hex')}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  if (stored.startsWith('scrypt$')) {
+    const [, salt] = stored.split('$');
+    return safeEqual(hashPassword(password, salt), stored);
+  }
+  return safeEqual(password, stored);
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * 解析 AUTH_USERS：逗號分隔的 用戶名:密碼:角色，角色省略時為 viewer
+ */
+export function parseUsers(spec: string): AuthUser[] {
+  return spec
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const parts = entry.split(':');
+      let role: Role = 'viewer';
+      if (parts.length > 2 && ROLES.includes(parts[parts.length - 1] as Role)) {
+        role = parts.pop() as Role;
+      }
+      const [username, ...password] = parts;
+      if (!username || password.length === 0 || !password.join(':')) {
+        throw new Error(`AUTH_USERS 格式錯誤: ${username || entry}（應為 用戶名:密碼:角色）`);
+      }
+      return { username, password: password.join(':'), role };
+    });
+}
+
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header || '').split(';').map((p) => p.trim())) {
+    const index = part.indexOf('=');
+    if (index <= 0) continue;
+    const name = part.slice(0, index);
+    try {
+      cookies[name] = decodeURIComponent(part.slice(index + 1));
+    } catch {
+      // 忽略無法解碼的 cookie
+    }
+  }
+  return cookies;
+}
+
+export function hasRole(session: Session, role: Role): boolean {
+  return ROLES.indexOf(session.role) >= ROLES.indexOf(role);
+}
+
+export class AuthManager {
+  private sessions: Map<string, Session> = new Map();
+  private failedLogins: Map<string, number[]> = new Map(); // IP -> 失敗時間
+  private users: Map<string, AuthUser>;
+  private sessionTtlMs: number;
+  private corsOrigins: string[];
+  readonly adminToken: string;
+  private metricsToken: string;
+  readonly generatedToken: boolean; // 沒有設定任何憑證，token 是啟動時生成的
+
+  constructor(options: AuthOptions = {}) {
+    this.users = new Map(parseUsers(options.users ?? config.AUTH_USERS).map((user) => [user.username, user]));
+    const token = options.adminToken ?? config.ADMIN_TOKEN;
+    this.generatedToken = !token && this.users.size === 0;
+    this.adminToken = this.generatedToken ? randomBytes(24).toString('hex') : token;
+    this.metricsToken = options.metricsToken ?? config.METRICS_TOKEN;
+    this.sessionTtlMs = options.sessionTtlMs ?? config.SESSION_TTL_MS;
+    this.corsOrigins = options.corsOrigins ?? config.CORS_ORIGINS;
+  }
+
+  /**
+   * 用 admin token 或用戶名 / 密碼登入，成功時建立 session
+   */
+  login(credentials: LoginCredentials, ip = ''): Session | null {
+    let user: { username: string; role: Role } | undefined;
+    if (credentials.token) {
+      if (this.adminToken && safeEqual(credentials.token, this.adminToken)) {
+        user = { username: 'admin', role: 'operator' };
+      }
+    } else if (credentials.username && credentials.password) {
+      const candidate = this.users.get(credentials.username);
+      if (candidate && verifyPassword(credentials.password, candidate.password)) {
+        user = candidate;
+      }
+    }
+
+    if (!user) {
+      const failures = this.recentFailures(ip);
+      failures.push(Date.now());
+      this.failedLogins.set(ip, failures);
+      console.warn(`[認證] 登入失敗 ${credentials.username || 'token'} (${ip || '未知 IP'})`);
+      return null;
+    }
+
+    this.failedLogins.delete(ip);
+    const session: Session = {
+      id: randomBytes(32).toString('hex'),
+      username: user.username,
+      role: user.role,
+      expiresAt: Date.now() + this.sessionTtlMs,
+    };
+    this.sessions.set(session.id, session);
+    console.log(`[認證] ${session.username} 已登入 (${session.role})`);
+    return session;
+  }
+
+  logout(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  getSession(sessionId: string): Session | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+    if (session.expiresAt <= Date.now()) {
+      this.sessions.delete(sessionId);
+      return null;
+    }
+    return session;
+  }
+
+  /**
+   * 從請求的 Bearer token 或 session cookie 取得身份，未登入時為 null
+   */
+  authenticate(req: IncomingMessage): Session | null {
+    const bearer = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '')?.[1];
+    if (bearer) {
+      return this.adminToken && safeEqual(bearer, this.adminToken)
+        ? { id: '', username: 'admin', role: 'operator', expiresAt: Infinity }
+        : null;
+    }
+    const sessionId = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+    return sessionId ? this.getSession(sessionId) : null;
+  }
+
+  /**
+   * 同一 IP 連續登入失敗過多時暫時拒絕登入
+   */
+  isLockedOut(ip: string): boolean {
+    return this.recentFailures(ip).length >= MAX_FAILED_LOGINS;
+  }
+
+  private recentFailures(ip: string): number[] {
+    const cutoff = Date.now() - FAILED_LOGIN_WINDOW_MS;
+    return (this.failedLogins.get(ip) || []).filter((t) => t > cutoff);
+  }
+
+  /**
+   * 沒有 Origin（非瀏覽器客戶端）、同源或在 CORS_ORIGINS 中時允許
+   */
+  isOriginAllowed(origin: string | undefined, host: string | undefined): boolean {
+    if (!origin) return true;
+    if (this.corsOrigins.includes(origin)) return true;
+    try {
+      return new URL(origin).host === host;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Express 中間件：要求已登入且角色至少為 role；修改狀態的請求還要求 Origin 合法
+   */
+  require(role: Role) {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (req.method !== 'GET' && !this.isOriginAllowed(req.headers.origin, req.headers.host)) {
+        res.status(403).json({ error: '不允許的來源' });
+        return;
+      }
+      const session = this.authenticate(req);
+      if (!session) {
+        res.status(401).json({ error: '未登入' });
+        return;
+      }
+      if (!hasRole(session, role)) {
+        res.status(403).json({ error: `權限不足：需要 ${role}` });
+        return;
+      }
+      res.locals.session = session;
+      next();
+    };
+  }
+
+  /**
+   * Express 中間件：/metrics 接受 Bearer METRICS_TOKEN，其他情況和 require('viewer') 相同
+   */
+  requireMetrics() {
+    const viewer = this.require('viewer');
+    return (req: Request, res: Response, next: NextFunction) => {
+      const bearer = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '')?.[1];
+      if (this.metricsToken && bearer && safeEqual(bearer, this.metricsToken)) {
+        next();
+        return;
+      }
+      viewer(req, res, next);
+    };
+  }
+
+  sessionCookie(session: Session): string {
+    return `${SESSION_COOKIE}=${session.id}; HttpOnly; SameSite=Strict; Path=/; Max-Age=${Math.floor(this.sessionTtlMs / 1000)}${config.COOKIE_SECURE ? '; Secure' : ''}`;
+  }
+
+  clearCookie(): string {
+    return `${SESSION_COOKIE}=; HttpOnly; SameSite=Strict; Path=/; Max-Age=0${config.COOKIE_SECURE ? '; Secure' : ''}`;
+  }
+}
@@ -4,258 +4,270 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { WebSocketServer, WebSocket } from 'ws';
 import { createServer } from 'http';
-import { MarketFetcher } from '../market-fetcher.js';
-import { Trader } from '../trader.js';
-import { Strategy } from '../strategy.js';
+import { BotEngine } from '../bot-engine.js';
+import { fairValues } from '../fair-value.js';
+import { riskManager } from '../risk-manager.js';
+import { listStrategies } from '../strategies/index.js';
+import { listSeries } from '../series.js';
 import { config } from '../config.js';
-
+import { RuntimeConfigStore } from '../runtime-config.js';
+import { LOG_LEVELS, createLogger, logManager, type LogLevel } from '../logger.js';
+import { instrumentHttpClients, registerEngineMetrics, registry } from '../metrics.js';
+import { Notifier } from '../notifier.js';
+import { keystoreStatus, loadSigner, lockKeystore, unlockKeystore } from '../keystore.js';
+import { AuthManager, hasRole, type Session } from './auth.js';
+import type { ManagedOrder } from '../order-manager.js';
+
+const log = createLogger('server');
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const app = express();
-app.use(cors());
+// 默認只允許同源；跨域前端需要在 CORS_ORIGINS 中列出（帶 cookie）
+app.use(cors({ origin: config.CORS_ORIGINS, credentials: true }));
 app.use(express.json());
 
+// 認證：API 和 WebSocket 都需要登入，修改狀態需要 operator
+const auth = new AuthManager();
+
 // Serve static frontend files in production
 const frontendPath = path.join(__dirname, '../frontend');
 app.use(express.static(frontendPath));
 
 const server = createServer(app);
-const wss = new WebSocketServer({ server, path: '/ws' });
+const wss = new WebSocketServer({
+  server,
+  path: '/ws',
+  // 握手時拒絕未登入和不允許的來源（防止跨站 WebSocket 劫持）
+  verifyClient: ({ origin, req }, done) => {
+    if (!auth.isOriginAllowed(origin, req.headers.host)) {
+      done(false, 403, 'Forbidden');
+    } else if (!auth.authenticate(req)) {
+      done(false, 401, 'Unauthorized');
+    } else {
+      done(true);
+    }
+  },
+});
+
+// 運行時配置：套用控制面板保存的修改（在建立引擎之前）
+const runtimeConfig = new RuntimeConfigStore();
+runtimeConfig.load();
 
-// Bot state
-let botRunning = false;
-let botInterval: NodeJS.Timeout | null = null;
-const fetcher = new MarketFetcher();
-const trader = new Trader();
-const strategy = new Strategy();
+// 交易引擎：server 只把引擎事件推送給前端，並把前端指令轉給引擎
+const engine = new BotEngine();
 
-// 購買鎖 - 防止同一市場重複購買
-let buyingInProgress = false;
-let lastBoughtMarketId: string | null = null;
+// 通知：成交、止損、清倉、熔斷、連續出錯和啟動 / 停止推送到 Telegram / Discord / webhook
+const notifier = new Notifier();
+notifier.attach(engine);
 
-// Connected clients
-const clients = new Set<WebSocket>();
+// Prometheus 指標：統計 Gamma / CLOB 請求，抓取時讀取引擎的盈虧和持倉
+instrumentHttpClients();
+registerEngineMetrics(engine, riskManager);
 
-// Broadcast to all clients
+// Connected clients 和它們的登入身份
+const clients = new Map<WebSocket, Session>();
+
+// 登出或 session 過期時斷開該 session 的連接
+const SESSION_CLOSED = 4401;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * 重新檢查連接的 session（token 登入沒有 id，不會過期），已過期或登出時斷開並返回 null
+ */
+function activeSession(client: WebSocket, session: Session): Session | null {
+  const current = session.id ? auth.getSession(session.id) : session;
+  if (!current) {
+    clients.delete(client);
+    client.close(SESSION_CLOSED, 'Session expired');
+  }
+  return current;
+}
+
+// Broadcast to all clients（不推送給已過期的 session）
 function broadcast(type: string, data: any) {
   const message = JSON.stringify({ type, data });
-  clients.forEach((client) => {
-    if (client.readyState === WebSocket.OPEN) {
+  clients.forEach((session, client) => {
+    if (client.readyState === WebSocket.OPEN && activeSession(client, session)) {
       client.send(message);
     }
   });
 }
 
-// Helper to add delay between API calls
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// 機器人停止時沒有廣播，定時斷開過期的連接
+setInterval(() => clients.forEach((session, client) => activeSession(client, session)), SESSION_SWEEP_INTERVAL_MS).unref();
 
-// Bot tick function
-async function tick() {
-  try {
-    const state = await fetcher.getMarketState();
-    await delay(500); // Rate limit protection
+// 賬戶風控熔斷 / 重新啟用推送給前端（清倉由各 runner 的下一個 tick 執行）
+riskManager.on('halt', (status) => {
+  broadcast('risk_halt', status);
+});
+riskManager.on('rearm', (status) => {
+  broadcast('risk_status', status);
+});
 
-    if (!state) {
-      console.log('[Tick] No market state');
-      broadcast('market', null);
-      return;
-    }
-    
-    console.log(`[Tick] Up: ${state.upPrice.toFixed(1)}¢, Down: ${state.downPrice.toFixed(1)}¢, timeToStart: ${Math.round(state.timeToStart/1000)}s`);
+// 訂單狀態變化推送給前端
+function serializeOrder(order: ManagedOrder, strategy: string, series: string) {
+  return {
+    strategy,
+    series,
+    orderId: order.orderId,
+    tokenId: order.tokenId,
+    outcome: order.outcome,
+    side: order.side,
+    price: order.price,
+    size: order.size,
+    filledSize: order.filledSize,
+    status: order.status,
+    reason: order.reason,
+    paper: order.paper,
+    updatedAt: order.updatedAt,
+  };
+}
+
+// 可修改的參數、配置檔和可選的策略 / 系列
+function configPayload() {
+  return {
+    ...runtimeConfig.getValues(),
+    profile: runtimeConfig.getActiveProfile(),
+    profiles: runtimeConfig.listProfiles(),
+    availableStrategies: listStrategies(),
+    availableSeries: listSeries(),
+  };
+}
 
-    // Broadcast market state
-    broadcast('market', {
+function broadcastConfig() {
+  broadcast('config', configPayload());
+  broadcast('config_history', runtimeConfig.getHistory());
+  broadcast('status', botStatus());
+}
+
+function botStatus() {
+  return {
+    running: engine.isRunning(),
+    connected: true,
+    paperTrade: config.PAPER_TRADING,
+  };
+}
+
+engine.on('market', ({ series, state }) => {
+  if (!state) {
+    log.info(`[Tick] ${series.id} No market state`);
+    broadcast('market', { series: series.id, label: series.label, market: null });
+    return;
+  }
+
+  log.info(`[Tick] ${series.id} Up: ${state.upPrice.toFixed(1)}¢, Down: ${state.downPrice.toFixed(1)}¢, timeToStart: ${Math.round(state.timeToStart/1000)}s`);
+
+  broadcast('market', {
+    series: series.id,
+    label: series.label,
+    market: {
       currentMarket: state.currentMarket?.question || null,
       nextMarket: state.nextMarket?.question || null,
       upPrice: state.upPrice,
       downPrice: state.downPrice,
       timeToStart: state.timeToStart,
       timeToEnd: state.timeToEnd,
-    });
-
-    // 從 API 同步持倉（只同步當前和下一個市場，避免 rate limit）
-    await trader.syncPositionsFromApi(state.upTokenId, state.downTokenId, state.upPrice, state.downPrice);
-    await delay(300);
-    if (state.currentUpTokenId && state.currentDownTokenId) {
-      await trader.syncPositionsFromApi(state.currentUpTokenId, state.currentDownTokenId, state.currentUpPrice, state.currentDownPrice);
-      await delay(300);
-    }
+      spot: state.spot ?? null,
+      fairValue: fairValues(state),
+    },
+  });
+});
 
-    // Update position prices
-    const positions = trader.getPositions();
-    strategy.updatePositionPrices(positions, state);
+engine.on('tick', () => broadcastPortfolio());
+// 日誌推送給前端的日誌頁（admin token 等敏感資訊只輸出到控制台，不經過 logger）
+logManager.on('entry', (entry) => broadcast('log', entry));
+engine.on('trade', (trade) => broadcast('trade', trade));
+engine.on('risk_rejection', (rejection) => broadcast('risk_rejection', rejection));
+engine.on('order', ({ order, strategy, series }) => broadcast('order', serializeOrder(order, strategy, series)));
+engine.on('status', () => broadcast('status', botStatus()));
+engine.on('tick_error', ({ series, error }) => {
+  log.error(`[Bot] ${series.id} Tick error`, { error });
+});
+
+/**
+ * 推送所有系列、所有策略的持倉 / 訂單 / 盈虧
+ */
+function broadcastPortfolio() {
+  const runners = engine.getRunners();
 
-    // Broadcast positions
-    const positionsArray = Array.from(positions.values()).map((pos) => ({
+  broadcast('positions', runners.flatMap((runner) =>
+    Array.from(runner.trader.getPositions().values()).map((pos) => ({
+      strategy: runner.name,
+      series: runner.series,
       tokenId: pos.tokenId,
       outcome: pos.outcome,
       size: pos.size,
       avgBuyPrice: pos.avgBuyPrice,
       currentPrice: pos.currentPrice,
       unrealizedPnl: (pos.currentPrice - pos.avgBuyPrice) * pos.size,
-    }));
-    broadcast('positions', positionsArray);
-
-    // 當前市場 ID
-    const marketId = state.nextMarket?.conditionId || state.currentMarket?.conditionId || '';
-    
-    // 如果市場改變了，重置購買鎖
-    if (lastBoughtMarketId && lastBoughtMarketId !== marketId) {
-      console.log(`[重置] 市場已改變，允許新購買`);
-      lastBoughtMarketId = null;
-    }
-
-    // 檢查現有持倉是否需要補掛 Limit Sell 或清理剩餘
-    for (const [tokenId, pos] of positions) {
-      if (pos.size > 0 && !config.PAPER_TRADING) {
-        // 先嘗試補掛 Limit Sell
-        await trader.placeLimitSellForPosition(tokenId, pos.outcome, pos.avgBuyPrice);
-        await delay(300);
-        // 清理剩餘小數股份（< 1 股）
-        await trader.marketSellRemainder(tokenId, pos.outcome, pos.currentPrice);
-        await delay(300);
-      }
-    }
-
-    // Generate and execute signals
-    const signals = strategy.generateSignals(state, positions);
-
-    for (const signal of signals) {
-      console.log(`📍 Signal: ${signal.action} ${signal.outcome} - ${signal.reason}`);
-
-      let success = false;
-      if (signal.action === 'BUY') {
-        // 防止重複購買: 檢查鎖和市場 ID
-        if (buyingInProgress) {
-          console.log(`[跳過] 購買中，等待上一筆完成`);
-          continue;
-        }
-        if (lastBoughtMarketId === marketId) {
-          console.log(`[跳過] 已在此市場購買過`);
-          continue;
-        }
-
-        buyingInProgress = true;
-        try {
-          success = await trader.buy(signal.tokenId, signal.outcome, signal.price, signal.size);
-          if (success) {
-            lastBoughtMarketId = marketId;
-            console.log(`[鎖定] 已記錄市場: ${marketId.slice(0, 20)}...`);
-          }
-        } finally {
-          buyingInProgress = false;
-        }
-      } else if (signal.action === 'SELL') {
-        // 檢查是否是強制清倉（開局前）
-        if (signal.reason?.includes('開局清倉')) {
-          success = await trader.forceLiquidate(signal.tokenId, signal.outcome, signal.price);
-        } else {
-          success = await trader.sell(signal.tokenId, signal.outcome, signal.price, signal.size);
-        }
-        // 賣出後重置市場鎖，允許下一次購買
-        if (success) {
-          lastBoughtMarketId = null;
-        }
-      }
-
-      await delay(500); // Rate limit between trades
-      if (success) {
-        // Broadcast trade
-        broadcast('trade', {
-          id: Date.now().toString(),
-          timestamp: Date.now(),
-          market: state.nextMarket?.question || state.currentMarket?.question || 'Unknown',
-          outcome: signal.outcome,
-          side: signal.action,
-          price: signal.price,
-          size: signal.size,
-          pnl: signal.action === 'SELL' ? (signal.price - (positions.get(signal.tokenId)?.avgBuyPrice || signal.price)) * signal.size : undefined,
-        });
-      }
-    }
-
-    // Broadcast PnL stats
-    const history = trader.getTradeHistory();
-    const totalPnl = history.reduce((sum, t) => sum + (t.pnl || 0), 0);
-    const wins = history.filter((t) => (t.pnl || 0) > 0).length;
-    const totalTrades = history.filter((t) => t.side === 'SELL').length;
-
-    broadcast('pnl', {
-      totalPnl,
-      totalTrades,
-      winRate: totalTrades > 0 ? (wins / totalTrades) * 100 : 0,
-    });
-  } catch (error) {
-    console.error('[Bot] Tick error:', error);
-  }
+    }))
+  ));
+  broadcast('orders', runners.flatMap((runner) =>
+    runner.trader.getOrderManager().getAllOrders().map((order) => serializeOrder(order, runner.name, runner.series))
+  ));
+
+  const stats = runners.map((runner) => runner.getStats());
+  const totalTrades = stats.reduce((sum, s) => sum + s.totalTrades, 0);
+  const wins = stats.reduce((sum, s) => sum + (s.winRate * s.totalTrades) / 100, 0);
+  broadcast('strategies', stats);
+  broadcast('risk_status', riskManager.getAccountStatus());
+  broadcast('pnl', {
+    totalPnl: stats.reduce((sum, s) => sum + s.totalPnl, 0),
+    totalTrades,
+    winRate: totalTrades > 0 ? (wins / totalTrades) * 100 : 0,
+  });
 }
 
 // Start bot
 async function startBot() {
-  if (botRunning) return;
-
-  console.log('🚀 Starting bot...');
-  
-  // 重置購買鎖
-  lastBoughtMarketId = null;
-  buyingInProgress = false;
-
-  // Sync server time
-  await fetcher.syncServerTime();
+  if (engine.isRunning()) return;
 
-  // Initialize trader
-  const initialized = await trader.initialize();
-  if (!initialized && !config.PAPER_TRADING) {
-    console.error('❌ Failed to initialize trader');
+  log.info('🚀 Starting bot...');
+  try {
+    await engine.start();
+  } catch (error: any) {
+    log.error('❌ 啟動失敗', { error });
     return;
   }
-
-  botRunning = true;
-  botInterval = setInterval(tick, config.POLL_INTERVAL_MS);
-
-  broadcast('status', {
-    running: true,
-    connected: true,
-    paperTrade: config.PAPER_TRADING,
-  });
-
-  console.log('✅ Bot started');
+  log.info(`[系列] ${engine.getLoops().map((l) => l.series.id).join(', ')} | [策略] ${config.STRATEGIES.join(', ')}`);
+  log.info('✅ Bot started');
 }
 
 // Stop bot
 function stopBot() {
-  if (!botRunning) return;
-
-  console.log('🛑 Stopping bot...');
-
-  if (botInterval) {
-    clearInterval(botInterval);
-    botInterval = null;
-  }
-
-  botRunning = false;
-
-  broadcast('status', {
-    running: false,
-    connected: true,
-    paperTrade: config.PAPER_TRADING,
-  });
+  if (!engine.isRunning()) return;
 
-  console.log('✅ Bot stopped');
+  log.info('🛑 Stopping bot...');
+  engine.stop();
+  log.info('✅ Bot stopped');
 }
 
+// 需要 operator 角色的 WebSocket 指令（viewer 只接收推送）
+const OPERATOR_COMMANDS = [
+  'start',
+  'stop',
+  'risk_rearm',
+  'config',
+  'config_profile',
+  'config_profile_save',
+  'config_profile_delete',
+  'keystore_unlock',
+  'keystore_lock',
+];
+
 // WebSocket connection handler
-wss.on('connection', (ws) => {
-  console.log('[WS] Client connected');
-  clients.add(ws);
+wss.on('connection', (ws, req) => {
+  const session = auth.authenticate(req)!; // verifyClient 已拒絕未登入的連接
+  log.info(`[WS] Client connected (${session.username}/${session.role})`);
+  clients.set(ws, session);
 
   // Send initial state
   ws.send(
     JSON.stringify({
       type: 'status',
       data: {
-        running: botRunning,
+        running: engine.isRunning(),
         connected: true,
         paperTrade: config.PAPER_TRADING,
         totalPnl: 0,
@@ -265,21 +277,13 @@ wss.on('connection', (ws) => {
     })
   );
 
-  ws.send(
-    JSON.stringify({
-      type: 'config',
-      data: {
-        paperTrade: config.PAPER_TRADING,
-        maxBuyPrice: config.MAX_BUY_PRICE,
-        profitTarget: config.PROFIT_TARGET,
-        stopLoss: config.STOP_LOSS,
-        maxPositionSize: config.MAX_POSITION_SIZE,
-        allowCurrentMarketTrading: config.ALLOW_CURRENT_MARKET_TRADING,
-        privateKey: '',
-        funderAddress: config.FUNDER_ADDRESS,
-      },
-    })
-  );
+  ws.send(JSON.stringify({ type: 'config', data: configPayload() }));
+  ws.send(JSON.stringify({ type: 'config_history', data: runtimeConfig.getHistory() }));
+
+  ws.send(JSON.stringify({ type: 'risk_rejections', data: engine.audit.getRecentRejections() }));
+  ws.send(JSON.stringify({ type: 'risk_status', data: riskManager.getAccountStatus() }));
+  ws.send(JSON.stringify({ type: 'keystore', data: keystoreStatus() }));
+  ws.send(JSON.stringify({ type: 'logs', data: logManager.getRecent() }));
 
   // Handle messages
   ws.on('message', async (data) => {
@@ -287,6 +291,14 @@ wss.on('connection', (ws) => {
       const message = JSON.parse(data.toString());
       const { type, data: payload } = message;
 
+      // 每條指令都重新檢查 session（可能已過期或登出）和角色
+      const current = activeSession(ws, session);
+      if (!current) return;
+      if (OPERATOR_COMMANDS.includes(type) && !hasRole(current, 'operator')) {
+        ws.send(JSON.stringify({ type: 'error', data: { message: `權限不足：${type} 需要 operator` } }));
+        return;
+      }
+
       switch (type) {
         case 'start':
           await startBot();
@@ -294,87 +306,184 @@ wss.on('connection', (ws) => {
         case 'stop':
           stopBot();
           break;
-        case 'config':
-          // Update config (in memory only for security)
-          if (payload.privateKey) {
-            (config as any).PRIVATE_KEY = payload.privateKey;
-          }
-          if (payload.funderAddress) {
-            (config as any).FUNDER_ADDRESS = payload.funderAddress;
-          }
-          if (payload.paperTrade !== undefined) {
-            (config as any).PAPER_TRADING = payload.paperTrade;
-          }
-          if (payload.maxBuyPrice) {
-            (config as any).MAX_BUY_PRICE = payload.maxBuyPrice;
-          }
-          if (payload.profitTarget) {
-            (config as any).PROFIT_TARGET = payload.profitTarget;
-          }
-          if (payload.maxPositionSize) {
-            (config as any).MAX_POSITION_SIZE = payload.maxPositionSize;
-          }
-          if (payload.stopLoss) {
-            (config as any).STOP_LOSS = payload.stopLoss;
+        case 'risk_rearm':
+          riskManager.rearm();
+          break;
+        case 'keystore_unlock':
+          // 密碼只用於解鎖，私鑰留在 signer 中，只推送地址
+          try {
+            await unlockKeystore(String(payload?.passphrase || ''));
+          } catch (error: any) {
+            ws.send(JSON.stringify({ type: 'error', data: { message: error?.message || String(error) } }));
           }
-          if (payload.allowCurrentMarketTrading !== undefined) {
-            (config as any).ALLOW_CURRENT_MARKET_TRADING = payload.allowCurrentMarketTrading;
+          broadcast('keystore', keystoreStatus());
+          break;
+        case 'keystore_lock':
+          if (!engine.isRunning()) lockKeystore();
+          broadcast('keystore', keystoreStatus());
+          break;
+        case 'config':
+        case 'config_profile':
+        case 'config_profile_save':
+        case 'config_profile_delete': {
+          // 校驗失敗時全部不套用，把錯誤和當前配置發回給這個客戶端（還原前端的修改）
+          const options = { user: current.username, running: engine.isRunning() };
+          try {
+            if (type === 'config') runtimeConfig.update(payload, options);
+            if (type === 'config_profile') runtimeConfig.applyProfile(String(payload?.name), options);
+            if (type === 'config_profile_save') runtimeConfig.saveProfile(String(payload?.name), current.username);
+            if (type === 'config_profile_delete') runtimeConfig.deleteProfile(String(payload?.name), current.username);
+          } catch (error: any) {
+            ws.send(JSON.stringify({ type: 'error', data: { message: error?.message || String(error), scope: 'config' } }));
+            ws.send(JSON.stringify({ type: 'config', data: configPayload() }));
+            break;
           }
-
-          broadcast('status', {
-            running: botRunning,
-            connected: true,
-            paperTrade: config.PAPER_TRADING,
-          });
-
-          console.log('[Config] Updated');
+          broadcastConfig();
           break;
+        }
       }
     } catch (error) {
-      console.error('[WS] Message error:', error);
+      log.error('[WS] Message error', { error });
     }
   });
 
   ws.on('close', () => {
-    console.log('[WS] Client disconnected');
+    log.info('[WS] Client disconnected');
     clients.delete(ws);
   });
 });
 
+// 登入 / 登出
+app.post('/api/login', (req, res) => {
+  const ip = req.socket.remoteAddress || '';
+  if (!auth.isOriginAllowed(req.headers.origin, req.headers.host)) {
+    res.status(403).json({ error: '不允許的來源' });
+    return;
+  }
+  if (auth.isLockedOut(ip)) {
+    res.status(429).json({ error: '登入失敗次數過多，請稍後再試' });
+    return;
+  }
+  const { username, password, token } = req.body || {};
+  const session = auth.login({ username, password, token }, ip);
+  if (!session) {
+    res.status(401).json({ error: '用戶名、密碼或 token 錯誤' });
+    return;
+  }
+  res.setHeader('Set-Cookie', auth.sessionCookie(session));
+  res.json({ username: session.username, role: session.role });
+});
+
+app.post('/api/logout', auth.require('viewer'), (req, res) => {
+  const session: Session = res.locals.session;
+  if (session.id) {
+    auth.logout(session.id);
+    for (const [client, clientSession] of clients) {
+      if (clientSession.id === session.id) {
+        clients.delete(client);
+        client.close(SESSION_CLOSED, 'Logged out');
+      }
+    }
+  }
+  res.setHeader('Set-Cookie', auth.clearCookie());
+  res.json({ success: true });
+});
+
+app.get('/api/session', auth.require('viewer'), (req, res) => {
+  const session: Session = res.locals.session;
+  res.json({ username: session.username, role: session.role });
+});
+
+// 存活檢查（Docker healthcheck），不需要登入，不返回任何交易狀態
+app.get('/api/health', (req, res) => {
+  res.json({ ok: true });
+});
+
 // API routes
-app.get('/api/status', (req, res) => {
+app.get('/api/status', auth.require('viewer'), (req, res) => {
   res.json({
-    running: botRunning,
+    running: engine.isRunning(),
     paperTrade: config.PAPER_TRADING,
   });
 });
 
-app.post('/api/start', async (req, res) => {
+app.post('/api/start', auth.require('operator'), async (req, res) => {
   await startBot();
-  res.json({ running: botRunning });
+  res.json({ running: engine.isRunning() });
 });
 
-app.post('/api/stop', (req, res) => {
+app.post('/api/stop', auth.require('operator'), (req, res) => {
   stopBot();
-  res.json({ running: botRunning });
+  res.json({ running: engine.isRunning() });
 });
 
-app.post('/api/config', (req, res) => {
-  const payload = req.body;
-  if (payload.privateKey) {
-    (config as any).PRIVATE_KEY = payload.privateKey;
-  }
-  if (payload.funderAddress) {
-    (config as any).FUNDER_ADDRESS = payload.funderAddress;
+app.get('/api/config', auth.require('viewer'), (req, res) => {
+  res.json(configPayload());
+});
+
+app.post('/api/config', auth.require('operator'), (req, res) => {
+  const session: Session = res.locals.session;
+  try {
+    const changes = runtimeConfig.update(req.body || {}, { user: session.username, running: engine.isRunning() });
+    broadcastConfig();
+    res.json({ changes, config: configPayload() });
+  } catch (error: any) {
+    res.status(400).json({ error: error?.message || String(error) });
   }
-  if (payload.paperTrade !== undefined) {
-    (config as any).PAPER_TRADING = payload.paperTrade;
+});
+
+app.post('/api/config/profile', auth.require('operator'), (req, res) => {
+  const session: Session = res.locals.session;
+  try {
+    const changes = runtimeConfig.applyProfile(String(req.body?.name), { user: session.username, running: engine.isRunning() });
+    broadcastConfig();
+    res.json({ changes, config: configPayload() });
+  } catch (error: any) {
+    res.status(400).json({ error: error?.message || String(error) });
   }
-  if (payload.maxBuyPrice) {
-    (config as any).MAX_BUY_PRICE = payload.maxBuyPrice;
+});
+
+app.get('/api/config/history', auth.require('viewer'), (req, res) => {
+  res.json(runtimeConfig.getHistory(Number(req.query.limit) || undefined));
+});
+
+// 最近的日誌（可按最低級別和 tickId 過濾）
+app.get('/api/logs', auth.require('viewer'), (req, res) => {
+  const minLevel = Math.max(LOG_LEVELS.indexOf(String(req.query.level) as LogLevel), 0);
+  const tickId = req.query.tickId ? String(req.query.tickId) : null;
+  const entries = logManager
+    .getRecent()
+    .filter((entry) => LOG_LEVELS.indexOf(entry.level) >= minLevel && (!tickId || entry.tickId === tickId));
+  res.json(entries.slice(-(Number(req.query.limit) || entries.length)));
+});
+
+// 向所有通知渠道發送測試訊息
+app.post('/api/notify/test', auth.require('operator'), (req, res) => {
+  const session: Session = res.locals.session;
+  notifier.notify({ type: 'test', level: 'info', title: '測試通知', message: `由 ${session.username} 從控制面板發送` });
+  res.json({ channels: notifier.getChannels() });
+});
+
+// Prometheus 抓取（Bearer METRICS_TOKEN 或已登入的 viewer）
+app.get('/metrics', auth.requireMetrics(), async (req, res) => {
+  res.set('Content-Type', registry.contentType);
+  res.send(await registry.metrics());
+});
+
+app.get('/api/keystore', auth.require('viewer'), (req, res) => {
+  res.json(keystoreStatus());
+});
+
+app.post('/api/keystore/unlock', auth.require('operator'), async (req, res) => {
+  try {
+    await unlockKeystore(String(req.body?.passphrase || ''));
+  } catch (error: any) {
+    res.status(400).json({ error: error?.message || String(error) });
+    return;
   }
-  console.log('[Config] Updated via API:', { paperTrade: config.PAPER_TRADING });
-  res.json({ success: true, paperTrade: config.PAPER_TRADING });
+  const status = keystoreStatus();
+  broadcast('keystore', status);
+  res.json(status);
 });
 
 // SPA fallback - serve index.html for all non-API routes
@@ -382,8 +491,9 @@ app.get('*', (req, res) => {
   res.sendFile(path.join(frontendPath, 'index.html'));
 });
 
-// Start server
+// Start server：有 KEYSTORE_PASSPHRASE 時解鎖 keystore，否則之後從控制面板解鎖
 const PORT = Number(process.env.PORT) || 3002;
+await loadSigner(false);
 server.listen(PORT, () => {
   console.log(`
 ╔══════════════════════════════════════════════════════════════╗
@@ -397,4 +507,7 @@ server.listen(PORT, () => {
 ║                                                              ║
 ╚══════════════════════════════════════════════════════════════╝
   `);
+  if (auth.generatedToken) {
+    console.log(`🔑 未設定 ADMIN_TOKEN / AUTH_USERS，本次啟動的 admin token: ${auth.adminToken}`);
+  }
 });
@@ -0,0 +1,231 @@
+/**
+ * 回測引擎 - 將錄製的市場快照逐 tick 餵給 Strategy 和 SimulatedTrader
+ *
+ * 數據文件: 錄製器寫入的 *.jsonl.gz，或手動準備的 *.jsonl，每行一個 RecordedTick
+ */
+import fs from 'fs';
+import path from 'path';
+import { config, withConfigOverrides, type ConfigOverrides } from './config.js';
+import { takeProfitTarget } from './exit-policy.js';
+import { readAllRecordings } from './market-recorder.js';
+import { matchesSeries, type SeriesDescriptor } from './series.js';
+import { createStrategy, tradingTimeRemaining, updatePositionPrices } from './strategies/index.js';
+import { SimulatedTrader, type SimulatedFill } from './simulated-trader.js';
+import type { RecordedTick } from './types.js';
+
+// 可在回測中覆蓋的參數
+export type BacktestOverrides = Partial<Pick<typeof config,
+  | 'MAX_BUY_PRICE'
+  | 'PROFIT_TARGET'
+  | 'STOP_LOSS'
+  | 'EXIT_TRAILING_STOP_CENTS'
+  | 'EXIT_BREAK_EVEN_TRIGGER_CENTS'
+  | 'EXIT_TP_DECAY_START_MS'
+  | 'EXIT_TP_MIN_CENTS'
+  | 'MAX_POSITION_SIZE'
+  | 'ALLOW_CURRENT_MARKET_TRADING'
+  | 'SELL_BEFORE_START_MS'
+  | 'MIN_TIME_TO_TRADE_MS'
+  | 'MM_QUOTE_SIZE'
+  | 'MM_HALF_SPREAD_CENTS'
+  | 'MM_MIN_EDGE_CENTS'
+  | 'MM_SKEW_CENTS'
+  | 'MM_MAX_INVENTORY'
+  | 'ARB_MAX_SIZE'
+  | 'ARB_MIN_PROFIT_CENTS'
+>>;
+
+export interface BacktestOptions {
+  strategy?: string; // 策略名稱，默認 STRATEGIES 第一個
+  overrides?: BacktestOverrides;
+  quiet?: boolean; // 回測期間不輸出日誌（LOG_LEVEL=silent）
+}
+
+export interface RoundReport {
+  slug: string;
+  buys: number;
+  sells: number;
+  volume: number; // 成交股數
+  fees: number; // cents
+  grossPnl: number; // cents
+  netPnl: number; // cents
+  heldToSettlement: boolean;
+}
+
+export interface BacktestReport {
+  ticks: number;
+  startTime: number;
+  endTime: number;
+  rounds: RoundReport[];
+  totalGrossPnl: number;
+  totalFees: number;
+  totalNetPnl: number;
+  winningRounds: number;
+  losingRounds: number;
+  fills: SimulatedFill[];
+}
+
+/**
+ * 從目錄讀取所有錄製文件，按時間排序並去除重複 tick
+ * 指定 series 時只保留該系列的盤口（同一目錄可能錄製了多個系列）
+ */
+export function loadRecordedTicks(dir: string, series?: SeriesDescriptor): RecordedTick[] {
+  const files = fs.readdirSync(dir).filter((f) => f.endsWith('.jsonl')).sort();
+  const byTimestamp = new Map<number, RecordedTick>();
+
+  for (const tick of readAllRecordings(dir, series)) {
+    byTimestamp.set(tick.timestamp, tick);
+  }
+
+  for (const file of files) {
+    const lines = fs.readFileSync(path.join(dir, file), 'utf8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const tick = JSON.parse(line) as RecordedTick;
+      const market = tick.state.nextMarket || tick.state.currentMarket;
+      if (series && !matchesSeries(series, market?.slug)) continue;
+      byTimestamp.set(tick.timestamp, tick);
+    }
+  }
+
+  return Array.from(byTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export class BacktestEngine {
+  constructor(private options: BacktestOptions = {}) {}
+
+  /**
+   * 參數覆蓋和靜音只作用於本次回測，不修改全局 config（同一進程中的交易循環不受影響）
+   */
+  async run(ticks: RecordedTick[]): Promise<BacktestReport> {
+    const overrides: ConfigOverrides = { ...this.options.overrides, ...(this.options.quiet ? { LOG_LEVEL: 'silent' } : {}) };
+    return withConfigOverrides(overrides, () => this.replay(ticks));
+  }
+
+  private async replay(ticks: RecordedTick[]): Promise<BacktestReport> {
+    const strategy = createStrategy(this.options.strategy || config.STRATEGIES[0]);
+    const trader = new SimulatedTrader();
+    let lastBoughtMarketId: string | null = null;
+
+    for (const tick of ticks) {
+      const state = tick.state;
+      trader.onTick(tick);
+
+      const positions = trader.getPositions();
+      updatePositionPrices(positions, state);
+
+      // 與 server 相同的購買鎖：市場改變後才允許再次購買
+      const marketId = state.nextMarket?.conditionId || state.currentMarket?.conditionId || '';
+      if (lastBoughtMarketId && lastBoughtMarketId !== marketId) {
+        lastBoughtMarketId = null;
+      }
+
+      // 與 StrategyRunner 相同：Limit Sell 掛在出場規則當前的獲利目標
+      if (strategy.autoLimitSell !== false) {
+        for (const [tokenId, pos] of positions) {
+          const target = pos.avgBuyPrice + takeProfitTarget(tradingTimeRemaining(tokenId, state));
+          await trader.repriceLimitSell(tokenId, pos.outcome, target);
+          await trader.placeLimitSellForPosition(tokenId, pos.outcome, pos.avgBuyPrice, target);
+        }
+      }
+
+      const signals = strategy.generateSignals(state, positions, tick.orderBooks, { collateral: trader.getCollateralBalance() });
+      for (const signal of signals) {
+        if (signal.action === 'BUY' && signal.pairedLeg) {
+          const market = state.allMarkets.find((m) => m.tokens.some((t) => t.tokenId === signal.tokenId));
+          if (market) await trader.buyCompleteSet(market, signal.price, signal.pairedLeg.price, signal.size);
+        } else if (signal.action === 'BUY') {
+          if (lastBoughtMarketId === marketId) continue;
+          const target = signal.price + takeProfitTarget(tradingTimeRemaining(signal.tokenId, state));
+          const success = await trader.buy(signal.tokenId, signal.outcome, signal.price, signal.size, target);
+          if (success) lastBoughtMarketId = marketId;
+        } else if (signal.action === 'QUOTE') {
+          const quotes = trader.getOpenOrders(signal.tokenId, 'BUY');
+          if (quotes.length === 1 && Math.abs(quotes[0].price - signal.price) < config.MM_REQUOTE_CENTS) continue;
+          await trader.requote(signal.tokenId, signal.outcome, signal.price, signal.size);
+        } else if (signal.action === 'CANCEL') {
+          trader.cancelOrders(signal.tokenId, 'BUY');
+        } else if (signal.action === 'SELL') {
+          // 與 StrategyRunner 相同：按信號的出場類型分派，強制清倉用 -10¢ 的可成交限價單
+          const success = signal.exitKind === 'force_liquidation'
+            ? await trader.forceLiquidate(signal.tokenId, signal.outcome, signal.price)
+            : await trader.sell(signal.tokenId, signal.outcome, signal.price, signal.size);
+          if (success) lastBoughtMarketId = null;
+        }
+      }
+    }
+
+    return this.buildReport(ticks, trader.getFills());
+  }
+
+  private buildReport(ticks: RecordedTick[], fills: SimulatedFill[]): BacktestReport {
+    const rounds = new Map<string, RoundReport>();
+
+    for (const fill of fills) {
+      let round = rounds.get(fill.slug);
+      if (!round) {
+        round = {
+          slug: fill.slug,
+          buys: 0,
+          sells: 0,
+          volume: 0,
+          fees: 0,
+          grossPnl: 0,
+          netPnl: 0,
+          heldToSettlement: false,
+        };
+        rounds.set(fill.slug, round);
+      }
+
+      if (fill.side === 'BUY') round.buys++;
+      else round.sells++;
+      round.volume += fill.size;
+      round.fees += fill.fee;
+      round.grossPnl += fill.pnl || 0;
+      round.netPnl = round.grossPnl - round.fees;
+      if (fill.settlement) round.heldToSettlement = true;
+    }
+
+    const roundList = Array.from(rounds.values()).sort((a, b) => a.slug.localeCompare(b.slug));
+    const totalGrossPnl = roundList.reduce((sum, r) => sum + r.grossPnl, 0);
+    const totalFees = roundList.reduce((sum, r) => sum + r.fees, 0);
+
+    return {
+      ticks: ticks.length,
+      startTime: ticks[0]?.timestamp || 0,
+      endTime: ticks[ticks.length - 1]?.timestamp || 0,
+      rounds: roundList,
+      totalGrossPnl,
+      totalFees,
+      totalNetPnl: totalGrossPnl - totalFees,
+      winningRounds: roundList.filter((r) => r.netPnl > 0).length,
+      losingRounds: roundList.filter((r) => r.netPnl < 0).length,
+      fills,
+    };
+  }
+}
+
+/**
+ * 將回測報告格式化為文字表格
+ */
+export function formatReport(report: BacktestReport): string {
+  const lines: string[] = [];
+  lines.push(`Ticks: ${report.ticks} (${new Date(report.startTime).toISOString()} → ${new Date(report.endTime).toISOString()})`);
+  lines.push('');
+  lines.push(`${'Round'.padEnd(28)} ${'Buys'.padStart(5)} ${'Sells'.padStart(5)} ${'Volume'.padStart(8)} ${'Fees¢'.padStart(9)} ${'Gross¢'.padStart(10)} ${'Net¢'.padStart(10)}`);
+
+  for (const r of report.rounds) {
+    const flag = r.heldToSettlement ? ' *' : '';
+    lines.push(
+      `${r.slug.padEnd(28)} ${String(r.buys).padStart(5)} ${String(r.sells).padStart(5)} ${r.volume.toFixed(1).padStart(8)} ${r.fees.toFixed(2).padStart(9)} ${r.grossPnl.toFixed(2).padStart(10)} ${r.netPnl.toFixed(2).padStart(10)}${flag}`
+    );
+  }
+
+  lines.push('');
+  lines.push(`總盈虧: ${report.totalNetPnl.toFixed(2)}¢ (毛利 ${report.totalGrossPnl.toFixed(2)}¢, 手續費 ${report.totalFees.toFixed(2)}¢)`);
+  lines.push(`盈利局數: ${report.winningRounds} | 虧損局數: ${report.losingRounds} | 總局數: ${report.rounds.length}`);
+  if (report.rounds.some((r) => r.heldToSettlement)) {
+    lines.push('* 持有到結算');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,390 @@
+/**
+ * 交易引擎 - CLI（index.ts）和 Web 服務器（backend/server.ts）共用的交易循環
+ *
+ * 每個系列一個循環（各自的 fetcher、runners、配置覆蓋和定時器），每個 tick：
+ *   獲取市場狀態 → 錄製 → 同步持倉 / 訂單 / 結算 → 補掛 Limit Sell → 生成並執行信號
+ * 上一個 tick 完成後才排下一個，慢請求不會讓 tick 重疊。
+ * 引擎只發出事件（見 BotEngine 介面），日誌輸出和 WebSocket 推送由上層決定。
+ * 停止後保留 fetcher 和 runner（模擬持倉），再次啟動時沿用。
+ */
+import { EventEmitter } from 'events';
+import { config, withConfigOverrides, type ConfigOverrides } from './config.js';
+import { validateSigner } from './keystore.js';
+import { setLogContext, withLogContext } from './logger.js';
+import { MarketFetcher } from './market-fetcher.js';
+import { MarketFeed } from './market-feed.js';
+import { MarketRecorder } from './market-recorder.js';
+import { lastTick, orders, tickDuration, tickErrors } from './metrics.js';
+import { validateSizingMode } from './position-sizing.js';
+import { RiskAudit, type RiskAuditEntry } from './risk-audit.js';
+import { TradeLedger } from './trade-ledger.js';
+import { createSpotFeed, type SpotFeed } from './spot-feed.js';
+import { StrategyRunner, activeStrategyNames, createRunner } from './strategy-runner.js';
+import { updatePositionPrices } from './strategies/index.js';
+import { enabledSeries, seriesConfigOverrides, type SeriesDescriptor } from './series.js';
+import type { ManagedOrder } from './order-manager.js';
+import type { ExitKind, MarketState, OrderBook } from './types.js';
+
+export interface BotEngineOptions {
+  recordOnly?: boolean; // 只錄製市場數據，不交易
+  ledger?: TradeLedger;
+  audit?: RiskAudit;
+}
+
+// 每個系列一個交易循環
+export interface SeriesLoop {
+  series: SeriesDescriptor;
+  fetcher: MarketFetcher;
+  overrides: ConfigOverrides;
+  runners: StrategyRunner[];
+  timer: NodeJS.Timeout | null;
+}
+
+export interface EngineTrade {
+  id: string;
+  timestamp: number;
+  strategy: string;
+  series: string;
+  market: string;
+  outcome: 'Up' | 'Down';
+  side: 'BUY' | 'SELL';
+  price: number; // 成交均價
+  size: number; // 實際成交數量
+  sizeReason?: string;
+  reason?: string; // 信號原因（止損、開局清倉等）
+  exitKind?: ExitKind;
+  pnl?: number; // 賣出時按持倉成本計算
+}
+
+// 通過風控但下單失敗的買賣信號（例如強制清倉賣不出）
+export interface EngineTradeFailure {
+  timestamp: number;
+  strategy: string;
+  series: string;
+  market: string;
+  outcome: 'Up' | 'Down';
+  side: 'BUY' | 'SELL';
+  price: number;
+  size: number;
+  reason?: string;
+  exitKind?: ExitKind;
+}
+
+export interface MarketEvent {
+  series: SeriesDescriptor;
+  state: MarketState | null; // null 表示找不到進行中或即將開始的盤口
+}
+
+export interface TickEvent {
+  loop: SeriesLoop;
+  state: MarketState;
+}
+
+export interface EngineOrderEvent {
+  order: ManagedOrder;
+  strategy: string;
+  series: string;
+}
+
+export interface TickErrorEvent {
+  series: SeriesDescriptor;
+  error: unknown;
+}
+
+export interface BotEngine {
+  on(event: 'status', listener: (running: boolean) => void): this;
+  on(event: 'market', listener: (event: MarketEvent) => void): this;
+  on(event: 'tick', listener: (event: TickEvent) => void): this; // 系列的 tick 完成（所有 runner 已執行）
+  on(event: 'trade', listener: (trade: EngineTrade) => void): this;
+  on(event: 'trade_failed', listener: (failure: EngineTradeFailure) => void): this;
+  on(event: 'risk_rejection', listener: (rejection: RiskAuditEntry) => void): this;
+  on(event: 'order', listener: (event: EngineOrderEvent) => void): this;
+  on(event: 'tick_error', listener: (event: TickErrorEvent) => void): this;
+  emit(event: 'status', running: boolean): boolean;
+  emit(event: 'market', payload: MarketEvent): boolean;
+  emit(event: 'tick', payload: TickEvent): boolean;
+  emit(event: 'trade', trade: EngineTrade): boolean;
+  emit(event: 'trade_failed', failure: EngineTradeFailure): boolean;
+  emit(event: 'risk_rejection', rejection: RiskAuditEntry): boolean;
+  emit(event: 'order', payload: EngineOrderEvent): boolean;
+  emit(event: 'tick_error', payload: TickErrorEvent): boolean;
+}
+
+const TICK_DELAY_MS = 500; // 獲取市場狀態後的間隔 (rate limit)
+const SYNC_DELAY_MS = 300; // 實盤每次持倉同步 / 補掛之間的間隔
+
+export class BotEngine extends EventEmitter {
+  readonly feed: MarketFeed | null;
+  readonly spot: SpotFeed | null;
+  readonly ledger: TradeLedger;
+  readonly audit: RiskAudit;
+  private recorder: MarketRecorder | null;
+  private recordOnly: boolean;
+  private loops: SeriesLoop[] = [];
+  private running = false;
+  private generation = 0; // 每次啟動 / 停止遞增，舊循環的定時器不再續排
+  private tickCount = 0; // 日誌的 tickId 序號
+
+  // 按系列緩存 fetcher，按 系列/策略 緩存 runner
+  private fetcherCache = new Map<string, MarketFetcher>();
+  private runnerCache = new Map<string, StrategyRunner>();
+
+  constructor(options: BotEngineOptions = {}) {
+    super();
+    this.recordOnly = options.recordOnly ?? false;
+    this.feed = config.MARKET_FEED_ENABLED ? new MarketFeed() : null; // 所有系列共用一個行情連接
+    this.spot = createSpotFeed(); // 所有系列共用的標的現貨價格
+    this.ledger = options.ledger ?? new TradeLedger();
+    this.audit = options.audit ?? new RiskAudit();
+    this.recorder = config.RECORD_MARKET_DATA || this.recordOnly ? new MarketRecorder() : null;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  isRecordOnly(): boolean {
+    return this.recordOnly;
+  }
+
+  getLoops(): SeriesLoop[] {
+    return this.loops;
+  }
+
+  getRunners(): StrategyRunner[] {
+    return this.loops.flatMap((loop) => loop.runners);
+  }
+
+  /**
+   * 按當前 SERIES / STRATEGIES 建立循環並開始 tick
+   * 配置錯誤或實盤 Trader 初始化失敗時拋出，引擎保持停止
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    if (!this.recordOnly) validateSigner();
+    const strategies = this.recordOnly ? [] : activeStrategyNames();
+    const loops: SeriesLoop[] = enabledSeries().map((series) => ({
+      series,
+      fetcher: this.getFetcher(series),
+      overrides: seriesConfigOverrides(series.id),
+      runners: strategies.map((name) => this.getRunner(series, name)),
+      timer: null,
+    }));
+
+    // 系列可以覆蓋 POSITION_SIZING，每個系列都要檢查
+    if (!this.recordOnly) {
+      loops.forEach((loop) => withConfigOverrides(loop.overrides, () => validateSizingMode()));
+    }
+
+    for (const loop of loops) {
+      // 重置購買鎖
+      loop.runners.forEach((runner) => runner.resetLocks());
+      await loop.fetcher.syncServerTime();
+      for (const runner of loop.runners) {
+        const initialized = await runner.trader.initialize();
+        if (!initialized && !config.PAPER_TRADING) {
+          throw new Error(`${runner.label} Trader 初始化失敗`);
+        }
+      }
+    }
+
+    this.loops = loops;
+    this.running = true;
+    const generation = ++this.generation;
+    for (const loop of loops) {
+      this.schedule(loop, generation, 0);
+    }
+    this.emit('status', true);
+  }
+
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    this.generation++;
+    for (const loop of this.loops) {
+      if (loop.timer) clearTimeout(loop.timer);
+      loop.timer = null;
+    }
+    this.emit('status', false);
+  }
+
+  /**
+   * 停止並關閉行情和現貨連接（進程退出前調用）
+   */
+  close(): void {
+    this.stop();
+    this.feed?.close();
+    this.spot?.close();
+  }
+
+  private schedule(loop: SeriesLoop, generation: number, delayMs: number): void {
+    loop.timer = setTimeout(async () => {
+      await this.tick(loop);
+      if (generation !== this.generation) return;
+      this.schedule(loop, generation, withConfigOverrides(loop.overrides, () => config.POLL_INTERVAL_MS));
+    }, delayMs);
+  }
+
+  /**
+   * 系列的 tick：在該系列的配置覆蓋範圍內執行，期間的日誌都帶上 tickId / series / slug
+   */
+  tick(loop: SeriesLoop): Promise<void> {
+    const context = { tickId: `${loop.series.id}-${++this.tickCount}`, series: loop.series.id };
+    const labels = { series: loop.series.id };
+    return withLogContext(context, () =>
+      withConfigOverrides(loop.overrides, async () => {
+        const endTimer = tickDuration.startTimer(labels);
+        try {
+          await this.tickSeries(loop);
+        } catch (error) {
+          tickErrors.inc(labels);
+          this.emit('tick_error', { series: loop.series, error });
+        }
+        endTimer();
+        lastTick.setToCurrentTime(labels);
+      })
+    );
+  }
+
+  private async tickSeries(loop: SeriesLoop): Promise<void> {
+    const { series, fetcher, runners } = loop;
+    // 長時間運行時本地時鐘可能漂移，定期重新同步
+    if (Date.now() - fetcher.getLastTimeSyncAt() >= config.SERVER_TIME_SYNC_INTERVAL_MS) {
+      await fetcher.syncServerTime();
+    }
+    const state = await fetcher.getMarketState();
+    // 盤前交易下一盤口，沒有下一盤口時是當前盤口
+    setLogContext({ slug: state?.nextMarket?.slug ?? state?.currentMarket?.slug });
+    await this.sleep(TICK_DELAY_MS);
+
+    this.emit('market', { series, state });
+    if (!state) return;
+
+    const orderBooks = await fetcher.getOrderBooks(state);
+
+    // 錄製市場數據（用於回測）
+    if (this.recorder) {
+      await this.recorder.recordTick(fetcher, state, orderBooks);
+    }
+
+    for (const runner of runners) {
+      await this.tickRunner(runner, state, orderBooks);
+    }
+
+    this.emit('tick', { loop, state });
+  }
+
+  /**
+   * 單個策略的 tick：同步持倉和訂單，然後生成並執行信號
+   */
+  private async tickRunner(runner: StrategyRunner, state: MarketState, orderBooks: Record<string, OrderBook>): Promise<void> {
+    const { trader } = runner;
+
+    // 從 API 同步持倉（只同步當前和下一個市場，避免 rate limit）
+    await trader.syncPositionsFromApi(state.upTokenId, state.downTokenId, state.upPrice, state.downPrice);
+    if (!config.PAPER_TRADING) {
+      await this.sleep(SYNC_DELAY_MS);
+      if (state.currentUpTokenId && state.currentDownTokenId) {
+        await trader.syncPositionsFromApi(state.currentUpTokenId, state.currentDownTokenId, state.currentUpPrice, state.currentDownPrice);
+        await this.sleep(SYNC_DELAY_MS);
+      }
+    }
+
+    const positions = trader.getPositions();
+    updatePositionPrices(positions, state);
+
+    // 更新訂單狀態（實盤輪詢交易所，模擬交易撮合掛著的 Limit Sell）
+    await trader.syncOrders();
+    await trader.processPaperFills();
+    await trader.settleResolvedPositions();
+
+    // 實盤持倉補掛 Limit Sell，清理剩餘小數股份（< 1 股）
+    if (!config.PAPER_TRADING) {
+      for (const [tokenId, pos] of positions) {
+        if (pos.size <= 0) continue;
+        if (runner.strategy.autoLimitSell !== false) {
+          await trader.placeLimitSellForPosition(tokenId, pos.outcome, pos.avgBuyPrice, runner.limitSellPrice(tokenId, pos, state));
+          await this.sleep(SYNC_DELAY_MS);
+        }
+        await trader.marketSellRemainder(tokenId, pos.outcome, pos.currentPrice);
+        await this.sleep(SYNC_DELAY_MS);
+      }
+    }
+
+    const executed = await runner.execute(state, orderBooks);
+    for (const { signal, success, filledSize, avgFillPrice, pnl, rejection } of executed) {
+      if (rejection) {
+        this.emit('risk_rejection', rejection);
+        continue;
+      }
+      if (signal.action !== 'BUY' && signal.action !== 'SELL') continue;
+      const market = state.nextMarket?.question || state.currentMarket?.question || 'Unknown';
+      if (!success) {
+        this.emit('trade_failed', {
+          timestamp: Date.now(),
+          strategy: runner.name,
+          series: runner.series,
+          market,
+          outcome: signal.outcome,
+          side: signal.action,
+          price: signal.price,
+          size: signal.size,
+          reason: signal.reason,
+          exitKind: signal.exitKind,
+        });
+        continue;
+      }
+      // 實盤強制清倉等提交後才成交的訂單沒有成交記錄，由訂單狀態更新反映
+      if (!filledSize) continue;
+      this.emit('trade', {
+        id: `${Date.now()}-${runner.label}`,
+        timestamp: Date.now(),
+        strategy: runner.name,
+        series: runner.series,
+        market,
+        outcome: signal.outcome,
+        side: signal.action,
+        price: avgFillPrice!,
+        size: filledSize,
+        sizeReason: signal.sizeReason,
+        reason: signal.reason,
+        exitKind: signal.exitKind,
+        pnl,
+      });
+    }
+  }
+
+  private getFetcher(series: SeriesDescriptor): MarketFetcher {
+    let fetcher = this.fetcherCache.get(series.id);
+    if (!fetcher) {
+      fetcher = new MarketFetcher(this.feed, series, this.spot);
+      this.fetcherCache.set(series.id, fetcher);
+    }
+    return fetcher;
+  }
+
+  private getRunner(series: SeriesDescriptor, name: string): StrategyRunner {
+    const key = `${series.id}/${name}`;
+    let runner = this.runnerCache.get(key);
+    if (!runner) {
+      runner = createRunner(name, this.getFetcher(series), this.ledger, this.audit);
+      runner.trader.getOrderManager().on('update', ({ order }) => {
+        orders.inc({
+          series: series.id,
+          strategy: name,
+          side: order.side,
+          status: order.status.toLowerCase(),
+          mode: order.paper ? 'paper' : 'live',
+        });
+        this.emit('order', { order, strategy: name, series: series.id });
+      });
+      this.runnerCache.set(key, runner);
+    }
+    return runner;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
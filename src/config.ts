@@ -1,13 +1,41 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import dotenv from 'dotenv';
 dotenv.config();
 
-export const config = {
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * 解析 SERIES_CONFIG：系列 id -> 配置覆蓋，JSON 不合法或結構不對時拋出並指明 SERIES_CONFIG
+ */
+export function parseSeriesConfig(raw: string): Record<string, Record<string, unknown>> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error: any) {
+    throw new Error(`SERIES_CONFIG 不是合法的 JSON: ${error.message}`);
+  }
+  if (!isPlainObject(parsed)) {
+    throw new Error('SERIES_CONFIG 必須是 JSON 對象，例如 {"btc-1h": {"MAX_BUY_PRICE": 45}}');
+  }
+  for (const [id, overrides] of Object.entries(parsed)) {
+    if (!isPlainObject(overrides)) {
+      throw new Error(`SERIES_CONFIG.${id} 必須是 JSON 對象`);
+    }
+  }
+  return parsed as Record<string, Record<string, unknown>>;
+}
+
+const baseConfig = {
   // Polymarket API
-  CLOB_HOST: 'https://clob.polymarket.com',
-  GAMMA_HOST: 'https://gamma-api.polymarket.com',
-  CHAIN_ID: 137, // Polygon mainnet
+  // 可指向本地模擬服務器 (npm run mock)，見 src/mock-polymarket.ts
+  CLOB_HOST: process.env.CLOB_HOST || 'https://clob.polymarket.com',
+  GAMMA_HOST: process.env.GAMMA_HOST || 'https://gamma-api.polymarket.com',
+  CHAIN_ID: Number(process.env.CHAIN_ID) || 137, // Polygon mainnet
 
-  // Wallet
+  // Wallet（見 src/keystore.ts）：優先使用加密 keystore，PRIVATE_KEY 明文只作為回退
+  KEYSTORE_FILE: process.env.KEYSTORE_FILE || 'keys/keystore.json',
+  KEYSTORE_PASSPHRASE: process.env.KEYSTORE_PASSPHRASE || '', // 無人值守時的解鎖密碼，留空則啟動時詢問或從控制面板解鎖
   PRIVATE_KEY: process.env.PRIVATE_KEY || '',
   FUNDER_ADDRESS: process.env.FUNDER_ADDRESS || '', // Polymarket proxy wallet address
 
@@ -19,6 +47,39 @@ export const config = {
   ALLOW_CURRENT_MARKET_TRADING: process.env.ALLOW_CURRENT_MARKET_TRADING !== 'false', // 是否允許盤中交易（默認開啟）
   POLL_INTERVAL_MS: Number(process.env.POLL_INTERVAL_MS) || 5000,
   PAPER_TRADING: process.env.PAPER_TRADING === 'true',
+  PAPER_BANKROLL_USDC: Number(process.env.PAPER_BANKROLL_USDC) || 1000, // 模擬交易 / 回測的初始資金
+
+  // 倉位計算（見 src/position-sizing.ts）: fixed | fixed-fraction | kelly
+  POSITION_SIZING: process.env.POSITION_SIZING || 'fixed',
+  SIZING_FRACTION: Number(process.env.SIZING_FRACTION) || 0.02, // fixed-fraction: 每筆投入可用資金的比例
+  KELLY_FRACTION: Number(process.env.KELLY_FRACTION) || 0.25, // kelly: 實際使用的 Kelly 比例
+  KELLY_WIN_PROBABILITY: Number(process.env.KELLY_WIN_PROBABILITY) || 0.6, // kelly: premarket-scalp 達到獲利目標的估計勝率
+  SIZING_DEPTH_FRACTION: Number(process.env.SIZING_DEPTH_FRACTION ?? 1), // 最多買入可用流動性的比例，0 = 不按深度限制
+
+  // 公允價入場（見 src/fair-value.ts）：公允價 − 賣一價 > 來回手續費 + ENTRY_MIN_EDGE_CENTS 才買入
+  FAIR_VALUE_ENTRY: process.env.FAIR_VALUE_ENTRY !== 'false',
+  ENTRY_MIN_EDGE_CENTS: Number(process.env.ENTRY_MIN_EDGE_CENTS ?? 1),
+
+  // 出場規則（見 src/exit-policy.ts，0 = 關閉）
+  EXIT_TRAILING_STOP_CENTS: Number(process.env.EXIT_TRAILING_STOP_CENTS) || 0, // 移動止損：最高價回落此值時賣出
+  EXIT_BREAK_EVEN_TRIGGER_CENTS: Number(process.env.EXIT_BREAK_EVEN_TRIGGER_CENTS) || 0, // 保本止損：最高價漲過成本此值後，止損價提到成本
+  EXIT_TP_DECAY_START_MS: Number(process.env.EXIT_TP_DECAY_START_MS) || 0, // 剩餘時間少於此值時，獲利目標開始下降
+  EXIT_TP_MIN_CENTS: Number(process.env.EXIT_TP_MIN_CENTS ?? 0), // 獲利目標在清倉時間降到的值
+
+  // 策略（逗號分隔，見 src/strategies/index.ts）；模擬交易時全部並排執行，實盤只執行第一個
+  STRATEGIES: (process.env.STRATEGIES || 'premarket-scalp').split(',').map((s) => s.trim()).filter(Boolean),
+
+  // 做市策略 (market-maker)
+  MM_QUOTE_SIZE: Number(process.env.MM_QUOTE_SIZE) || 20, // 每邊報價股數
+  MM_HALF_SPREAD_CENTS: Number(process.env.MM_HALF_SPREAD_CENTS) || 1, // 報價相對中間價的距離
+  MM_MIN_EDGE_CENTS: Number(process.env.MM_MIN_EDGE_CENTS) || 2, // Up + Down 買價至少低於 100¢ 這麼多
+  MM_SKEW_CENTS: Number(process.env.MM_SKEW_CENTS) || 1, // 每多持有 MM_QUOTE_SIZE 股淨庫存，報價下移的分數
+  MM_MAX_INVENTORY: Number(process.env.MM_MAX_INVENTORY) || 100, // 單邊庫存上限，超過則停止該邊報價
+  MM_REQUOTE_CENTS: Number(process.env.MM_REQUOTE_CENTS) || 1, // 目標價與現有報價相差此值以上才撤單重掛
+
+  // 完整套利 (complete-set-arb)
+  ARB_MAX_SIZE: Number(process.env.ARB_MAX_SIZE) || 100, // 每個盤口最多持有的 Up + Down 組數
+  ARB_MIN_PROFIT_CENTS: Number(process.env.ARB_MIN_PROFIT_CENTS) || 0.5, // 每組扣除手續費後的最低淨利
 
   // 滑點保護
   MAX_SLIPPAGE_CENTS: Number(process.env.MAX_SLIPPAGE_CENTS) || 1, // 最大允許滑點
@@ -32,17 +93,96 @@ export const config = {
   MIN_REQUEST_INTERVAL_MS: 200, // 最小請求間隔 (5 req/sec)
   MAX_REQUESTS_PER_MINUTE: 60,
 
+  // 賬戶級風控（所有系列、所有策略合計，0 = 不限制）
+  MAX_DAILY_LOSS_USDC: Number(process.env.MAX_DAILY_LOSS_USDC ?? 50), // 當日已實現虧損上限，觸發後熔斷
+  MAX_OPEN_NOTIONAL_USDC: Number(process.env.MAX_OPEN_NOTIONAL_USDC ?? 500), // 持倉成本上限，超出則拒絕買入
+  MAX_CONSECUTIVE_LOSSES: Number(process.env.MAX_CONSECUTIVE_LOSSES ?? 5), // 連續虧損盤口數上限，觸發後熔斷
+  STOP_LOSS_COOLDOWN_MS: Number(process.env.STOP_LOSS_COOLDOWN_MS ?? 300000), // 止損後暫停買入的時間
+
   // 時間安全邊際
   SELL_BEFORE_START_MS: 5000, // 開盤前 5 秒強制清倉
   MIN_TIME_TO_TRADE_MS: 6000, // 至少距離開盤 6 秒才能交易（比清倉時間多 1 秒）
+  SERVER_TIME_SYNC_INTERVAL_MS: Number(process.env.SERVER_TIME_SYNC_INTERVAL_MS) || 600000, // 運行中重新同步服務器時間的間隔
 
-  // Market identifiers - 可用的 Up/Down 系列
-  // 'eth-up-or-down-15m' | 'eth-up-or-down-hourly' | 'solana-up-or-down-hourly' | 'spx-daily-up-or-down'
-  TARGET_SERIES_SLUG: process.env.TARGET_SERIES_SLUG || 'eth-up-or-down-15m',
+  // 實時行情（CLOB WebSocket market channel）
+  MARKET_FEED_ENABLED: process.env.MARKET_FEED_ENABLED !== 'false',
+  CLOB_WS_URL: process.env.CLOB_WS_URL || 'wss://ws-subscriptions-clob.polymarket.com/ws/market',
+  MARKET_DISCOVERY_INTERVAL_MS: Number(process.env.MARKET_DISCOVERY_INTERVAL_MS) || 60000, // Gamma 盤口發現間隔
+
+  // 標的現貨價格（見 src/spot-feed.ts）: off | binance | replay
+  SPOT_FEED: process.env.SPOT_FEED || 'binance',
+  SPOT_WS_URL: process.env.SPOT_WS_URL || 'wss://stream.binance.com:9443',
+  SPOT_REPLAY_FILE: process.env.SPOT_REPLAY_FILE || 'data/spot.jsonl',
+  SPOT_VOLATILITY_WINDOW_MS: Number(process.env.SPOT_VOLATILITY_WINDOW_MS) || 300000, // 波動率計算窗口
+
+  // 交易賬本（重啟後重建持倉成本）
+  LEDGER_FILE: process.env.LEDGER_FILE || 'logs/ledger.jsonl',
+
+  // 風控審計日誌（下單前風控攔截和強制清倉放行）
+  RISK_AUDIT_FILE: process.env.RISK_AUDIT_FILE || 'logs/risk-audit.jsonl',
+
+  // 結構化日誌（見 src/logger.ts）
+  LOG_LEVEL: process.env.LOG_LEVEL || 'info', // debug | info | warn | error | silent
+  LOG_FORMAT: process.env.LOG_FORMAT || 'text', // 控制台格式: text | json（文件總是 JSON）
+  LOG_FILE: process.env.LOG_FILE ?? 'logs/bot.jsonl', // 留空則不寫文件
+  LOG_MAX_BYTES: Number(process.env.LOG_MAX_BYTES) || 10 * 1024 * 1024, // 超過則輪轉
+  LOG_MAX_FILES: Number(process.env.LOG_MAX_FILES ?? 5), // 保留的舊文件數 (.1 … .N)
+  LOG_BUFFER_SIZE: Number(process.env.LOG_BUFFER_SIZE) || 500, // 記憶體中保留、推送給前端的條數
+
+  // 通知（見 src/notifier.ts）：*_EVENTS 為逗號分隔的通知類型，留空則接收全部
+  TELEGRAM_BOT_TOKEN: process.env.TELEGRAM_BOT_TOKEN || '',
+  TELEGRAM_CHAT_ID: process.env.TELEGRAM_CHAT_ID || '',
+  TELEGRAM_API_URL: process.env.TELEGRAM_API_URL || 'https://api.telegram.org',
+  TELEGRAM_EVENTS: process.env.TELEGRAM_EVENTS || '',
+  DISCORD_WEBHOOK_URL: process.env.DISCORD_WEBHOOK_URL || '',
+  DISCORD_EVENTS: process.env.DISCORD_EVENTS || '',
+  NOTIFY_WEBHOOK_URL: process.env.NOTIFY_WEBHOOK_URL || '', // 通用 webhook，POST 通知的 JSON
+  NOTIFY_WEBHOOK_EVENTS: process.env.NOTIFY_WEBHOOK_EVENTS || '',
+  NOTIFY_RATE_LIMIT_PER_MINUTE: Number(process.env.NOTIFY_RATE_LIMIT_PER_MINUTE) || 20, // 每個渠道，緊急通知不受限制
+  NOTIFY_TICK_ERROR_THRESHOLD: Number(process.env.NOTIFY_TICK_ERROR_THRESHOLD) || 3, // 同一系列連續出錯多少次 tick 後通知
+
+  // 市場數據錄製（用於回測）
+  RECORD_MARKET_DATA: process.env.RECORD_MARKET_DATA === 'true',
+  RECORD_DIR: process.env.RECORD_DIR || 'data/recordings',
+
+  // 運行時配置（見 src/runtime-config.ts）：控制面板的修改寫入此文件，重啟後覆蓋 .env 的值
+  RUNTIME_CONFIG_FILE: process.env.RUNTIME_CONFIG_FILE || 'data/runtime-config.json',
+  CONFIG_HISTORY_FILE: process.env.CONFIG_HISTORY_FILE || 'logs/config-history.jsonl',
+
+  // Web 控制面板認證（見 src/backend/auth.ts）；都沒有設定時啟動時生成一次性 admin token
+  ADMIN_TOKEN: process.env.ADMIN_TOKEN || '', // 登入或 Authorization: Bearer，角色為 operator
+  METRICS_TOKEN: process.env.METRICS_TOKEN || '', // 只能抓取 /metrics 的 Bearer token（Prometheus 用）
+  AUTH_USERS: process.env.AUTH_USERS || '', // 逗號分隔的 用戶名:密碼:角色，密碼可為 scrypt$salt$hash (npm run hash-password)
+  SESSION_TTL_MS: Number(process.env.SESSION_TTL_MS) || 12 * 60 * 60 * 1000,
+  COOKIE_SECURE: process.env.COOKIE_SECURE === 'true', // 經 HTTPS 提供時開啟
+  // 允許跨域訪問 API / WebSocket 的來源（逗號分隔），默認只允許同源
+  CORS_ORIGINS: (process.env.CORS_ORIGINS || '').split(',').map((s) => s.trim()).filter(Boolean),
+
+  // 市場系列（逗號分隔，見 src/series.ts），每個系列一個交易循環
+  SERIES: (process.env.SERIES || 'btc-15m').split(',').map((s) => s.trim()).filter(Boolean),
+  // 按系列覆蓋配置 (JSON)，例如 {"btc-1h": {"MAX_BUY_PRICE": 45, "SELL_BEFORE_START_MS": 10000}}
+  SERIES_CONFIG: parseSeriesConfig(process.env.SERIES_CONFIG || '{}'),
 };
 
-export function validateConfig(): void {
-  if (!config.PRIVATE_KEY && !config.PAPER_TRADING) {
-    throw new Error('PRIVATE_KEY is required for live trading');
-  }
+export type Config = typeof baseConfig;
+export type ConfigOverrides = Partial<Config>;
+
+// 當前交易循環的配置覆蓋（每個系列的循環在自己的範圍內執行）
+const overrideScope = new AsyncLocalStorage<ConfigOverrides>();
+
+export const config: Config = new Proxy(baseConfig, {
+  get(target, key, receiver) {
+    const overrides = overrideScope.getStore();
+    if (overrides && Object.prototype.hasOwnProperty.call(overrides, key)) {
+      return overrides[key as keyof Config];
+    }
+    return Reflect.get(target, key, receiver);
+  },
+});
+
+/**
+ * 在配置覆蓋範圍內執行 fn（包括其中所有的 await），範圍外的代碼不受影響
+ */
+export function withConfigOverrides<T>(overrides: ConfigOverrides, fn: () => T): T {
+  return overrideScope.run(overrides, fn);
 }
@@ -0,0 +1,85 @@
+/**
+ * 出場規則 - 根據持倉成本、最高價和剩餘時間計算止損價和獲利目標
+ *
+ * - 固定止損: 成本 − STOP_LOSS
+ * - 移動止損 (EXIT_TRAILING_STOP_CENTS): 持倉以來最高價 − 此值
+ * - 保本止損 (EXIT_BREAK_EVEN_TRIGGER_CENTS): 最高價曾漲過成本此值後，止損價提到成本
+ * - 獲利目標: 成本 + PROFIT_TARGET；剩餘時間少於 EXIT_TP_DECAY_START_MS 後線性下降，
+ *   到 SELL_BEFORE_START_MS 時降到成本 + EXIT_TP_MIN_CENTS
+ *
+ * 多個止損同時生效時取最高的止損價。各項設為 0 即關閉，全部關閉時與固定止盈止損相同。
+ */
+import { config } from './config.js';
+import type { ExitKind, Position } from './types.js';
+
+export type StopRule = '止損' | '移動止損' | '保本止損';
+
+// 止損規則對應的信號出場類型
+export const STOP_EXIT_KINDS: Record<StopRule, ExitKind> = {
+  止損: 'stop_loss',
+  移動止損: 'trailing_stop',
+  保本止損: 'break_even_stop',
+};
+
+/**
+ * 是否為止損賣出（固定 / 移動 / 保本）
+ */
+export function isStopExit(kind: ExitKind | undefined): boolean {
+  return !!kind && Object.values(STOP_EXIT_KINDS).includes(kind);
+}
+
+export interface ExitLevels {
+  stopLossCents: number; // 虧損（低於成本的 cents）達到此值時賣出，移動止損鎖定利潤時為負
+  stopPrice: number; // 成本 − stopLossCents
+  stopRule: StopRule;
+  highWaterPrice: number; // 持倉以來的最高價 (cents)
+  takeProfitCents: number; // 獲利目標（高於成本的 cents）
+  takeProfitPrice: number; // 價格漲到此值 (cents) 時賣出，也是限價賣單的掛單價
+}
+
+/**
+ * 獲利目標（高於成本的 cents），隨剩餘時間遞減
+ */
+export function takeProfitTarget(timeRemaining: number): number {
+  const start = config.EXIT_TP_DECAY_START_MS;
+  if (start <= 0 || timeRemaining >= start) return config.PROFIT_TARGET;
+
+  const end = config.SELL_BEFORE_START_MS;
+  const progress = start > end ? Math.min(1, Math.max(0, (start - timeRemaining) / (start - end))) : 1;
+  return config.PROFIT_TARGET - (config.PROFIT_TARGET - config.EXIT_TP_MIN_CENTS) * progress;
+}
+
+/**
+ * 計算持倉當前的止損價和獲利目標
+ * @param timeRemaining 持倉所屬盤口的剩餘交易時間 (ms)，見 tradingTimeRemaining
+ */
+export function exitLevels(position: Position, timeRemaining: number): ExitLevels {
+  const cost = position.avgBuyPrice;
+  const high = Math.max(position.highWaterPrice ?? cost, position.currentPrice);
+
+  let stopLossCents = config.STOP_LOSS;
+  let stopRule: StopRule = '止損';
+
+  if (config.EXIT_BREAK_EVEN_TRIGGER_CENTS > 0 && high - cost >= config.EXIT_BREAK_EVEN_TRIGGER_CENTS && stopLossCents > 0) {
+    stopLossCents = 0;
+    stopRule = '保本止損';
+  }
+
+  if (config.EXIT_TRAILING_STOP_CENTS > 0) {
+    const trailing = cost - (high - config.EXIT_TRAILING_STOP_CENTS);
+    if (trailing < stopLossCents) {
+      stopLossCents = trailing;
+      stopRule = '移動止損';
+    }
+  }
+
+  const takeProfitCents = takeProfitTarget(timeRemaining);
+  return {
+    stopLossCents,
+    stopPrice: cost - stopLossCents,
+    stopRule,
+    highWaterPrice: high,
+    takeProfitCents,
+    takeProfitPrice: cost + takeProfitCents,
+  };
+}
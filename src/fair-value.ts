@@ -0,0 +1,75 @@
+/**
+ * 公允價模型 - 按標的現貨估計 Up / Down 的結算概率
+ *
+ * 布朗運動近似（零漂移）：盤口結束時現貨 >= 開盤價 (strike) 結算 Up，
+ *   P(Up) = Φ(ln(S / K) / (σ·√T))
+ * S = 現價，K = 開盤價，σ = 已實現波動率（對數收益率每 √秒，見 SpotFeed），T = 剩餘秒數。
+ * 下一盤口還沒開盤，開盤價就是屆時的現價，零漂移下 P(Up) = 50%。
+ */
+import type { MarketState, SpotState } from './types.js';
+
+export interface FairValue {
+  up: number; // cents
+  down: number; // cents
+  strike: number | null; // 開盤價 (USD)，下一盤口為 null
+  spot: number | null; // 現價 (USD)
+  timeRemaining: number; // ms
+}
+
+export interface MarketFairValues {
+  current: FairValue | null; // 當前盤口：需要開盤價和波動率
+  next: FairValue | null;
+}
+
+/**
+ * 標準正態分佈累積函數（Abramowitz & Stegun 7.1.26，誤差 < 1.5e-7）
+ */
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * (Math.abs(x) / Math.SQRT2));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * 盤口結束時現貨 >= strike 的概率
+ */
+export function upProbability(spot: number, strike: number, volatility: number, secondsRemaining: number): number {
+  if (secondsRemaining <= 0 || volatility <= 0) {
+    return spot >= strike ? 1 : 0;
+  }
+  return normalCdf(Math.log(spot / strike) / (volatility * Math.sqrt(secondsRemaining)));
+}
+
+/**
+ * 當前盤口的公允價；缺少現貨、開盤價或波動率時為 null
+ */
+export function currentFairValue(spot: SpotState | null | undefined, timeToEnd: number): FairValue | null {
+  if (!spot || spot.roundStartPrice === null || spot.volatility === null || timeToEnd <= 0) return null;
+  const p = upProbability(spot.price, spot.roundStartPrice, spot.volatility, timeToEnd / 1000);
+  return { up: p * 100, down: (1 - p) * 100, strike: spot.roundStartPrice, spot: spot.price, timeRemaining: timeToEnd };
+}
+
+/**
+ * 當前和下一盤口的公允價
+ */
+export function fairValues(state: MarketState): MarketFairValues {
+  return {
+    current: state.currentMarket ? currentFairValue(state.spot, state.timeToEnd) : null,
+    next: state.nextMarket
+      ? { up: 50, down: 50, strike: null, spot: state.spot?.price ?? null, timeRemaining: state.timeToStart }
+      : null,
+  };
+}
+
+/**
+ * 某個 token 的公允價 (cents)，不屬於當前 / 下一盤口或無法計算時為 null
+ */
+export function tokenFairValue(tokenId: string, state: MarketState): number | null {
+  const { current, next } = fairValues(state);
+  if (tokenId === state.upTokenId && state.nextMarket) return next?.up ?? null;
+  if (tokenId === state.downTokenId && state.nextMarket) return next?.down ?? null;
+  if (tokenId === state.currentUpTokenId) return current?.up ?? null;
+  if (tokenId === state.currentDownTokenId) return current?.down ?? null;
+  return null;
+}
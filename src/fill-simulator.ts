@@ -0,0 +1,203 @@
+/**
+ * 成交模擬器 - 模擬交易 / 回測用，按真實訂單簿估算成交
+ *
+ * - 可成交限價單 (taker): 逐檔吃單直到限價，未成交部分直接取消，收 TAKER_FEE_PERCENT
+ * - 掛單 (maker): 記錄下單時同價位排在前面的數量 (queueAhead)，
+ *   之後每次訂單簿更新時按價位變化推進隊列，收 MAKER_FEE_PERCENT
+ */
+import { config } from './config.js';
+import type { OrderBook } from './types.js';
+
+export interface FillResult {
+  filledSize: number;
+  avgPrice: number; // cents
+  fee: number; // cents
+  slippage: number; // cents, 相對最優價
+}
+
+export interface SimulatedOrder {
+  orderId: string;
+  tokenId: string;
+  outcome: 'Up' | 'Down';
+  side: 'BUY' | 'SELL';
+  price: number; // cents
+  size: number;
+  filledSize: number;
+  queueAhead: number; // 排在前面的股數
+  lastLevelSize: number; // 上次看到的同價位總量
+}
+
+const EMPTY_FILL: FillResult = { filledSize: 0, avgPrice: 0, fee: 0, slippage: 0 };
+
+export class FillSimulator {
+  private orders: Map<string, SimulatedOrder> = new Map();
+  private orderSeq = 0;
+
+  /**
+   * 模擬可成交限價單：逐檔吃單，價格不超過 limitPrice (cents)
+   */
+  simulateMarketable(
+    book: OrderBook,
+    side: 'BUY' | 'SELL',
+    size: number,
+    limitPrice: number
+  ): FillResult {
+    const levels = side === 'BUY' ? book.asks : book.bids;
+    if (!levels || levels.length === 0 || size <= 0) return EMPTY_FILL;
+
+    let filledSize = 0;
+    let cost = 0;
+    for (const level of levels) {
+      const levelPrice = level.price * 100;
+      if (side === 'BUY' ? levelPrice > limitPrice : levelPrice < limitPrice) break;
+
+      const take = Math.min(level.size, size - filledSize);
+      filledSize += take;
+      cost += take * levelPrice;
+      if (filledSize >= size) break;
+    }
+
+    if (filledSize <= 0) return EMPTY_FILL;
+
+    const avgPrice = cost / filledSize;
+    return {
+      filledSize,
+      avgPrice,
+      fee: (cost * config.TAKER_FEE_PERCENT) / 100,
+      slippage: Math.abs(avgPrice - levels[0].price * 100),
+    };
+  }
+
+  /**
+   * 掛一張模擬限價單，排在同價位現有掛單之後
+   */
+  placeRestingOrder(
+    book: OrderBook,
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    side: 'BUY' | 'SELL',
+    price: number,
+    size: number
+  ): SimulatedOrder {
+    const levelSize = this.levelSize(book, side, price);
+    const order: SimulatedOrder = {
+      orderId: `paper-${Date.now()}-${++this.orderSeq}`,
+      tokenId,
+      outcome,
+      side,
+      price,
+      size,
+      filledSize: 0,
+      queueAhead: levelSize,
+      lastLevelSize: levelSize,
+    };
+    this.orders.set(order.orderId, order);
+    return order;
+  }
+
+  /**
+   * 用最新訂單簿推進該 token 的掛單，返回本次新增的成交
+   */
+  matchRestingOrders(tokenId: string, book: OrderBook): Array<{ order: SimulatedOrder; fill: FillResult }> {
+    const results: Array<{ order: SimulatedOrder; fill: FillResult }> = [];
+
+    for (const order of this.orders.values()) {
+      if (order.tokenId !== tokenId) continue;
+
+      const remaining = order.size - order.filledSize;
+      const crossing = this.crossingSize(book, order);
+      const levelSize = this.levelSize(book, order.side, order.price);
+      const bestOwnSide = this.bestPrice(book, order.side);
+      let filled = 0;
+
+      if (crossing > 0) {
+        // 對手價穿過掛單價：先成交排在前面的，剩餘的輪到我們
+        filled = Math.min(remaining, Math.max(crossing - order.queueAhead, 0));
+        order.queueAhead = Math.max(order.queueAhead - crossing, 0);
+      } else if (levelSize === 0 && bestOwnSide !== null && this.isBehind(order, bestOwnSide)) {
+        // 同價位已被完全吃掉，最優價已越過掛單價
+        filled = remaining;
+        order.queueAhead = 0;
+      } else if (levelSize < order.lastLevelSize) {
+        // 同價位減少：視為前面的單成交或撤單，隊列前移
+        const consumed = order.lastLevelSize - levelSize;
+        const overflow = consumed - order.queueAhead;
+        order.queueAhead = Math.max(order.queueAhead - consumed, 0);
+        if (overflow > 0) {
+          filled = Math.min(remaining, overflow);
+        }
+      }
+      order.lastLevelSize = levelSize;
+
+      if (filled > 0) {
+        order.filledSize += filled;
+        results.push({
+          order,
+          fill: {
+            filledSize: filled,
+            avgPrice: order.price,
+            fee: (order.price * filled * config.MAKER_FEE_PERCENT) / 100,
+            slippage: 0,
+          },
+        });
+      }
+
+      if (order.filledSize >= order.size - 1e-9) {
+        this.orders.delete(order.orderId);
+      }
+    }
+
+    return results;
+  }
+
+  cancelOrder(orderId: string): boolean {
+    return this.orders.delete(orderId);
+  }
+
+  /**
+   * 取消某 token 的所有模擬掛單
+   */
+  cancelOrders(tokenId: string): void {
+    for (const [orderId, order] of this.orders) {
+      if (order.tokenId === tokenId) {
+        this.orders.delete(orderId);
+      }
+    }
+  }
+
+  getOpenOrders(tokenId?: string): SimulatedOrder[] {
+    return Array.from(this.orders.values()).filter((o) => !tokenId || o.tokenId === tokenId);
+  }
+
+  /**
+   * 對手盤中價格穿過掛單價的總量
+   */
+  private crossingSize(book: OrderBook, order: SimulatedOrder): number {
+    const levels = order.side === 'SELL' ? book.bids : book.asks;
+    let total = 0;
+    for (const level of levels || []) {
+      const levelPrice = level.price * 100;
+      if (order.side === 'SELL' ? levelPrice < order.price : levelPrice > order.price) break;
+      total += level.size;
+    }
+    return total;
+  }
+
+  private levelSize(book: OrderBook, side: 'BUY' | 'SELL', price: number): number {
+    const levels = side === 'SELL' ? book.asks : book.bids;
+    const level = (levels || []).find((l) => Math.abs(l.price * 100 - price) < 1e-6);
+    return level?.size || 0;
+  }
+
+  private bestPrice(book: OrderBook, side: 'BUY' | 'SELL'): number | null {
+    const levels = side === 'SELL' ? book.asks : book.bids;
+    return levels && levels.length > 0 ? levels[0].price * 100 : null;
+  }
+
+  /**
+   * 同方向最優價已經比掛單價更差（SELL: 最低賣價高於掛單價）
+   */
+  private isBehind(order: SimulatedOrder, bestOwnSide: number): boolean {
+    return order.side === 'SELL' ? bestOwnSide > order.price : bestOwnSide < order.price;
+  }
+}
@@ -1,26 +1,37 @@
 import React, { useEffect, useState } from 'react';
-import { Bitcoin, Settings, BarChart3, History, Wallet, Activity, Zap } from 'lucide-react';
+import { Bitcoin, Settings, BarChart3, History, Wallet, Activity, Zap, LogOut, ScrollText } from 'lucide-react';
 import { useBotStore } from './store/botStore';
 import { Dashboard } from './components/Dashboard';
 import { ConfigPanel } from './components/ConfigPanel';
 import { TradeHistory } from './components/TradeHistory';
+import { LoginPanel } from './components/LoginPanel';
+import { LogViewer } from './components/LogViewer';
 
-type Tab = 'dashboard' | 'config' | 'trades';
+type Tab = 'dashboard' | 'config' | 'trades' | 'logs';
 
 function App() {
-  const { connect, status } = useBotStore();
+  const { checkSession, session, authChecked, logout, status } = useBotStore();
   const [activeTab, setActiveTab] = useState<Tab>('dashboard');
 
+  // 確認登入狀態，已登入時連接 WebSocket
   useEffect(() => {
-    connect();
-  }, [connect]);
+    checkSession();
+  }, [checkSession]);
 
   const tabs: { id: Tab; label: string; icon: React.ReactNode }[] = [
     { id: 'dashboard', label: '控制台', icon: <BarChart3 className="w-5 h-5" /> },
     { id: 'config', label: '設定', icon: <Settings className="w-5 h-5" /> },
     { id: 'trades', label: '交易記錄', icon: <History className="w-5 h-5" /> },
+    { id: 'logs', label: '日誌', icon: <ScrollText className="w-5 h-5" /> },
   ];
 
+  if (!authChecked) {
+    return <div className="min-h-screen bg-cyber-black" />;
+  }
+  if (!session) {
+    return <LoginPanel />;
+  }
+
   return (
     <div className="min-h-screen bg-cyber-black relative overflow-hidden">
       {/* Scanline effect */}
@@ -73,6 +84,19 @@ function App() {
               }`}>
                 {status.paperTrade ? '📝 PAPER' : '💰 LIVE'}
               </div>
+              <div className="flex items-center gap-2 text-sm text-gray-400">
+                <span className="font-mono">{session.username}</span>
+                <span className={`px-2 py-0.5 rounded text-xs font-bold border ${
+                  session.role === 'operator'
+                    ? 'bg-purple-900/50 text-purple-400 border-purple-500/30'
+                    : 'bg-gray-800 text-gray-400 border-gray-600'
+                }`}>
+                  {session.role.toUpperCase()}
+                </span>
+                <button onClick={logout} className="text-gray-500 hover:text-white transition-colors" title="登出">
+                  <LogOut className="w-4 h-4" />
+                </button>
+              </div>
             </div>
           </div>
         </div>
@@ -105,6 +129,7 @@ function App() {
         {activeTab === 'dashboard' && <Dashboard />}
         {activeTab === 'config' && <ConfigPanel />}
         {activeTab === 'trades' && <TradeHistory />}
+        {activeTab === 'logs' && <LogViewer />}
       </main>
 
       {/* Footer */}
@@ -1,11 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { Settings, Key, DollarSign, Hash, Eye, EyeOff, Wallet, Shield, AlertTriangle } from 'lucide-react';
+import { Settings, Key, DollarSign, Hash, Eye, EyeOff, Wallet, Shield, AlertTriangle, Brain, Layers, Lock, Unlock, Bookmark, Save, Trash2, History } from 'lucide-react';
 import { useBotStore, BotConfig } from '../store/botStore';
 
 export function ConfigPanel() {
-  const { config, updateConfig, status } = useBotStore();
+  const {
+    config, updateConfig, status, session, availableStrategies, availableSeries, keystore, keystoreError, unlockKeystore, lockKeystore,
+    profile, profiles, configHistory, configError, applyProfile, saveProfile, deleteProfile,
+  } = useBotStore();
+  // 運行中或 viewer 時不能修改
+  const canOperate = session?.role === 'operator';
+  const locked = status.running || !canOperate;
   const [localConfig, setLocalConfig] = useState<BotConfig>(config);
-  const [showPrivateKey, setShowPrivateKey] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [showPassphrase, setShowPassphrase] = useState(false);
+  const [profileName, setProfileName] = useState('');
 
   useEffect(() => {
     setLocalConfig(config);
@@ -15,10 +23,39 @@ export function ConfigPanel() {
     setLocalConfig((prev) => ({ ...prev, [field]: value }));
   };
 
+  const toggleStrategy = (name: string) => {
+    setLocalConfig((prev) => {
+      const enabled = prev.strategies.includes(name)
+        ? prev.strategies.filter((s) => s !== name)
+        : [...prev.strategies, name];
+      return { ...prev, strategies: enabled.length > 0 ? enabled : prev.strategies };
+    });
+  };
+
+  const toggleSeries = (id: string) => {
+    setLocalConfig((prev) => {
+      const enabled = prev.series.includes(id)
+        ? prev.series.filter((s) => s !== id)
+        : [...prev.series, id];
+      return { ...prev, series: enabled.length > 0 ? enabled : prev.series };
+    });
+  };
+
   const handleSave = () => {
     updateConfig(localConfig);
   };
 
+  const handleSaveProfile = () => {
+    saveProfile(profileName.trim());
+    setProfileName('');
+  };
+
+  // 密碼只發送一次用於解鎖，不保留在頁面上
+  const handleUnlock = () => {
+    unlockKeystore(passphrase);
+    setPassphrase('');
+  };
+
   return (
     <div className="space-y-6">
       {/* Trading Mode */}
@@ -45,7 +82,7 @@ export function ConfigPanel() {
               checked={localConfig.paperTrade}
               onChange={() => handleChange('paperTrade', true)}
               className="sr-only"
-              disabled={status.running}
+              disabled={locked}
             />
             <div>
               <span className="text-green-400 font-bold">📝 模擬交易</span>
@@ -69,7 +106,7 @@ export function ConfigPanel() {
               checked={!localConfig.paperTrade}
               onChange={() => handleChange('paperTrade', false)}
               className="sr-only"
-              disabled={status.running}
+              disabled={locked}
             />
             <div>
               <span className="text-red-400 font-bold">💰 真實交易</span>
@@ -89,6 +126,154 @@ export function ConfigPanel() {
         )}
       </div>
 
+      {/* Profiles：只包含交易參數，運行中也可以切換 */}
+      <div className="cyber-card rounded-xl p-6">
+        <div className="flex items-center gap-2 text-xl font-bold text-white mb-6">
+          <Bookmark className="w-6 h-6 text-cyan-400" />
+          配置檔
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          {profiles.map((p) => (
+            <div
+              key={p.name}
+              className={`flex items-center rounded-lg border ${
+                profile === p.name ? 'bg-cyan-900/30 border-cyan-500/50' : 'bg-gray-800/50 border-gray-700'
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => applyProfile(p.name)}
+                disabled={!canOperate}
+                className="px-4 py-2 font-mono text-sm text-white disabled:cursor-not-allowed"
+                title={Object.entries(p.values).map(([k, v]) => `${k}: ${v}`).join('\n')}
+              >
+                {p.name}
+                {p.builtin && <span className="ml-2 text-xs text-gray-500">內建</span>}
+                {profile === p.name && <span className="ml-2 text-xs text-cyan-400">使用中</span>}
+              </button>
+              {!p.builtin && canOperate && (
+                <button
+                  type="button"
+                  onClick={() => deleteProfile(p.name)}
+                  className="pr-3 text-gray-500 hover:text-red-400 transition-colors"
+                  title="刪除配置檔"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {canOperate && (
+          <div className="flex gap-2 mt-4">
+            <input
+              type="text"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              className="flex-1 bg-gray-800 border border-cyan-500/30 rounded-lg px-4 py-2 text-white font-mono focus:outline-none focus:border-cyan-500 transition-colors"
+              placeholder="新配置檔名稱（小寫字母、數字、-）"
+            />
+            <button
+              type="button"
+              onClick={handleSaveProfile}
+              disabled={!profileName.trim()}
+              className="px-4 rounded-lg font-bold bg-cyan-700 hover:bg-cyan-600 text-white flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Save className="w-4 h-4" />
+              另存當前參數
+            </button>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-600 mt-3">
+          配置檔包含交易參數和賬戶風控上限，切換後立即生效（運行中也可以切換）；另存的是服務器上已保存的參數
+        </p>
+      </div>
+
+      {/* Strategies */}
+      <div className="cyber-card rounded-xl p-6">
+        <div className="flex items-center gap-2 text-xl font-bold text-white mb-6">
+          <Brain className="w-6 h-6 text-pink-400" />
+          交易策略
+        </div>
+
+        <div className="space-y-3">
+          {availableStrategies.map((strategy) => {
+            const index = localConfig.strategies.indexOf(strategy.name);
+            const enabled = index >= 0;
+            return (
+              <label
+                key={strategy.name}
+                className={`flex items-center justify-between p-4 rounded-lg border cursor-pointer transition-colors ${
+                  enabled ? 'bg-pink-900/20 border-pink-500/40' : 'bg-gray-800/50 border-gray-700 hover:border-gray-600'
+                }`}
+              >
+                <div>
+                  <span className="text-white font-mono font-medium">{strategy.name}</span>
+                  {index === 0 && (
+                    <span className="ml-2 px-2 py-0.5 rounded text-xs font-bold bg-pink-900/50 text-pink-400 border border-pink-500/30">
+                      主策略
+                    </span>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">{strategy.description}</p>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={enabled}
+                  onChange={() => toggleStrategy(strategy.name)}
+                  className="w-5 h-5 accent-pink-500"
+                  disabled={locked}
+                />
+              </label>
+            );
+          })}
+        </div>
+
+        <p className="text-xs text-gray-600 mt-3">
+          模擬交易時所有勾選的策略並排執行（各自獨立持倉），可在儀表板比較；真實交易只執行主策略（第一個勾選的）
+        </p>
+      </div>
+
+      {/* Series */}
+      <div className="cyber-card rounded-xl p-6">
+        <div className="flex items-center gap-2 text-xl font-bold text-white mb-6">
+          <Layers className="w-6 h-6 text-purple-400" />
+          市場系列
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {availableSeries.map((series) => {
+            const enabled = localConfig.series.includes(series.id);
+            return (
+              <label
+                key={series.id}
+                className={`flex items-center justify-between p-4 rounded-lg border cursor-pointer transition-colors ${
+                  enabled ? 'bg-purple-900/20 border-purple-500/40' : 'bg-gray-800/50 border-gray-700 hover:border-gray-600'
+                }`}
+              >
+                <div>
+                  <span className="text-white font-medium">{series.label}</span>
+                  <p className="text-xs text-gray-500 font-mono mt-1">{series.id}</p>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={enabled}
+                  onChange={() => toggleSeries(series.id)}
+                  className="w-5 h-5 accent-purple-500"
+                  disabled={locked}
+                />
+              </label>
+            );
+          })}
+        </div>
+
+        <p className="text-xs text-gray-600 mt-3">
+          每個勾選的系列各自運行一個交易循環，持倉互相獨立；下次啟動生效
+        </p>
+      </div>
+
       {/* Order Settings */}
       <div className="cyber-card rounded-xl p-6">
         <div className="flex items-center gap-2 text-xl font-bold text-white mb-6">
@@ -107,7 +292,7 @@ export function ConfigPanel() {
               value={localConfig.maxBuyPrice}
               onChange={(e) => handleChange('maxBuyPrice', parseInt(e.target.value) || 50)}
               className="w-full bg-gray-800 border border-purple-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-purple-500 transition-colors"
-              disabled={status.running}
+              disabled={locked}
             />
             <p className="text-xs text-gray-600 mt-1">只買入低於此價格的選項</p>
           </div>
@@ -122,7 +307,7 @@ export function ConfigPanel() {
               value={localConfig.profitTarget}
               onChange={(e) => handleChange('profitTarget', parseFloat(e.target.value) || 2)}
               className="w-full bg-gray-800 border border-cyan-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-cyan-500 transition-colors"
-              disabled={status.running}
+              disabled={locked}
             />
             <p className="text-xs text-gray-600 mt-1">買入後自動掛賣單，價格 = 買入價 + 此值</p>
           </div>
@@ -137,7 +322,7 @@ export function ConfigPanel() {
               value={localConfig.stopLoss}
               onChange={(e) => handleChange('stopLoss', parseFloat(e.target.value) || 5)}
               className="w-full bg-gray-800 border border-red-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-red-500 transition-colors"
-              disabled={status.running}
+              disabled={locked}
             />
             <p className="text-xs text-gray-600 mt-1">虧損超過此值時自動賣出</p>
           </div>
@@ -154,10 +339,38 @@ export function ConfigPanel() {
               value={localConfig.maxPositionSize}
               onChange={(e) => handleChange('maxPositionSize', parseInt(e.target.value) || 100)}
               className="w-full bg-gray-800 border border-pink-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-pink-500 transition-colors"
-              disabled={status.running}
+              disabled={locked}
             />
             <p className="text-xs text-gray-600 mt-1">每次買入的股數</p>
           </div>
+
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">當日虧損上限 (USDC)</label>
+            <input
+              type="number"
+              step="10"
+              min="0"
+              value={localConfig.maxDailyLossUsdc}
+              onChange={(e) => handleChange('maxDailyLossUsdc', parseFloat(e.target.value) || 0)}
+              className="w-full bg-gray-800 border border-red-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-red-500 transition-colors"
+              disabled={locked}
+            />
+            <p className="text-xs text-gray-600 mt-1">觸發後熔斷，0 = 不限制</p>
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">持倉成本上限 (USDC)</label>
+            <input
+              type="number"
+              step="50"
+              min="0"
+              value={localConfig.maxOpenNotionalUsdc}
+              onChange={(e) => handleChange('maxOpenNotionalUsdc', parseFloat(e.target.value) || 0)}
+              className="w-full bg-gray-800 border border-red-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-red-500 transition-colors"
+              disabled={locked}
+            />
+            <p className="text-xs text-gray-600 mt-1">超出則拒絕買入，0 = 不限制</p>
+          </div>
         </div>
 
         {/* Current Market Trading Toggle */}
@@ -173,7 +386,7 @@ export function ConfigPanel() {
                 checked={localConfig.allowCurrentMarketTrading}
                 onChange={(e) => handleChange('allowCurrentMarketTrading', e.target.checked)}
                 className="sr-only"
-                disabled={status.running}
+                disabled={locked}
               />
               <div className={`w-14 h-7 rounded-full transition-colors ${
                 localConfig.allowCurrentMarketTrading ? 'bg-green-600' : 'bg-gray-600'
@@ -228,25 +441,64 @@ export function ConfigPanel() {
           <div>
             <label className="block text-sm text-gray-400 mb-2 flex items-center gap-2">
               <Key className="w-4 h-4 text-yellow-400" />
-              私鑰 (Private Key)
+              錢包 Keystore
             </label>
-            <div className="relative">
-              <input
-                type={showPrivateKey ? 'text' : 'password'}
-                value={localConfig.privateKey}
-                onChange={(e) => handleChange('privateKey', e.target.value)}
-                className="w-full bg-gray-800 border border-yellow-500/30 rounded-lg px-4 py-3 pr-12 text-white font-mono focus:outline-none focus:border-yellow-500 transition-colors"
-                placeholder="輸入你的錢包私鑰..."
-                disabled={status.running}
-              />
-              <button
-                type="button"
-                onClick={() => setShowPrivateKey(!showPrivateKey)}
-                className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-white transition-colors"
-              >
-                {showPrivateKey ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-              </button>
+            <div className="flex items-center justify-between p-4 bg-gray-800/50 rounded-lg border border-gray-700 mb-3">
+              <div className="text-sm">
+                {keystore?.unlocked ? (
+                  <span className="text-green-400 flex items-center gap-2">
+                    <Unlock className="w-4 h-4" />
+                    已解鎖 <span className="font-mono text-white">{keystore.address}</span>
+                    {keystore.source === 'env' && <span className="text-yellow-400 text-xs">（.env 明文 PRIVATE_KEY）</span>}
+                  </span>
+                ) : (
+                  <span className="text-gray-400 flex items-center gap-2">
+                    <Lock className="w-4 h-4" />
+                    {keystore?.exists ? '未解鎖' : `找不到 ${keystore?.file ?? 'keystore'}，請用 npm run keystore -- create 建立`}
+                  </span>
+                )}
+              </div>
+              {keystore?.unlocked && keystore.source === 'keystore' && (
+                <button
+                  type="button"
+                  onClick={lockKeystore}
+                  disabled={locked}
+                  className="px-3 py-1 rounded-lg text-xs font-bold bg-gray-700 hover:bg-gray-600 text-gray-300 disabled:opacity-40"
+                >
+                  鎖定
+                </button>
+              )}
             </div>
+            {keystore?.exists && keystore.source !== 'keystore' && (
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <input
+                    type={showPassphrase ? 'text' : 'password'}
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    className="w-full bg-gray-800 border border-yellow-500/30 rounded-lg px-4 py-3 pr-12 text-white font-mono focus:outline-none focus:border-yellow-500 transition-colors"
+                    placeholder="輸入 keystore 密碼..."
+                    disabled={!canOperate}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassphrase(!showPassphrase)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-white transition-colors"
+                  >
+                    {showPassphrase ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                  </button>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleUnlock}
+                  disabled={!canOperate || !passphrase}
+                  className="px-6 rounded-lg font-bold bg-yellow-600 hover:bg-yellow-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  解鎖
+                </button>
+              </div>
+            )}
+            {keystoreError && <p className="text-xs text-red-400 mt-2">{keystoreError}</p>}
           </div>
 
           <div>
@@ -260,7 +512,7 @@ export function ConfigPanel() {
               onChange={(e) => handleChange('funderAddress', e.target.value)}
               className="w-full bg-gray-800 border border-purple-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-purple-500 transition-colors"
               placeholder="0x..."
-              disabled={status.running}
+              disabled={locked}
             />
             <p className="text-xs text-gray-600 mt-1">
               這是你在 Polymarket 的資金地址，不是你的 MetaMask 地址
@@ -271,23 +523,70 @@ export function ConfigPanel() {
         <div className="mt-4 p-3 bg-yellow-900/20 border border-yellow-500/30 rounded-lg">
           <p className="text-yellow-400 text-xs flex items-center gap-2">
             <Shield className="w-4 h-4" />
-            你的私鑰只會儲存在本地，不會上傳到任何伺服器
+            私鑰以加密 keystore 保存在服務器，解鎖後只留在記憶體中，不會回傳到瀏覽器
           </p>
         </div>
       </div>
 
+      {configError && (
+        <div className="p-4 bg-red-900/20 border border-red-500/30 rounded-lg flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-red-300">
+            <p className="text-red-400 font-bold">設定未保存</p>
+            {configError.split('；').map((error) => (
+              <p key={error}>{error}</p>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Save Button */}
       <button
         onClick={handleSave}
-        disabled={status.running}
+        disabled={locked}
         className={`w-full py-4 rounded-xl font-bold text-lg transition-all duration-300 ${
-          status.running
+          locked
             ? 'bg-gray-700 text-gray-500 cursor-not-allowed'
             : 'bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-500 hover:to-cyan-500 text-white cyber-glow'
         }`}
       >
-        {status.running ? '⏸️ 停止機器人後才能修改設定' : '💾 儲存設定'}
+        {!canOperate ? '🔒 只有 operator 可以修改設定' : status.running ? '⏸️ 停止機器人後才能修改設定' : '💾 儲存設定'}
       </button>
+
+      {/* Config History */}
+      <div className="cyber-card rounded-xl p-6">
+        <div className="flex items-center gap-2 text-xl font-bold text-white mb-6">
+          <History className="w-6 h-6 text-gray-400" />
+          變更歷史
+        </div>
+
+        {configHistory.length === 0 ? (
+          <p className="text-sm text-gray-500">還沒有修改記錄</p>
+        ) : (
+          <div className="space-y-3">
+            {configHistory.slice(0, 10).map((entry) => (
+              <div key={`${entry.timestamp}-${entry.action}`} className="p-3 bg-gray-800/50 rounded-lg border border-gray-700 text-sm">
+                <div className="flex items-center justify-between text-gray-400">
+                  <span>
+                    <span className="text-white">{entry.user}</span>
+                    {' '}
+                    {entry.action === 'apply_profile' && `套用配置檔 ${entry.profile}`}
+                    {entry.action === 'save_profile' && `保存配置檔 ${entry.profile}`}
+                    {entry.action === 'delete_profile' && `刪除配置檔 ${entry.profile}`}
+                    {entry.action === 'update' && '修改設定'}
+                  </span>
+                  <span className="text-xs text-gray-500">{new Date(entry.timestamp).toLocaleString()}</span>
+                </div>
+                {entry.changes.map((change) => (
+                  <p key={change.key} className="font-mono text-xs text-gray-500 mt-1">
+                    {change.key}: {JSON.stringify(change.from)} → <span className="text-cyan-400">{JSON.stringify(change.to)}</span>
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 }
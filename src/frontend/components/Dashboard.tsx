@@ -1,9 +1,34 @@
-import React from 'react';
-import { TrendingUp, TrendingDown, Clock, DollarSign, Activity, Target, Zap, Play, Square } from 'lucide-react';
-import { useBotStore } from '../store/botStore';
+import React, { useState } from 'react';
+import { TrendingUp, TrendingDown, Clock, DollarSign, Activity, Target, Zap, Play, Square, ListOrdered, Brain, ShieldAlert, ShieldCheck, RotateCcw } from 'lucide-react';
+import { useBotStore, OrderStatus } from '../store/botStore';
+
+const ORDER_STATUS_STYLES: Record<OrderStatus, { label: string; className: string }> = {
+  CREATED: { label: '已提交', className: 'bg-gray-800 text-gray-300 border-gray-600' },
+  OPEN: { label: '掛單中', className: 'bg-cyan-900/50 text-cyan-400 border-cyan-500/30' },
+  PARTIALLY_FILLED: { label: '部分成交', className: 'bg-yellow-900/50 text-yellow-400 border-yellow-500/30' },
+  FILLED: { label: '已成交', className: 'bg-green-900/50 text-green-400 border-green-500/30' },
+  CANCELLED: { label: '已撤銷', className: 'bg-gray-800 text-gray-500 border-gray-700' },
+  EXPIRED: { label: '已過期', className: 'bg-gray-800 text-gray-500 border-gray-700' },
+  REJECTED: { label: '被拒絕', className: 'bg-red-900/50 text-red-400 border-red-500/30' },
+};
 
 export function Dashboard() {
-  const { status, market, positions, startBot, stopBot } = useBotStore();
+  const { status, session, markets, positions, orders, riskRejections, riskStatus, strategyStats, startBot, stopBot, rearmRisk } = useBotStore();
+  const canOperate = session?.role === 'operator';
+  const [selectedSeries, setSelectedSeries] = useState<string | null>(null);
+  const seriesMarkets = Object.values(markets);
+  const selected = seriesMarkets.find((m) => m.series === selectedSeries) || seriesMarkets[0];
+  const market = selected?.market ?? null;
+  // 價格卡片顯示的是下一盤口（沒有時為當前盤口），公允價對應同一盤口
+  const fair = market ? (market.nextMarket ? market.fairValue?.next : market.fairValue?.current) ?? null : null;
+  const spot = market?.spot ?? null;
+  const recentOrders = [...orders].sort((a, b) => b.updatedAt - a.updatedAt).slice(0, 10);
+  const recentRejections = riskRejections.slice(0, 10);
+
+  const formatEdge = (fairPrice: number, price: number) => {
+    const edge = fairPrice - price;
+    return `${edge >= 0 ? '+' : ''}${edge.toFixed(1)}¢`;
+  };
 
   const formatTime = (ms: number) => {
     if (ms <= 0) return '00:00';
@@ -20,11 +45,14 @@ export function Dashboard() {
         <div className="flex items-center justify-between">
           <div>
             <h2 className="text-xl font-bold text-white mb-1">交易控制</h2>
-            <p className="text-gray-500 text-sm">啟動或停止自動交易機器人</p>
+            <p className="text-gray-500 text-sm">
+              {canOperate ? '啟動或停止自動交易機器人' : '只有 operator 可以啟動或停止機器人'}
+            </p>
           </div>
           <button
             onClick={() => status.running ? stopBot() : startBot()}
-            className={`flex items-center gap-3 px-8 py-4 rounded-xl font-bold text-lg transition-all duration-300 ${
+            disabled={!canOperate}
+            className={`flex items-center gap-3 px-8 py-4 rounded-xl font-bold text-lg transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed ${
               status.running
                 ? 'bg-red-600 hover:bg-red-700 text-white cyber-glow-pink'
                 : 'bg-gradient-to-r from-cyan-500 to-purple-600 hover:from-cyan-400 hover:to-purple-500 text-white cyber-glow-cyan'
@@ -45,6 +73,61 @@ export function Dashboard() {
         </div>
       </div>
 
+      {/* Account Risk */}
+      {riskStatus && (
+        <div className={`cyber-card rounded-xl p-6 ${riskStatus.halted ? 'border border-red-500/50' : ''}`}>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-bold text-white flex items-center gap-2">
+              {riskStatus.halted ? (
+                <ShieldAlert className="w-5 h-5 text-red-400" />
+              ) : (
+                <ShieldCheck className="w-5 h-5 text-green-400" />
+              )}
+              賬戶風控
+            </h3>
+            {riskStatus.halted && canOperate && (
+              <button
+                onClick={rearmRisk}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm bg-red-600 hover:bg-red-700 text-white transition-colors"
+              >
+                <RotateCcw className="w-4 h-4" />
+                重新啟用
+              </button>
+            )}
+          </div>
+
+          {riskStatus.halted && (
+            <div className="mb-4 p-3 rounded-lg bg-red-900/30 border border-red-500/30 text-red-400 text-sm">
+              已熔斷{riskStatus.haltedAt ? `（${new Date(riskStatus.haltedAt).toLocaleTimeString()}）` : ''}：{riskStatus.haltReason}
+              <span className="block text-red-400/70 text-xs mt-1">停止買入並清倉，確認後點擊「重新啟用」恢復交易</span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-gray-500">當日已實現盈虧</div>
+              <div className={`font-mono text-lg ${riskStatus.dailyRealizedPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {riskStatus.dailyRealizedPnl >= 0 ? '+' : ''}{(riskStatus.dailyRealizedPnl / 100).toFixed(2)} USDC
+              </div>
+            </div>
+            <div>
+              <div className="text-gray-500">持倉名義金額</div>
+              <div className="font-mono text-lg text-white">{(riskStatus.openNotional / 100).toFixed(2)} USDC</div>
+            </div>
+            <div>
+              <div className="text-gray-500">連續虧損盤口</div>
+              <div className="font-mono text-lg text-white">{riskStatus.consecutiveLosingRounds}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">止損冷卻</div>
+              <div className={`font-mono text-lg ${riskStatus.cooldownUntil ? 'text-yellow-400' : 'text-gray-500'}`}>
+                {riskStatus.cooldownUntil ? `至 ${new Date(riskStatus.cooldownUntil).toLocaleTimeString()}` : '無'}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         {/* Total PnL */}
@@ -114,7 +197,26 @@ export function Dashboard() {
           <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
             <Clock className="w-5 h-5 text-purple-400" />
             市場狀態
+            {seriesMarkets.length === 1 && <span className="text-sm text-gray-500 font-normal">{selected.label}</span>}
           </h3>
+
+          {seriesMarkets.length > 1 && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {seriesMarkets.map((m) => (
+                <button
+                  key={m.series}
+                  onClick={() => setSelectedSeries(m.series)}
+                  className={`px-3 py-1 rounded-lg text-sm font-medium border transition-colors ${
+                    m.series === selected.series
+                      ? 'bg-purple-900/40 text-purple-300 border-purple-500/40'
+                      : 'bg-gray-800/50 text-gray-400 border-gray-700 hover:border-gray-600'
+                  }`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+          )}
           
           {market ? (
             <div className="space-y-4">
@@ -122,6 +224,19 @@ export function Dashboard() {
                 <div>
                   <div className="text-gray-500 text-xs mb-1">當前市場</div>
                   <div className="text-white font-medium">{market.currentMarket || '等待中...'}</div>
+                  {spot && (
+                    <div className="text-xs text-gray-400 font-mono mt-1">
+                      {spot.symbol} {spot.price.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                      {spot.changeSinceStart !== null && (
+                        <span className={spot.changeSinceStart >= 0 ? 'text-green-400' : 'text-red-400'}>
+                          {' '}({spot.changeSinceStart >= 0 ? '+' : ''}{(spot.changeSinceStart * 100).toFixed(3)}% vs 開盤 {spot.roundStartPrice?.toLocaleString(undefined, { maximumFractionDigits: 2 })})
+                        </span>
+                      )}
+                      {market.fairValue?.current && (
+                        <span className="text-purple-300"> · 公允 Up {market.fairValue.current.up.toFixed(1)}¢</span>
+                      )}
+                    </div>
+                  )}
                 </div>
                 <div className="text-right">
                   <div className="text-gray-500 text-xs mb-1">距離結束</div>
@@ -148,6 +263,9 @@ export function Dashboard() {
                     <span className="text-green-400 font-bold">UP</span>
                   </div>
                   <div className="text-3xl font-bold text-white">{market.upPrice.toFixed(1)}¢</div>
+                  <div className="text-xs text-gray-400 font-mono mt-1">
+                    公允 {fair ? `${fair.up.toFixed(1)}¢ (${formatEdge(fair.up, market.upPrice)})` : '--'}
+                  </div>
                 </div>
                 <div className="p-4 bg-red-900/20 rounded-lg border border-red-500/30">
                   <div className="flex items-center gap-2 mb-2">
@@ -155,6 +273,9 @@ export function Dashboard() {
                     <span className="text-red-400 font-bold">DOWN</span>
                   </div>
                   <div className="text-3xl font-bold text-white">{market.downPrice.toFixed(1)}¢</div>
+                  <div className="text-xs text-gray-400 font-mono mt-1">
+                    公允 {fair ? `${fair.down.toFixed(1)}¢ (${formatEdge(fair.down, market.downPrice)})` : '--'}
+                  </div>
                 </div>
               </div>
             </div>
@@ -187,6 +308,11 @@ export function Dashboard() {
                       <span className={`font-bold ${pos.outcome === 'Up' ? 'text-green-400' : 'text-red-400'}`}>
                         {pos.outcome}
                       </span>
+                      {pos.strategy && (
+                        <span className="text-xs text-gray-500 font-mono">
+                          {pos.series ? `${pos.series}/` : ''}{pos.strategy}
+                        </span>
+                      )}
                     </div>
                     <span className="text-white font-mono">{pos.size} 股</span>
                   </div>
@@ -217,6 +343,153 @@ export function Dashboard() {
           )}
         </div>
       </div>
+
+      {/* Strategy Comparison */}
+      {strategyStats.length > 0 && (
+        <div className="cyber-card rounded-xl p-6">
+          <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+            <Brain className="w-5 h-5 text-pink-400" />
+            策略比較
+          </h3>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-800">
+                  <th className="pb-2 font-medium">策略</th>
+                  <th className="pb-2 font-medium">系列</th>
+                  <th className="pb-2 font-medium text-right">累計盈虧</th>
+                  <th className="pb-2 font-medium text-right">交易次數</th>
+                  <th className="pb-2 font-medium text-right">勝率</th>
+                  <th className="pb-2 font-medium text-right">持倉</th>
+                </tr>
+              </thead>
+              <tbody>
+                {strategyStats.map((s) => (
+                  <tr key={`${s.series}/${s.name}`} className="border-b border-gray-800/50">
+                    <td className="py-2 text-white font-mono">{s.name}</td>
+                    <td className="py-2 text-gray-400 font-mono">{s.series}</td>
+                    <td className={`py-2 text-right font-mono ${s.totalPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {s.totalPnl >= 0 ? '+' : ''}{s.totalPnl.toFixed(2)}¢
+                    </td>
+                    <td className="py-2 text-right text-white font-mono">{s.totalTrades}</td>
+                    <td className="py-2 text-right text-white font-mono">{s.winRate.toFixed(1)}%</td>
+                    <td className="py-2 text-right text-white font-mono">{s.openPositions}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Orders */}
+      <div className="cyber-card rounded-xl p-6">
+        <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+          <ListOrdered className="w-5 h-5 text-pink-400" />
+          訂單狀態
+        </h3>
+
+        {recentOrders.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-800">
+                  <th className="pb-2 font-medium">訂單</th>
+                  <th className="pb-2 font-medium">方向</th>
+                  <th className="pb-2 font-medium text-right">價格</th>
+                  <th className="pb-2 font-medium text-right">成交 / 數量</th>
+                  <th className="pb-2 font-medium text-right">狀態</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recentOrders.map((order) => (
+                  <tr key={order.orderId} className="border-b border-gray-800/50" title={order.reason}>
+                    <td className="py-2 text-gray-400 font-mono">
+                      {order.orderId.slice(0, 12)}...
+                      {order.strategy && (
+                        <span className="ml-2 text-xs text-gray-600">
+                          {order.series ? `${order.series}/` : ''}{order.strategy}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2">
+                      <span className={order.side === 'BUY' ? 'text-cyan-400' : 'text-pink-400'}>
+                        {order.side === 'BUY' ? '買入' : '賣出'}
+                      </span>{' '}
+                      <span className={order.outcome === 'Up' ? 'text-green-400' : 'text-red-400'}>{order.outcome}</span>
+                    </td>
+                    <td className="py-2 text-right text-white font-mono">{order.price.toFixed(1)}¢</td>
+                    <td className="py-2 text-right text-white font-mono">
+                      {order.filledSize.toFixed(1)} / {order.size}
+                    </td>
+                    <td className="py-2 text-right">
+                      <span className={`px-2 py-1 rounded text-xs font-bold border ${ORDER_STATUS_STYLES[order.status].className}`}>
+                        {ORDER_STATUS_STYLES[order.status].label}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            <ListOrdered className="w-12 h-12 mx-auto mb-3 opacity-50" />
+            <p>目前沒有訂單</p>
+          </div>
+        )}
+      </div>
+
+      {/* Risk Rejections */}
+      <div className="cyber-card rounded-xl p-6">
+        <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-yellow-400" />
+          風控攔截
+        </h3>
+
+        {recentRejections.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-800">
+                  <th className="pb-2 font-medium">時間</th>
+                  <th className="pb-2 font-medium">方向</th>
+                  <th className="pb-2 font-medium text-right">價格 × 數量</th>
+                  <th className="pb-2 font-medium">拒絕原因</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recentRejections.map((r) => (
+                  <tr key={`${r.timestamp}-${r.series}-${r.strategy}-${r.tokenId}`} className="border-b border-gray-800/50" title={r.signalReason}>
+                    <td className="py-2 text-gray-400 font-mono">
+                      {new Date(r.timestamp).toLocaleTimeString()}
+                      <span className="ml-2 text-xs text-gray-600">
+                        {r.series}/{r.strategy}
+                      </span>
+                    </td>
+                    <td className="py-2">
+                      <span className={r.action === 'BUY' ? 'text-cyan-400' : 'text-pink-400'}>
+                        {r.action === 'BUY' ? '買入' : '賣出'}
+                      </span>{' '}
+                      <span className={r.outcome === 'Up' ? 'text-green-400' : 'text-red-400'}>{r.outcome}</span>
+                    </td>
+                    <td className="py-2 text-right text-white font-mono">
+                      {r.price.toFixed(1)}¢ × {r.size}
+                    </td>
+                    <td className="py-2 text-yellow-400">{r.reasons.join('；')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            <ShieldAlert className="w-12 h-12 mx-auto mb-3 opacity-50" />
+            <p>目前沒有被攔截的信號</p>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,146 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ScrollText, Pause, Play, X } from 'lucide-react';
+import { useBotStore, LogEntry, LogLevel } from '../store/botStore';
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  debug: 'text-gray-500',
+  info: 'text-cyan-400',
+  warn: 'text-yellow-400',
+  error: 'text-red-400',
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('zh-TW', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export function LogViewer() {
+  const { logs } = useBotStore();
+  const [minLevel, setMinLevel] = useState<LogLevel>('info');
+  const [component, setComponent] = useState('');
+  const [search, setSearch] = useState('');
+  const [tickId, setTickId] = useState<string | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [frozen, setFrozen] = useState<LogEntry[]>([]);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // 暫停時停在當前畫面，新日誌繼續在背景接收
+  const source = paused ? frozen : logs;
+  const components = useMemo(() => Array.from(new Set(logs.map((l) => l.component))).sort(), [logs]);
+
+  const visible = useMemo(() => {
+    const min = LEVELS.indexOf(minLevel);
+    const query = search.trim().toLowerCase();
+    return source.filter(
+      (entry) =>
+        LEVELS.indexOf(entry.level) >= min &&
+        (!component || entry.component === component) &&
+        (!tickId || entry.tickId === tickId) &&
+        (!query || `${entry.msg} ${entry.slug ?? ''} ${JSON.stringify(entry.data ?? {})}`.toLowerCase().includes(query))
+    );
+  }, [source, minLevel, component, tickId, search]);
+
+  useEffect(() => {
+    if (!paused) bottomRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [visible, paused]);
+
+  const togglePause = () => {
+    if (!paused) setFrozen(logs);
+    setPaused(!paused);
+  };
+
+  return (
+    <div className="cyber-card rounded-xl p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2 text-xl font-bold text-white">
+          <ScrollText className="w-6 h-6 text-cyan-400" />
+          日誌
+        </div>
+        <span className="text-gray-500 text-sm">
+          {visible.length} / {source.length} 條
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <select
+          value={minLevel}
+          onChange={(e) => setMinLevel(e.target.value as LogLevel)}
+          className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white"
+        >
+          {LEVELS.map((level) => (
+            <option key={level} value={level}>
+              ≥ {level}
+            </option>
+          ))}
+        </select>
+        <select
+          value={component}
+          onChange={(e) => setComponent(e.target.value)}
+          className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white"
+        >
+          <option value="">全部模組</option>
+          {components.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="搜尋訊息 / slug..."
+          className="flex-1 min-w-[160px] bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-cyan-500"
+        />
+        {tickId && (
+          <button
+            onClick={() => setTickId(null)}
+            className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm bg-cyan-900/40 text-cyan-300 border border-cyan-500/30"
+          >
+            tick {tickId}
+            <X className="w-3 h-3" />
+          </button>
+        )}
+        <button
+          onClick={togglePause}
+          className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm bg-gray-700 hover:bg-gray-600 text-gray-200"
+        >
+          {paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+          {paused ? '繼續' : '暫停'}
+        </button>
+      </div>
+
+      <div className="h-[60vh] overflow-y-auto bg-black/40 rounded-lg border border-gray-800 p-3 font-mono text-xs space-y-1">
+        {visible.length === 0 ? (
+          <p className="text-gray-600">沒有符合條件的日誌</p>
+        ) : (
+          visible.map((entry, idx) => (
+            <div key={`${entry.timestamp}-${idx}`} className="flex gap-2 whitespace-pre-wrap break-all">
+              <span className="text-gray-600 flex-shrink-0">{formatTime(entry.timestamp)}</span>
+              <span className={`w-10 flex-shrink-0 uppercase ${LEVEL_STYLES[entry.level]}`}>{entry.level}</span>
+              <span className="w-16 flex-shrink-0 text-purple-400">{entry.component}</span>
+              {entry.tickId && (
+                <button
+                  onClick={() => setTickId(entry.tickId!)}
+                  className="flex-shrink-0 text-gray-500 hover:text-cyan-400"
+                  title={entry.slug ?? ''}
+                >
+                  #{entry.tickId}
+                </button>
+              )}
+              <span className="text-gray-200">
+                {entry.msg}
+                {entry.data && <span className="text-gray-500"> {JSON.stringify(entry.data)}</span>}
+              </span>
+            </div>
+          ))
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <p className="text-xs text-gray-600 mt-3">
+        顯示服務器最近 500 條日誌；點擊 tick 編號只看同一個 tick 的行情、策略和下單記錄。完整記錄在服務器的 LOG_FILE（默認 logs/bot.jsonl）
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Bitcoin, KeyRound, LogIn, User } from 'lucide-react';
+import { useBotStore } from '../store/botStore';
+
+type Mode = 'password' | 'token';
+
+export function LoginPanel() {
+  const { login, authError } = useBotStore();
+  const [mode, setMode] = useState<Mode>('password');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [token, setToken] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    await login(mode === 'token' ? { token } : { username, password });
+    setSubmitting(false);
+  };
+
+  const inputClass =
+    'w-full bg-gray-800 border border-purple-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-purple-500 transition-colors';
+
+  return (
+    <div className="min-h-screen bg-cyber-black flex items-center justify-center px-4">
+      <form onSubmit={handleSubmit} className="cyber-card rounded-xl p-8 w-full max-w-md space-y-6">
+        <div className="flex items-center gap-4">
+          <div className="bg-gradient-to-br from-orange-500 to-yellow-500 p-3 rounded-xl cyber-glow">
+            <Bitcoin className="w-8 h-8 text-white" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-white">登入控制台</h1>
+            <p className="text-gray-500 text-sm">viewer 只能查看，operator 可以控制機器人</p>
+          </div>
+        </div>
+
+        <div className="flex gap-1 border-b border-purple-900/30">
+          {([
+            ['password', '用戶名 / 密碼'],
+            ['token', 'Admin Token'],
+          ] as [Mode, string][]).map(([id, label]) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => setMode(id)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+                mode === id ? 'text-cyan-400 border-cyan-400' : 'text-gray-500 border-transparent hover:text-purple-400'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'password' ? (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-2 flex items-center gap-2">
+                <User className="w-4 h-4 text-purple-400" />
+                用戶名
+              </label>
+              <input value={username} onChange={(e) => setUsername(e.target.value)} className={inputClass} autoComplete="username" />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2 flex items-center gap-2">
+                <KeyRound className="w-4 h-4 text-yellow-400" />
+                密碼
+              </label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClass}
+                autoComplete="current-password"
+              />
+            </div>
+          </div>
+        ) : (
+          <div>
+            <label className="block text-sm text-gray-400 mb-2 flex items-center gap-2">
+              <KeyRound className="w-4 h-4 text-yellow-400" />
+              Admin Token
+            </label>
+            <input type="password" value={token} onChange={(e) => setToken(e.target.value)} className={inputClass} />
+            <p className="text-xs text-gray-600 mt-1">ADMIN_TOKEN，未設定時見服務器啟動日誌</p>
+          </div>
+        )}
+
+        {authError && (
+          <div className="p-3 bg-red-900/20 border border-red-500/30 rounded-lg text-sm text-red-400">{authError}</div>
+        )}
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full flex items-center justify-center gap-2 py-3 rounded-xl font-bold bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-500 hover:to-cyan-500 text-white cyber-glow disabled:opacity-50"
+        >
+          <LogIn className="w-5 h-5" />
+          登入
+        </button>
+      </form>
+    </div>
+  );
+}
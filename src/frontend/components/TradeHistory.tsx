@@ -52,6 +52,11 @@ export function TradeHistory() {
                   </td>
                   <td className="py-4 text-white text-sm max-w-[200px] truncate">
                     {trade.market}
+                    {trade.strategy && (
+                      <div className="text-xs text-gray-500 font-mono">
+                        {trade.series ? `${trade.series}/` : ''}{trade.strategy}
+                      </div>
+                    )}
                   </td>
                   <td className="py-4">
                     <div className="flex items-center gap-1">
@@ -77,7 +82,7 @@ export function TradeHistory() {
                   <td className="py-4 text-right text-white font-mono">
                     {trade.price.toFixed(1)}¢
                   </td>
-                  <td className="py-4 text-right text-white font-mono">
+                  <td className="py-4 text-right text-white font-mono" title={trade.sizeReason}>
                     {trade.size}
                   </td>
                   <td className="py-4 text-right text-gray-400 font-mono">
@@ -7,11 +7,51 @@ export interface BotConfig {
   stopLoss: number;
   maxPositionSize: number;
   allowCurrentMarketTrading: boolean;
-  privateKey: string;
+  maxDailyLossUsdc: number;
+  maxOpenNotionalUsdc: number;
   funderAddress: string;
+  strategies: string[];
+  series: string[];
+}
+
+// 命名配置檔（一組交易參數，內建的不能覆蓋或刪除）
+export interface ConfigProfile {
+  name: string;
+  builtin: boolean;
+  values: Partial<BotConfig>;
+}
+
+// 配置變更歷史（logs/config-history.jsonl），key 為服務器的配置鍵
+export interface ConfigHistoryEntry {
+  timestamp: number;
+  user: string;
+  action: 'update' | 'apply_profile' | 'save_profile' | 'delete_profile';
+  profile?: string;
+  changes: { key: string; from: unknown; to: unknown }[];
+}
+
+export interface SeriesInfo {
+  id: string;
+  label: string;
+}
+
+export interface StrategyInfo {
+  name: string;
+  description: string;
+}
+
+export interface StrategyStats {
+  name: string;
+  series: string;
+  totalPnl: number;
+  totalTrades: number;
+  winRate: number;
+  openPositions: number;
 }
 
 export interface Position {
+  strategy?: string;
+  series?: string;
   tokenId: string;
   outcome: 'Up' | 'Down';
   size: number;
@@ -22,16 +62,87 @@ export interface Position {
 
 export interface Trade {
   id: string;
+  strategy?: string;
+  series?: string;
   timestamp: number;
   market: string;
   outcome: 'Up' | 'Down';
   side: 'BUY' | 'SELL';
   price: number;
   size: number;
+  sizeReason?: string; // 買入數量的計算方式
   pnl?: number;
   pnlPercent?: number;
 }
 
+export type OrderStatus =
+  | 'CREATED'
+  | 'OPEN'
+  | 'PARTIALLY_FILLED'
+  | 'FILLED'
+  | 'CANCELLED'
+  | 'EXPIRED'
+  | 'REJECTED';
+
+export interface Order {
+  strategy?: string;
+  series?: string;
+  orderId: string;
+  tokenId: string;
+  outcome: 'Up' | 'Down';
+  side: 'BUY' | 'SELL';
+  price: number;
+  size: number;
+  filledSize: number;
+  status: OrderStatus;
+  reason?: string;
+  paper: boolean;
+  updatedAt: number;
+}
+
+// 被下單前風控攔截的信號（logs/risk-audit.jsonl 的 REJECTED 記錄）
+export interface RiskRejection {
+  timestamp: number;
+  series: string;
+  strategy: string;
+  action: 'BUY' | 'SELL';
+  tokenId: string;
+  outcome: 'Up' | 'Down';
+  price: number;
+  size: number;
+  signalReason: string;
+  reasons: string[];
+  paper?: boolean;
+}
+
+// 賬戶級風控狀態（risk_status / risk_halt）
+export interface AccountRiskStatus {
+  halted: boolean;
+  haltReason: string | null;
+  haltedAt: number | null;
+  dailyRealizedPnl: number; // cents
+  openNotional: number; // cents
+  consecutiveLosingRounds: number;
+  cooldownUntil: number | null;
+}
+
+export interface SpotState {
+  symbol: string;
+  price: number; // USD
+  updatedAt: number;
+  roundStartPrice: number | null;
+  changeSinceStart: number | null; // 0.001 = +0.1%
+  volatility: number | null;
+}
+
+export interface FairValue {
+  up: number; // cents
+  down: number; // cents
+  strike: number | null;
+  spot: number | null;
+  timeRemaining: number;
+}
+
 export interface MarketState {
   currentMarket: string | null;
   nextMarket: string | null;
@@ -39,6 +150,53 @@ export interface MarketState {
   downPrice: number;
   timeToStart: number;
   timeToEnd: number;
+  spot: SpotState | null;
+  fairValue: { current: FairValue | null; next: FairValue | null };
+}
+
+export interface SeriesMarket {
+  series: string;
+  label: string;
+  market: MarketState | null;
+}
+
+// 錢包 keystore 狀態（只有地址，私鑰不會離開服務器的 signer）
+export interface KeystoreStatus {
+  file: string;
+  exists: boolean;
+  unlocked: boolean;
+  address: string | null;
+  source: 'keystore' | 'env' | null;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// 服務器的結構化日誌（logs/bot.jsonl），tick 內的日誌帶 tickId / series / slug
+export interface LogEntry {
+  timestamp: number;
+  level: LogLevel;
+  component: string;
+  msg: string;
+  tickId?: string;
+  series?: string;
+  slug?: string;
+  data?: Record<string, unknown>;
+}
+
+const LOG_LIMIT = 500; // 前端保留的日誌條數
+
+export type Role = 'viewer' | 'operator';
+
+// 登入身份（/api/session）；viewer 只能查看，operator 可以控制機器人和修改設定
+export interface AuthSession {
+  username: string;
+  role: Role;
+}
+
+export interface LoginCredentials {
+  username?: string;
+  password?: string;
+  token?: string;
 }
 
 export interface BotStatus {
@@ -55,14 +213,39 @@ interface BotStore {
   status: BotStatus;
   positions: Position[];
   trades: Trade[];
-  market: MarketState | null;
+  orders: Order[];
+  riskRejections: RiskRejection[];
+  riskStatus: AccountRiskStatus | null;
+  keystore: KeystoreStatus | null;
+  keystoreError: string | null;
+  profile: string | null; // 當前套用的配置檔，手動修改後為 null
+  profiles: ConfigProfile[];
+  configHistory: ConfigHistoryEntry[];
+  configError: string | null; // 服務器拒絕的修改（校驗錯誤）
+  logs: LogEntry[]; // 舊的在前
+  markets: Record<string, SeriesMarket>; // 按系列
+  availableStrategies: StrategyInfo[];
+  availableSeries: SeriesInfo[];
+  strategyStats: StrategyStats[];
   ws: WebSocket | null;
-  
+  session: AuthSession | null;
+  authChecked: boolean; // 已向服務器確認過登入狀態
+  authError: string | null;
+
+  checkSession: () => Promise<void>;
+  login: (credentials: LoginCredentials) => Promise<void>;
+  logout: () => Promise<void>;
   connect: () => void;
   disconnect: () => void;
   updateConfig: (config: Partial<BotConfig>) => void;
+  applyProfile: (name: string) => void;
+  saveProfile: (name: string) => void;
+  deleteProfile: (name: string) => void;
   startBot: () => void;
   stopBot: () => void;
+  rearmRisk: () => void;
+  unlockKeystore: (passphrase: string) => void;
+  lockKeystore: () => void;
 }
 
 export const useBotStore = create<BotStore>((set, get) => ({
@@ -73,8 +256,11 @@ export const useBotStore = create<BotStore>((set, get) => ({
     stopLoss: 5,
     maxPositionSize: 100,
     allowCurrentMarketTrading: true,
-    privateKey: '',
+    maxDailyLossUsdc: 50,
+    maxOpenNotionalUsdc: 500,
     funderAddress: '',
+    strategies: ['premarket-scalp'],
+    series: ['btc-15m'],
   },
   status: {
     running: false,
@@ -86,10 +272,66 @@ export const useBotStore = create<BotStore>((set, get) => ({
   },
   positions: [],
   trades: [],
-  market: null,
+  orders: [],
+  riskRejections: [],
+  riskStatus: null,
+  keystore: null,
+  keystoreError: null,
+  profile: null,
+  profiles: [],
+  configHistory: [],
+  configError: null,
+  logs: [],
+  markets: {},
+  availableStrategies: [],
+  availableSeries: [],
+  strategyStats: [],
   ws: null,
+  session: null,
+  authChecked: false,
+  authError: null,
+
+  checkSession: async () => {
+    try {
+      const res = await fetch('/api/session', { credentials: 'same-origin' });
+      const session = res.ok ? ((await res.json()) as AuthSession) : null;
+      set({ session, authChecked: true });
+      if (session) get().connect();
+    } catch (err) {
+      console.error('[Auth] Session check failed:', err);
+      set({ authChecked: true });
+      setTimeout(() => get().checkSession(), 3000);
+    }
+  },
+
+  login: async (credentials) => {
+    try {
+      const res = await fetch('/api/login', {
+        method: 'POST',
+        credentials: 'same-origin',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(credentials),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        set({ authError: data.error || '登入失敗' });
+        return;
+      }
+      set({ session: data, authError: null });
+      get().connect();
+    } catch (err) {
+      set({ authError: '無法連接服務器' });
+    }
+  },
+
+  logout: async () => {
+    get().disconnect();
+    await fetch('/api/logout', { method: 'POST', credentials: 'same-origin' }).catch(() => undefined);
+    set({ session: null });
+  },
 
   connect: () => {
+    if (get().ws) return;
     const port = window.location.port || '3002';
     const ws = new WebSocket(`ws://${window.location.hostname}:${port || '3002'}/ws`);
     
@@ -98,11 +340,18 @@ export const useBotStore = create<BotStore>((set, get) => ({
       set({ ws, status: { ...get().status, connected: true } });
     };
 
-    ws.onclose = () => {
+    ws.onclose = (event) => {
       console.log('[WS] Disconnected');
       set({ ws: null, status: { ...get().status, connected: false } });
-      // Reconnect after 3 seconds
-      setTimeout(() => get().connect(), 3000);
+      // 登出或 session 過期：回到登入畫面
+      if (event.code === 4401) {
+        set({ session: null });
+        return;
+      }
+      // 3 秒後確認登入狀態再重連（握手被拒絕時 session 可能已失效）
+      setTimeout(() => {
+        if (get().session) get().checkSession();
+      }, 3000);
     };
 
     ws.onmessage = (event) => {
@@ -114,11 +363,29 @@ export const useBotStore = create<BotStore>((set, get) => ({
           case 'status':
             set({ status: { ...get().status, ...data } });
             break;
-          case 'config':
-            set({ config: { ...get().config, ...data } });
+          case 'config': {
+            const { availableStrategies, availableSeries, profile, profiles, ...rest } = data;
+            set({ config: { ...get().config, ...rest } });
+            if (availableStrategies) set({ availableStrategies });
+            if (availableSeries) set({ availableSeries });
+            if (profile !== undefined) set({ profile });
+            if (profiles) set({ profiles });
+            break;
+          }
+          case 'logs':
+            set({ logs: data });
+            break;
+          case 'log':
+            set({ logs: [...get().logs, data].slice(-LOG_LIMIT) });
+            break;
+          case 'config_history':
+            set({ configHistory: data });
+            break;
+          case 'strategies':
+            set({ strategyStats: data });
             break;
           case 'market':
-            set({ market: data });
+            set({ markets: { ...get().markets, [data.series]: data } });
             break;
           case 'positions':
             set({ positions: data });
@@ -129,6 +396,31 @@ export const useBotStore = create<BotStore>((set, get) => ({
           case 'trades':
             set({ trades: data });
             break;
+          case 'orders':
+            set({ orders: data });
+            break;
+          case 'order':
+            set({ orders: [data, ...get().orders.filter((o) => o.orderId !== data.orderId)] });
+            break;
+          case 'risk_rejection':
+            set({ riskRejections: [data, ...get().riskRejections].slice(0, 100) });
+            break;
+          case 'risk_rejections':
+            set({ riskRejections: data });
+            break;
+          case 'risk_status':
+          case 'risk_halt':
+            set({ riskStatus: data });
+            break;
+          case 'keystore':
+            set({ keystore: data });
+            if (data.unlocked) set({ keystoreError: null });
+            break;
+          case 'error':
+            console.warn('[WS]', data.message);
+            if (data.scope === 'config') set({ configError: data.message });
+            else if (String(data.message).includes('keystore')) set({ keystoreError: data.message });
+            break;
           case 'pnl':
             set({ status: { ...get().status, totalPnl: data.totalPnl, totalTrades: data.totalTrades, winRate: data.winRate } });
             break;
@@ -142,21 +434,46 @@ export const useBotStore = create<BotStore>((set, get) => ({
   disconnect: () => {
     const { ws } = get();
     if (ws) {
+      ws.onclose = null; // 主動斷開，不重連
       ws.close();
-      set({ ws: null });
+      set({ ws: null, status: { ...get().status, connected: false } });
     }
   },
 
   updateConfig: (newConfig) => {
     const { ws, config } = get();
     const updated = { ...config, ...newConfig };
-    set({ config: updated });
+    set({ config: updated, configError: null });
     
     if (ws && ws.readyState === WebSocket.OPEN) {
       ws.send(JSON.stringify({ type: 'config', data: updated }));
     }
   },
 
+  applyProfile: (name) => {
+    const { ws } = get();
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      set({ configError: null });
+      ws.send(JSON.stringify({ type: 'config_profile', data: { name } }));
+    }
+  },
+
+  saveProfile: (name) => {
+    const { ws } = get();
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      set({ configError: null });
+      ws.send(JSON.stringify({ type: 'config_profile_save', data: { name } }));
+    }
+  },
+
+  deleteProfile: (name) => {
+    const { ws } = get();
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      set({ configError: null });
+      ws.send(JSON.stringify({ type: 'config_profile_delete', data: { name } }));
+    }
+  },
+
   startBot: () => {
     const { ws } = get();
     if (ws && ws.readyState === WebSocket.OPEN) {
@@ -170,4 +487,26 @@ export const useBotStore = create<BotStore>((set, get) => ({
       ws.send(JSON.stringify({ type: 'stop' }));
     }
   },
+
+  rearmRisk: () => {
+    const { ws } = get();
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'risk_rearm' }));
+    }
+  },
+
+  unlockKeystore: (passphrase) => {
+    const { ws } = get();
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      set({ keystoreError: null });
+      ws.send(JSON.stringify({ type: 'keystore_unlock', data: { passphrase } }));
+    }
+  },
+
+  lockKeystore: () => {
+    const { ws } = get();
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'keystore_lock' }));
+    }
+  },
 }));
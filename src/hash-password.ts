@@ -0,0 +1,12 @@
+/**
+ * 生成 AUTH_USERS 用的密碼雜湊
+ * 用法: npm run hash-password -- <密碼>
+ */
+import { hashPassword } from './backend/auth.js';
+
+const password = process.argv[2];
+if (!password) {
+  console.error('用法: npm run hash-password -- <密碼>');
+  process.exit(1);
+}
+console.log(hashPassword(password));
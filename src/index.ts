@@ -1,134 +1,108 @@
-import { config, validateConfig } from './config.js';
-import { MarketFetcher } from './market-fetcher.js';
-import { Trader } from './trader.js';
-import { Strategy } from './strategy.js';
-
-class TradingBot {
-  private fetcher: MarketFetcher;
-  private trader: Trader;
-  private strategy: Strategy;
-  private isRunning = false;
-
-  constructor() {
-    this.fetcher = new MarketFetcher();
-    this.trader = new Trader();
-    this.strategy = new Strategy();
-  }
-
-  async start(): Promise<void> {
-    console.log('🚀 Starting Polymarket BTC 15min Trading Bot');
-    console.log(`📊 Config: MAX_BUY_PRICE=${config.MAX_BUY_PRICE}¢, PROFIT_TARGET=${config.PROFIT_TARGET}¢`);
-    console.log(`📊 Paper Trading: ${config.PAPER_TRADING}`);
-
-    validateConfig();
-    await this.trader.initialize();
+/**
+ * 命令行入口 - 無界面運行 BotEngine，把引擎事件輸出到日誌
+ * 用法: npm run record（--record-only 只錄製不交易）或 tsx src/index.ts
+ */
+import { config } from './config.js';
+import { BotEngine } from './bot-engine.js';
+import { loadSigner } from './keystore.js';
+import { Notifier } from './notifier.js';
+import { RuntimeConfigStore } from './runtime-config.js';
+import type { StrategyRunner } from './strategy-runner.js';
+import type { MarketState } from './types.js';
+
+const recordOnly = process.argv.includes('--record-only');
+
+// 和 Web 服務器一樣套用控制面板保存的參數修改
+new RuntimeConfigStore().load();
+const engine = new BotEngine({ recordOnly });
+const notifier = new Notifier();
+notifier.attach(engine);
+
+engine.on('market', ({ series, state }) => {
+  if (!state) console.log(`⏳ Waiting for active ${series.label} market...`);
+});
 
-    this.isRunning = true;
-    await this.runLoop();
+engine.on('tick', ({ loop, state }) => {
+  if (recordOnly) {
+    console.log(`📼 Recorded ${loop.series.id}: Up ${state.upPrice.toFixed(1)}¢ | Down ${state.downPrice.toFixed(1)}¢`);
+    return;
   }
+  for (const runner of loop.runners) {
+    logStatus(runner, state);
+  }
+});
 
-  private async runLoop(): Promise<void> {
-    while (this.isRunning) {
-      try {
-        await this.tick();
-      } catch (error) {
-        console.error('❌ Error in main loop:', error);
-      }
+engine.on('trade', (trade) => {
+  const pnl = trade.pnl !== undefined ? ` | PnL: ${trade.pnl >= 0 ? '+' : ''}${trade.pnl.toFixed(2)}¢` : '';
+  console.log(`💰 [${trade.series}/${trade.strategy}] ${trade.side} ${trade.outcome} ${trade.size} @ ${trade.price.toFixed(1)}¢${pnl}`);
+});
 
-      await this.sleep(config.POLL_INTERVAL_MS);
-    }
-  }
+engine.on('tick_error', ({ series, error }) => {
+  console.error(`❌ Error in ${series.id} loop:`, error);
+});
 
-  private async tick(): Promise<void> {
-    // 1. 獲取市場狀態
-    const state = await this.fetcher.getMarketState();
-
-    if (!state) {
-      console.log('⏳ Waiting for active market...');
-      return;
-    }
-
-    // 2. 更新持倉價格
-    const positions = this.trader.getPositions();
-    this.strategy.updatePositionPrices(positions, state);
-
-    // 3. 顯示狀態
-    this.logStatus(state);
-
-    // 4. 生成交易信號
-    const signals = this.strategy.generateSignals(state, positions);
-
-    // 5. 執行交易
-    for (const signal of signals) {
-      console.log(`📍 Signal: ${signal.action} ${signal.outcome} - ${signal.reason}`);
-
-      if (signal.action === 'BUY') {
-        await this.trader.buy(
-          signal.tokenId,
-          signal.outcome,
-          signal.price,
-          signal.size
-        );
-      } else if (signal.action === 'SELL') {
-        await this.trader.sell(
-          signal.tokenId,
-          signal.outcome,
-          signal.price,
-          signal.size
-        );
-      }
-    }
-  }
+function logStatus(runner: StrategyRunner, state: MarketState): void {
+  const positions = runner.trader.getPositions();
+  const totalPnL = runner.trader.getTotalPnL();
 
-  private logStatus(state: any): void {
-    const positions = this.trader.getPositions();
-    const totalPnL = this.trader.getTotalPnL();
+  const timeToStartSec = Math.floor(state.timeToStart / 1000);
+  const timeToEndSec = Math.floor(state.timeToEnd / 1000);
 
-    const timeToStartSec = Math.floor(state.timeToStart / 1000);
-    const timeToEndSec = Math.floor(state.timeToEnd / 1000);
+  let statusLine = `Up: ${state.upPrice.toFixed(1)}¢ | Down: ${state.downPrice.toFixed(1)}¢`;
 
-    let statusLine = `Up: ${state.upPrice.toFixed(1)}¢ | Down: ${state.downPrice.toFixed(1)}¢`;
+  if (state.nextMarket && state.timeToStart > 0) {
+    statusLine += ` | 開局倒數: ${timeToStartSec}s`;
+  }
+  if (state.currentMarket && state.timeToEnd > 0) {
+    statusLine += ` | 結束倒數: ${timeToEndSec}s`;
+  }
 
-    if (state.nextMarket && state.timeToStart > 0) {
-      statusLine += ` | 開局倒數: ${timeToStartSec}s`;
-    }
-    if (state.currentMarket && state.timeToEnd > 0) {
-      statusLine += ` | 結束倒數: ${timeToEndSec}s`;
-    }
+  statusLine += ` | 持倉: ${positions.size} | 累計PnL: ${totalPnL.toFixed(2)}¢`;
 
-    statusLine += ` | 持倉: ${positions.size} | 累計PnL: ${totalPnL.toFixed(2)}¢`;
+  console.log(`📈 [${runner.label}] ${statusLine}`);
 
-    console.log(`📈 ${statusLine}`);
+  // 顯示持倉詳情
+  for (const [, pos] of positions) {
+    const unrealizedPnL = (pos.currentPrice - pos.avgBuyPrice) * pos.size;
+    console.log(
+      `   └─ ${pos.outcome}: ${pos.size} @ ${pos.avgBuyPrice.toFixed(1)}¢ → ${pos.currentPrice.toFixed(1)}¢ (${unrealizedPnL >= 0 ? '+' : ''}${unrealizedPnL.toFixed(2)}¢)`
+    );
+  }
+}
 
-    // 顯示持倉詳情
-    for (const [, pos] of positions) {
-      const unrealizedPnL = (pos.currentPrice - pos.avgBuyPrice) * pos.size;
-      console.log(
-        `   └─ ${pos.outcome}: ${pos.size} @ ${pos.avgBuyPrice.toFixed(1)}¢ → ${pos.currentPrice.toFixed(1)}¢ (${unrealizedPnL >= 0 ? '+' : ''}${unrealizedPnL.toFixed(2)}¢)`
-      );
-    }
+async function main(): Promise<void> {
+  console.log('🚀 Starting Polymarket Up/Down Trading Bot');
+  console.log(`📊 Config: MAX_BUY_PRICE=${config.MAX_BUY_PRICE}¢, PROFIT_TARGET=${config.PROFIT_TARGET}¢`);
+  console.log(`📊 Paper Trading: ${config.PAPER_TRADING}`);
+  if (config.RECORD_MARKET_DATA || recordOnly) {
+    console.log(`📼 Recording market data to ${config.RECORD_DIR}${recordOnly ? ' (record only, no trading)' : ''}`);
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  // 實盤：解鎖 keystore（KEYSTORE_PASSPHRASE 或終端輸入密碼）
+  if (!config.PAPER_TRADING && !recordOnly) {
+    await loadSigner();
   }
 
-  stop(): void {
-    console.log('🛑 Stopping bot...');
-    this.isRunning = false;
+  await engine.start();
+  console.log(`📈 Series: ${engine.getLoops().map((l) => l.series.id).join(', ')}`);
+  if (!recordOnly) {
+    console.log(`🧠 Strategies: ${config.STRATEGIES.join(', ')}`);
   }
 }
 
-// 主程序入口
-const bot = new TradingBot();
-
-process.on('SIGINT', () => {
-  bot.stop();
+process.on('SIGINT', async () => {
+  console.log('🛑 Stopping bot...');
+  engine.close();
   console.log('\n📊 Final Stats:');
+  for (const stats of engine.getRunners().map((runner) => runner.getStats())) {
+    console.log(`   ${stats.series}/${stats.name}: PnL ${stats.totalPnl.toFixed(2)}¢ | 交易 ${stats.totalTrades} | 勝率 ${stats.winRate.toFixed(1)}%`);
+  }
+  // 等停止通知發出
+  await notifier.flush();
   process.exit(0);
 });
 
-bot.start().catch((error) => {
+main().catch((error) => {
   console.error('Fatal error:', error);
   process.exit(1);
 });
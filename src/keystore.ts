@@ -0,0 +1,155 @@
+/**
+ * 加密錢包 - ethers JSON keystore（scrypt + AES），用密碼解鎖後私鑰只保存在記憶體中的 signer
+ *
+ * 解鎖方式：
+ * - 啟動時：KEYSTORE_PASSPHRASE，或在終端輸入密碼（index.ts / place-limit-sell.ts）
+ * - Web 控制面板：operator 在設定頁輸入密碼（keystore_unlock）
+ * 建立：npm run keystore -- create（從終端輸入或 .env 的 PRIVATE_KEY 匯入）
+ *
+ * 沒有 keystore 時仍接受 .env 的 PRIVATE_KEY（明文，會輸出警告）。
+ * 狀態只提供地址和來源，私鑰不會離開 signer。
+ */
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { Wallet } from 'ethers';
+import { config } from './config.js';
+
+export type SignerSource = 'keystore' | 'env';
+
+export interface KeystoreStatus {
+  file: string;
+  exists: boolean; // keystore 文件是否存在
+  unlocked: boolean;
+  address: string | null;
+  source: SignerSource | null; // 當前 signer 的來源
+}
+
+export interface CreateKeystoreOptions {
+  file?: string;
+  overwrite?: boolean;
+  scryptN?: number; // 加密強度（默認 ethers 的 131072），測試時可調低
+}
+
+let signer: Wallet | null = null;
+let signerSource: SignerSource | null = null;
+let warnedPlaintext = false;
+
+/**
+ * 當前的 signer：已解鎖的 keystore，否則 .env 的 PRIVATE_KEY；都沒有時為 null
+ */
+export function getSigner(): Wallet | null {
+  if (signer) return signer;
+  if (!config.PRIVATE_KEY) return null;
+  if (!warnedPlaintext) {
+    console.warn('⚠️ 正在使用 .env 中的明文 PRIVATE_KEY，建議改用加密 keystore（npm run keystore -- create）');
+    warnedPlaintext = true;
+  }
+  return new Wallet(config.PRIVATE_KEY);
+}
+
+export function keystoreStatus(file: string = config.KEYSTORE_FILE): KeystoreStatus {
+  const current = signer ?? (config.PRIVATE_KEY ? new Wallet(config.PRIVATE_KEY) : null);
+  return {
+    file,
+    exists: fs.existsSync(file),
+    unlocked: current !== null,
+    address: current?.address ?? null,
+    source: signer ? signerSource : current ? 'env' : null,
+  };
+}
+
+/**
+ * 實盤交易前確認有可用的 signer
+ */
+export function validateSigner(): void {
+  if (!config.PAPER_TRADING && !getSigner()) {
+    throw new Error('實盤交易需要先解鎖錢包 keystore（或設定 PRIVATE_KEY）');
+  }
+}
+
+/**
+ * 用密碼解鎖 keystore，返回錢包地址；密碼錯誤或文件損壞時拋出，保持原狀態
+ */
+export async function unlockKeystore(passphrase: string, file: string = config.KEYSTORE_FILE): Promise<string> {
+  if (!fs.existsSync(file)) {
+    throw new Error(`找不到 keystore: ${file}`);
+  }
+  let wallet: Wallet;
+  try {
+    wallet = await Wallet.fromEncryptedJson(fs.readFileSync(file, 'utf8'), passphrase);
+  } catch {
+    throw new Error('keystore 密碼錯誤或文件損壞');
+  }
+  signer = wallet;
+  signerSource = 'keystore';
+  console.log(`🔓 [錢包] 已解鎖 ${wallet.address}`);
+  return wallet.address;
+}
+
+/**
+ * 丟棄記憶體中的 signer（已初始化的 Trader 不受影響，下次啟動時生效）
+ */
+export function lockKeystore(): void {
+  if (signer) console.log(`🔒 [錢包] 已鎖定 ${signer.address}`);
+  signer = null;
+  signerSource = null;
+}
+
+/**
+ * 用密碼加密私鑰寫入 keystore（權限 600），返回錢包地址
+ */
+export async function createKeystore(privateKey: string, passphrase: string, options: CreateKeystoreOptions = {}): Promise<string> {
+  const file = options.file ?? config.KEYSTORE_FILE;
+  if (fs.existsSync(file) && !options.overwrite) {
+    throw new Error(`keystore 已存在: ${file}`);
+  }
+  if (!passphrase) {
+    throw new Error('keystore 密碼不能為空');
+  }
+  const wallet = new Wallet(privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`);
+  const json = await wallet.encrypt(passphrase, options.scryptN ? { scrypt: { N: options.scryptN } } : {});
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, json, { mode: 0o600 });
+  return wallet.address;
+}
+
+/**
+ * 終端輸入（不回顯）
+ */
+export function promptHidden(question: string): Promise<string> {
+  return new Promise((resolve) => {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+    const output = rl as unknown as { _writeToOutput: (s: string) => void };
+    const write = output._writeToOutput.bind(rl);
+    output._writeToOutput = (s: string) => {
+      if (s.includes(question) || s.includes('\n')) write(s);
+    };
+    rl.question(question, (answer) => {
+      rl.close();
+      process.stdout.write('\n');
+      resolve(answer);
+    });
+  });
+}
+
+/**
+ * 啟動時載入 signer：keystore 存在時用 KEYSTORE_PASSPHRASE 或終端輸入的密碼解鎖，否則回退到 PRIVATE_KEY
+ * prompt 為 false 或不是終端時不詢問密碼（Web 服務器可以之後從控制面板解鎖）
+ */
+export async function loadSigner(prompt = true): Promise<Wallet | null> {
+  if (signer || !fs.existsSync(config.KEYSTORE_FILE)) return getSigner();
+
+  let passphrase = config.KEYSTORE_PASSPHRASE;
+  if (!passphrase && prompt && process.stdin.isTTY) {
+    passphrase = await promptHidden(`🔐 keystore 密碼 (${config.KEYSTORE_FILE}): `);
+  }
+  if (!passphrase) return getSigner();
+
+  try {
+    await unlockKeystore(passphrase);
+  } catch (error: any) {
+    console.error(`❌ [錢包] ${error?.message || error}`);
+  }
+  return getSigner();
+}
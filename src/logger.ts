@@ -0,0 +1,180 @@
+/**
+ * 結構化日誌 - 分級、JSON 格式、按 tick 關聯
+ *
+ * 每條日誌帶 component（market / strategy / trader / server ...）；在 BotEngine 的 tick 內
+ * 還自動帶上 tickId、series 和 slug（AsyncLocalStorage，和 withConfigOverrides 一樣跨 await 傳遞），
+ * 用 tickId 可以串起同一個 tick 中行情、策略、下單的所有日誌。
+ *
+ * 輸出：
+ * - 控制台：LOG_FORMAT=text（默認，只輸出訊息）或 json（一行一個 JSON，給日誌收集器）
+ * - LOG_FILE（默認 logs/bot.jsonl，留空則不寫）：一行一個 JSON，超過 LOG_MAX_BYTES 時輪轉為 .1 … .LOG_MAX_FILES
+ * - 最近 LOG_BUFFER_SIZE 條保存在記憶體中，server 推送給前端的日誌頁
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import { config } from './config.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']; // 從低到高
+
+// tick 內的關聯資料
+export interface LogContext {
+  tickId?: string;
+  series?: string;
+  slug?: string;
+}
+
+export interface LogEntry extends LogContext {
+  timestamp: number;
+  level: LogLevel;
+  component: string;
+  msg: string;
+  data?: Record<string, unknown>;
+}
+
+export interface Logger {
+  debug(msg: string, data?: Record<string, unknown>): void;
+  info(msg: string, data?: Record<string, unknown>): void;
+  warn(msg: string, data?: Record<string, unknown>): void;
+  error(msg: string, data?: Record<string, unknown>): void;
+}
+
+const contextScope = new AsyncLocalStorage<LogContext>();
+
+/**
+ * 在日誌關聯範圍內執行 fn（包括其中所有的 await），範圍內的日誌都帶上 context
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextScope.run({ ...contextScope.getStore(), ...context }, fn);
+}
+
+/**
+ * 補充當前範圍的關聯資料（例如取得盤口後的 slug），範圍外調用時忽略
+ */
+export function setLogContext(context: LogContext): void {
+  const store = contextScope.getStore();
+  if (store) Object.assign(store, context);
+}
+
+// Error 只保留訊息（axios 等錯誤對象有循環引用，也太大）
+function normalize(data: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    result[key] = value instanceof Error ? value.message : value;
+  }
+  return result;
+}
+
+function serialize(entry: LogEntry): string {
+  try {
+    return JSON.stringify(entry);
+  } catch {
+    return JSON.stringify({ ...entry, data: String(entry.data) });
+  }
+}
+
+export interface LogManager {
+  on(event: 'entry', listener: (entry: LogEntry) => void): this;
+  off(event: 'entry', listener: (entry: LogEntry) => void): this;
+  emit(event: 'entry', entry: LogEntry): boolean;
+}
+
+export class LogManager extends EventEmitter {
+  private recent: LogEntry[] = []; // 最近的日誌，新連接的前端用
+  private file = ''; // 當前寫入的文件（LOG_FILE 改變時重新讀取大小）
+  private fileSize = 0;
+
+  write(entry: LogEntry): void {
+    if (config.LOG_LEVEL === 'silent') return; // 回測靜音：控制台、文件和前端都不輸出
+    const minLevel = Math.max(LOG_LEVELS.indexOf(config.LOG_LEVEL as LogLevel), 0);
+    if (LOG_LEVELS.indexOf(entry.level) < minLevel) return;
+
+    const line = serialize(entry);
+    this.print(entry, line);
+    this.append(line);
+
+    this.recent.push(entry);
+    if (this.recent.length > config.LOG_BUFFER_SIZE) {
+      this.recent.splice(0, this.recent.length - config.LOG_BUFFER_SIZE);
+    }
+    this.emit('entry', entry);
+  }
+
+  /**
+   * 最近的日誌（舊的在前）
+   */
+  getRecent(limit: number = config.LOG_BUFFER_SIZE): LogEntry[] {
+    return this.recent.slice(-limit);
+  }
+
+  private print(entry: LogEntry, line: string): void {
+    let text = line;
+    if (config.LOG_FORMAT !== 'json') {
+      const data = entry.data ? Object.entries(entry.data).map(([k, v]) => `${k}=${typeof v === 'string' ? v : JSON.stringify(v)}`) : [];
+      text = [entry.msg, ...data].join(' ');
+    }
+    if (entry.level === 'error') console.error(text);
+    else if (entry.level === 'warn') console.warn(text);
+    else console.log(text);
+  }
+
+  private append(line: string): void {
+    const file = config.LOG_FILE;
+    if (!file) return;
+
+    try {
+      if (this.file !== file) {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        this.file = file;
+        this.fileSize = fs.existsSync(file) ? fs.statSync(file).size : 0;
+      }
+      const bytes = Buffer.byteLength(line) + 1;
+      if (this.fileSize > 0 && this.fileSize + bytes > config.LOG_MAX_BYTES) {
+        this.rotate(file);
+      }
+      fs.appendFileSync(file, line + '\n');
+      this.fileSize += bytes;
+    } catch (error: any) {
+      console.error('[日誌] 寫入失敗:', error?.message || error);
+    }
+  }
+
+  /**
+   * file → file.1 → file.2 …，超過 LOG_MAX_FILES 的最舊文件被覆蓋
+   */
+  private rotate(file: string): void {
+    if (config.LOG_MAX_FILES <= 0) {
+      fs.rmSync(file, { force: true });
+    } else {
+      for (let i = config.LOG_MAX_FILES - 1; i >= 1; i--) {
+        if (fs.existsSync(`${file}.${i}`)) fs.renameSync(`${file}.${i}`, `${file}.${i + 1}`);
+      }
+      fs.renameSync(file, `${file}.1`);
+    }
+    this.fileSize = 0;
+  }
+}
+
+// 全局日誌管理器（所有 Logger 共用同一個文件和緩衝）
+export const logManager = new LogManager();
+
+/**
+ * 某個模組的 Logger，日誌自動帶上當前 tick 的關聯資料
+ */
+export function createLogger(component: string): Logger {
+  const log = (level: LogLevel) => (msg: string, data?: Record<string, unknown>) => {
+    logManager.write({
+      timestamp: Date.now(),
+      level,
+      component,
+      ...contextScope.getStore(),
+      msg,
+      ...(data ? { data: normalize(data) } : {}),
+    });
+  };
+  return { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') };
+}
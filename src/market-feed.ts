@@ -0,0 +1,304 @@
+/**
+ * CLOB WebSocket 行情 - 訂閱當前和下一盤口的訂單簿與最新成交
+ *
+ * 連接 market channel，收到 `book` 快照後用 `price_change` 增量維護本地深度，
+ * `last_trade_price` 更新最新成交價。訂閱的 token 改變時（盤口輪換）
+ * 自動退訂舊 token、訂閱新 token，並丟棄舊 token 的本地訂單簿。
+ * 斷線後按退避時間自動重連，重連時重新訂閱並等待新的 book 快照。
+ */
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import { config } from './config.js';
+import { createLogger } from './logger.js';
+import type { OrderBook } from './types.js';
+
+interface LocalBook {
+  bids: Map<number, number>; // price (0-1) -> size
+  asks: Map<number, number>;
+  lastTradePrice: number | null;
+  updatedAt: number;
+}
+
+export interface BookUpdate {
+  tokenId: string;
+  type: 'book' | 'price_change' | 'last_trade_price';
+}
+
+const log = createLogger('feed');
+
+const PING_INTERVAL_MS = 10000;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+const MAX_MIDPOINT_SPREAD = 0.1; // 價差超過 10¢ 時用最新成交價代替中間價（與 Polymarket 網頁一致）
+
+export interface MarketFeed {
+  on(event: 'update', listener: (update: BookUpdate) => void): this;
+  on(event: 'connected' | 'disconnected', listener: () => void): this;
+  emit(event: 'update', update: BookUpdate): boolean;
+  emit(event: 'connected' | 'disconnected'): boolean;
+}
+
+export class MarketFeed extends EventEmitter {
+  private ws: WebSocket | null = null;
+  private books: Map<string, LocalBook> = new Map();
+  private subscribed: Set<string> = new Set();
+  private groups: Map<string, string[]> = new Map(); // 訂閱分組 -> tokenIds
+  private pingTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private closed = true;
+
+  constructor(private url: string = config.CLOB_WS_URL) {
+    super();
+  }
+
+  /**
+   * 建立連接（已連接時不做任何事）
+   */
+  connect(): void {
+    this.closed = false;
+    if (this.ws) return;
+
+    const ws = new WebSocket(this.url);
+    this.ws = ws;
+
+    ws.on('open', () => {
+      log.info(`[行情] WebSocket 已連接 ${this.url}`);
+      this.reconnectAttempts = 0;
+      if (this.subscribed.size > 0) {
+        this.send({ assets_ids: Array.from(this.subscribed), type: 'market' });
+      }
+      this.pingTimer = setInterval(() => {
+        if (ws.readyState === WebSocket.OPEN) ws.send('PING');
+      }, PING_INTERVAL_MS);
+      this.emit('connected');
+    });
+
+    ws.on('message', (data) => this.handleMessage(data.toString()));
+
+    ws.on('error', (error) => {
+      log.error('[行情] WebSocket 錯誤', { error });
+    });
+
+    ws.on('close', () => {
+      if (this.pingTimer) clearInterval(this.pingTimer);
+      this.pingTimer = null;
+      this.ws = null;
+      // 斷線期間的增量已遺失，清空本地訂單簿直到收到新快照
+      this.books.clear();
+      this.emit('disconnected');
+      if (!this.closed) this.scheduleReconnect();
+    });
+  }
+
+  /**
+   * 關閉連接並停止重連
+   */
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.ws?.close();
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_MS);
+    this.reconnectAttempts++;
+    log.warn(`[行情] 連接中斷，${delay}ms 後重連...`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  /**
+   * 設定要訂閱的 token 集合：新增的 token 訂閱，不再需要的退訂
+   * 多個系列共用一個連接時各自用 group 設定，實際訂閱為所有 group 的聯集
+   */
+  setSubscriptions(tokenIds: string[], group = 'default'): void {
+    this.groups.set(group, tokenIds.filter(Boolean));
+    const wanted = new Set(Array.from(this.groups.values()).flat());
+    const added = Array.from(wanted).filter((id) => !this.subscribed.has(id));
+    const removed = Array.from(this.subscribed).filter((id) => !wanted.has(id));
+    if (added.length === 0 && removed.length === 0) return;
+
+    this.subscribed = wanted;
+    for (const tokenId of removed) {
+      this.books.delete(tokenId);
+    }
+
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      if (removed.length > 0) {
+        this.send({ assets_ids: removed, operation: 'unsubscribe' });
+      }
+      if (added.length > 0) {
+        this.send({ assets_ids: added, operation: 'subscribe' });
+      }
+    }
+    log.info(`[行情] 訂閱更新: +${added.length} -${removed.length}，共 ${wanted.size} 個 token`);
+
+    if (!this.ws) this.connect();
+  }
+
+  getSubscriptions(): string[] {
+    return Array.from(this.subscribed);
+  }
+
+  isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * 是否已收到該 token 的訂單簿快照
+   */
+  hasBook(tokenId: string): boolean {
+    return this.books.has(tokenId);
+  }
+
+  /**
+   * 本地訂單簿（bids 由高到低，asks 由低到高），未收到快照時返回 null
+   */
+  getOrderBook(tokenId: string, depth?: number): OrderBook | null {
+    const book = this.books.get(tokenId);
+    if (!book) return null;
+
+    const toLevels = (levels: Map<number, number>, desc: boolean) => {
+      const sorted = Array.from(levels, ([price, size]) => ({ price, size })).sort((a, b) =>
+        desc ? b.price - a.price : a.price - b.price
+      );
+      return depth ? sorted.slice(0, depth) : sorted;
+    };
+
+    return {
+      bids: toLevels(book.bids, true),
+      asks: toLevels(book.asks, false),
+    };
+  }
+
+  getBestBidAsk(tokenId: string): { bid: number | null; ask: number | null } {
+    const book = this.books.get(tokenId);
+    if (!book) return { bid: null, ask: null };
+    return {
+      bid: book.bids.size > 0 ? Math.max(...book.bids.keys()) : null,
+      ask: book.asks.size > 0 ? Math.min(...book.asks.keys()) : null,
+    };
+  }
+
+  getLastTradePrice(tokenId: string): number | null {
+    return this.books.get(tokenId)?.lastTradePrice ?? null;
+  }
+
+  /**
+   * 顯示價格 (0-1)：價差不大時用中間價，否則用最新成交價
+   */
+  getPrice(tokenId: string): number | null {
+    const book = this.books.get(tokenId);
+    if (!book) return null;
+
+    const { bid, ask } = this.getBestBidAsk(tokenId);
+    if (bid !== null && ask !== null && ask - bid <= MAX_MIDPOINT_SPREAD) {
+      return (bid + ask) / 2;
+    }
+    if (book.lastTradePrice !== null) return book.lastTradePrice;
+    if (bid !== null && ask !== null) return (bid + ask) / 2;
+    return null;
+  }
+
+  getLastUpdate(tokenId: string): number | null {
+    return this.books.get(tokenId)?.updatedAt ?? null;
+  }
+
+  private send(payload: object): void {
+    this.ws?.send(JSON.stringify(payload));
+  }
+
+  private handleMessage(raw: string): void {
+    if (raw === 'PONG') return;
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      log.warn('[行情] 無法解析的消息', { raw: raw.slice(0, 100) });
+      return;
+    }
+
+    const events = Array.isArray(parsed) ? parsed : [parsed];
+    for (const event of events) {
+      switch (event?.event_type) {
+        case 'book':
+          this.applyBook(event);
+          break;
+        case 'price_change':
+          this.applyPriceChange(event);
+          break;
+        case 'last_trade_price':
+          this.applyLastTrade(event);
+          break;
+      }
+    }
+  }
+
+  private applyBook(event: any): void {
+    const tokenId = event.asset_id;
+    if (!this.subscribed.has(tokenId)) return;
+
+    const toMap = (levels: any[] | undefined) => {
+      const map = new Map<number, number>();
+      for (const level of levels || []) {
+        const size = Number(level.size);
+        if (size > 0) map.set(Number(level.price), size);
+      }
+      return map;
+    };
+
+    this.books.set(tokenId, {
+      // 舊版消息用 buys / sells
+      bids: toMap(event.bids || event.buys),
+      asks: toMap(event.asks || event.sells),
+      lastTradePrice: this.books.get(tokenId)?.lastTradePrice ?? null,
+      updatedAt: Number(event.timestamp) || Date.now(),
+    });
+    this.emit('update', { tokenId, type: 'book' });
+  }
+
+  /**
+   * 新版格式: { price_changes: [{ asset_id, price, size, side }] }
+   * 舊版格式: { asset_id, changes: [{ price, size, side }] }
+   */
+  private applyPriceChange(event: any): void {
+    const changes: any[] = event.price_changes
+      ? event.price_changes
+      : (event.changes || []).map((c: any) => ({ ...c, asset_id: event.asset_id }));
+    const touched = new Set<string>();
+
+    for (const change of changes) {
+      const book = this.books.get(change.asset_id);
+      if (!book) continue; // 尚未收到快照，忽略增量
+
+      const levels = change.side === 'BUY' ? book.bids : book.asks;
+      const price = Number(change.price);
+      const size = Number(change.size);
+      if (size > 0) {
+        levels.set(price, size);
+      } else {
+        levels.delete(price);
+      }
+      book.updatedAt = Number(event.timestamp) || Date.now();
+      touched.add(change.asset_id);
+    }
+
+    for (const tokenId of touched) {
+      this.emit('update', { tokenId, type: 'price_change' });
+    }
+  }
+
+  private applyLastTrade(event: any): void {
+    const book = this.books.get(event.asset_id);
+    if (!book) return;
+
+    book.lastTradePrice = Number(event.price);
+    book.updatedAt = Number(event.timestamp) || Date.now();
+    this.emit('update', { tokenId: event.asset_id, type: 'last_trade_price' });
+  }
+}
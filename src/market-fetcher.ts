@@ -1,25 +1,63 @@
 import axios from 'axios';
 import { config } from './config.js';
-import type { Market, MarketState } from './types.js';
+import { createLogger } from './logger.js';
+import { serverTimeDrift, serverTimeOffset } from './metrics.js';
+import { buildSeriesSlug, getSeries, intervalStart, matchesSeries, type SeriesDescriptor } from './series.js';
+import type { MarketFeed } from './market-feed.js';
+import type { SpotFeed } from './spot-feed.js';
+import type { Market, MarketState, OrderBook } from './types.js';
 
-const GAMMA_API_URL = 'https://gamma-api.polymarket.com';
-const CLOB_HTTP_URL = 'https://clob.polymarket.com';
+const log = createLogger('market');
+
+const MISSING_NEXT_RETRY_MS = 10000; // 還沒找到下一盤口時的重新發現間隔
+const LOOKAHEAD_INTERVALS = 4; // 除當前盤口外再往後查詢的盤口數
 
 export class MarketFetcher {
   private serverTimeOffset: number = 0;
+  private lastTimeSyncAt = 0; // 最近一次嘗試同步的時間，0 表示還沒同步過
+  private cachedMarkets: Market[] = [];
+  private lastDiscoveryAt = 0;
+
+  /**
+   * @param feed 提供實時行情時，Gamma 只用來發現盤口（按 MARKET_DISCOVERY_INTERVAL_MS 緩存），
+   *             價格和訂單簿改從 WebSocket 本地訂單簿讀取
+   * @param series 要交易的市場系列，默認 BTC 15分鐘
+   * @param spot 標的現貨價格，提供時寫入 MarketState.spot
+   */
+  constructor(
+    private feed: MarketFeed | null = null,
+    private series: SeriesDescriptor = getSeries('btc-15m'),
+    private spot: SpotFeed | null = null
+  ) {}
+
+  getFeed(): MarketFeed | null {
+    return this.feed;
+  }
+
+  getSeries(): SeriesDescriptor {
+    return this.series;
+  }
 
   /**
    * 同步服務器時間
    */
   async syncServerTime(): Promise<void> {
+    const synced = this.lastTimeSyncAt > 0;
+    this.lastTimeSyncAt = Date.now();
     try {
-      const response = await axios.get(`${CLOB_HTTP_URL}/time`);
-      if (response.data?.time) {
-        this.serverTimeOffset = response.data.time * 1000 - Date.now();
-        console.log(`[市場] 服務器時間已同步，偏移: ${this.serverTimeOffset}ms`);
+      const response = await axios.get(`${config.CLOB_HOST}/time`);
+      // CLOB 返回 unix 秒數字，舊版返回 { time }
+      const time = typeof response.data === 'number' ? response.data : response.data?.time;
+      if (time) {
+        const previous = this.serverTimeOffset;
+        this.serverTimeOffset = time * 1000 - Date.now();
+        const labels = { series: this.series.id };
+        serverTimeOffset.set(labels, this.serverTimeOffset / 1000);
+        if (synced) serverTimeDrift.set(labels, (this.serverTimeOffset - previous) / 1000);
+        log.info(`[市場] 服務器時間已同步，偏移: ${this.serverTimeOffset}ms`);
       }
     } catch (err) {
-      console.error('[市場] 無法同步服務器時間');
+      log.error('[市場] 無法同步服務器時間');
     }
   }
 
@@ -27,32 +65,38 @@ export class MarketFetcher {
     return Date.now() + this.serverTimeOffset;
   }
 
+  getServerTimeOffset(): number {
+    return this.serverTimeOffset;
+  }
+
+  getLastTimeSyncAt(): number {
+    return this.lastTimeSyncAt;
+  }
+
   /**
-   * 獲取即將來臨的 BTC 15分鐘市場
-   * 使用 slug 格式: btc-updown-15m-{unix_timestamp}
+   * 獲取該系列當前和即將來臨的盤口
+   * 按系列的 slugPattern 逐個生成 slug 查詢，再用 tag 補充
    */
-  async fetchUpcomingBTC15MinMarkets(): Promise<Market[]> {
+  async fetchUpcomingMarkets(): Promise<Market[]> {
     const now = this.getServerTime();
     const markets: Market[] = [];
+    const addMarket = (market: Market | null) => {
+      if (market && !market.closed && !markets.find(m => m.conditionId === market.conditionId)) {
+        markets.push(market);
+      }
+    };
 
-    // 嘗試獲取過去和接下來幾個 15 分鐘區間的市場（擴大範圍以捕捉所有持倉）
-    for (let i = -4; i < 5; i++) {
-      const baseTime = i < 0 ? now : now + i * 15 * 60 * 1000;
-      const intervalStart = Math.floor(baseTime / (15 * 60 * 1000)) * (15 * 60 * 1000);
-      const timestamp = Math.floor(intervalStart / 1000);
-      const slug = `btc-updown-15m-${timestamp}`;
+    // 當前盤口和接下來幾個盤口
+    for (let i = 0; i <= LOOKAHEAD_INTERVALS; i++) {
+      const slug = buildSeriesSlug(this.series, intervalStart(this.series, now) + i * this.series.intervalMs);
 
       try {
-        const response = await axios.get(`${GAMMA_API_URL}/events`, {
+        const response = await axios.get(`${config.GAMMA_HOST}/events`, {
           params: { slug },
         });
 
         if (Array.isArray(response.data) && response.data.length > 0) {
-          const event = response.data[0];
-          const market = this.parseEventToMarket(event);
-          if (market && !market.closed) {
-            markets.push(market);
-          }
+          addMarket(this.parseEventToMarket(response.data[0]));
         }
       } catch (e) {
         // 市場不存在，繼續
@@ -61,9 +105,9 @@ export class MarketFetcher {
 
     // 也嘗試從 tag 獲取
     try {
-      const response = await axios.get(`${GAMMA_API_URL}/events`, {
+      const response = await axios.get(`${config.GAMMA_HOST}/events`, {
         params: {
-          tag: '15M',
+          tag: this.series.tag,
           active: true,
           closed: false,
           limit: 20,
@@ -72,11 +116,8 @@ export class MarketFetcher {
 
       if (Array.isArray(response.data)) {
         for (const event of response.data) {
-          if (event.slug?.startsWith('btc-updown-15m-')) {
-            const market = this.parseEventToMarket(event);
-            if (market && !market.closed && !markets.find(m => m.conditionId === market.conditionId)) {
-              markets.push(market);
-            }
+          if (matchesSeries(this.series, event.slug)) {
+            addMarket(this.parseEventToMarket(event));
           }
         }
       }
@@ -122,14 +163,69 @@ export class MarketFetcher {
     };
   }
 
+  /**
+   * 查詢已結束市場的結算結果：市場關閉且某一邊 outcomePrices 變為 1 才算公布
+   */
+  async getResolvedOutcome(slug: string): Promise<'Up' | 'Down' | null> {
+    try {
+      const response = await axios.get(`${config.GAMMA_HOST}/events`, { params: { slug } });
+      const market = response.data?.[0]?.markets?.[0];
+      if (!market || market.closed !== true) return null;
+
+      const outcomes: string[] = market.outcomes ? JSON.parse(market.outcomes) : ['Up', 'Down'];
+      const prices: number[] = (market.outcomePrices ? JSON.parse(market.outcomePrices) : []).map(Number);
+      const winner = prices.findIndex((p) => p >= 0.99);
+      if (winner < 0) return null;
+      return outcomes[winner] === 'Up' ? 'Up' : 'Down';
+    } catch (e) {
+      return null;
+    }
+  }
+
+  /**
+   * 盤口列表：有實時行情時使用緩存，過期或還沒有下一盤口時才重新請求 Gamma
+   */
+  private async discoverMarkets(): Promise<Market[]> {
+    if (this.feed && this.cachedMarkets.length > 0) {
+      const now = this.getServerTime();
+      const age = Date.now() - this.lastDiscoveryAt;
+      const hasNext = this.cachedMarkets.some((m) => new Date(m.startDate).getTime() > now);
+      if (age < config.MARKET_DISCOVERY_INTERVAL_MS && (hasNext || age < MISSING_NEXT_RETRY_MS)) {
+        return this.cachedMarkets;
+      }
+    }
+
+    const markets = await this.fetchUpcomingMarkets();
+    if (markets.length > 0) {
+      this.cachedMarkets = markets;
+      this.lastDiscoveryAt = Date.now();
+    }
+    return markets.length > 0 ? markets : this.cachedMarkets;
+  }
+
+  /**
+   * 用 WebSocket 本地訂單簿的價格取代 Gamma 的 outcomePrices
+   */
+  private withFeedPrices(markets: Market[]): Market[] {
+    if (!this.feed) return markets;
+    const feed = this.feed;
+    return markets.map((market) => ({
+      ...market,
+      tokens: market.tokens.map((token) => ({
+        ...token,
+        price: feed.getPrice(token.tokenId) ?? token.price,
+      })),
+    }));
+  }
+
   /**
    * 獲取當前市場狀態
    */
   async getMarketState(): Promise<MarketState | null> {
-    const markets = await this.fetchUpcomingBTC15MinMarkets();
+    let markets = await this.discoverMarkets();
 
     if (markets.length === 0) {
-      console.log('[市場] 找不到活躍的 BTC 15分鐘市場');
+      log.info(`[市場] 找不到活躍的 ${this.series.label} 市場`);
       return null;
     }
 
@@ -152,6 +248,20 @@ export class MarketFetcher {
       return null;
     }
 
+    if (this.feed) {
+      // 只訂閱當前和下一盤口，盤口輪換時自動切換
+      this.feed.setSubscriptions(
+        [currentMarket, nextMarket].flatMap((m) => (m ? m.tokens.map((t) => t.tokenId) : [])),
+        this.series.id
+      );
+      markets = this.withFeedPrices(markets);
+      currentMarket = currentMarket && markets.find((m) => m.conditionId === currentMarket!.conditionId)!;
+      nextMarket = nextMarket && markets.find((m) => m.conditionId === nextMarket!.conditionId)!;
+    }
+
+    this.spot?.setSymbols([this.series.spotSymbol], this.series.id);
+    const spot = this.spot?.getSpotState(this.series.spotSymbol, currentMarket ? new Date(currentMarket.startDate).getTime() : null) ?? null;
+
     const targetMarket = nextMarket || currentMarket!;
     const upToken = targetMarket.tokens.find(t => t.outcome === 'Up');
     const downToken = targetMarket.tokens.find(t => t.outcome === 'Down');
@@ -175,20 +285,50 @@ export class MarketFetcher {
       currentDownPrice: (currentDownToken?.price || 0.5) * 100,
       timeToStart: nextMarket ? new Date(nextMarket.startDate).getTime() - now : 0,
       timeToEnd: currentMarket ? new Date(currentMarket.endDate).getTime() - now : 0,
+      spot,
     };
   }
 
+  /**
+   * 獲取當前和下一盤口 Up/Down 的訂單簿，key 為 tokenId
+   */
+  async getOrderBooks(state: MarketState): Promise<Record<string, OrderBook>> {
+    const tokenIds = [
+      state.upTokenId,
+      state.downTokenId,
+      state.currentUpTokenId,
+      state.currentDownTokenId,
+    ].filter((id, idx, arr) => id && arr.indexOf(id) === idx);
+
+    const orderBooks: Record<string, OrderBook> = {};
+    for (const tokenId of tokenIds) {
+      orderBooks[tokenId] = await this.getOrderBook(tokenId);
+    }
+    return orderBooks;
+  }
+
   /**
    * 獲取特定 token 的訂單簿
+   * 價格轉為小數數字，並按最優價排序（bids 由高到低，asks 由低到高）
+   * 已訂閱實時行情的 token 直接讀本地訂單簿
    */
-  async getOrderBook(tokenId: string): Promise<{ bids: any[]; asks: any[] }> {
+  async getOrderBook(tokenId: string): Promise<OrderBook> {
+    const local = this.feed?.getOrderBook(tokenId);
+    if (local) return local;
+
     try {
-      const response = await axios.get(`${CLOB_HTTP_URL}/book`, {
+      const response = await axios.get(`${config.CLOB_HOST}/book`, {
         params: { token_id: tokenId },
       });
-      return response.data || { bids: [], asks: [] };
+      const toLevels = (levels: any[] | undefined) =>
+        (levels || []).map((l) => ({ price: Number(l.price), size: Number(l.size) }));
+
+      return {
+        bids: toLevels(response.data?.bids).sort((a, b) => b.price - a.price),
+        asks: toLevels(response.data?.asks).sort((a, b) => a.price - b.price),
+      };
     } catch (error) {
-      console.error('[市場] 獲取訂單簿失敗:', error);
+      log.error('[市場] 獲取訂單簿失敗', { error });
       return { bids: [], asks: [] };
     }
   }
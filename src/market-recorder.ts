@@ -0,0 +1,116 @@
+/**
+ * 市場數據錄製器 - 將每個 tick 的 MarketState、訂單簿和服務器時間偏移寫入文件
+ *
+ * 文件格式:
+ * - 路徑: {RECORD_DIR}/{slug}.jsonl.gz，每個盤口一個文件（多個系列可以錄製到同一目錄）
+ * - 內容: JSON Lines，每行一個 RecordedTick (見 types.ts)
+ * - 壓縮: 每行單獨寫成一個 gzip member 並追加到文件末尾（只追加、不改寫）
+ *   多個 gzip member 串接仍是合法的 gzip 文件，可直接用 `zcat` 查看
+ * - 同一個 tick 會寫入當前盤口和下一盤口兩個文件，所以每個文件都能完整重播該盤口
+ *   （盤前 + 盤中），跨盤口讀取時按 timestamp 去重
+ */
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { config } from './config.js';
+import { matchesSeries, type SeriesDescriptor } from './series.js';
+import type { MarketFetcher } from './market-fetcher.js';
+import type { MarketState, OrderBook, RecordedTick } from './types.js';
+
+const RECORDING_EXT = '.jsonl.gz';
+
+export class MarketRecorder {
+  constructor(private dir: string = config.RECORD_DIR) {
+    fs.mkdirSync(this.dir, { recursive: true });
+  }
+
+  /**
+   * 錄製當前和下一盤口的 Up/Down 訂單簿（未提供時自行獲取）
+   */
+  async recordTick(fetcher: MarketFetcher, state: MarketState, orderBooks?: Record<string, OrderBook>): Promise<void> {
+    orderBooks = orderBooks || (await fetcher.getOrderBooks(state));
+
+    this.record({
+      timestamp: fetcher.getServerTime(),
+      serverTimeOffset: fetcher.getServerTimeOffset(),
+      state,
+      orderBooks,
+    });
+  }
+
+  /**
+   * 將一個 tick 追加到所涉及盤口的文件
+   */
+  record(tick: RecordedTick): void {
+    const slugs = new Set<string>();
+    if (tick.state.currentMarket) slugs.add(tick.state.currentMarket.slug);
+    if (tick.state.nextMarket) slugs.add(tick.state.nextMarket.slug);
+
+    const chunk = zlib.gzipSync(JSON.stringify(tick) + '\n');
+    for (const slug of slugs) {
+      try {
+        fs.appendFileSync(path.join(this.dir, `${slug}${RECORDING_EXT}`), chunk);
+      } catch (error: any) {
+        console.error(`[錄製] 寫入 ${slug} 失敗:`, error?.message || error);
+      }
+    }
+  }
+}
+
+/**
+ * 列出目錄中已錄製的盤口 slug
+ */
+export function listRecordedRounds(dir: string = config.RECORD_DIR): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith(RECORDING_EXT))
+    .map((f) => f.slice(0, -RECORDING_EXT.length))
+    .sort();
+}
+
+/**
+ * 讀取單個錄製文件，按時間排序返回
+ * 文件末尾不完整的 gzip member（例如寫入時進程被終止）會被忽略
+ */
+export function readRecording(file: string): RecordedTick[] {
+  const raw = fs.readFileSync(file);
+  const text = zlib
+    .gunzipSync(raw, { finishFlush: zlib.constants.Z_SYNC_FLUSH })
+    .toString('utf8');
+
+  const ticks: RecordedTick[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      ticks.push(JSON.parse(line));
+    } catch {
+      // 截斷的最後一行
+    }
+  }
+  return ticks.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * 按時間順序重播一個盤口
+ */
+export function* replayRound(slug: string, dir: string = config.RECORD_DIR): Generator<RecordedTick> {
+  const file = path.join(dir, `${slug}${RECORDING_EXT}`);
+  for (const tick of readRecording(file)) {
+    yield tick;
+  }
+}
+
+/**
+ * 讀取目錄下所有盤口（指定 series 時只讀該系列），合併去重後按時間排序
+ */
+export function readAllRecordings(dir: string = config.RECORD_DIR, series?: SeriesDescriptor): RecordedTick[] {
+  const byTimestamp = new Map<number, RecordedTick>();
+  for (const slug of listRecordedRounds(dir)) {
+    if (series && !matchesSeries(series, slug)) continue;
+    for (const tick of replayRound(slug, dir)) {
+      byTimestamp.set(tick.timestamp, tick);
+    }
+  }
+  return Array.from(byTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
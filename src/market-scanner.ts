@@ -2,8 +2,7 @@
  * 市場掃描器 - 找出所有可用的 Up/Down 類型市場
  */
 import axios from 'axios';
-
-const GAMMA_HOST = 'https://gamma-api.polymarket.com';
+import { config } from './config.js';
 
 interface MarketInfo {
   eventTitle: string;
@@ -23,7 +22,7 @@ async function scanMarkets() {
 
   try {
     // 獲取所有活躍事件
-    const response = await axios.get(`${GAMMA_HOST}/events`, {
+    const response = await axios.get(`${config.GAMMA_HOST}/events`, {
       params: {
         active: true,
         closed: false,
@@ -114,7 +113,7 @@ async function scanMarkets() {
 
     // 搜尋 series
     console.log('\n📚 Searching for Up/Down series...\n');
-    const seriesResponse = await axios.get(`${GAMMA_HOST}/series`, {
+    const seriesResponse = await axios.get(`${config.GAMMA_HOST}/series`, {
       params: { limit: 200 },
     });
 
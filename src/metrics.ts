@@ -0,0 +1,236 @@
+/**
+ * Prometheus 指標（prom-client），Web 服務器在 GET /metrics 輸出
+ *
+ * - 計數 / 直方圖在發生的地方更新：tick（BotEngine）、Gamma / CLOB 請求（axios 攔截器）、
+ *   API 限速等待（RiskManager.checkRateLimit）、訂單狀態（OrderManager 的 update 事件）、服務器時間同步
+ * - 盈虧、持倉成本等狀態型指標在抓取時從 BotEngine 和 riskManager 讀取，不在 tick 中維護
+ *
+ * 金額單位為 USDC（內部的 cents / 100），時間單位為秒。
+ */
+import { createRequire } from 'module';
+import axios, { type AxiosInstance, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import client from 'prom-client';
+import { config } from './config.js';
+import type { BotEngine } from './bot-engine.js';
+import type { RiskManager } from './risk-manager.js';
+
+export const registry = new client.Registry();
+
+export const tickDuration = new client.Histogram({
+  name: 'polybot_tick_duration_seconds',
+  help: '每個系列一次 tick 的耗時（取得行情到所有策略執行完）',
+  labelNames: ['series'],
+  buckets: [0.5, 1, 2, 3, 5, 10, 20, 30],
+  registers: [registry],
+});
+
+export const tickErrors = new client.Counter({
+  name: 'polybot_tick_errors_total',
+  help: 'tick 拋出錯誤的次數',
+  labelNames: ['series'],
+  registers: [registry],
+});
+
+export const lastTick = new client.Gauge({
+  name: 'polybot_last_tick_timestamp_seconds',
+  help: '最近一次 tick 完成的時間（unix 秒）',
+  labelNames: ['series'],
+  registers: [registry],
+});
+
+export const apiRequests = new client.Counter({
+  name: 'polybot_api_requests_total',
+  help: 'Gamma / CLOB HTTP 請求數（outcome: ok | error）',
+  labelNames: ['api', 'outcome'],
+  registers: [registry],
+});
+
+export const apiRequestDuration = new client.Histogram({
+  name: 'polybot_api_request_duration_seconds',
+  help: 'Gamma / CLOB HTTP 請求耗時',
+  labelNames: ['api'],
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10],
+  registers: [registry],
+});
+
+export const rateLimitWaits = new client.Counter({
+  name: 'polybot_rate_limit_waits_total',
+  help: 'RiskManager.checkRateLimit 因最小請求間隔而等待的次數',
+  registers: [registry],
+});
+
+export const rateLimitWaitSeconds = new client.Counter({
+  name: 'polybot_rate_limit_wait_seconds_total',
+  help: 'RiskManager.checkRateLimit 等待的總時間',
+  registers: [registry],
+});
+
+export const rateLimitRejections = new client.Counter({
+  name: 'polybot_rate_limit_rejections_total',
+  help: '每分鐘請求數達到 MAX_REQUESTS_PER_MINUTE 而拒絕的次數',
+  registers: [registry],
+});
+
+export const orders = new client.Counter({
+  name: 'polybot_orders_total',
+  help: '訂單進入各狀態的次數（status 為 OrderStatus 的小寫，created = 已下單）',
+  labelNames: ['series', 'strategy', 'side', 'status', 'mode'],
+  registers: [registry],
+});
+
+export const serverTimeOffset = new client.Gauge({
+  name: 'polybot_server_time_offset_seconds',
+  help: 'CLOB 服務器時間 − 本地時間（最近一次同步）',
+  labelNames: ['series'],
+  registers: [registry],
+});
+
+export const serverTimeDrift = new client.Gauge({
+  name: 'polybot_server_time_drift_seconds',
+  help: '最近一次同步的時間偏移相對上一次同步的變化',
+  labelNames: ['series'],
+  registers: [registry],
+});
+
+// 抓取時讀取的引擎和賬戶風控（server 啟動時註冊）
+let engine: BotEngine | null = null;
+let risk: RiskManager | null = null;
+
+new client.Gauge({
+  name: 'polybot_bot_running',
+  help: '交易引擎是否運行中 (1 / 0)',
+  registers: [registry],
+  collect() {
+    this.set(engine?.isRunning() ? 1 : 0);
+  },
+});
+
+new client.Gauge({
+  name: 'polybot_realized_pnl_usdc',
+  help: '已實現盈虧（每個系列 / 策略）',
+  labelNames: ['series', 'strategy'],
+  registers: [registry],
+  collect() {
+    this.reset();
+    for (const runner of engine?.getRunners() ?? []) {
+      this.set({ series: runner.series, strategy: runner.name }, runner.trader.getTotalPnL() / 100);
+    }
+  },
+});
+
+new client.Gauge({
+  name: 'polybot_unrealized_pnl_usdc',
+  help: '持倉按當前價格計算的未實現盈虧（每個系列 / 策略）',
+  labelNames: ['series', 'strategy'],
+  registers: [registry],
+  collect() {
+    this.reset();
+    for (const runner of engine?.getRunners() ?? []) {
+      let pnl = 0;
+      for (const pos of runner.trader.getPositions().values()) {
+        pnl += (pos.currentPrice - pos.avgBuyPrice) * pos.size;
+      }
+      this.set({ series: runner.series, strategy: runner.name }, pnl / 100);
+    }
+  },
+});
+
+new client.Gauge({
+  name: 'polybot_open_exposure_usdc',
+  help: '持倉成本（每個系列 / 策略）',
+  labelNames: ['series', 'strategy'],
+  registers: [registry],
+  collect() {
+    this.reset();
+    for (const runner of engine?.getRunners() ?? []) {
+      let cost = 0;
+      for (const pos of runner.trader.getPositions().values()) {
+        cost += pos.avgBuyPrice * pos.size;
+      }
+      this.set({ series: runner.series, strategy: runner.name }, cost / 100);
+    }
+  },
+});
+
+new client.Gauge({
+  name: 'polybot_account',
+  help: '賬戶級風控狀態（metric: open_notional_usdc | daily_realized_pnl_usdc | consecutive_losing_rounds | halted）',
+  labelNames: ['metric'],
+  registers: [registry],
+  collect() {
+    if (!risk) return;
+    const status = risk.getAccountStatus();
+    this.set({ metric: 'open_notional_usdc' }, status.openNotional / 100);
+    this.set({ metric: 'daily_realized_pnl_usdc' }, status.dailyRealizedPnl / 100);
+    this.set({ metric: 'consecutive_losing_rounds' }, status.consecutiveLosingRounds);
+    this.set({ metric: 'halted' }, status.halted ? 1 : 0);
+  },
+});
+
+/**
+ * 註冊抓取時讀取的引擎和風控，並開始收集進程指標（CPU、記憶體、事件循環延遲）
+ */
+export function registerEngineMetrics(target: BotEngine, riskManager: RiskManager): void {
+  if (!engine) client.collectDefaultMetrics({ register: registry, prefix: 'polybot_' });
+  engine = target;
+  risk = riskManager;
+}
+
+/**
+ * 按 URL 區分 Gamma / CLOB（兩者指向同一個模擬服務器時算作 Gamma）
+ */
+export function apiName(url: string | undefined): string {
+  if (!url) return 'other';
+  if (url.startsWith(config.GAMMA_HOST)) return 'gamma';
+  if (url.startsWith(config.CLOB_HOST)) return 'clob';
+  return 'other';
+}
+
+type TimedRequest = InternalAxiosRequestConfig & { metricsStartedAt?: number };
+
+const instrumented = new WeakSet<AxiosInstance>();
+
+/**
+ * 給 axios 實例加上請求計數和耗時攔截器（重複調用無效）
+ */
+export function instrumentAxios(instance: AxiosInstance): void {
+  if (instrumented.has(instance)) return;
+  instrumented.add(instance);
+
+  const record = (request: TimedRequest | undefined, outcome: 'ok' | 'error') => {
+    const api = apiName(request?.baseURL ? `${request.baseURL}${request.url ?? ''}` : request?.url);
+    apiRequests.inc({ api, outcome });
+    if (request?.metricsStartedAt) {
+      apiRequestDuration.observe({ api }, (Date.now() - request.metricsStartedAt) / 1000);
+    }
+  };
+
+  instance.interceptors.request.use((request: TimedRequest) => {
+    request.metricsStartedAt = Date.now();
+    return request;
+  });
+  instance.interceptors.response.use(
+    (response: AxiosResponse) => {
+      record(response.config, 'ok');
+      return response;
+    },
+    (error) => {
+      record(error?.config, 'error');
+      return Promise.reject(error);
+    }
+  );
+}
+
+/**
+ * MarketFetcher 使用的 axios，以及 @polymarket/clob-client 內部的 axios（CJS，可能是另一個實例）
+ */
+export function instrumentHttpClients(): void {
+  instrumentAxios(axios);
+  try {
+    const require = createRequire(import.meta.url);
+    const clobRequire = createRequire(require.resolve('@polymarket/clob-client'));
+    instrumentAxios(clobRequire('axios'));
+  } catch {
+    // clob-client 找不到 axios 時只統計 MarketFetcher 的請求
+  }
+}
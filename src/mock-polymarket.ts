@@ -0,0 +1,826 @@
+/**
+ * 本地 Polymarket 模擬服務器 - 不需要網絡的端到端測試
+ *
+ * 同一個端口同時提供 bot 用到的 Gamma / CLOB 接口和 market channel WebSocket：
+ * - Gamma: GET /events (slug / slug_contains / tag / active / closed / limit)、GET /series
+ * - CLOB: GET /time、/book、/tick-size、/neg-risk、/fee-rate，API key 衍生，
+ *   POST /order、DELETE /order | /orders | /cancel-all、GET /data/order/:id | /data/orders | /data/trades、
+ *   GET /balance-allowance(/update)
+ * - WebSocket: /ws/market，訂閱後推送 book 快照，價格變化時推送新快照，成交時推送 last_trade_price
+ * - 腳本控制: GET /mock/state、POST /mock/scenario（合併場景）、POST /mock/reset
+ *
+ * 盤口按 MockScenario.series 圍繞模擬時鐘自動生成，Up 中間價按 pricePath 隨時間插值，
+ * 訂單簿圍繞中間價生成；訂單按 fillMode 撮合，不驗證簽名。
+ * 用法: npm run mock -- [--port=4100] [--scenario=scenario.json]
+ */
+import { createHash } from 'crypto';
+import { createServer, type Server } from 'http';
+import express, { type Request, type Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { WebSocketServer, WebSocket } from 'ws';
+import { config } from './config.js';
+import { buildSeriesSlug, getSeries, intervalStart, type SeriesDescriptor } from './series.js';
+
+export interface PricePoint {
+  t: number; // 相對盤口開始時間 (ms)，開盤前為負數
+  up: number; // Up 中間價 (0-1)，Down = 1 - Up
+}
+
+export interface MockScenario {
+  series: string[]; // 生成盤口的系列
+  pricePath: PricePoint[]; // Up 中間價路徑，兩點之間線性插值，超出範圍取端點
+  spread: number; // 最優買賣價差 (0-1)
+  levels: number; // 每邊檔數
+  depth: number; // 每檔股數
+  fillMode: 'book' | 'always' | 'never'; // book: 按模擬訂單簿撮合；always: 全部按限價立即成交；never: 只掛單不成交
+  partialFillRatio: number; // 可立即成交的部分實際成交比例 (0-1)，用於測試部分成交；剩餘部分視為對手盤已吃光，繼續掛單
+  resolution: 'Up' | 'Down' | null; // 結算結果，null 時按盤口結束時的價格
+  collateral: number; // 初始 USDC 餘額
+  clockOffsetMs: number; // /time 和盤口生成使用的時鐘相對本機時間的偏移
+  feeRateBps: number;
+}
+
+export interface MockOrder {
+  id: string;
+  owner: string;
+  tokenId: string;
+  conditionId: string;
+  outcome: 'Up' | 'Down';
+  side: 'BUY' | 'SELL';
+  price: number; // 0-1
+  size: number;
+  sizeMatched: number;
+  status: 'LIVE' | 'MATCHED' | 'CANCELED';
+  orderType: string;
+  createdAt: number;
+}
+
+export interface MockTrade {
+  id: string;
+  orderId: string;
+  owner: string;
+  tokenId: string;
+  conditionId: string;
+  outcome: 'Up' | 'Down';
+  side: 'BUY' | 'SELL';
+  price: number;
+  size: number;
+  traderSide: 'TAKER' | 'MAKER';
+  matchTime: number;
+}
+
+interface MockMarket {
+  series: SeriesDescriptor;
+  slug: string;
+  conditionId: string;
+  startTime: number;
+  endTime: number;
+  upTokenId: string;
+  downTokenId: string;
+}
+
+interface Level {
+  price: number;
+  size: number;
+}
+
+export const DEFAULT_MOCK_SCENARIO: MockScenario = {
+  series: config.SERIES,
+  pricePath: [{ t: 0, up: 0.5 }],
+  spread: 0.02,
+  levels: 5,
+  depth: 200,
+  fillMode: 'book',
+  partialFillRatio: 1,
+  resolution: null,
+  collateral: 1000,
+  clockOffsetMs: 0,
+  feeRateBps: 0,
+};
+
+const TICK_SIZE = 0.01;
+const PAST_INTERVALS = 2; // 保留已結束的盤口數（用於查詢結算結果）
+const FUTURE_INTERVALS = 5; // 生成的未來盤口數
+const PUSH_INTERVAL_MS = 1000; // WebSocket 推送 / 掛單撮合間隔
+const END_CURSOR = 'LTE=';
+const UNLIMITED_ALLOWANCE = String(1e18);
+
+const round = (value: number, decimals = 2) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+const hash = (value: string) => createHash('sha256').update(value).digest('hex');
+const toUnits = (value: number) => String(Math.round(value * 1e6));
+
+export class MockPolymarket {
+  private scenario: MockScenario;
+  private markets: Map<string, MockMarket> = new Map(); // slug -> market
+  private tokens: Map<string, { market: MockMarket; outcome: 'Up' | 'Down' }> = new Map();
+  private orders: Map<string, MockOrder> = new Map();
+  private trades: MockTrade[] = [];
+  private collateral: Map<string, number> = new Map(); // owner -> USDC
+  private holdings: Map<string, number> = new Map(); // `${owner}:${tokenId}` -> 股數
+  private apiKeys: Map<string, string> = new Map(); // address -> apiKey
+  private exhausted: Set<string> = new Set(); // 下單時已吃光對手盤的訂單，價格離開後再穿過才成交
+  private subscriptions: Map<WebSocket, Map<string, string>> = new Map(); // socket -> tokenId -> 上次推送的訂單簿
+  private server: Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(scenario: Partial<MockScenario> = {}) {
+    this.scenario = { ...DEFAULT_MOCK_SCENARIO, ...scenario };
+  }
+
+  /**
+   * 啟動服務器，port 為 0 時使用隨機端口，返回實際端口
+   */
+  async start(port = 0): Promise<number> {
+    const app = express();
+    app.use(express.json());
+    this.routes(app);
+
+    const server = createServer(app);
+    this.server = server;
+    this.wss = new WebSocketServer({ server, path: '/ws/market' });
+    this.wss.on('connection', (ws) => this.handleSocket(ws));
+
+    await new Promise<void>((resolve) => server.listen(port, resolve));
+    this.listMarkets();
+    this.timer = setInterval(() => {
+      this.matchRestingOrders();
+      this.pushBooks();
+    }, PUSH_INTERVAL_MS);
+    return (server.address() as { port: number }).port;
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    for (const ws of this.subscriptions.keys()) ws.terminate();
+    this.subscriptions.clear();
+    this.wss?.close();
+    await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+    this.server = null;
+  }
+
+  /**
+   * 合併場景設定（例如測試中途改變價格路徑或撮合方式）
+   */
+  setScenario(scenario: Partial<MockScenario>): void {
+    this.scenario = { ...this.scenario, ...scenario };
+  }
+
+  getScenario(): MockScenario {
+    return this.scenario;
+  }
+
+  /**
+   * 清空訂單、成交和餘額，盤口保留
+   */
+  reset(): void {
+    this.orders.clear();
+    this.exhausted.clear();
+    this.trades = [];
+    this.collateral.clear();
+    this.holdings.clear();
+  }
+
+  now(): number {
+    return Date.now() + this.scenario.clockOffsetMs;
+  }
+
+  getOrders(): MockOrder[] {
+    return Array.from(this.orders.values());
+  }
+
+  getTrades(): MockTrade[] {
+    return this.trades;
+  }
+
+  getBalance(owner: string, tokenId?: string): number {
+    return tokenId ? this.holdings.get(`${owner}:${tokenId}`) || 0 : this.collateral.get(owner) ?? this.scenario.collateral;
+  }
+
+  /**
+   * 當前的盤口（已結束的保留 PAST_INTERVALS 個）
+   */
+  listMarkets(): MockMarket[] {
+    const now = this.now();
+    for (const id of this.scenario.series) {
+      const series = getSeries(id);
+      const current = intervalStart(series, now);
+      for (let i = -PAST_INTERVALS; i <= FUTURE_INTERVALS; i++) {
+        this.ensureMarket(series, current + i * series.intervalMs);
+      }
+    }
+    return Array.from(this.markets.values())
+      .filter((m) => m.endTime > now - PAST_INTERVALS * m.series.intervalMs)
+      .sort((a, b) => a.startTime - b.startTime);
+  }
+
+  private ensureMarket(series: SeriesDescriptor, startTime: number): MockMarket {
+    const slug = buildSeriesSlug(series, startTime);
+    let market = this.markets.get(slug);
+    if (!market) {
+      // 用 slug 生成穩定的 id，重啟服務器後 token 不變
+      market = {
+        series,
+        slug,
+        conditionId: `0x${hash(slug)}`,
+        startTime,
+        endTime: startTime + series.intervalMs,
+        upTokenId: BigInt(`0x${hash(`${slug}:Up`)}`).toString(),
+        downTokenId: BigInt(`0x${hash(`${slug}:Down`)}`).toString(),
+      };
+      this.markets.set(slug, market);
+      this.tokens.set(market.upTokenId, { market, outcome: 'Up' });
+      this.tokens.set(market.downTokenId, { market, outcome: 'Down' });
+    }
+    return market;
+  }
+
+  /**
+   * 按價格路徑插值得到 Up 中間價
+   */
+  private upMidpoint(market: MockMarket, time = this.now()): number {
+    const path = [...this.scenario.pricePath].sort((a, b) => a.t - b.t);
+    if (path.length === 0) return 0.5;
+
+    const t = time - market.startTime;
+    let mid = path[path.length - 1].up;
+    if (t <= path[0].t) {
+      mid = path[0].up;
+    } else {
+      for (let i = 1; i < path.length; i++) {
+        if (t <= path[i].t) {
+          const prev = path[i - 1];
+          mid = prev.up + ((path[i].up - prev.up) * (t - prev.t)) / (path[i].t - prev.t);
+          break;
+        }
+      }
+    }
+    return Math.min(Math.max(mid, TICK_SIZE), 1 - TICK_SIZE);
+  }
+
+  private resolvedOutcome(market: MockMarket): 'Up' | 'Down' | null {
+    if (this.now() < market.endTime) return null;
+    return this.scenario.resolution ?? (this.upMidpoint(market, market.endTime) >= 0.5 ? 'Up' : 'Down');
+  }
+
+  /**
+   * 模擬訂單簿（bids 由高到低，asks 由低到高）
+   */
+  private book(tokenId: string): { bids: Level[]; asks: Level[] } {
+    const token = this.tokens.get(tokenId);
+    if (!token || this.now() >= token.market.endTime) return { bids: [], asks: [] };
+
+    const upMid = this.upMidpoint(token.market);
+    const mid = token.outcome === 'Up' ? upMid : 1 - upMid;
+    const bestBid = round(Math.max(mid - this.scenario.spread / 2, TICK_SIZE));
+    const bestAsk = round(Math.min(Math.max(mid + this.scenario.spread / 2, bestBid + TICK_SIZE), 1 - TICK_SIZE));
+
+    const bids: Level[] = [];
+    const asks: Level[] = [];
+    for (let i = 0; i < this.scenario.levels; i++) {
+      const bid = round(bestBid - i * TICK_SIZE);
+      const ask = round(bestAsk + i * TICK_SIZE);
+      if (bid >= TICK_SIZE) bids.push({ price: bid, size: this.scenario.depth });
+      if (ask <= 1 - TICK_SIZE) asks.push({ price: ask, size: this.scenario.depth });
+    }
+    return { bids, asks };
+  }
+
+  // ==================== HTTP ====================
+
+  private routes(app: express.Express): void {
+    // 每個請求前先撮合已穿價的掛單，測試不必等待推送間隔
+    app.use((req, res, next) => {
+      this.matchRestingOrders();
+      next();
+    });
+
+    app.get('/', (req, res) => res.send('OK'));
+    app.get('/time', (req, res) => res.json(Math.floor(this.now() / 1000)));
+
+    // ---------- Gamma ----------
+    app.get('/events', (req, res) => {
+      const { slug, slug_contains, tag, active, closed } = req.query as Record<string, string | undefined>;
+      let events = this.listMarkets().map((m) => this.toEvent(m));
+      if (slug) events = events.filter((e) => e.slug === slug);
+      if (slug_contains) events = events.filter((e) => e.slug.includes(slug_contains));
+      if (tag) events = events.filter((e) => e.tags.some((t) => t.label === tag || t.slug === tag));
+      if (active !== undefined) events = events.filter((e) => String(e.active) === active);
+      if (closed !== undefined) events = events.filter((e) => String(e.closed) === closed);
+      res.json(events.slice(0, Number(req.query.limit) || events.length));
+    });
+
+    app.get('/series', (req, res) => {
+      res.json(this.scenario.series.map((id) => ({ slug: id, title: getSeries(id).label })));
+    });
+
+    // ---------- CLOB 公開接口 ----------
+    app.get('/book', (req, res) => {
+      const tokenId = String(req.query.token_id || '');
+      const token = this.tokens.get(tokenId);
+      if (!token) {
+        res.status(404).json({ error: 'No orderbook exists for the requested token id' });
+        return;
+      }
+      res.json(this.bookMessage(tokenId));
+    });
+
+    app.get('/tick-size', (req, res) => res.json({ minimum_tick_size: TICK_SIZE }));
+    app.get('/neg-risk', (req, res) => res.json({ neg_risk: false }));
+    app.get('/fee-rate', (req, res) => res.json({ base_fee: this.scenario.feeRateBps }));
+
+    // ---------- API key（不驗證簽名，每個地址一把 key） ----------
+    const apiKey = (req: Request, res: Response) => {
+      const address = String(req.header('POLY_ADDRESS') || 'anonymous').toLowerCase();
+      if (!this.apiKeys.has(address)) this.apiKeys.set(address, uuidv4());
+      res.json({
+        apiKey: this.apiKeys.get(address),
+        secret: Buffer.from(`mock-secret-${address}`).toString('base64'),
+        passphrase: 'mock-passphrase',
+      });
+    };
+    app.post('/auth/api-key', apiKey);
+    app.get('/auth/derive-api-key', apiKey);
+
+    // ---------- 訂單 ----------
+    app.post('/order', (req, res) => {
+      const result = this.postOrder(req.body);
+      res.status(result.success ? 200 : 400).json(result);
+    });
+
+    app.delete('/order', (req, res) => res.json(this.cancel([req.body?.orderID])));
+    app.delete('/orders', (req, res) => res.json(this.cancel(Array.isArray(req.body) ? req.body : [])));
+    app.delete('/cancel-all', (req, res) => {
+      const owner = this.owner(req);
+      res.json(this.cancel(this.getOrders().filter((o) => o.owner === owner && o.status === 'LIVE').map((o) => o.id)));
+    });
+    app.delete('/cancel-market-orders', (req, res) => {
+      const owner = this.owner(req);
+      const { market, asset_id } = req.body || {};
+      const ids = this.getOrders()
+        .filter((o) => o.owner === owner && o.status === 'LIVE')
+        .filter((o) => (!market || o.conditionId === market) && (!asset_id || o.tokenId === asset_id))
+        .map((o) => o.id);
+      res.json(this.cancel(ids));
+    });
+
+    app.get('/data/order/:id', (req, res) => {
+      const order = this.orders.get(req.params.id);
+      // 與真實接口一致：查無訂單時返回 null
+      res.json(order ? this.toOpenOrder(order) : null);
+    });
+
+    app.get('/data/orders', (req, res) => {
+      const owner = this.owner(req);
+      const { asset_id, market, id } = req.query as Record<string, string | undefined>;
+      const data = this.getOrders()
+        .filter((o) => o.owner === owner && o.status === 'LIVE')
+        .filter((o) => (!asset_id || o.tokenId === asset_id) && (!market || o.conditionId === market) && (!id || o.id === id))
+        .map((o) => this.toOpenOrder(o));
+      res.json({ data, next_cursor: END_CURSOR, limit: data.length, count: data.length });
+    });
+
+    app.get('/data/trades', (req, res) => {
+      const owner = this.owner(req);
+      const { asset_id, market, id } = req.query as Record<string, string | undefined>;
+      const data = this.trades
+        .filter((t) => t.owner === owner)
+        .filter((t) => (!asset_id || t.tokenId === asset_id) && (!market || t.conditionId === market) && (!id || t.id === id))
+        .map((t) => this.toTrade(t));
+      res.json({ data, next_cursor: END_CURSOR, limit: data.length, count: data.length });
+    });
+
+    // ---------- 餘額 ----------
+    app.get('/balance-allowance', (req, res) => {
+      const owner = this.owner(req);
+      const tokenId = req.query.token_id ? String(req.query.token_id) : '';
+      if (String(req.query.asset_type).toUpperCase() === 'CONDITIONAL' && tokenId) {
+        // allowance = 未被賣單鎖定的可賣數量
+        const balance = this.getBalance(owner, tokenId);
+        res.json({ balance: toUnits(balance), allowance: toUnits(Math.max(balance - this.reserved(owner, tokenId), 0)) });
+        return;
+      }
+      res.json({ balance: toUnits(this.getBalance(owner)), allowance: UNLIMITED_ALLOWANCE });
+    });
+    app.get('/balance-allowance/update', (req, res) => res.json(''));
+
+    // ---------- 腳本控制 ----------
+    app.get('/mock/state', (req, res) => {
+      res.json({
+        now: this.now(),
+        scenario: this.scenario,
+        markets: this.listMarkets().map((m) => ({
+          slug: m.slug,
+          upTokenId: m.upTokenId,
+          downTokenId: m.downTokenId,
+          upMidpoint: this.upMidpoint(m),
+          resolution: this.resolvedOutcome(m),
+        })),
+        orders: this.getOrders(),
+        trades: this.trades,
+      });
+    });
+
+    app.post('/mock/scenario', (req, res) => {
+      this.setScenario(req.body || {});
+      this.pushBooks();
+      res.json(this.scenario);
+    });
+
+    app.post('/mock/reset', (req, res) => {
+      this.reset();
+      res.json({ ok: true });
+    });
+  }
+
+  /**
+   * L2 請求頭中的 API key 即訂單 owner
+   */
+  private owner(req: Request): string {
+    return String(req.header('POLY_API_KEY') || '');
+  }
+
+  private toEvent(market: MockMarket) {
+    const outcome = this.resolvedOutcome(market);
+    const upMid = this.upMidpoint(market);
+    const closed = this.now() >= market.endTime;
+    const outcomePrices = outcome ? (outcome === 'Up' ? ['1', '0'] : ['0', '1']) : [String(round(upMid, 3)), String(round(1 - upMid, 3))];
+    const title = `${market.series.label} Up or Down ${new Date(market.startTime).toISOString()}`;
+    const startDate = new Date(market.startTime).toISOString();
+    const endDate = new Date(market.endTime).toISOString();
+
+    return {
+      id: market.conditionId.slice(2, 10),
+      slug: market.slug,
+      title,
+      startTime: startDate,
+      endDate,
+      active: !closed,
+      closed,
+      tags: [{ label: market.series.tag, slug: market.series.tag.toLowerCase() }],
+      markets: [
+        {
+          conditionId: market.conditionId,
+          questionID: `0x${hash(`${market.slug}:question`)}`,
+          slug: market.slug,
+          question: title,
+          outcomes: JSON.stringify(['Up', 'Down']),
+          outcomePrices: JSON.stringify(outcomePrices),
+          clobTokenIds: JSON.stringify([market.upTokenId, market.downTokenId]),
+          eventStartTime: startDate,
+          endDate,
+          active: !closed,
+          closed,
+          acceptingOrders: !closed,
+        },
+      ],
+    };
+  }
+
+  private bookMessage(tokenId: string) {
+    const token = this.tokens.get(tokenId)!;
+    const { bids, asks } = this.book(tokenId);
+    const toLevels = (levels: Level[]) => levels.map((l) => ({ price: l.price.toFixed(2), size: String(l.size) }));
+    // 與真實接口一致：bids 由低到高，asks 由高到低（最優價在最後）
+    return {
+      event_type: 'book',
+      market: token.market.conditionId,
+      asset_id: tokenId,
+      bids: toLevels([...bids].reverse()),
+      asks: toLevels([...asks].reverse()),
+      hash: hash(JSON.stringify({ bids, asks })).slice(0, 40),
+      timestamp: String(this.now()),
+    };
+  }
+
+  private toOpenOrder(order: MockOrder) {
+    return {
+      id: order.id,
+      status: order.status,
+      owner: order.owner,
+      maker_address: order.owner,
+      market: order.conditionId,
+      asset_id: order.tokenId,
+      side: order.side,
+      original_size: String(order.size),
+      size_matched: String(order.sizeMatched),
+      price: String(order.price),
+      outcome: order.outcome,
+      created_at: Math.floor(order.createdAt / 1000),
+      expiration: '0',
+      order_type: order.orderType,
+      associate_trades: this.trades.filter((t) => t.orderId === order.id).map((t) => t.id),
+    };
+  }
+
+  private toTrade(trade: MockTrade) {
+    const base = {
+      id: trade.id,
+      market: trade.conditionId,
+      asset_id: trade.tokenId,
+      side: trade.side,
+      size: String(trade.size),
+      fee_rate_bps: String(this.scenario.feeRateBps),
+      price: String(trade.price),
+      status: 'CONFIRMED',
+      match_time: String(Math.floor(trade.matchTime / 1000)),
+      last_update: String(Math.floor(trade.matchTime / 1000)),
+      outcome: trade.outcome,
+      owner: trade.owner,
+      maker_address: trade.owner,
+      transaction_hash: `0x${hash(trade.id)}`,
+      trader_side: trade.traderSide,
+    };
+
+    if (trade.traderSide === 'TAKER') {
+      return { ...base, taker_order_id: trade.orderId, maker_orders: [] };
+    }
+    // 作為 maker 成交：自己的訂單在 maker_orders 中，taker 是虛擬的對手方
+    return {
+      ...base,
+      side: trade.side === 'BUY' ? 'SELL' : 'BUY',
+      taker_order_id: `0x${hash(`${trade.id}:taker`)}`,
+      maker_orders: [
+        {
+          order_id: trade.orderId,
+          owner: trade.owner,
+          maker_address: trade.owner,
+          matched_amount: String(trade.size),
+          price: String(trade.price),
+          fee_rate_bps: String(this.scenario.feeRateBps),
+          asset_id: trade.tokenId,
+          outcome: trade.outcome,
+          side: trade.side,
+        },
+      ],
+    };
+  }
+
+  // ==================== 撮合 ====================
+
+  /**
+   * 處理下單：makerAmount / takerAmount 換算價格和股數，檢查餘額後按 fillMode 撮合
+   */
+  private postOrder(body: any) {
+    const signed = body?.order;
+    const owner = String(body?.owner || '');
+    const orderType = String(body?.orderType || 'GTC');
+    const reject = (errorMsg: string) => ({ success: false, errorMsg, orderID: '', status: 'unmatched', transactionsHashes: [] });
+
+    const token = signed ? this.tokens.get(String(signed.tokenId)) : undefined;
+    if (!token) return reject('market not found');
+    if (this.now() >= token.market.endTime) return reject('market is closed');
+
+    const side: 'BUY' | 'SELL' = signed.side === 'SELL' || signed.side === 1 ? 'SELL' : 'BUY';
+    const makerAmount = Number(signed.makerAmount) / 1e6;
+    const takerAmount = Number(signed.takerAmount) / 1e6;
+    const size = side === 'BUY' ? takerAmount : makerAmount;
+    const price = round(side === 'BUY' ? makerAmount / takerAmount : takerAmount / makerAmount);
+    if (!(size > 0) || !(price > 0) || price >= 1) return reject('invalid order amounts');
+
+    if (side === 'BUY' && this.getBalance(owner) - this.reservedCollateral(owner) < price * size - 1e-9) {
+      return reject('not enough balance / allowance');
+    }
+    if (side === 'SELL' && this.getBalance(owner, String(signed.tokenId)) - this.reserved(owner, String(signed.tokenId)) < size - 1e-9) {
+      return reject('not enough balance / allowance');
+    }
+
+    const order: MockOrder = {
+      id: `0x${hash(`${owner}:${signed.salt}:${Date.now()}:${Math.random()}`)}`,
+      owner,
+      tokenId: String(signed.tokenId),
+      conditionId: token.market.conditionId,
+      outcome: token.outcome,
+      side,
+      price,
+      size,
+      sizeMatched: 0,
+      status: 'LIVE',
+      orderType,
+      createdAt: this.now(),
+    };
+
+    const fills = this.marketableFills(order);
+    const filled = fills.reduce((sum, f) => sum + f.size, 0);
+    if ((orderType === 'FOK' && filled < size - 1e-9) || (orderType === 'FAK' && filled <= 0)) {
+      return reject(`order couldn't be fully filled. ${orderType} orders are fully filled or killed.`);
+    }
+
+    this.orders.set(order.id, order);
+    for (const fill of fills) {
+      this.fill(order, fill.price, fill.size, 'TAKER');
+    }
+    if (order.status === 'LIVE' && this.crosses(order)) {
+      this.exhausted.add(order.id);
+    }
+    // FAK / FOK 的剩餘部分不掛單
+    if (order.status === 'LIVE' && orderType !== 'GTC' && orderType !== 'GTD') {
+      order.status = 'CANCELED';
+    }
+
+    const status = order.status === 'MATCHED' ? 'matched' : order.status === 'LIVE' ? 'live' : 'unmatched';
+    const notional = order.sizeMatched * price;
+    return {
+      success: true,
+      errorMsg: '',
+      orderID: order.id,
+      status,
+      makingAmount: String(round(side === 'BUY' ? notional : order.sizeMatched, 6)),
+      takingAmount: String(round(side === 'BUY' ? order.sizeMatched : notional, 6)),
+      transactionsHashes: [],
+    };
+  }
+
+  /**
+   * 新訂單可立即成交的部分（逐檔吃模擬訂單簿，不超過限價）
+   */
+  private marketableFills(order: MockOrder): Level[] {
+    const { fillMode, partialFillRatio } = this.scenario;
+    if (fillMode === 'never') return [];
+    if (fillMode === 'always') return [{ price: order.price, size: round(order.size * partialFillRatio, 6) }];
+
+    const book = this.book(order.tokenId);
+    const levels = order.side === 'BUY' ? book.asks : book.bids;
+    const fills: Level[] = [];
+    let remaining = round(order.size * partialFillRatio, 6);
+    for (const level of levels) {
+      if (remaining <= 0) break;
+      if (order.side === 'BUY' ? level.price > order.price : level.price < order.price) break;
+      const take = Math.min(level.size, remaining);
+      fills.push({ price: level.price, size: take });
+      remaining = round(remaining - take, 6);
+    }
+    return fills;
+  }
+
+  /**
+   * 掛單撮合：價格路徑穿過掛單價時按掛單價全部成交（maker）
+   */
+  private matchRestingOrders(): void {
+    if (this.scenario.fillMode !== 'book') return;
+    for (const order of this.orders.values()) {
+      if (order.status !== 'LIVE') continue;
+      const token = this.tokens.get(order.tokenId)!;
+      if (this.now() >= token.market.endTime) {
+        order.status = 'CANCELED';
+        continue;
+      }
+
+      if (!this.crosses(order)) {
+        this.exhausted.delete(order.id);
+      } else if (!this.exhausted.has(order.id)) {
+        this.fill(order, order.price, round(order.size - order.sizeMatched, 6), 'MAKER');
+      }
+    }
+  }
+
+  /**
+   * 對手盤最優價是否已穿過訂單價格
+   */
+  private crosses(order: MockOrder): boolean {
+    const { bids, asks } = this.book(order.tokenId);
+    return order.side === 'BUY' ? !!asks[0] && asks[0].price <= order.price : !!bids[0] && bids[0].price >= order.price;
+  }
+
+  private fill(order: MockOrder, price: number, size: number, traderSide: 'TAKER' | 'MAKER'): void {
+    if (size <= 0) return;
+    const fee = (price * size * this.scenario.feeRateBps) / 10000;
+    const key = `${order.owner}:${order.tokenId}`;
+    const cash = this.getBalance(order.owner);
+
+    if (order.side === 'BUY') {
+      this.collateral.set(order.owner, cash - price * size - fee);
+      this.holdings.set(key, (this.holdings.get(key) || 0) + size);
+    } else {
+      this.collateral.set(order.owner, cash + price * size - fee);
+      this.holdings.set(key, (this.holdings.get(key) || 0) - size);
+    }
+
+    order.sizeMatched = round(order.sizeMatched + size, 6);
+    if (order.sizeMatched >= order.size - 1e-9) order.status = 'MATCHED';
+
+    const trade: MockTrade = {
+      id: uuidv4(),
+      orderId: order.id,
+      owner: order.owner,
+      tokenId: order.tokenId,
+      conditionId: order.conditionId,
+      outcome: order.outcome,
+      side: order.side,
+      price,
+      size,
+      traderSide,
+      matchTime: this.now(),
+    };
+    this.trades.push(trade);
+    this.broadcast(order.tokenId, {
+      event_type: 'last_trade_price',
+      asset_id: order.tokenId,
+      market: order.conditionId,
+      price: String(price),
+      size: String(size),
+      side: order.side,
+      fee_rate_bps: String(this.scenario.feeRateBps),
+      timestamp: String(trade.matchTime),
+    });
+  }
+
+  private cancel(ids: string[]) {
+    const canceled: string[] = [];
+    const notCanceled: Record<string, string> = {};
+    for (const id of ids) {
+      const order = id ? this.orders.get(id) : undefined;
+      if (!order) {
+        notCanceled[id] = 'order not found';
+      } else if (order.status !== 'LIVE') {
+        notCanceled[id] = `order is ${order.status.toLowerCase()}`;
+      } else {
+        order.status = 'CANCELED';
+        this.exhausted.delete(id);
+        canceled.push(id);
+      }
+    }
+    return { canceled, not_canceled: notCanceled };
+  }
+
+  /**
+   * 未成交賣單鎖定的股數
+   */
+  private reserved(owner: string, tokenId: string): number {
+    return this.getOrders()
+      .filter((o) => o.owner === owner && o.tokenId === tokenId && o.side === 'SELL' && o.status === 'LIVE')
+      .reduce((sum, o) => sum + o.size - o.sizeMatched, 0);
+  }
+
+  /**
+   * 未成交買單鎖定的 USDC
+   */
+  private reservedCollateral(owner: string): number {
+    return this.getOrders()
+      .filter((o) => o.owner === owner && o.side === 'BUY' && o.status === 'LIVE')
+      .reduce((sum, o) => sum + (o.size - o.sizeMatched) * o.price, 0);
+  }
+
+  // ==================== WebSocket ====================
+
+  private handleSocket(ws: WebSocket): void {
+    const subscribed = new Map<string, string>();
+    this.subscriptions.set(ws, subscribed);
+
+    ws.on('message', (data) => {
+      const raw = data.toString();
+      if (raw === 'PING') {
+        ws.send('PONG');
+        return;
+      }
+
+      let message: any;
+      try {
+        message = JSON.parse(raw);
+      } catch {
+        return;
+      }
+
+      const assetIds: string[] = Array.isArray(message?.assets_ids) ? message.assets_ids.map(String) : [];
+      if (message.operation === 'unsubscribe') {
+        for (const id of assetIds) subscribed.delete(id);
+        return;
+      }
+      for (const id of assetIds) {
+        subscribed.set(id, '');
+      }
+      this.pushBooks(ws);
+    });
+
+    ws.on('close', () => this.subscriptions.delete(ws));
+  }
+
+  /**
+   * 向訂閱者推送有變化的訂單簿快照
+   */
+  private pushBooks(only?: WebSocket): void {
+    for (const [ws, subscribed] of this.subscriptions) {
+      if (only && ws !== only) continue;
+      if (ws.readyState !== WebSocket.OPEN) continue;
+
+      const events = [];
+      for (const [tokenId, lastHash] of subscribed) {
+        if (!this.tokens.has(tokenId)) continue;
+        const message = this.bookMessage(tokenId);
+        if (message.hash === lastHash) continue;
+        subscribed.set(tokenId, message.hash);
+        events.push(message);
+      }
+      if (events.length > 0) ws.send(JSON.stringify(events));
+    }
+  }
+
+  private broadcast(tokenId: string, event: object): void {
+    for (const [ws, subscribed] of this.subscriptions) {
+      if (subscribed.has(tokenId) && ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify([event]));
+      }
+    }
+  }
+}
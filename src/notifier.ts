@@ -0,0 +1,295 @@
+/**
+ * 通知 - 把成交、止損、強制清倉、風控熔斷、連續 tick 出錯和啟動 / 停止推送到 Telegram、Discord 和通用 webhook
+ *
+ * 每個渠道可以用 *_EVENTS 只接收部分通知類型，並各自按 NOTIFY_RATE_LIMIT_PER_MINUTE 限速：
+ * 超過時丟棄並在下一條通知中附上略過的條數；緊急通知（強制清倉失敗、熔斷）不受限速。
+ * 發送失敗只記錄日誌，不影響交易。本地測試用 npm run webhook-sink（src/webhook-sink.ts）接收。
+ */
+import axios from 'axios';
+import { config } from './config.js';
+import { isStopExit } from './exit-policy.js';
+import { createLogger } from './logger.js';
+import { isTerminalStatus } from './order-manager.js';
+import { riskManager, type RiskManager } from './risk-manager.js';
+import type { BotEngine } from './bot-engine.js';
+
+export type NotificationType =
+  | 'start'
+  | 'stop'
+  | 'fill'
+  | 'stop_loss'
+  | 'force_liquidation'
+  | 'liquidation_failed'
+  | 'risk_halt'
+  | 'risk_rearm'
+  | 'tick_errors'
+  | 'test';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'start',
+  'stop',
+  'fill',
+  'stop_loss',
+  'force_liquidation',
+  'liquidation_failed',
+  'risk_halt',
+  'risk_rearm',
+  'tick_errors',
+  'test',
+];
+
+export type NotificationLevel = 'info' | 'warn' | 'critical';
+
+export interface Notification {
+  type: NotificationType;
+  level: NotificationLevel;
+  title: string;
+  message: string;
+  timestamp: number;
+  series?: string;
+  strategy?: string;
+  suppressed?: number; // 此前因限速略過的條數（每個渠道各自計算）
+}
+
+export interface NotifyChannel {
+  name: string;
+  events: NotificationType[]; // 空數組表示接收全部
+  send(notification: Notification): Promise<void>;
+}
+
+const log = createLogger('notifier');
+
+const SEND_TIMEOUT_MS = 10000;
+const DISCORD_MAX_LENGTH = 2000;
+
+const LEVEL_ICONS: Record<NotificationLevel, string> = {
+  info: '🔔',
+  warn: '⚠️',
+  critical: '🚨',
+};
+
+/**
+ * 解析 *_EVENTS：逗號分隔的通知類型，留空表示全部
+ */
+export function parseEvents(spec: string, name: string): NotificationType[] {
+  const events = spec
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+  const unknown = events.filter((e) => !NOTIFICATION_TYPES.includes(e as NotificationType));
+  if (unknown.length > 0) {
+    throw new Error(`${name} 包含未知的通知類型: ${unknown.join(', ')}（可用: ${NOTIFICATION_TYPES.join(', ')}）`);
+  }
+  return events as NotificationType[];
+}
+
+/**
+ * 純文字格式（Telegram / Discord）
+ */
+export function formatText(notification: Notification): string {
+  const label = notification.series ? ` [${[notification.series, notification.strategy].filter(Boolean).join('/')}]` : '';
+  const lines = [`${LEVEL_ICONS[notification.level]} ${notification.title}${label}`, notification.message];
+  if (notification.suppressed) lines.push(`（限速略過 ${notification.suppressed} 條通知）`);
+  return lines.filter(Boolean).join('\n');
+}
+
+export function telegramChannel(token: string, chatId: string, apiUrl: string, events: NotificationType[] = []): NotifyChannel {
+  return {
+    name: 'telegram',
+    events,
+    async send(notification) {
+      await axios.post(
+        `${apiUrl}/bot${token}/sendMessage`,
+        { chat_id: chatId, text: formatText(notification), disable_web_page_preview: true },
+        { timeout: SEND_TIMEOUT_MS }
+      );
+    },
+  };
+}
+
+export function discordChannel(url: string, events: NotificationType[] = []): NotifyChannel {
+  return {
+    name: 'discord',
+    events,
+    async send(notification) {
+      await axios.post(url, { content: formatText(notification).slice(0, DISCORD_MAX_LENGTH) }, { timeout: SEND_TIMEOUT_MS });
+    },
+  };
+}
+
+export function webhookChannel(url: string, events: NotificationType[] = []): NotifyChannel {
+  return {
+    name: 'webhook',
+    events,
+    async send(notification) {
+      await axios.post(url, notification, { timeout: SEND_TIMEOUT_MS });
+    },
+  };
+}
+
+/**
+ * 按配置建立渠道；沒有設定任何渠道時返回空數組（通知只寫日誌）
+ */
+export function channelsFromConfig(): NotifyChannel[] {
+  const channels: NotifyChannel[] = [];
+  if (config.TELEGRAM_BOT_TOKEN && config.TELEGRAM_CHAT_ID) {
+    channels.push(
+      telegramChannel(
+        config.TELEGRAM_BOT_TOKEN,
+        config.TELEGRAM_CHAT_ID,
+        config.TELEGRAM_API_URL,
+        parseEvents(config.TELEGRAM_EVENTS, 'TELEGRAM_EVENTS')
+      )
+    );
+  }
+  if (config.DISCORD_WEBHOOK_URL) {
+    channels.push(discordChannel(config.DISCORD_WEBHOOK_URL, parseEvents(config.DISCORD_EVENTS, 'DISCORD_EVENTS')));
+  }
+  if (config.NOTIFY_WEBHOOK_URL) {
+    channels.push(webhookChannel(config.NOTIFY_WEBHOOK_URL, parseEvents(config.NOTIFY_WEBHOOK_EVENTS, 'NOTIFY_WEBHOOK_EVENTS')));
+  }
+  return channels;
+}
+
+interface ChannelState {
+  channel: NotifyChannel;
+  sentAt: number[]; // 最近 1 分鐘內的發送時間
+  suppressed: number;
+}
+
+export class Notifier {
+  private channels: ChannelState[];
+  private pending: Set<Promise<void>> = new Set();
+  private tickErrors: Map<string, number> = new Map(); // 系列 -> 連續出錯的 tick 數
+
+  constructor(channels: NotifyChannel[] = channelsFromConfig()) {
+    this.channels = channels.map((channel) => ({ channel, sentAt: [], suppressed: 0 }));
+  }
+
+  getChannels(): string[] {
+    return this.channels.map((state) => state.channel.name);
+  }
+
+  /**
+   * 發送到所有接收該類型的渠道（不等待，用 flush 等待發送完成）
+   */
+  notify(input: Omit<Notification, 'timestamp'>): void {
+    const notification: Notification = { ...input, timestamp: Date.now() };
+    log.info(`[通知] ${notification.title}`, { type: notification.type, message: notification.message });
+
+    for (const state of this.channels) {
+      const { events } = state.channel;
+      if (events.length > 0 && !events.includes(notification.type)) continue;
+      if (!this.acquire(state, notification)) continue;
+
+      const payload = state.suppressed > 0 ? { ...notification, suppressed: state.suppressed } : notification;
+      state.suppressed = 0;
+      const sending = state.channel
+        .send(payload)
+        .catch((error) => log.warn(`[通知] ${state.channel.name} 發送失敗`, { error, type: notification.type }))
+        .finally(() => this.pending.delete(sending));
+      this.pending.add(sending);
+    }
+  }
+
+  /**
+   * 等待發送中的通知（進程退出前調用），最多等 timeoutMs
+   */
+  async flush(timeoutMs: number = SEND_TIMEOUT_MS): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>((resolve) => (timer = setTimeout(resolve, timeoutMs)));
+    await Promise.race([Promise.all(this.pending), timeout]);
+    clearTimeout(timer);
+  }
+
+  /**
+   * 訂閱引擎和賬戶風控的事件
+   */
+  attach(engine: BotEngine, risk: RiskManager = riskManager): void {
+    engine.on('status', (running) => {
+      const mode = config.PAPER_TRADING ? '模擬交易' : '實盤';
+      this.notify(
+        running
+          ? { type: 'start', level: 'info', title: '機器人已啟動', message: `${mode} | 系列 ${config.SERIES.join(', ')} | 策略 ${config.STRATEGIES.join(', ')}` }
+          : { type: 'stop', level: 'info', title: '機器人已停止', message: mode }
+      );
+    });
+
+    // 訂單結束時通知一次，包括部分成交後撤銷 / 過期的
+    engine.on('order', ({ order, strategy, series }) => {
+      if (!isTerminalStatus(order.status) || order.filledSize <= 0) return;
+      const partial = order.status !== 'FILLED';
+      this.notify({
+        type: 'fill',
+        level: 'info',
+        title: `${partial ? '部分成交' : '成交'} ${order.side} ${order.outcome}`,
+        message: `${partial ? `${order.filledSize}/${order.size}` : order.filledSize} 股 @ ${(order.avgFillPrice ?? order.price).toFixed(1)}¢${order.paper ? '（模擬）' : ''}${order.reason ? ` | ${order.reason}` : ''}`,
+        series,
+        strategy,
+      });
+    });
+
+    engine.on('trade', (trade) => {
+      if (trade.side !== 'SELL') return;
+      const forced = trade.exitKind === 'force_liquidation';
+      if (!forced && !isStopExit(trade.exitKind)) return;
+      const pnl = trade.pnl !== undefined ? ` | PnL ${trade.pnl >= 0 ? '+' : ''}${(trade.pnl / 100).toFixed(2)} USDC` : '';
+      this.notify({
+        type: forced ? 'force_liquidation' : 'stop_loss',
+        level: 'warn',
+        title: forced ? '強制清倉' : '止損',
+        message: `${trade.outcome} ${trade.size} 股 @ ${trade.price.toFixed(1)}¢${pnl}\n${trade.reason}`,
+        series: trade.series,
+        strategy: trade.strategy,
+      });
+    });
+
+    engine.on('trade_failed', (failure) => {
+      if (failure.side !== 'SELL' || failure.exitKind !== 'force_liquidation') return;
+      this.notify({
+        type: 'liquidation_failed',
+        level: 'critical',
+        title: '強制清倉失敗',
+        message: `${failure.outcome} ${failure.size} 股 @ ${failure.price.toFixed(1)}¢ 未賣出，下一個 tick 重試，請檢查持倉\n${failure.reason}`,
+        series: failure.series,
+        strategy: failure.strategy,
+      });
+    });
+
+    engine.on('tick_error', ({ series, error }) => {
+      const count = (this.tickErrors.get(series.id) || 0) + 1;
+      this.tickErrors.set(series.id, count);
+      // 每次連續出錯只通知一次，恢復正常後重新計算
+      if (count !== config.NOTIFY_TICK_ERROR_THRESHOLD) return;
+      this.notify({
+        type: 'tick_errors',
+        level: 'warn',
+        title: `連續 ${count} 次 tick 出錯`,
+        message: error instanceof Error ? error.message : String(error),
+        series: series.id,
+      });
+    });
+    engine.on('tick', ({ loop }) => this.tickErrors.delete(loop.series.id));
+
+    risk.on('halt', (status) => {
+      this.notify({ type: 'risk_halt', level: 'critical', title: '賬戶風控熔斷', message: `${status.haltReason}，停止買入並清倉，需要在控制面板重新啟用` });
+    });
+    risk.on('rearm', () => {
+      this.notify({ type: 'risk_rearm', level: 'info', title: '賬戶風控已重新啟用', message: '恢復交易' });
+    });
+  }
+
+  /**
+   * 每個渠道 1 分鐘內最多 NOTIFY_RATE_LIMIT_PER_MINUTE 條，緊急通知總是發送
+   */
+  private acquire(state: ChannelState, notification: Notification): boolean {
+    const now = notification.timestamp;
+    state.sentAt = state.sentAt.filter((t) => now - t < 60000);
+    if (notification.level !== 'critical' && state.sentAt.length >= config.NOTIFY_RATE_LIMIT_PER_MINUTE) {
+      state.suppressed++;
+      return false;
+    }
+    state.sentAt.push(now);
+    return true;
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * 訂單生命週期管理器 - 追蹤每張訂單的狀態變化
+ *
+ * CREATED → OPEN → PARTIALLY_FILLED → FILLED / CANCELLED / EXPIRED
+ * 下單失敗的訂單直接記為 REJECTED。
+ *
+ * 實盤訂單每個 tick 用 getOpenOrders 輪詢；從掛單列表消失的訂單再用 getOrder
+ * 或成交記錄確認最終狀態。模擬訂單由 Trader 根據 FillSimulator 的結果更新。
+ */
+import { EventEmitter } from 'events';
+import type { ClobClient } from '@polymarket/clob-client';
+import { createLogger } from './logger.js';
+
+export type OrderStatus =
+  | 'CREATED'
+  | 'OPEN'
+  | 'PARTIALLY_FILLED'
+  | 'FILLED'
+  | 'CANCELLED'
+  | 'EXPIRED'
+  | 'REJECTED';
+
+export interface ManagedOrder {
+  orderId: string;
+  tokenId: string;
+  outcome: 'Up' | 'Down';
+  side: 'BUY' | 'SELL';
+  price: number; // cents
+  size: number;
+  filledSize: number;
+  avgFillPrice?: number; // cents，成交均價（實盤輪詢沒有成交價時按限價計）
+  status: OrderStatus;
+  reason?: string; // 下單原因 / 拒單或撤單原因
+  expiration?: number; // ms，0 或 undefined 表示 GTC
+  paper: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface OrderEvent {
+  order: ManagedOrder;
+  previousStatus: OrderStatus | null;
+}
+
+const log = createLogger('orders');
+
+const TERMINAL_STATUSES: OrderStatus[] = ['FILLED', 'CANCELLED', 'EXPIRED', 'REJECTED'];
+const NOT_FOUND_TIMEOUT_MS = 60000; // 交易所查無此單超過此時間視為已撤銷
+const TERMINAL_RETENTION_MS = 60 * 60 * 1000; // 已結束訂單保留 1 小時
+
+/**
+ * 已結束（不會再成交）的狀態
+ */
+export function isTerminalStatus(status: OrderStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+export interface OrderManager {
+  on(event: 'update', listener: (event: OrderEvent) => void): this;
+  emit(event: 'update', payload: OrderEvent): boolean;
+}
+
+export class OrderManager extends EventEmitter {
+  private orders: Map<string, ManagedOrder> = new Map();
+
+  /**
+   * 開始追蹤一張新訂單
+   */
+  track(params: {
+    orderId: string;
+    tokenId: string;
+    outcome: 'Up' | 'Down';
+    side: 'BUY' | 'SELL';
+    price: number;
+    size: number;
+    reason?: string;
+    paper?: boolean;
+    status?: OrderStatus;
+    filledSize?: number;
+    avgFillPrice?: number;
+    expiration?: number;
+  }): ManagedOrder {
+    const now = Date.now();
+    const order: ManagedOrder = {
+      orderId: params.orderId,
+      tokenId: params.tokenId,
+      outcome: params.outcome,
+      side: params.side,
+      price: params.price,
+      size: params.size,
+      filledSize: params.filledSize || 0,
+      avgFillPrice: params.filledSize ? (params.avgFillPrice ?? params.price) : undefined,
+      status: 'CREATED',
+      reason: params.reason,
+      expiration: params.expiration,
+      paper: params.paper || false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.orders.set(order.orderId, order);
+    this.emit('update', { order, previousStatus: null });
+
+    if (params.status && params.status !== 'CREATED') {
+      this.transition(order, params.status);
+    }
+    return order;
+  }
+
+  /**
+   * 下單失敗：記為 REJECTED
+   */
+  reject(params: {
+    tokenId: string;
+    outcome: 'Up' | 'Down';
+    side: 'BUY' | 'SELL';
+    price: number;
+    size: number;
+    reason: string;
+    paper?: boolean;
+  }): ManagedOrder {
+    return this.track({
+      ...params,
+      orderId: `rejected-${Date.now()}-${params.side}`,
+      status: 'REJECTED',
+    });
+  }
+
+  /**
+   * 更新累計成交數量（新增部分的成交價默認為限價），並推導狀態
+   */
+  updateFilled(orderId: string, filledSize: number, fillPrice?: number): void {
+    const order = this.orders.get(orderId);
+    if (!order || this.isTerminal(order)) return;
+
+    const previous = order.filledSize;
+    order.filledSize = Math.min(filledSize, order.size);
+    if (order.filledSize > previous) {
+      const added = order.filledSize - previous;
+      order.avgFillPrice = ((order.avgFillPrice ?? 0) * previous + (fillPrice ?? order.price) * added) / order.filledSize;
+    }
+    if (order.filledSize >= order.size - 1e-6) {
+      this.transition(order, 'FILLED');
+    } else if (order.filledSize > 0) {
+      this.transition(order, 'PARTIALLY_FILLED');
+    } else {
+      this.transition(order, 'OPEN');
+    }
+  }
+
+  markCancelled(orderId: string, reason?: string): void {
+    const order = this.orders.get(orderId);
+    if (!order || this.isTerminal(order)) return;
+    if (reason) order.reason = reason;
+    this.transition(order, 'CANCELLED');
+  }
+
+  /**
+   * cancelAll 之後將所有實盤活躍訂單標記為撤銷（下一次輪詢會再確認）
+   */
+  markAllCancelled(reason: string, paper = false): void {
+    for (const order of this.getActiveOrders()) {
+      if (order.paper === paper) {
+        this.markCancelled(order.orderId, reason);
+      }
+    }
+  }
+
+  /**
+   * 輪詢交易所，更新所有實盤活躍訂單的狀態
+   */
+  async poll(client: ClobClient): Promise<void> {
+    const active = this.getActiveOrders().filter((o) => !o.paper);
+    if (active.length > 0) {
+      let openOrders: any[];
+      try {
+        openOrders = (await client.getOpenOrders()) || [];
+      } catch (error: any) {
+        log.error('[訂單] 查詢掛單失敗', { error });
+        return;
+      }
+
+      const openById = new Map(openOrders.map((o: any) => [o.id, o]));
+      for (const order of active) {
+        const open = openById.get(order.orderId);
+        if (open) {
+          this.updateFilled(order.orderId, parseFloat(open.size_matched || '0'));
+          this.checkExpired(order);
+        } else {
+          await this.resolveClosedOrder(client, order);
+        }
+      }
+    }
+
+    this.prune();
+  }
+
+  /**
+   * 不在掛單列表中的訂單：用 getOrder 確認最終狀態，失敗時查成交記錄
+   */
+  private async resolveClosedOrder(client: ClobClient, order: ManagedOrder): Promise<void> {
+    try {
+      const remote = await client.getOrder(order.orderId);
+      if (remote) {
+        const filled = parseFloat(remote.size_matched || '0');
+        const status = (remote.status || '').toUpperCase();
+        order.filledSize = Math.min(filled, order.size);
+
+        if (status === 'MATCHED' || order.filledSize >= order.size - 1e-6) {
+          this.transition(order, 'FILLED');
+        } else if (status === 'CANCELED' || status === 'CANCELLED' || status === 'UNMATCHED') {
+          this.transition(order, this.isPastExpiration(order) ? 'EXPIRED' : 'CANCELLED');
+        } else if (status === 'LIVE' || status === 'DELAYED') {
+          this.updateFilled(order.orderId, filled);
+        }
+        return;
+      }
+    } catch {
+      // getOrder 失敗，改查成交記錄
+    }
+
+    try {
+      const trades = await client.getTrades({ asset_id: order.tokenId });
+      let filled = 0;
+      for (const trade of trades) {
+        if (trade.taker_order_id === order.orderId) {
+          filled += Number(trade.size);
+        }
+        for (const maker of trade.maker_orders || []) {
+          if (maker.order_id === order.orderId) {
+            filled += Number(maker.matched_amount);
+          }
+        }
+      }
+
+      if (filled >= order.size - 1e-6) {
+        order.filledSize = order.size;
+        this.transition(order, 'FILLED');
+        return;
+      }
+      if (filled > 0) {
+        this.updateFilled(order.orderId, filled);
+      }
+    } catch (error: any) {
+      log.error(`[訂單] 查詢 ${order.orderId.slice(0, 10)}... 成交記錄失敗`, { orderId: order.orderId, error });
+    }
+
+    if (Date.now() - order.createdAt > NOT_FOUND_TIMEOUT_MS) {
+      order.reason = '交易所查無此掛單';
+      this.transition(order, this.isPastExpiration(order) ? 'EXPIRED' : 'CANCELLED');
+    }
+  }
+
+  private checkExpired(order: ManagedOrder): void {
+    if (this.isPastExpiration(order)) {
+      this.transition(order, 'EXPIRED');
+    }
+  }
+
+  private isPastExpiration(order: ManagedOrder): boolean {
+    return !!order.expiration && Date.now() > order.expiration;
+  }
+
+  private transition(order: ManagedOrder, status: OrderStatus): void {
+    if (order.status === status) return;
+    const previousStatus = order.status;
+    order.status = status;
+    order.updatedAt = Date.now();
+    log.info(`[訂單] ${order.side} ${order.outcome} ${order.orderId.slice(0, 12)}... ${previousStatus} → ${status} (${order.filledSize.toFixed(1)}/${order.size})`, {
+      orderId: order.orderId,
+      tokenId: order.tokenId,
+      from: previousStatus,
+      to: status,
+      filledSize: order.filledSize,
+    });
+    this.emit('update', { order, previousStatus });
+  }
+
+  private isTerminal(order: ManagedOrder): boolean {
+    return isTerminalStatus(order.status);
+  }
+
+  /**
+   * 移除結束超過保留時間的訂單
+   */
+  private prune(): void {
+    const cutoff = Date.now() - TERMINAL_RETENTION_MS;
+    for (const [orderId, order] of this.orders) {
+      if (this.isTerminal(order) && order.updatedAt < cutoff) {
+        this.orders.delete(orderId);
+      }
+    }
+  }
+
+  getOrder(orderId: string): ManagedOrder | undefined {
+    return this.orders.get(orderId);
+  }
+
+  /**
+   * 未結束的訂單（CREATED / OPEN / PARTIALLY_FILLED）
+   */
+  getActiveOrders(tokenId?: string, side?: 'BUY' | 'SELL'): ManagedOrder[] {
+    return Array.from(this.orders.values()).filter(
+      (o) => !this.isTerminal(o) && (!tokenId || o.tokenId === tokenId) && (!side || o.side === side)
+    );
+  }
+
+  getAllOrders(): ManagedOrder[] {
+    return Array.from(this.orders.values());
+  }
+}
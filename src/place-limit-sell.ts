@@ -3,18 +3,16 @@
  * 用法: npx tsx src/place-limit-sell.ts
  */
 import { ClobClient, Side } from '@polymarket/clob-client';
-import { Wallet } from 'ethers';
 import { config } from './config.js';
+import { loadSigner } from './keystore.js';
 import { MarketFetcher } from './market-fetcher.js';
 
-const CLOB_HTTP_URL = 'https://clob.polymarket.com';
-const CHAIN_ID = 137;
-
 async function placeLimitSell() {
   console.log('=== 下 Limit Sell 訂單 ===\n');
 
-  if (!config.PRIVATE_KEY) {
-    console.error('❌ 請在 .env 設定 PRIVATE_KEY');
+  const signer = await loadSigner();
+  if (!signer) {
+    console.error('❌ 請先建立錢包 keystore（npm run keystore -- create）或在 .env 設定 PRIVATE_KEY');
     return;
   }
 
@@ -45,15 +43,14 @@ async function placeLimitSell() {
   console.log('');
 
   // 初始化客戶端
-  const signer = new Wallet(config.PRIVATE_KEY);
-  const l1Client = new ClobClient(CLOB_HTTP_URL, CHAIN_ID, signer);
+  const l1Client = new ClobClient(config.CLOB_HOST, config.CHAIN_ID, signer);
   const creds = await l1Client.createOrDeriveApiKey();
 
   let clobClient: ClobClient;
   if (config.FUNDER_ADDRESS) {
-    clobClient = new ClobClient(CLOB_HTTP_URL, CHAIN_ID, signer, creds, 1, config.FUNDER_ADDRESS);
+    clobClient = new ClobClient(config.CLOB_HOST, config.CHAIN_ID, signer, creds, 1, config.FUNDER_ADDRESS);
   } else {
-    clobClient = new ClobClient(CLOB_HTTP_URL, CHAIN_ID, signer, creds);
+    clobClient = new ClobClient(config.CLOB_HOST, config.CHAIN_ID, signer, creds);
   }
 
   console.log('✅ 客戶端已初始化');
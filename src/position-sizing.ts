@@ -0,0 +1,126 @@
+/**
+ * 倉位計算 - 按資金、期望收益和訂單簿深度決定買入股數
+ *
+ * POSITION_SIZING 選擇基礎方法：
+ * - fixed: 固定 MAX_POSITION_SIZE 股
+ * - fixed-fraction: 每筆投入可用資金的 SIZING_FRACTION
+ * - kelly: 按勝率和盈虧計算 Kelly 比例，乘以 KELLY_FRACTION
+ *
+ * 結果再依次受 MAX_POSITION_SIZE、可用資金和訂單簿深度
+ * （RiskManager.analyzeOrderBook 的可用流動性 × SIZING_DEPTH_FRACTION）限制。
+ */
+import { config } from './config.js';
+import { riskManager } from './risk-manager.js';
+import type { OrderBook, Position } from './types.js';
+
+export type SizingMode = 'fixed' | 'fixed-fraction' | 'kelly';
+
+export const SIZING_MODES: SizingMode[] = ['fixed', 'fixed-fraction', 'kelly'];
+
+export interface SizingInput {
+  price: number; // 買入價 (cents)
+  collateral: number | null; // 可用資金 (USDC)，未知時為 null
+  book?: OrderBook; // 買入 token 的訂單簿，沒有則不按深度限制
+  // kelly: 每股盈利 / 虧損 (cents，已扣手續費) 和勝率
+  winCents?: number;
+  lossCents?: number;
+  winProbability?: number;
+}
+
+export interface SizingResult {
+  size: number; // 股數（向下取整），0 表示不買
+  reason: string;
+}
+
+/**
+ * Kelly 比例：每筆買入股數 = 資金 × (p·W − q·L) / (W·L)
+ * W / L 為每股盈利 / 虧損 (cents)，資金以 cents 計
+ */
+export function kellyShares(bankrollCents: number, winProbability: number, winCents: number, lossCents: number): number {
+  if (winCents <= 0 || lossCents <= 0) return 0;
+  const p = winProbability;
+  const edge = p * winCents - (1 - p) * lossCents;
+  return edge > 0 ? (bankrollCents * edge) / (winCents * lossCents) : 0;
+}
+
+/**
+ * 模擬交易 / 回測的可用資金：PAPER_BANKROLL_USDC + 已實現盈虧 − 持倉成本
+ */
+export function paperCollateral(positions: Map<string, Position>, totalPnl: number): number {
+  let cost = 0;
+  for (const pos of positions.values()) cost += pos.size * pos.avgBuyPrice;
+  return config.PAPER_BANKROLL_USDC + (totalPnl - cost) / 100;
+}
+
+/**
+ * 啟動時檢查 POSITION_SIZING，未知方法直接報錯（不要等到第一次買入信號）
+ */
+export function validateSizingMode(mode: string = config.POSITION_SIZING): void {
+  if (!SIZING_MODES.includes(mode as SizingMode)) throw unknownModeError(mode);
+}
+
+function unknownModeError(mode: string): Error {
+  return new Error(`未知倉位計算方法: ${mode}（可用: ${SIZING_MODES.join(', ')}）`);
+}
+
+/**
+ * 計算買入股數和原因（寫入 TradeSignal.size / sizeReason）
+ */
+export function sizePosition(input: SizingInput): SizingResult {
+  const mode = config.POSITION_SIZING as SizingMode;
+  const { price, collateral } = input;
+  if (price <= 0) return { size: 0, reason: '價格無效' };
+
+  let size: number;
+  let reason: string;
+
+  switch (mode) {
+    case 'fixed':
+      size = config.MAX_POSITION_SIZE;
+      reason = `固定 ${config.MAX_POSITION_SIZE} 股`;
+      break;
+    case 'fixed-fraction':
+      if (collateral === null) return { size: 0, reason: '無法獲取可用資金' };
+      size = (collateral * config.SIZING_FRACTION * 100) / price;
+      reason = `資金 ${collateral.toFixed(2)} USDC × ${config.SIZING_FRACTION}`;
+      break;
+    case 'kelly': {
+      if (collateral === null) return { size: 0, reason: '無法獲取可用資金' };
+      const p = input.winProbability ?? config.KELLY_WIN_PROBABILITY;
+      const win = input.winCents ?? 0;
+      const loss = input.lossCents ?? 0;
+      size = kellyShares(collateral * 100, p, win, loss) * config.KELLY_FRACTION;
+      reason = `Kelly × ${config.KELLY_FRACTION} (p=${p.toFixed(2)}, +${win.toFixed(2)}¢ / -${loss.toFixed(2)}¢)`;
+      if (size <= 0) return { size: 0, reason: `${reason} 無正期望` };
+      break;
+    }
+    default:
+      throw unknownModeError(mode);
+  }
+
+  const caps: string[] = [];
+  if (size > config.MAX_POSITION_SIZE) {
+    size = config.MAX_POSITION_SIZE;
+    caps.push(`上限 ${config.MAX_POSITION_SIZE} 股`);
+  }
+
+  if (collateral !== null) {
+    const affordable = (collateral * 100) / price;
+    if (size > affordable) {
+      size = affordable;
+      caps.push(`資金 ${collateral.toFixed(2)} USDC`);
+    }
+  }
+
+  if (input.book && config.SIZING_DEPTH_FRACTION > 0) {
+    const { availableLiquidity } = riskManager.analyzeOrderBook(input.book, 'BUY', Math.floor(size), price);
+    const depthCap = availableLiquidity * config.SIZING_DEPTH_FRACTION;
+    if (size > depthCap) {
+      size = depthCap;
+      caps.push(`深度 ${availableLiquidity.toFixed(0)} × ${config.SIZING_DEPTH_FRACTION}`);
+    }
+  }
+
+  size = Math.floor(size);
+  return { size, reason: caps.length > 0 ? `${reason}，受限於${caps.join('、')}` : reason };
+}
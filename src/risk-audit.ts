@@ -0,0 +1,54 @@
+/**
+ * 風控審計日誌 - 以 JSONL 只追加方式記錄下單前風控的攔截和強制清倉放行
+ *
+ * 每個被拒絕的 BUY / SELL 信號寫一行 `REJECTED`（含拒絕原因和訂單簿分析），
+ * 跳過風控的強制清倉寫一行 `BYPASSED`，事後可以核對每筆沒有成交的信號。
+ */
+import fs from 'fs';
+import path from 'path';
+import { config } from './config.js';
+import type { TradeAnalysis } from './risk-manager.js';
+
+export interface RiskAuditEntry {
+  type: 'REJECTED' | 'BYPASSED';
+  timestamp: number;
+  series: string;
+  strategy: string;
+  action: 'BUY' | 'SELL';
+  tokenId: string;
+  outcome: 'Up' | 'Down';
+  price: number; // cents
+  size: number;
+  signalReason: string;
+  reasons: string[]; // REJECTED: 風控拒絕原因
+  analysis?: TradeAnalysis | null;
+  paper?: boolean;
+}
+
+const RECENT_LIMIT = 100;
+
+export class RiskAudit {
+  private recent: RiskAuditEntry[] = []; // 最近的攔截記錄，新連接的前端用
+
+  constructor(private file: string = config.RISK_AUDIT_FILE) {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+  }
+
+  record(entry: RiskAuditEntry): void {
+    try {
+      fs.appendFileSync(this.file, JSON.stringify(entry) + '\n');
+    } catch (error: any) {
+      console.error('[風控審計] 寫入失敗:', error?.message || error);
+    }
+    if (entry.type === 'REJECTED') {
+      this.recent = [entry, ...this.recent].slice(0, RECENT_LIMIT);
+    }
+  }
+
+  /**
+   * 最近被攔截的信號（新的在前）
+   */
+  getRecentRejections(): RiskAuditEntry[] {
+    return this.recent;
+  }
+}
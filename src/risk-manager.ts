@@ -1,7 +1,14 @@
 /**
  * 風險管理器 - 處理滑點、手續費、流動性和 API 限制
+ *
+ * 另外負責賬戶級風控（所有系列、所有策略合計）：
+ * 當日已實現虧損上限、持倉名義金額上限、連續虧損盤口數和止損後冷卻。
+ * 虧損類限制觸發後熔斷（halt）：停止買入並清倉，直到操作員重新啟用（rearm）。
  */
+import { EventEmitter } from 'events';
 import { config } from './config.js';
+import { createLogger } from './logger.js';
+import { rateLimitRejections, rateLimitWaitSeconds, rateLimitWaits } from './metrics.js';
 
 interface OrderBookLevel {
   price: number;
@@ -13,7 +20,7 @@ interface OrderBook {
   asks: OrderBookLevel[];
 }
 
-interface TradeAnalysis {
+export interface TradeAnalysis {
   canTrade: boolean;
   reason: string;
   effectivePrice: number;
@@ -23,10 +30,37 @@ interface TradeAnalysis {
   availableLiquidity: number;
 }
 
-export class RiskManager {
+export interface AccountRiskStatus {
+  halted: boolean;
+  haltReason: string | null;
+  haltedAt: number | null;
+  dailyRealizedPnl: number; // cents，UTC 當日（重新啟用後從 0 計算）
+  openNotional: number; // cents，所有策略持倉成本合計
+  consecutiveLosingRounds: number;
+  cooldownUntil: number | null; // 止損後暫停買入到此時間
+}
+
+export interface RiskManager {
+  on(event: 'halt' | 'rearm', listener: (status: AccountRiskStatus) => void): this;
+  emit(event: 'halt' | 'rearm', status: AccountRiskStatus): boolean;
+}
+
+const log = createLogger('risk');
+
+export class RiskManager extends EventEmitter {
   private requestTimestamps: number[] = [];
   private lastRequestTime: number = 0;
 
+  // 賬戶級風控狀態
+  private halted = false;
+  private haltReason: string | null = null;
+  private haltedAt: number | null = null;
+  private day = '';
+  private dailyRealizedPnl = 0;
+  private consecutiveLosingRounds = 0;
+  private cooldownUntil = 0;
+  private exposures: Map<string, number> = new Map(); // runner 標籤 -> 持倉成本 (cents)
+
   /**
    * 檢查 API rate limit
    */
@@ -40,14 +74,18 @@ export class RiskManager {
 
     // 檢查每分鐘請求數
     if (this.requestTimestamps.length >= config.MAX_REQUESTS_PER_MINUTE) {
-      console.warn(`[風控] API 限制: 每分鐘 ${config.MAX_REQUESTS_PER_MINUTE} 次已達上限`);
+      log.warn(`[風控] API 限制: 每分鐘 ${config.MAX_REQUESTS_PER_MINUTE} 次已達上限`);
+      rateLimitRejections.inc();
       return false;
     }
 
     // 檢查最小間隔
     const timeSinceLastRequest = now - this.lastRequestTime;
     if (timeSinceLastRequest < config.MIN_REQUEST_INTERVAL_MS) {
-      await this.sleep(config.MIN_REQUEST_INTERVAL_MS - timeSinceLastRequest);
+      const waitMs = config.MIN_REQUEST_INTERVAL_MS - timeSinceLastRequest;
+      rateLimitWaits.inc();
+      rateLimitWaitSeconds.inc(waitMs / 1000);
+      await this.sleep(waitMs);
     }
 
     this.requestTimestamps.push(now);
@@ -257,6 +295,139 @@ export class RiskManager {
     };
   }
 
+  /**
+   * 記錄已實現盈虧（cents），當日虧損達到 MAX_DAILY_LOSS_USDC 時熔斷
+   */
+  recordRealizedPnl(pnl: number, now: number = Date.now()): void {
+    this.rollDay(now);
+    if (pnl === 0) return;
+    this.dailyRealizedPnl += pnl;
+
+    const maxLoss = config.MAX_DAILY_LOSS_USDC * 100;
+    if (maxLoss > 0 && -this.dailyRealizedPnl >= maxLoss) {
+      this.halt(`當日虧損 ${(-this.dailyRealizedPnl / 100).toFixed(2)} USDC >= ${config.MAX_DAILY_LOSS_USDC} USDC`, now);
+    }
+  }
+
+  /**
+   * 記錄一個盤口的已實現盈虧，連續虧損盤口數達到 MAX_CONSECUTIVE_LOSSES 時熔斷
+   * 沒有成交的盤口 (pnl = 0) 不計入
+   */
+  recordRound(label: string, pnl: number, now: number = Date.now()): void {
+    if (pnl === 0) return;
+    if (pnl > 0) {
+      this.consecutiveLosingRounds = 0;
+      return;
+    }
+
+    this.consecutiveLosingRounds++;
+    log.info(`[風控] ${label} 盤口虧損 ${pnl.toFixed(2)}¢，連續虧損 ${this.consecutiveLosingRounds} 個盤口`, { pnl, consecutiveLosingRounds: this.consecutiveLosingRounds });
+    const maxLosses = config.MAX_CONSECUTIVE_LOSSES;
+    if (maxLosses > 0 && this.consecutiveLosingRounds >= maxLosses) {
+      this.halt(`連續虧損 ${this.consecutiveLosingRounds} 個盤口 >= ${maxLosses}`, now);
+    }
+  }
+
+  /**
+   * 止損後 STOP_LOSS_COOLDOWN_MS 內暫停買入
+   */
+  recordStopLoss(now: number = Date.now()): void {
+    if (config.STOP_LOSS_COOLDOWN_MS <= 0) return;
+    this.cooldownUntil = Math.max(this.cooldownUntil, now + config.STOP_LOSS_COOLDOWN_MS);
+    log.info(`[風控] 止損，${Math.round(config.STOP_LOSS_COOLDOWN_MS / 1000)}s 內暫停買入`);
+  }
+
+  /**
+   * 更新某個 runner 的持倉成本（cents），用於計算賬戶持倉名義金額
+   */
+  updateExposure(label: string, notional: number): void {
+    this.exposures.set(label, notional);
+  }
+
+  getOpenNotional(): number {
+    let total = 0;
+    for (const notional of this.exposures.values()) total += notional;
+    return total;
+  }
+
+  /**
+   * 賬戶級買入檢查：熔斷、止損冷卻、持倉名義金額（orderNotional 為本次買入金額，cents）
+   */
+  checkAccountLimits(orderNotional: number, now: number = Date.now()): { canTrade: boolean; reasons: string[] } {
+    const reasons: string[] = [];
+
+    if (this.halted) {
+      reasons.push(`風控熔斷: ${this.haltReason}`);
+    }
+
+    if (this.cooldownUntil > now) {
+      reasons.push(`止損冷卻中，剩餘 ${Math.ceil((this.cooldownUntil - now) / 1000)}s`);
+    }
+
+    const maxNotional = config.MAX_OPEN_NOTIONAL_USDC * 100;
+    const openNotional = this.getOpenNotional();
+    if (maxNotional > 0 && openNotional + orderNotional > maxNotional) {
+      reasons.push(
+        `持倉名義金額超限: ${(openNotional / 100).toFixed(2)} + ${(orderNotional / 100).toFixed(2)} > ${config.MAX_OPEN_NOTIONAL_USDC} USDC`
+      );
+    }
+
+    return { canTrade: reasons.length === 0, reasons };
+  }
+
+  isHalted(): boolean {
+    return this.halted;
+  }
+
+  /**
+   * 熔斷：停止買入並清倉（由 StrategyRunner 執行），發出 halt 事件
+   */
+  halt(reason: string, now: number = Date.now()): void {
+    if (this.halted) return;
+    this.halted = true;
+    this.haltReason = reason;
+    this.haltedAt = now;
+    log.error(`🛑 [風控] 熔斷: ${reason}，停止買入並清倉`, { reason });
+    this.emit('halt', this.getAccountStatus(now));
+  }
+
+  /**
+   * 操作員重新啟用：清除熔斷、止損冷卻和連續虧損計數，當日虧損從 0 重新計算
+   */
+  rearm(now: number = Date.now()): void {
+    const wasHalted = this.halted;
+    this.halted = false;
+    this.haltReason = null;
+    this.haltedAt = null;
+    this.dailyRealizedPnl = 0;
+    this.consecutiveLosingRounds = 0;
+    this.cooldownUntil = 0;
+    log.info(`✅ [風控] 已重新啟用${wasHalted ? '' : '（未處於熔斷狀態）'}`);
+    this.emit('rearm', this.getAccountStatus(now));
+  }
+
+  getAccountStatus(now: number = Date.now()): AccountRiskStatus {
+    this.rollDay(now);
+    return {
+      halted: this.halted,
+      haltReason: this.haltReason,
+      haltedAt: this.haltedAt,
+      dailyRealizedPnl: this.dailyRealizedPnl,
+      openNotional: this.getOpenNotional(),
+      consecutiveLosingRounds: this.consecutiveLosingRounds,
+      cooldownUntil: this.cooldownUntil > now ? this.cooldownUntil : null,
+    };
+  }
+
+  // 跨 UTC 日時重置當日虧損（熔斷狀態保留到重新啟用）
+  private rollDay(now: number): void {
+    const day = new Date(now).toISOString().slice(0, 10);
+    if (day !== this.day) {
+      this.day = day;
+      this.dailyRealizedPnl = 0;
+    }
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
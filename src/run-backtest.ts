@@ -0,0 +1,69 @@
+/**
+ * 回測命令行工具
+ * 用法: npm run backtest -- [數據目錄] [--strategy=premarket-scalp] [--series=btc-15m] [--MAX_BUY_PRICE=45] [--PROFIT_TARGET=3] [--STOP_LOSS=4] [--verbose]
+ */
+import { BacktestEngine, formatReport, loadRecordedTicks, type BacktestOverrides } from './backtest.js';
+import { config } from './config.js';
+import { getSeries } from './series.js';
+
+const NUMERIC_KEYS = [
+  'MAX_BUY_PRICE',
+  'PROFIT_TARGET',
+  'STOP_LOSS',
+  'EXIT_TRAILING_STOP_CENTS',
+  'EXIT_BREAK_EVEN_TRIGGER_CENTS',
+  'EXIT_TP_DECAY_START_MS',
+  'EXIT_TP_MIN_CENTS',
+  'MAX_POSITION_SIZE',
+  'SELL_BEFORE_START_MS',
+  'MIN_TIME_TO_TRADE_MS',
+  'MM_QUOTE_SIZE',
+  'MM_HALF_SPREAD_CENTS',
+  'MM_MIN_EDGE_CENTS',
+  'MM_SKEW_CENTS',
+  'MM_MAX_INVENTORY',
+  'ARB_MAX_SIZE',
+  'ARB_MIN_PROFIT_CENTS',
+];
+
+async function runBacktest() {
+  const args = process.argv.slice(2);
+  const dir = args.find((a) => !a.startsWith('--')) || config.RECORD_DIR;
+  const overrides: BacktestOverrides = {};
+  const strategy = args.find((a) => a.startsWith('--strategy='))?.split('=')[1] || config.STRATEGIES[0];
+  const series = getSeries(args.find((a) => a.startsWith('--series='))?.split('=')[1] || config.SERIES[0]);
+
+  for (const arg of args) {
+    const match = arg.match(/^--([A-Z_]+)=(.+)$/);
+    if (!match) continue;
+    const [, key, value] = match;
+    if (NUMERIC_KEYS.includes(key)) {
+      (overrides as any)[key] = Number(value);
+    } else if (key === 'ALLOW_CURRENT_MARKET_TRADING') {
+      overrides.ALLOW_CURRENT_MARKET_TRADING = value !== 'false';
+    } else {
+      console.warn(`⚠️ 未知參數: ${key}`);
+    }
+  }
+
+  console.log(`=== 回測: ${dir} (策略: ${strategy}, 系列: ${series.id}) ===`);
+  if (Object.keys(overrides).length > 0) {
+    console.log('覆蓋參數:', overrides);
+  }
+
+  const ticks = loadRecordedTicks(dir, series);
+  if (ticks.length === 0) {
+    console.error('❌ 找不到錄製數據');
+    process.exit(1);
+  }
+
+  const engine = new BacktestEngine({ strategy, overrides, quiet: !args.includes('--verbose') });
+  const report = await engine.run(ticks);
+  console.log('');
+  console.log(formatReport(report));
+}
+
+runBacktest().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
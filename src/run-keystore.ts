@@ -0,0 +1,46 @@
+/**
+ * 錢包 keystore 命令行工具
+ * 用法:
+ *   npm run keystore -- create [--overwrite]   建立 keystore（私鑰從終端輸入，或 .env 的 PRIVATE_KEY 匯入）
+ *   npm run keystore -- address                解鎖並顯示錢包地址
+ * 密碼從終端輸入，或使用 KEYSTORE_PASSPHRASE
+ */
+import { config } from './config.js';
+import { createKeystore, promptHidden, unlockKeystore } from './keystore.js';
+
+async function readPassphrase(confirm: boolean): Promise<string> {
+  if (config.KEYSTORE_PASSPHRASE) return config.KEYSTORE_PASSPHRASE;
+  const passphrase = await promptHidden('🔐 keystore 密碼: ');
+  if (confirm && (await promptHidden('🔐 再次輸入密碼: ')) !== passphrase) {
+    throw new Error('兩次輸入的密碼不一致');
+  }
+  return passphrase;
+}
+
+async function main(): Promise<void> {
+  const [command] = process.argv.slice(2).filter((arg) => !arg.startsWith('--'));
+
+  switch (command) {
+    case 'create': {
+      const privateKey = config.PRIVATE_KEY || (await promptHidden('🔑 私鑰: '));
+      if (config.PRIVATE_KEY) console.log('📥 匯入 .env 的 PRIVATE_KEY');
+      const address = await createKeystore(privateKey.trim(), await readPassphrase(true), {
+        overwrite: process.argv.includes('--overwrite'),
+      });
+      console.log(`✅ 已建立 ${config.KEYSTORE_FILE} (${address})`);
+      if (config.PRIVATE_KEY) console.log('⚠️ 請從 .env 刪除 PRIVATE_KEY');
+      break;
+    }
+    case 'address':
+      await unlockKeystore(await readPassphrase(false));
+      break;
+    default:
+      console.error('用法: npm run keystore -- create [--overwrite] | address');
+      process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error?.message || error}`);
+  process.exit(1);
+});
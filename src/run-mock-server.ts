@@ -0,0 +1,41 @@
+/**
+ * 啟動本地 Polymarket 模擬服務器
+ * 用法: npm run mock -- [--port=4100] [--scenario=scenario.json]
+ *
+ * bot 指向模擬服務器:
+ *   CLOB_HOST=http://localhost:4100 GAMMA_HOST=http://localhost:4100 CLOB_WS_URL=ws://localhost:4100/ws/market npm run dev
+ */
+import fs from 'fs';
+import { MockPolymarket, type MockScenario } from './mock-polymarket.js';
+
+async function runMockServer() {
+  const args = process.argv.slice(2);
+  const port = Number(args.find((a) => a.startsWith('--port='))?.split('=')[1]) || 4100;
+  const scenarioFile = args.find((a) => a.startsWith('--scenario='))?.split('=')[1];
+
+  let scenario: Partial<MockScenario> = {};
+  if (scenarioFile) {
+    scenario = JSON.parse(fs.readFileSync(scenarioFile, 'utf-8'));
+    console.log(`[模擬] 載入場景 ${scenarioFile}`);
+  }
+
+  const mock = new MockPolymarket(scenario);
+  const actualPort = await mock.start(port);
+  const { series, fillMode } = mock.getScenario();
+  console.log(`🧪 Polymarket 模擬服務器已啟動: http://localhost:${actualPort}`);
+  console.log(`   系列: ${series.join(', ')} | 撮合: ${fillMode}`);
+  console.log(`   WebSocket: ws://localhost:${actualPort}/ws/market`);
+  console.log(`   場景控制: GET /mock/state, POST /mock/scenario, POST /mock/reset`);
+
+  const shutdown = async () => {
+    await mock.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+runMockServer().catch((error) => {
+  console.error('❌ 模擬服務器啟動失敗:', error);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+/**
+ * 啟動本地 webhook 接收器，輸出收到的通知
+ * 用法: npm run webhook-sink -- [--port=4300]
+ *
+ * bot 的通知指向接收器:
+ *   NOTIFY_WEBHOOK_URL=http://localhost:4300/webhook DISCORD_WEBHOOK_URL=http://localhost:4300/discord \
+ *   TELEGRAM_API_URL=http://localhost:4300 TELEGRAM_BOT_TOKEN=test TELEGRAM_CHAT_ID=1 npm run dev
+ */
+import { WebhookSink } from './webhook-sink.js';
+
+async function runWebhookSink() {
+  const args = process.argv.slice(2);
+  const port = Number(args.find((a) => a.startsWith('--port='))?.split('=')[1]) || 4300;
+
+  const sink = new WebhookSink(({ path, body }) => {
+    const text = body?.text ?? body?.content ?? JSON.stringify(body);
+    console.log(`📨 ${new Date().toLocaleTimeString()} ${path}\n${text}\n`);
+  });
+  const actualPort = await sink.start(port);
+  console.log(`🧪 Webhook 接收器已啟動: http://localhost:${actualPort}`);
+  console.log(`   GET / 返回已收到的請求`);
+
+  const shutdown = async () => {
+    await sink.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+runWebhookSink().catch((error) => {
+  console.error('❌ Webhook 接收器啟動失敗:', error);
+  process.exit(1);
+});
@@ -0,0 +1,378 @@
+/**
+ * 運行時配置 - 控制面板 / API 可修改的參數：類型和範圍校驗、寫入磁盤、變更歷史、命名配置檔
+ *
+ * 啟動時 .env 的值會被 RUNTIME_CONFIG_FILE 中保存的修改覆蓋；每次修改追加一行到
+ * CONFIG_HISTORY_FILE（誰、何時、每個參數的舊值和新值）。
+ * 配置檔是一組交易參數：內建 conservative / aggressive，也可以把當前參數另存為自訂配置檔，
+ * 切換時和手動修改走同一個校驗和記錄流程。
+ */
+import fs from 'fs';
+import path from 'path';
+import { config, type Config } from './config.js';
+import { hasSeries } from './series.js';
+import { hasStrategy } from './strategies/index.js';
+
+type FieldType = 'number' | 'integer' | 'boolean' | 'address' | 'list';
+
+interface RuntimeField {
+  key: keyof Config;
+  field: string; // 前端 / API 使用的名稱
+  type: FieldType;
+  gt?: number; // 範圍（gt / lt 不含邊界，min / max 含邊界）
+  lt?: number;
+  min?: number;
+  max?: number;
+  exists?: (value: string) => boolean; // list：每一項必須存在
+  restart?: boolean; // 只能在機器人停止時修改（下次啟動生效）
+  profile?: boolean; // 屬於配置檔的交易參數
+}
+
+export const RUNTIME_FIELDS: RuntimeField[] = [
+  { key: 'PAPER_TRADING', field: 'paperTrade', type: 'boolean', restart: true },
+  { key: 'MAX_BUY_PRICE', field: 'maxBuyPrice', type: 'number', gt: 0, lt: 100, profile: true },
+  { key: 'PROFIT_TARGET', field: 'profitTarget', type: 'number', gt: 0, lt: 100, profile: true },
+  { key: 'STOP_LOSS', field: 'stopLoss', type: 'number', gt: 0, lt: 100, profile: true },
+  { key: 'MAX_POSITION_SIZE', field: 'maxPositionSize', type: 'integer', min: 1, profile: true },
+  { key: 'ALLOW_CURRENT_MARKET_TRADING', field: 'allowCurrentMarketTrading', type: 'boolean', profile: true },
+  { key: 'MAX_DAILY_LOSS_USDC', field: 'maxDailyLossUsdc', type: 'number', min: 0, profile: true },
+  { key: 'MAX_OPEN_NOTIONAL_USDC', field: 'maxOpenNotionalUsdc', type: 'number', min: 0, profile: true },
+  { key: 'FUNDER_ADDRESS', field: 'funderAddress', type: 'address', restart: true },
+  { key: 'STRATEGIES', field: 'strategies', type: 'list', exists: hasStrategy, restart: true },
+  { key: 'SERIES', field: 'series', type: 'list', exists: hasSeries, restart: true },
+];
+
+export type RuntimeValues = Partial<Config>;
+
+// 內建配置檔（不能覆蓋或刪除）
+export const BUILTIN_PROFILES: Record<string, RuntimeValues> = {
+  conservative: {
+    MAX_BUY_PRICE: 40,
+    PROFIT_TARGET: 2,
+    STOP_LOSS: 3,
+    MAX_POSITION_SIZE: 50,
+    ALLOW_CURRENT_MARKET_TRADING: false,
+    MAX_DAILY_LOSS_USDC: 20,
+    MAX_OPEN_NOTIONAL_USDC: 200,
+  },
+  aggressive: {
+    MAX_BUY_PRICE: 60,
+    PROFIT_TARGET: 4,
+    STOP_LOSS: 8,
+    MAX_POSITION_SIZE: 200,
+    ALLOW_CURRENT_MARKET_TRADING: true,
+    MAX_DAILY_LOSS_USDC: 100,
+    MAX_OPEN_NOTIONAL_USDC: 1000,
+  },
+};
+
+export interface ConfigChange {
+  key: keyof Config;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ConfigHistoryEntry {
+  timestamp: number;
+  user: string;
+  action: 'update' | 'apply_profile' | 'save_profile' | 'delete_profile';
+  profile?: string;
+  changes: ConfigChange[];
+}
+
+export interface ConfigProfile {
+  name: string;
+  builtin: boolean;
+  values: Record<string, unknown>; // 按 field 名稱
+}
+
+export interface UpdateOptions {
+  user: string;
+  running?: boolean; // 機器人運行中時拒絕修改 restart 參數
+}
+
+export interface RuntimeConfigOptions {
+  file?: string;
+  historyFile?: string;
+}
+
+interface PersistedConfig {
+  values: RuntimeValues;
+  profile: string | null;
+  profiles: Record<string, RuntimeValues>;
+}
+
+const PROFILE_NAME = /^[a-z0-9][a-z0-9-]{0,31}$/;
+const ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+const HISTORY_LIMIT = 50;
+
+function findField(name: string): RuntimeField | undefined {
+  return RUNTIME_FIELDS.find((f) => f.field === name || f.key === name);
+}
+
+function checkValue(spec: RuntimeField, value: unknown): string | null {
+  const name = spec.field;
+  switch (spec.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${name} 必須是 true 或 false`;
+    case 'address':
+      return value === '' || (typeof value === 'string' && ADDRESS.test(value))
+        ? null
+        : `${name} 必須是 0x 開頭的 40 位十六進制地址，或留空`;
+    case 'list': {
+      if (!Array.isArray(value) || value.length === 0 || value.some((v) => typeof v !== 'string')) {
+        return `${name} 必須是非空的字串列表`;
+      }
+      const unknown = value.filter((v) => !spec.exists!(v));
+      return unknown.length > 0 ? `${name} 包含未知的值: ${unknown.join(', ')}` : null;
+    }
+    default: {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${name} 必須是數字`;
+      if (spec.type === 'integer' && !Number.isInteger(value)) return `${name} 必須是整數`;
+      if (spec.gt !== undefined && value <= spec.gt) return `${name} 必須大於 ${spec.gt}`;
+      if (spec.lt !== undefined && value >= spec.lt) return `${name} 必須小於 ${spec.lt}`;
+      if (spec.min !== undefined && value < spec.min) return `${name} 不能小於 ${spec.min}`;
+      if (spec.max !== undefined && value > spec.max) return `${name} 不能大於 ${spec.max}`;
+      return null;
+    }
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * 校驗一組修改（鍵可以是 field 名稱或配置鍵），返回按配置鍵整理的值和所有錯誤
+ * running 時 restart 參數只接受和當前相同的值（前端保存時會帶上全部參數）
+ */
+export function validateRuntimeConfig(
+  payload: Record<string, unknown>,
+  running = false
+): { values: RuntimeValues; errors: string[] } {
+  const values: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const [name, value] of Object.entries(payload || {})) {
+    const spec = findField(name);
+    if (!spec) {
+      errors.push(`不支持修改的參數: ${name}`);
+      continue;
+    }
+    const error = checkValue(spec, value);
+    if (error) {
+      errors.push(error);
+    } else if (spec.restart && running && !sameValue(value, config[spec.key])) {
+      errors.push(`${spec.field} 只能在機器人停止時修改`);
+    } else {
+      values[spec.key] = value;
+    }
+  }
+
+  return { values: values as RuntimeValues, errors };
+}
+
+/**
+ * 把按配置鍵的值轉成前端使用的 field 名稱
+ */
+export function toFieldValues(values: RuntimeValues): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const spec of RUNTIME_FIELDS) {
+    if (spec.key in values) result[spec.field] = values[spec.key];
+  }
+  return result;
+}
+
+export class RuntimeConfigStore {
+  private file: string;
+  private historyFile: string;
+  private overrides: RuntimeValues = {}; // 運行時修改過的參數（寫入磁盤）
+  private profile: string | null = null; // 當前套用且沒有被手動改動的配置檔
+  private customProfiles: Record<string, RuntimeValues> = {};
+
+  constructor(options: RuntimeConfigOptions = {}) {
+    this.file = options.file ?? config.RUNTIME_CONFIG_FILE;
+    this.historyFile = options.historyFile ?? config.CONFIG_HISTORY_FILE;
+  }
+
+  /**
+   * 載入保存的修改並套用到 config；校驗失敗的參數保留 .env 的值
+   */
+  load(): void {
+    if (!fs.existsSync(this.file)) return;
+
+    let saved: Partial<PersistedConfig>;
+    try {
+      saved = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+    } catch (error: any) {
+      console.error(`[配置] 無法讀取 ${this.file}:`, error?.message || error);
+      return;
+    }
+
+    const { values, errors } = validateRuntimeConfig(saved.values ?? {});
+    for (const error of errors) {
+      console.warn(`[配置] 忽略保存的參數：${error}`);
+    }
+    Object.assign(config, values);
+    this.overrides = values;
+    for (const [name, profileValues] of Object.entries(saved.profiles ?? {})) {
+      const checked = validateRuntimeConfig(profileValues);
+      if (PROFILE_NAME.test(name) && !BUILTIN_PROFILES[name] && checked.errors.length === 0) {
+        this.customProfiles[name] = checked.values;
+      }
+    }
+    this.profile = saved.profile && this.hasProfile(saved.profile) ? saved.profile : null;
+    console.log(`[配置] 已載入 ${this.file}（${Object.keys(values).length} 項修改${this.profile ? `，配置檔 ${this.profile}` : ''}）`);
+  }
+
+  /**
+   * 校驗並套用修改，寫入磁盤和變更歷史，返回實際改變的參數
+   * 任何一項校驗失敗時全部不套用，拋出包含所有錯誤的 Error
+   */
+  update(payload: Record<string, unknown>, options: UpdateOptions): ConfigChange[] {
+    return this.apply(payload, options, 'update');
+  }
+
+  applyProfile(name: string, options: UpdateOptions): ConfigChange[] {
+    const values = BUILTIN_PROFILES[name] ?? this.customProfiles[name];
+    if (!values) {
+      throw new Error(`找不到配置檔: ${name}`);
+    }
+    return this.apply(values, options, 'apply_profile', name);
+  }
+
+  /**
+   * 把當前的交易參數另存為自訂配置檔
+   */
+  saveProfile(name: string, user: string): void {
+    if (!PROFILE_NAME.test(name)) {
+      throw new Error('配置檔名稱只能包含小寫字母、數字和 -（最多 32 個字元）');
+    }
+    if (BUILTIN_PROFILES[name]) {
+      throw new Error(`不能覆蓋內建配置檔: ${name}`);
+    }
+    const values: Record<string, unknown> = {};
+    for (const spec of RUNTIME_FIELDS.filter((f) => f.profile)) {
+      values[spec.key] = config[spec.key];
+    }
+    this.customProfiles[name] = values as RuntimeValues;
+    this.profile = name;
+    this.persist();
+    this.record({ timestamp: Date.now(), user, action: 'save_profile', profile: name, changes: [] });
+    console.log(`[配置] ${user} 保存配置檔 ${name}`);
+  }
+
+  deleteProfile(name: string, user: string): void {
+    if (BUILTIN_PROFILES[name]) {
+      throw new Error(`不能刪除內建配置檔: ${name}`);
+    }
+    if (!this.customProfiles[name]) {
+      throw new Error(`找不到配置檔: ${name}`);
+    }
+    delete this.customProfiles[name];
+    if (this.profile === name) this.profile = null;
+    this.persist();
+    this.record({ timestamp: Date.now(), user, action: 'delete_profile', profile: name, changes: [] });
+    console.log(`[配置] ${user} 刪除配置檔 ${name}`);
+  }
+
+  /**
+   * 當前所有可修改參數（按 field 名稱）
+   */
+  getValues(): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    for (const spec of RUNTIME_FIELDS) {
+      values[spec.field] = config[spec.key];
+    }
+    return values;
+  }
+
+  getActiveProfile(): string | null {
+    return this.profile;
+  }
+
+  listProfiles(): ConfigProfile[] {
+    return [
+      ...Object.entries(BUILTIN_PROFILES).map(([name, values]) => ({ name, builtin: true, values: toFieldValues(values) })),
+      ...Object.entries(this.customProfiles).map(([name, values]) => ({ name, builtin: false, values: toFieldValues(values) })),
+    ];
+  }
+
+  /**
+   * 最近的變更歷史（新的在前）
+   */
+  getHistory(limit = HISTORY_LIMIT): ConfigHistoryEntry[] {
+    if (!fs.existsSync(this.historyFile)) return [];
+    const entries: ConfigHistoryEntry[] = [];
+    for (const line of fs.readFileSync(this.historyFile, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // 忽略損壞的行
+      }
+    }
+    return entries.reverse().slice(0, limit);
+  }
+
+  private hasProfile(name: string): boolean {
+    return Boolean(BUILTIN_PROFILES[name] ?? this.customProfiles[name]);
+  }
+
+  private apply(
+    payload: Record<string, unknown>,
+    options: UpdateOptions,
+    action: ConfigHistoryEntry['action'],
+    profile?: string
+  ): ConfigChange[] {
+    const { values, errors } = validateRuntimeConfig(payload, options.running);
+    if (errors.length > 0) {
+      throw new Error(errors.join('；'));
+    }
+
+    const changes: ConfigChange[] = [];
+    for (const [key, value] of Object.entries(values) as [keyof Config, unknown][]) {
+      if (!sameValue(config[key], value)) {
+        changes.push({ key, from: config[key], to: value });
+      }
+    }
+    Object.assign(config, values);
+
+    if (profile) {
+      this.profile = profile;
+    } else if (changes.some((c) => findField(c.key)?.profile)) {
+      this.profile = null; // 手動改動了交易參數，不再是原來的配置檔
+    }
+    if (changes.length === 0 && !profile) return changes;
+
+    for (const change of changes) {
+      (this.overrides as Record<string, unknown>)[change.key] = change.to;
+    }
+    this.persist();
+    this.record({ timestamp: Date.now(), user: options.user, action, ...(profile ? { profile } : {}), changes });
+    console.log(
+      `[配置] ${options.user} ${profile ? `套用配置檔 ${profile}` : '修改'}: ${
+        changes.map((c) => `${c.key} ${JSON.stringify(c.from)} → ${JSON.stringify(c.to)}`).join(', ') || '無變化'
+      }`
+    );
+    return changes;
+  }
+
+  private persist(): void {
+    const saved: PersistedConfig = { values: this.overrides, profile: this.profile, profiles: this.customProfiles };
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.writeFileSync(this.file, JSON.stringify(saved, null, 2) + '\n');
+    } catch (error: any) {
+      console.error('[配置] 寫入失敗:', error?.message || error);
+    }
+  }
+
+  private record(entry: ConfigHistoryEntry): void {
+    try {
+      fs.mkdirSync(path.dirname(this.historyFile), { recursive: true });
+      fs.appendFileSync(this.historyFile, JSON.stringify(entry) + '\n');
+    } catch (error: any) {
+      console.error('[配置] 寫入變更歷史失敗:', error?.message || error);
+    }
+  }
+}
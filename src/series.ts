@@ -0,0 +1,123 @@
+/**
+ * Up/Down 市場系列描述
+ *
+ * 每個系列定義 slug 格式、盤口長度和 Gamma tag，MarketFetcher 按描述生成 slug 查詢盤口。
+ * slugPattern 支援的佔位符：
+ * - {ts}: 盤口開始時間 (unix 秒)，例如 btc-updown-15m-1760000000
+ * - {month} / {day} / {hour}: 盤口開始時間的美東時間，例如 bitcoin-up-or-down-october-18-3pm-et
+ */
+import { config, type ConfigOverrides } from './config.js';
+
+export interface SeriesDescriptor {
+  id: string;
+  label: string;
+  slugPattern: string;
+  intervalMs: number; // 每個盤口的長度
+  tag: string; // Gamma events 的 tag，用於補充查詢
+  spotSymbol: string; // 標的現貨交易對（SpotFeed），例如 BTCUSDT
+}
+
+export interface SeriesInfo {
+  id: string;
+  label: string;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const registry: Map<string, SeriesDescriptor> = new Map();
+
+/**
+ * 註冊系列
+ */
+export function registerSeries(series: SeriesDescriptor): void {
+  if (registry.has(series.id)) {
+    throw new Error(`系列已註冊: ${series.id}`);
+  }
+  registry.set(series.id, series);
+}
+
+registerSeries({ id: 'btc-15m', label: 'BTC 15分鐘', slugPattern: 'btc-updown-15m-{ts}', intervalMs: 15 * MINUTE, tag: '15M', spotSymbol: 'BTCUSDT' });
+registerSeries({ id: 'eth-15m', label: 'ETH 15分鐘', slugPattern: 'eth-updown-15m-{ts}', intervalMs: 15 * MINUTE, tag: '15M', spotSymbol: 'ETHUSDT' });
+registerSeries({ id: 'sol-15m', label: 'SOL 15分鐘', slugPattern: 'sol-updown-15m-{ts}', intervalMs: 15 * MINUTE, tag: '15M', spotSymbol: 'SOLUSDT' });
+registerSeries({ id: 'btc-1h', label: 'BTC 1小時', slugPattern: 'bitcoin-up-or-down-{month}-{day}-{hour}-et', intervalMs: HOUR, tag: '1H', spotSymbol: 'BTCUSDT' });
+registerSeries({ id: 'eth-1h', label: 'ETH 1小時', slugPattern: 'ethereum-up-or-down-{month}-{day}-{hour}-et', intervalMs: HOUR, tag: '1H', spotSymbol: 'ETHUSDT' });
+registerSeries({ id: 'sol-1h', label: 'SOL 1小時', slugPattern: 'solana-up-or-down-{month}-{day}-{hour}-et', intervalMs: HOUR, tag: '1H', spotSymbol: 'SOLUSDT' });
+
+export function getSeries(id: string): SeriesDescriptor {
+  const series = registry.get(id);
+  if (!series) {
+    throw new Error(`未知系列: ${id}（可用: ${Array.from(registry.keys()).join(', ')}）`);
+  }
+  return series;
+}
+
+export function hasSeries(id: string): boolean {
+  return registry.has(id);
+}
+
+export function listSeries(): SeriesInfo[] {
+  return Array.from(registry.values(), ({ id, label }) => ({ id, label }));
+}
+
+/**
+ * 本次啟用的系列（config.SERIES）
+ */
+export function enabledSeries(): SeriesDescriptor[] {
+  return config.SERIES.map(getSeries);
+}
+
+/**
+ * 包含 time 的盤口開始時間（按 intervalMs 對齊 UTC；美東時差是整小時，1 小時盤口同樣適用）
+ */
+export function intervalStart(series: SeriesDescriptor, time: number): number {
+  return Math.floor(time / series.intervalMs) * series.intervalMs;
+}
+
+const etFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/New_York',
+  month: 'long',
+  day: 'numeric',
+  hour: 'numeric',
+  hour12: true,
+});
+
+/**
+ * 生成從 startTime 開始的盤口 slug
+ */
+export function buildSeriesSlug(series: SeriesDescriptor, startTime: number): string {
+  const parts = Object.fromEntries(etFormatter.formatToParts(new Date(startTime)).map((p) => [p.type, p.value]));
+  return series.slugPattern
+    .replace('{ts}', String(Math.floor(startTime / 1000)))
+    .replace('{month}', (parts.month || '').toLowerCase())
+    .replace('{day}', parts.day || '')
+    .replace('{hour}', `${parts.hour}${(parts.dayPeriod || '').toLowerCase()}`);
+}
+
+/**
+ * slug 是否屬於該系列（用於篩選 tag 查詢的結果）
+ */
+export function matchesSeries(series: SeriesDescriptor, slug: string | undefined): boolean {
+  if (!slug) return false;
+  const pattern = series.slugPattern
+    .split(/\{(?:ts|month|day|hour)\}/)
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[a-z0-9]+');
+  return new RegExp(`^${pattern}$`).test(slug);
+}
+
+/**
+ * 該系列的配置覆蓋（config.SERIES_CONFIG[id]），只接受 config 中已有且類型相同的鍵
+ */
+export function seriesConfigOverrides(id: string): ConfigOverrides {
+  const overrides: ConfigOverrides = {};
+  for (const [key, value] of Object.entries(config.SERIES_CONFIG[id] || {})) {
+    const current = (config as Record<string, unknown>)[key];
+    if (current === undefined || typeof current !== typeof value) {
+      console.warn(`[系列] ${id} 忽略無效配置 ${key}=${JSON.stringify(value)}`);
+      continue;
+    }
+    (overrides as Record<string, unknown>)[key] = value;
+  }
+  return overrides;
+}
@@ -0,0 +1,367 @@
+/**
+ * 模擬交易器 - 回測用，按錄製的訂單簿撮合
+ *
+ * 與 Trader 保持相同的方法簽名 (buy / sell / forceLiquidate / placeLimitSellForPosition)，
+ * 讓回測引擎可以用和 server tick 一樣的流程驅動它。撮合使用與模擬交易相同的 FillSimulator。
+ * 注意：錄製的訂單簿是快照，成交不會消耗之後 tick 的流動性。
+ */
+import { config } from './config.js';
+import { FillSimulator } from './fill-simulator.js';
+import { createLogger } from './logger.js';
+import { paperCollateral } from './position-sizing.js';
+import type { Market, OrderBook, Position, RecordedTick, TradeRecord } from './types.js';
+
+export interface SimulatedFill {
+  timestamp: number;
+  tokenId: string;
+  slug: string;
+  outcome: 'Up' | 'Down';
+  side: 'BUY' | 'SELL';
+  price: number; // cents (成交均價)
+  size: number;
+  fee: number; // cents
+  pnl?: number; // cents (未扣手續費)
+  settlement?: boolean; // 市場結束時按結算價平倉
+}
+
+const log = createLogger('backtest');
+
+export class SimulatedTrader {
+  private positions: Map<string, Position> = new Map();
+  private tradeHistory: TradeRecord[] = [];
+  private fills: SimulatedFill[] = [];
+  private fillSimulator = new FillSimulator();
+  private orderBooks: Record<string, OrderBook> = {};
+  private tokenSlugs: Map<string, string> = new Map();
+  private tokenEndTimes: Map<string, number> = new Map();
+  private lastPrices: Map<string, number> = new Map(); // tokenId -> cents
+  private now = 0;
+
+  /**
+   * 推進到下一個 tick：更新訂單簿、撮合掛單、結算已結束市場
+   */
+  onTick(tick: RecordedTick): void {
+    this.now = tick.timestamp;
+    this.orderBooks = tick.orderBooks;
+
+    for (const market of tick.state.allMarkets) {
+      const endTime = new Date(market.endDate).getTime();
+      for (const token of market.tokens) {
+        this.tokenSlugs.set(token.tokenId, market.slug);
+        this.tokenEndTimes.set(token.tokenId, endTime);
+        this.lastPrices.set(token.tokenId, token.price * 100);
+      }
+    }
+
+    this.matchRestingOrders();
+    this.settleEndedMarkets();
+  }
+
+  async buy(
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    price: number,
+    size: number,
+    targetSellPrice = price + config.PROFIT_TARGET
+  ): Promise<boolean> {
+    // 與實盤一致：加 1¢ 的可成交限價單
+    const limitPrice = Math.min(price + 1, 99);
+    const book = this.getBook(tokenId);
+    const fill = this.fillSimulator.simulateMarketable(book, 'BUY', size, limitPrice);
+
+    if (fill.filledSize <= 0) {
+      log.info(`[回測] BUY ${outcome} @ ${limitPrice.toFixed(1)}¢ 無法成交`);
+      return false;
+    }
+
+    this.updatePosition(tokenId, outcome, fill.filledSize, fill.avgPrice);
+    this.recordFill(tokenId, outcome, 'BUY', fill.avgPrice, fill.filledSize, fill.fee);
+
+    // 買入後掛 Limit Sell @ 目標價（默認買入價 + PROFIT_TARGET）
+    this.fillSimulator.placeRestingOrder(book, tokenId, outcome, 'SELL', targetSellPrice, fill.filledSize);
+    return true;
+  }
+
+  async sell(
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    price: number,
+    size: number
+  ): Promise<boolean> {
+    this.fillSimulator.cancelOrders(tokenId);
+    return this.executeSell(tokenId, outcome, size, price);
+  }
+
+  /**
+   * 強制清倉：取消掛單並用低 10¢ 的限價單賣出
+   */
+  async forceLiquidate(
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    currentPrice: number
+  ): Promise<boolean> {
+    this.fillSimulator.cancelOrders(tokenId);
+    const position = this.positions.get(tokenId);
+    if (!position) return true;
+
+    const marketPrice = Math.max(currentPrice - 10, 1);
+    return this.executeSell(tokenId, outcome, position.size, marketPrice);
+  }
+
+  /**
+   * 為沒有掛單的持倉補掛 Limit Sell（對應 server tick 中的補掛流程）
+   */
+  async placeLimitSellForPosition(
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    buyPrice: number,
+    targetSellPrice = buyPrice + config.PROFIT_TARGET
+  ): Promise<boolean> {
+    const position = this.positions.get(tokenId);
+    if (!position) return false;
+    if (this.getOpenOrders(tokenId, 'SELL').length > 0) return true;
+
+    this.fillSimulator.placeRestingOrder(this.getBook(tokenId), tokenId, outcome, 'SELL', targetSellPrice, position.size);
+    return true;
+  }
+
+  /**
+   * 把現有的 Limit Sell 改到新的目標價（相差不到 1¢ 時不改單）
+   */
+  async repriceLimitSell(tokenId: string, outcome: 'Up' | 'Down', targetSellPrice: number): Promise<boolean> {
+    const order = this.getOpenOrders(tokenId, 'SELL')[0];
+    if (!order || Math.abs(order.price - targetSellPrice) < 1) return false;
+
+    const remaining = order.size - order.filledSize;
+    this.cancelOrders(tokenId, 'SELL');
+    if (remaining <= 0) return false;
+    this.fillSimulator.placeRestingOrder(this.getBook(tokenId), tokenId, outcome, 'SELL', targetSellPrice, remaining);
+    return true;
+  }
+
+  /**
+   * 做市報價：撤掉該 token 的買單並在新價格重掛
+   */
+  async requote(
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    price: number,
+    size: number
+  ): Promise<boolean> {
+    this.cancelOrders(tokenId, 'BUY');
+    this.fillSimulator.placeRestingOrder(this.getBook(tokenId), tokenId, outcome, 'BUY', price, size);
+    return true;
+  }
+
+  /**
+   * 完整套利：兩腿可成交限價單，第二腿成交不足時賣出第一腿多出的部分，其餘持有到結算
+   */
+  async buyCompleteSet(market: Market, upPrice: number, downPrice: number, size: number): Promise<boolean> {
+    const up = market.tokens.find((t) => t.outcome === 'Up');
+    const down = market.tokens.find((t) => t.outcome === 'Down');
+    if (!up || !down) return false;
+
+    const upFilled = this.executeBuy(up.tokenId, 'Up', size, upPrice);
+    if (upFilled <= 0) return false;
+
+    const downFilled = this.executeBuy(down.tokenId, 'Down', upFilled, downPrice);
+    if (upFilled - downFilled > 1e-6) {
+      this.executeSell(up.tokenId, 'Up', upFilled - downFilled, Math.max(upPrice - 10, 1));
+    }
+    if (downFilled <= 0) return false;
+
+    for (const tokenId of [up.tokenId, down.tokenId]) {
+      const position = this.positions.get(tokenId);
+      if (position) position.holdToResolution = true;
+    }
+    return true;
+  }
+
+  cancelOrders(tokenId: string, side?: 'BUY' | 'SELL'): void {
+    for (const order of this.fillSimulator.getOpenOrders(tokenId)) {
+      if (!side || order.side === side) {
+        this.fillSimulator.cancelOrder(order.orderId);
+      }
+    }
+  }
+
+  getOpenOrders(tokenId: string, side?: 'BUY' | 'SELL') {
+    return this.fillSimulator.getOpenOrders(tokenId).filter((o) => !side || o.side === side);
+  }
+
+  private executeBuy(
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    size: number,
+    limitPrice: number
+  ): number {
+    const fill = this.fillSimulator.simulateMarketable(this.getBook(tokenId), 'BUY', size, limitPrice);
+    if (fill.filledSize <= 0) {
+      log.info(`[回測] BUY ${outcome} @ ${limitPrice.toFixed(1)}¢ 無法成交`);
+      return 0;
+    }
+
+    this.updatePosition(tokenId, outcome, fill.filledSize, fill.avgPrice);
+    this.recordFill(tokenId, outcome, 'BUY', fill.avgPrice, fill.filledSize, fill.fee);
+    return fill.filledSize;
+  }
+
+  private executeSell(
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    size: number,
+    limitPrice: number
+  ): boolean {
+    const fill = this.fillSimulator.simulateMarketable(this.getBook(tokenId), 'SELL', size, limitPrice);
+    if (fill.filledSize <= 0) {
+      log.info(`[回測] SELL ${outcome} @ ${limitPrice.toFixed(1)}¢ 無法成交`);
+      return false;
+    }
+
+    const position = this.positions.get(tokenId);
+    const pnl = position ? (fill.avgPrice - position.avgBuyPrice) * fill.filledSize : 0;
+    this.updatePosition(tokenId, outcome, -fill.filledSize, fill.avgPrice);
+    this.recordFill(tokenId, outcome, 'SELL', fill.avgPrice, fill.filledSize, fill.fee, pnl);
+    return true;
+  }
+
+  /**
+   * 用本 tick 的訂單簿推進所有模擬掛單
+   */
+  private matchRestingOrders(): void {
+    const tokenIds = new Set(this.fillSimulator.getOpenOrders().map((o) => o.tokenId));
+    for (const tokenId of tokenIds) {
+      for (const { order, fill } of this.fillSimulator.matchRestingOrders(tokenId, this.getBook(tokenId))) {
+        if (order.side === 'BUY') {
+          this.updatePosition(tokenId, order.outcome, fill.filledSize, fill.avgPrice);
+          this.recordFill(tokenId, order.outcome, 'BUY', fill.avgPrice, fill.filledSize, fill.fee);
+          continue;
+        }
+
+        const position = this.positions.get(tokenId);
+        if (!position) {
+          this.fillSimulator.cancelOrder(order.orderId);
+          continue;
+        }
+
+        const size = Math.min(fill.filledSize, position.size);
+        const pnl = (fill.avgPrice - position.avgBuyPrice) * size;
+        this.updatePosition(tokenId, order.outcome, -size, fill.avgPrice);
+        this.recordFill(tokenId, order.outcome, 'SELL', fill.avgPrice, size, fill.fee, pnl);
+      }
+    }
+  }
+
+  /**
+   * 持有到市場結束的持倉按結算價 (0¢ 或 100¢) 平倉
+   */
+  private settleEndedMarkets(): void {
+    for (const [tokenId, position] of this.positions) {
+      const endTime = this.tokenEndTimes.get(tokenId);
+      if (endTime === undefined || this.now < endTime) continue;
+
+      const lastPrice = this.lastPrices.get(tokenId) ?? position.currentPrice;
+      const settlePrice = lastPrice >= 50 ? 100 : 0;
+      const pnl = (settlePrice - position.avgBuyPrice) * position.size;
+
+      log.info(`[回測] ${position.outcome} 持有到結算 @ ${settlePrice}¢`);
+      this.fillSimulator.cancelOrders(tokenId);
+      this.positions.delete(tokenId);
+      this.recordFill(tokenId, position.outcome, 'SELL', settlePrice, position.size, 0, pnl, true);
+    }
+  }
+
+  private getBook(tokenId: string): OrderBook {
+    return this.orderBooks[tokenId] || { bids: [], asks: [] };
+  }
+
+  private updatePosition(
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    sizeDelta: number,
+    price: number
+  ): void {
+    const existing = this.positions.get(tokenId);
+
+    if (!existing) {
+      if (sizeDelta > 0) {
+        this.positions.set(tokenId, {
+          tokenId,
+          outcome,
+          size: sizeDelta,
+          avgBuyPrice: price,
+          currentPrice: price,
+        });
+      }
+      return;
+    }
+
+    const newSize = existing.size + sizeDelta;
+    if (newSize <= 1e-9) {
+      this.positions.delete(tokenId);
+      return;
+    }
+
+    if (sizeDelta > 0) {
+      existing.avgBuyPrice = (existing.avgBuyPrice * existing.size + price * sizeDelta) / newSize;
+    }
+    existing.size = newSize;
+  }
+
+  private recordFill(
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    side: 'BUY' | 'SELL',
+    price: number,
+    size: number,
+    fee: number,
+    pnl?: number,
+    settlement?: boolean
+  ): void {
+    const slug = this.tokenSlugs.get(tokenId) || tokenId;
+
+    this.fills.push({
+      timestamp: this.now,
+      tokenId,
+      slug,
+      outcome,
+      side,
+      price,
+      size,
+      fee,
+      pnl,
+      settlement,
+    });
+    this.tradeHistory.push({
+      timestamp: new Date(this.now),
+      market: slug,
+      outcome,
+      side,
+      price,
+      size,
+      pnl,
+      fee,
+    });
+  }
+
+  getPositions(): Map<string, Position> {
+    return this.positions;
+  }
+
+  getTradeHistory(): TradeRecord[] {
+    return this.tradeHistory;
+  }
+
+  getFills(): SimulatedFill[] {
+    return this.fills;
+  }
+
+  getTotalPnL(): number {
+    return this.tradeHistory.reduce((sum, t) => sum + (t.pnl || 0) - (t.fee || 0), 0);
+  }
+
+  // 可用資金 (USDC)，從 PAPER_BANKROLL_USDC 開始
+  getCollateralBalance(): number {
+    return paperCollateral(this.positions, this.getTotalPnL());
+  }
+}
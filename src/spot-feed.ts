@@ -0,0 +1,331 @@
+/**
+ * 現貨價格 - Up/Down 盤口按標的現貨漲跌結算，為策略提供現價、盤口開始以來的漲跌和短期波動率
+ *
+ * 價格來源可插拔（SPOT_FEED）：
+ * - binance: 交易所 WebSocket（aggTrade 逐筆成交），斷線後按退避時間自動重連
+ * - replay: 從本地文件回放，每行一個 SpotTick，或市場錄製文件（RecordedTick.state.spot），支援 .gz
+ *
+ * SpotFeed 每秒保留一個樣本（該秒最後一筆），保留 2 小時，足夠覆蓋 1 小時盤口的開盤價。
+ * 多個系列共用一個 SpotFeed，各自用 setSymbols 設定交易對，實際訂閱為所有系列的聯集。
+ */
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import zlib from 'zlib';
+import WebSocket from 'ws';
+import { config } from './config.js';
+import { createLogger } from './logger.js';
+import type { SpotState } from './types.js';
+
+export interface SpotTick {
+  symbol: string; // 交易對，例如 BTCUSDT
+  price: number; // USD
+  timestamp: number; // 成交時間 (ms)
+}
+
+export interface SpotPriceSource {
+  readonly name: string;
+  setSymbols(symbols: string[]): void; // 要接收的交易對，改變時重新訂閱
+  close(): void;
+  on(event: 'tick', listener: (tick: SpotTick) => void): this;
+}
+
+interface Sample {
+  timestamp: number;
+  price: number;
+}
+
+const log = createLogger('spot');
+
+const SAMPLE_MS = 1000;
+const HISTORY_MS = 2 * 60 * 60 * 1000;
+const STALE_MS = 30000; // 超過此時間沒有新價格時不提供現貨狀態
+const MIN_RETURNS = 10; // 計算波動率至少需要的樣本間隔數
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+const REPLAY_INTERVAL_MS = 250;
+
+export interface SpotFeed {
+  on(event: 'tick', listener: (tick: SpotTick) => void): this;
+  emit(event: 'tick', tick: SpotTick): boolean;
+}
+
+export class SpotFeed extends EventEmitter {
+  private history: Map<string, Sample[]> = new Map();
+  private groups: Map<string, string[]> = new Map(); // 系列 -> 交易對
+  private symbols: string[] = [];
+
+  constructor(private source: SpotPriceSource) {
+    super();
+    source.on('tick', (tick) => this.record(tick));
+  }
+
+  getSourceName(): string {
+    return this.source.name;
+  }
+
+  /**
+   * 設定某個系列需要的交易對，交易對集合改變時通知價格來源
+   */
+  setSymbols(symbols: string[], group = 'default'): void {
+    this.groups.set(group, symbols.filter(Boolean).map((s) => s.toUpperCase()));
+    const wanted = Array.from(new Set(Array.from(this.groups.values()).flat())).sort();
+    if (wanted.join(',') === this.symbols.join(',')) return;
+    this.symbols = wanted;
+    this.source.setSymbols(wanted);
+  }
+
+  close(): void {
+    this.source.close();
+  }
+
+  /**
+   * 記錄一筆價格：同一秒內只保留最後一筆，並丟棄超過 2 小時的樣本
+   */
+  record(tick: SpotTick): void {
+    if (!(tick.price > 0) || !Number.isFinite(tick.timestamp)) return;
+    const symbol = tick.symbol.toUpperCase();
+    let samples = this.history.get(symbol);
+    if (!samples) {
+      samples = [];
+      this.history.set(symbol, samples);
+    }
+
+    const last = samples[samples.length - 1];
+    if (last && tick.timestamp < last.timestamp) return; // 亂序的舊成交
+    if (last && Math.floor(last.timestamp / SAMPLE_MS) === Math.floor(tick.timestamp / SAMPLE_MS)) {
+      last.timestamp = tick.timestamp;
+      last.price = tick.price;
+    } else {
+      samples.push({ timestamp: tick.timestamp, price: tick.price });
+    }
+
+    const cutoff = tick.timestamp - HISTORY_MS;
+    let expired = 0;
+    while (expired < samples.length && samples[expired].timestamp < cutoff) expired++;
+    if (expired > 0) samples.splice(0, expired);
+
+    this.emit('tick', { ...tick, symbol });
+  }
+
+  /**
+   * 最新價格，沒有數據時為 null
+   */
+  getPrice(symbol: string): number | null {
+    const samples = this.history.get(symbol.toUpperCase());
+    return samples?.length ? samples[samples.length - 1].price : null;
+  }
+
+  /**
+   * 策略用的現貨狀態
+   * @param roundStart 當前盤口開始時間，用於計算開盤以來的漲跌；沒有當前盤口時傳 null
+   */
+  getSpotState(symbol: string, roundStart: number | null, now = Date.now()): SpotState | null {
+    const samples = this.history.get(symbol.toUpperCase());
+    const latest = samples?.[samples.length - 1];
+    if (!latest || now - latest.timestamp > STALE_MS) return null;
+
+    // 開盤價：盤口開始時或之前的最後一個樣本（SpotFeed 啟動晚於開盤時未知）
+    let roundStartPrice: number | null = null;
+    if (roundStart !== null) {
+      for (let i = samples.length - 1; i >= 0; i--) {
+        if (samples[i].timestamp <= roundStart) {
+          roundStartPrice = samples[i].price;
+          break;
+        }
+      }
+    }
+
+    return {
+      symbol: symbol.toUpperCase(),
+      price: latest.price,
+      updatedAt: latest.timestamp,
+      roundStartPrice,
+      changeSinceStart: roundStartPrice ? (latest.price - roundStartPrice) / roundStartPrice : null,
+      volatility: this.volatility(samples, now - config.SPOT_VOLATILITY_WINDOW_MS),
+    };
+  }
+
+  /**
+   * 已實現波動率：窗口內對數收益率平方和 / 經過的秒數，開方後為每 √秒 的標準差
+   * 樣本間隔不均勻（沒有成交的秒數）時按實際間隔加權
+   */
+  private volatility(samples: Sample[], since: number): number | null {
+    let sumSquares = 0;
+    let seconds = 0;
+    let count = 0;
+    for (let i = 1; i < samples.length; i++) {
+      if (samples[i - 1].timestamp < since) continue;
+      const r = Math.log(samples[i].price / samples[i - 1].price);
+      sumSquares += r * r;
+      seconds += (samples[i].timestamp - samples[i - 1].timestamp) / 1000;
+      count++;
+    }
+    if (count < MIN_RETURNS || seconds <= 0) return null;
+    return Math.sqrt(sumSquares / seconds);
+  }
+}
+
+/**
+ * Binance 逐筆成交（combined stream: {SPOT_WS_URL}/stream?streams=btcusdt@aggTrade/...）
+ */
+export class BinanceSpotSource extends EventEmitter implements SpotPriceSource {
+  readonly name = 'binance';
+  private ws: WebSocket | null = null;
+  private symbols: string[] = [];
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private closed = true;
+
+  constructor(private baseUrl: string = config.SPOT_WS_URL) {
+    super();
+  }
+
+  setSymbols(symbols: string[]): void {
+    this.symbols = symbols;
+    this.closed = false;
+    // 交易對寫在連接 URL 中，改變時重新連接
+    if (this.ws) {
+      this.ws.close();
+    } else if (!this.reconnectTimer) {
+      this.connect();
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.ws?.close();
+  }
+
+  private connect(): void {
+    if (this.symbols.length === 0) return;
+    const streams = this.symbols.map((s) => `${s.toLowerCase()}@aggTrade`).join('/');
+    const url = `${this.baseUrl.replace(/\/$/, '')}/stream?streams=${streams}`;
+    const ws = new WebSocket(url);
+    this.ws = ws;
+
+    ws.on('open', () => {
+      log.info(`[現貨] WebSocket 已連接 ${url}`);
+      this.reconnectAttempts = 0;
+    });
+
+    ws.on('message', (data) => {
+      try {
+        const message = JSON.parse(data.toString());
+        const trade = message.data || message;
+        if (trade.e !== 'aggTrade') return;
+        this.emit('tick', { symbol: trade.s, price: parseFloat(trade.p), timestamp: trade.T });
+      } catch {
+        // 忽略無法解析的消息
+      }
+    });
+
+    ws.on('error', (error) => {
+      log.error('[現貨] WebSocket 錯誤', { error });
+    });
+
+    ws.on('close', () => {
+      if (this.ws === ws) this.ws = null;
+      if (this.closed) return;
+      // 第一次立即重連（包括切換交易對），連續失敗時退避
+      const delay = this.reconnectAttempts === 0 ? 0 : Math.min(RECONNECT_BASE_MS * 2 ** (this.reconnectAttempts - 1), RECONNECT_MAX_MS);
+      this.reconnectAttempts++;
+      if (delay > 0) log.warn(`[現貨] 連接中斷，${delay}ms 後重連...`);
+      else log.info('[現貨] 重新連接...');
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.connect();
+      }, delay);
+    });
+  }
+}
+
+/**
+ * 從本地文件回放價格
+ * realtime 時把第一筆對齊到現在，按原始間隔推送（時間戳同樣平移）；否則由調用方 advanceTo 推進（回測）
+ */
+export class ReplaySpotSource extends EventEmitter implements SpotPriceSource {
+  readonly name = 'replay';
+  private ticks: SpotTick[];
+  private cursor = 0;
+  private symbols: Set<string> = new Set();
+  private timer: NodeJS.Timeout | null = null;
+  private offset = 0;
+
+  constructor(file: string = config.SPOT_REPLAY_FILE, private realtime = true) {
+    super();
+    this.ticks = readSpotTicks(file);
+    log.info(`[現貨] 回放 ${file}: ${this.ticks.length} 筆`);
+  }
+
+  setSymbols(symbols: string[]): void {
+    this.symbols = new Set(symbols);
+    if (!this.realtime || this.timer || this.ticks.length === 0) return;
+    if (this.cursor === 0) this.offset = Date.now() - this.ticks[0].timestamp;
+    this.timer = setInterval(() => this.advanceTo(Date.now() - this.offset), REPLAY_INTERVAL_MS);
+  }
+
+  /**
+   * 推送原始時間 <= time 的所有價格
+   */
+  advanceTo(time: number): void {
+    while (this.cursor < this.ticks.length && this.ticks[this.cursor].timestamp <= time) {
+      const tick = this.ticks[this.cursor++];
+      if (this.symbols.size > 0 && !this.symbols.has(tick.symbol)) continue;
+      this.emit('tick', this.realtime ? { ...tick, timestamp: tick.timestamp + this.offset } : tick);
+    }
+    if (this.cursor >= this.ticks.length && this.timer) {
+      log.info('[現貨] 回放結束');
+      this.close();
+    }
+  }
+
+  close(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+/**
+ * 讀取回放文件（.gz 自動解壓），按時間排序
+ * 每行是 SpotTick，或帶 state.spot 的 RecordedTick；無法解析的行忽略
+ */
+export function readSpotTicks(file: string): SpotTick[] {
+  let raw = fs.readFileSync(file);
+  if (file.endsWith('.gz')) {
+    raw = zlib.gunzipSync(raw, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+  }
+
+  const ticks: SpotTick[] = [];
+  for (const line of raw.toString('utf8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const row = JSON.parse(line);
+      const spot = row.state ? row.state.spot : row;
+      const timestamp = row.state ? spot?.updatedAt ?? row.timestamp : row.timestamp;
+      if (spot?.symbol && spot.price > 0 && Number.isFinite(timestamp)) {
+        ticks.push({ symbol: spot.symbol.toUpperCase(), price: spot.price, timestamp });
+      }
+    } catch {
+      // 截斷的最後一行
+    }
+  }
+  return ticks.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * 按 SPOT_FEED 建立現貨價格（off 時返回 null）
+ */
+export function createSpotFeed(): SpotFeed | null {
+  switch (config.SPOT_FEED) {
+    case 'off':
+      return null;
+    case 'binance':
+      return new SpotFeed(new BinanceSpotSource());
+    case 'replay':
+      return new SpotFeed(new ReplaySpotSource());
+    default:
+      throw new Error(`未知現貨價格來源: ${config.SPOT_FEED}（可用: off, binance, replay）`);
+  }
+}
@@ -0,0 +1,163 @@
+import { config } from '../config.js';
+import { riskManager } from '../risk-manager.js';
+import type { TradingStrategy } from '../strategy.js';
+import type { Market, MarketState, OrderBook, Position, TradeSignal } from '../types.js';
+
+export interface CompleteSetOpportunity {
+  size: number; // 組數（Up 和 Down 各買 size 股）
+  upPrice: number; // Up 腿限價 (cents)，即吃到的最差一檔
+  downPrice: number; // Down 腿限價 (cents)
+  avgCost: number; // 每組平均成本 (cents)
+  netProfit: number; // 扣除手續費後的總淨利 (cents)
+}
+
+/**
+ * 檢查一個盤口的 Up / Down 賣單深度能否組成完整套利
+ *
+ * 結算時 Up + Down 必有一邊值 100¢，所以兩邊賣價合計低於 100¢ 時同時買入可鎖定利潤。
+ * 兩邊 asks 同時由低到高逐檔配對，每一檔的組合成本經 RiskManager.calculateNetProfit
+ * 扣除手續費後每組淨利仍 ≥ minProfit 才計入，最多 maxSize 組。
+ */
+export function detectCompleteSetArbitrage(
+  upBook: OrderBook | undefined,
+  downBook: OrderBook | undefined,
+  maxSize: number,
+  minProfit = config.ARB_MIN_PROFIT_CENTS
+): CompleteSetOpportunity | null {
+  if (!upBook?.asks.length || !downBook?.asks.length || maxSize < 1) return null;
+
+  let i = 0;
+  let j = 0;
+  let upLeft = upBook.asks[0].size;
+  let downLeft = downBook.asks[0].size;
+  let size = 0;
+  let cost = 0;
+  let upPrice = 0;
+  let downPrice = 0;
+
+  while (i < upBook.asks.length && j < downBook.asks.length && size < maxSize) {
+    const upAsk = upBook.asks[i].price * 100;
+    const downAsk = downBook.asks[j].price * 100;
+    const take = Math.min(upLeft, downLeft, maxSize - size);
+
+    const { netProfit } = riskManager.calculateNetProfit(upAsk + downAsk, 100, take);
+    if (take <= 0 || netProfit / take < minProfit) break;
+
+    size += take;
+    cost += (upAsk + downAsk) * take;
+    upPrice = upAsk;
+    downPrice = downAsk;
+
+    upLeft -= take;
+    downLeft -= take;
+    if (upLeft <= 0 && ++i < upBook.asks.length) upLeft = upBook.asks[i].size;
+    if (downLeft <= 0 && ++j < downBook.asks.length) downLeft = downBook.asks[j].size;
+  }
+
+  // 不足一股的零頭無法下單
+  if (size < 1) return null;
+
+  const avgCost = cost / size;
+  size = Math.floor(size);
+  return {
+    size,
+    upPrice,
+    downPrice,
+    avgCost,
+    netProfit: riskManager.calculateNetProfit(avgCost, 100, size).netProfit,
+  };
+}
+
+/**
+ * complete-set-arb: 完整套利策略
+ *
+ * 核心邏輯：
+ * 1. 每個 tick 檢查下一盤口和當前盤口的 Up / Down 賣單深度
+ * 2. 兩邊賣價合計扣除手續費後低於 100¢ 時，同時買入兩邊（BUY 信號帶 pairedLeg，由 Trader.buyCompleteSet 執行）
+ * 3. 持有到結算，不參與開局強制清倉；結算由 Trader.settleResolvedPositions 處理
+ *
+ * 風控：
+ * - 每個盤口最多持有 ARB_MAX_SIZE 組
+ * - 兩邊持倉數量不一致（單腿成交未平完）時賣出多出的一邊
+ */
+export class CompleteSetArbStrategy implements TradingStrategy {
+  readonly name = 'complete-set-arb';
+  readonly description = 'Up + Down 賣價合計扣除手續費後低於 100¢ 時兩邊同時買入，持有到結算';
+  readonly autoLimitSell = false;
+
+  generateSignals(
+    state: MarketState,
+    positions: Map<string, Position>,
+    orderBooks: Record<string, OrderBook>
+  ): TradeSignal[] {
+    const signals: TradeSignal[] = [];
+    const markets = [state.nextMarket, state.currentMarket].filter((m): m is Market => m !== null);
+
+    // 情況 1: 單腿持倉 - 平掉沒有配對的部分
+    for (const market of markets) {
+      const unwind = this.unwindSignal(market, positions, orderBooks);
+      if (unwind) signals.push(unwind);
+    }
+    if (signals.length > 0) {
+      return signals;
+    }
+
+    // 情況 2: 套利機會
+    for (const market of markets) {
+      if (market.acceptingOrders === false) continue;
+      const up = market.tokens.find((t) => t.outcome === 'Up');
+      const down = market.tokens.find((t) => t.outcome === 'Down');
+      if (!up || !down) continue;
+
+      const held = Math.min(positions.get(up.tokenId)?.size || 0, positions.get(down.tokenId)?.size || 0);
+      const opportunity = detectCompleteSetArbitrage(
+        orderBooks[up.tokenId],
+        orderBooks[down.tokenId],
+        config.ARB_MAX_SIZE - held
+      );
+      if (!opportunity) continue;
+
+      signals.push({
+        action: 'BUY',
+        tokenId: up.tokenId,
+        outcome: 'Up',
+        price: opportunity.upPrice,
+        size: opportunity.size,
+        reason: `完整套利 ${opportunity.size} 組 @ ${opportunity.avgCost.toFixed(2)}¢ (淨利 ${opportunity.netProfit.toFixed(2)}¢)`,
+        pairedLeg: { tokenId: down.tokenId, outcome: 'Down', price: opportunity.downPrice },
+      });
+    }
+
+    return signals;
+  }
+
+  /**
+   * 同一盤口的 Up / Down 持倉相差 1 股以上時，以最優買價 -1¢ 賣出多出的部分
+   */
+  private unwindSignal(
+    market: Market,
+    positions: Map<string, Position>,
+    orderBooks: Record<string, OrderBook>
+  ): TradeSignal | null {
+    const legs = market.tokens.map((t) => positions.get(t.tokenId)).filter((p): p is Position => !!p);
+    if (legs.length === 0) return null;
+
+    const up = legs.find((p) => p.outcome === 'Up');
+    const down = legs.find((p) => p.outcome === 'Down');
+    const excess = (up?.size || 0) - (down?.size || 0);
+    if (Math.abs(excess) < 1) return null;
+
+    const heavier = excess > 0 ? up! : down!;
+    const bestBid = orderBooks[heavier.tokenId]?.bids[0]?.price;
+    return {
+      action: 'SELL',
+      tokenId: heavier.tokenId,
+      outcome: heavier.outcome,
+      price: bestBid !== undefined ? Math.max(Math.floor(bestBid * 100) - 1, 1) : heavier.currentPrice,
+      size: Math.floor(Math.abs(excess)),
+      reason: `套利單腿平倉 (${heavier.outcome} 多 ${Math.abs(excess).toFixed(1)} 股)`,
+      // 單腿暴露必須平掉，不因滑點或深度被風控攔下
+      bypassRiskCheck: true,
+    };
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * 內建策略註冊
+ *
+ * 新增策略：在本目錄實現 TradingStrategy，然後在這裡 registerStrategy。
+ * 使用策略的模組應從這裡 import，確保註冊已執行。
+ */
+import { registerStrategy } from '../strategy.js';
+import { PremarketScalpStrategy } from './premarket-scalp.js';
+import { MarketMakerStrategy } from './market-maker.js';
+import { CompleteSetArbStrategy } from './complete-set-arb.js';
+
+registerStrategy('premarket-scalp', () => new PremarketScalpStrategy());
+registerStrategy('market-maker', () => new MarketMakerStrategy());
+registerStrategy('complete-set-arb', () => new CompleteSetArbStrategy());
+
+export { createStrategy, hasStrategy, listStrategies, tradingTimeRemaining, updatePositionPrices } from '../strategy.js';
+export type { TradingStrategy, StrategyInfo } from '../strategy.js';
+export { detectCompleteSetArbitrage, type CompleteSetOpportunity } from './complete-set-arb.js';
@@ -0,0 +1,189 @@
+import { config } from '../config.js';
+import { createLogger } from '../logger.js';
+import { riskManager } from '../risk-manager.js';
+import type { TradingStrategy } from '../strategy.js';
+import type { ExitKind, MarketState, OrderBook, Position, TradeSignal } from '../types.js';
+
+const log = createLogger('strategy');
+
+/**
+ * market-maker: 雙邊做市策略
+ *
+ * 核心邏輯：
+ * 1. 在下一盤口的 Up 和 Down 同時掛限價買單，報價 = 中間價 - MM_HALF_SPREAD_CENTS
+ * 2. 兩邊買價合計不超過 100 - MM_MIN_EDGE_CENTS，同時買到一對就鎖定利潤
+ * 3. 按庫存偏移報價：持有較多的一邊報價下移，另一邊上移，鼓勵配對
+ * 4. 中間價移動使目標價偏離現有報價 MM_REQUOTE_CENTS 以上時撤單重掛（由 StrategyRunner 處理）
+ *
+ * 風控：
+ * - 與 premarket-scalp 相同的開局清倉規則（SELL_BEFORE_START_MS）
+ * - 用 RiskManager.analyzeOrderBook 確認買方深度足以在清倉時賣出報價數量
+ * - 單邊庫存達到 MM_MAX_INVENTORY 停止該邊報價
+ */
+export class MarketMakerStrategy implements TradingStrategy {
+  readonly name = 'market-maker';
+  readonly description = '在 Up / Down 兩邊掛買單（合計 < 100¢），按庫存偏移報價，開局前清倉';
+  readonly autoLimitSell = false;
+
+  generateSignals(
+    state: MarketState,
+    positions: Map<string, Position>,
+    orderBooks: Record<string, OrderBook>
+  ): TradeSignal[] {
+    const signals: TradeSignal[] = [];
+
+    // 情況 0: 清倉已結束市場的持倉
+    const validTokenIds = new Set([
+      state.upTokenId,
+      state.downTokenId,
+      state.currentUpTokenId,
+      state.currentDownTokenId,
+    ].filter(id => id));
+
+    for (const [tokenId, position] of positions) {
+      if (position.size > 0 && !position.holdToResolution && !validTokenIds.has(tokenId)) {
+        signals.push(this.sellSignal(tokenId, position, '清倉已結束市場持倉'));
+      }
+    }
+    if (signals.length > 0) {
+      return signals;
+    }
+
+    if (!state.upTokenId || !state.downTokenId) {
+      return signals;
+    }
+
+    // 情況 1: 開局 / 結束前撤掉報價並清倉
+    const flattenReason = this.flattenReason(state);
+    if (flattenReason) {
+      signals.push(...this.cancelQuotes(state, flattenReason));
+      for (const [tokenId, position] of positions) {
+        if (position.size > 0 && !position.holdToResolution) {
+          signals.push(this.sellSignal(tokenId, position, `開局清倉 (${flattenReason})`, 'force_liquidation'));
+        }
+      }
+      return signals;
+    }
+
+    // 情況 2: 接近清倉時間，只撤報價不再開新倉
+    const timeCheck = riskManager.checkTimeWindow(state.nextMarket ? state.timeToStart : state.timeToEnd);
+    if (!timeCheck.canTrade) {
+      return this.cancelQuotes(state, timeCheck.reason);
+    }
+
+    // 情況 3: 雙邊報價
+    const upBook = orderBooks[state.upTokenId];
+    const downBook = orderBooks[state.downTokenId];
+    const upInventory = positions.get(state.upTokenId)?.size || 0;
+    const downInventory = positions.get(state.downTokenId)?.size || 0;
+
+    let upBid = this.quotePrice(upBook, upInventory - downInventory);
+    let downBid = this.quotePrice(downBook, downInventory - upInventory);
+
+    // 兩邊合計必須低於 100¢ - MM_MIN_EDGE_CENTS，超出部分從庫存較多的一邊先扣
+    if (upBid !== null && downBid !== null) {
+      const excess = upBid + downBid - (100 - config.MM_MIN_EDGE_CENTS);
+      if (excess > 0) {
+        const heavier = Math.ceil(excess / 2);
+        const lighter = excess - heavier;
+        if (upInventory >= downInventory) {
+          upBid -= heavier;
+          downBid -= lighter;
+        } else {
+          upBid -= lighter;
+          downBid -= heavier;
+        }
+      }
+    }
+
+    signals.push(this.quoteSignal(state.upTokenId, 'Up', upBook, upBid, upInventory));
+    signals.push(this.quoteSignal(state.downTokenId, 'Down', downBook, downBid, downInventory));
+
+    log.info(`[做市] Up bid=${upBid ?? '-'}¢ inv=${upInventory} | Down bid=${downBid ?? '-'}¢ inv=${downInventory}`);
+    return signals;
+  }
+
+  /**
+   * 清倉規則：與 premarket-scalp 相同，返回原因或 null
+   */
+  private flattenReason(state: MarketState): string | null {
+    if (state.nextMarket && state.timeToStart <= config.SELL_BEFORE_START_MS) {
+      return `距離開盤 ${Math.round(state.timeToStart / 1000)}s`;
+    }
+    if (state.currentMarket && state.timeToEnd > 0 && state.timeToEnd <= config.SELL_BEFORE_START_MS) {
+      return `當前市場剩餘 ${Math.round(state.timeToEnd / 1000)}s`;
+    }
+    return null;
+  }
+
+  /**
+   * 報價 = 中間價 - 半價差 - 庫存偏移，不穿過最優賣價，取整到 1¢
+   */
+  private quotePrice(book: OrderBook | undefined, netInventory: number): number | null {
+    if (!book || book.bids.length === 0 || book.asks.length === 0) return null;
+
+    const bestBid = book.bids[0].price * 100;
+    const bestAsk = book.asks[0].price * 100;
+    const mid = (bestBid + bestAsk) / 2;
+    const skew = (config.MM_SKEW_CENTS * netInventory) / config.MM_QUOTE_SIZE;
+
+    const bid = Math.min(Math.floor(mid - config.MM_HALF_SPREAD_CENTS - skew), Math.ceil(bestAsk) - 1);
+    return Math.max(1, Math.min(bid, 99));
+  }
+
+  private quoteSignal(
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    book: OrderBook | undefined,
+    price: number | null,
+    inventory: number
+  ): TradeSignal {
+    const size = Math.min(config.MM_QUOTE_SIZE, config.MM_MAX_INVENTORY - inventory);
+    if (price === null || !book) {
+      return this.cancelSignal(tokenId, outcome, '訂單簿為空');
+    }
+    if (size <= 0) {
+      return this.cancelSignal(tokenId, outcome, `庫存已達上限 ${config.MM_MAX_INVENTORY}`);
+    }
+
+    // 買方深度要足以在清倉時賣出報價數量
+    const analysis = riskManager.analyzeOrderBook(book, 'SELL', size, price);
+    if (!analysis.canTrade) {
+      return this.cancelSignal(tokenId, outcome, analysis.reason);
+    }
+
+    return {
+      action: 'QUOTE',
+      tokenId,
+      outcome,
+      price,
+      size,
+      reason: `做市報價 ${outcome} @ ${price}¢`,
+    };
+  }
+
+  private cancelQuotes(state: MarketState, reason: string): TradeSignal[] {
+    return [
+      this.cancelSignal(state.upTokenId, 'Up', reason),
+      this.cancelSignal(state.downTokenId, 'Down', reason),
+    ];
+  }
+
+  private cancelSignal(tokenId: string, outcome: 'Up' | 'Down', reason: string): TradeSignal {
+    return { action: 'CANCEL', tokenId, outcome, price: 0, size: 0, reason: `撤銷報價: ${reason}` };
+  }
+
+  // 只用於強制清倉，跳過下單前風控
+  private sellSignal(tokenId: string, position: Position, reason: string, exitKind?: ExitKind): TradeSignal {
+    return {
+      action: 'SELL',
+      tokenId,
+      outcome: position.outcome,
+      price: position.currentPrice,
+      size: position.size,
+      reason,
+      bypassRiskCheck: true,
+      exitKind,
+    };
+  }
+}
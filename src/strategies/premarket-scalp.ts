@@ -0,0 +1,341 @@
+import { config } from '../config.js';
+import { STOP_EXIT_KINDS, exitLevels } from '../exit-policy.js';
+import { tokenFairValue } from '../fair-value.js';
+import { createLogger } from '../logger.js';
+import { sizePosition, type SizingResult } from '../position-sizing.js';
+import { riskManager } from '../risk-manager.js';
+import { tradingTimeRemaining, type TradingStrategy } from '../strategy.js';
+import type { AccountContext, MarketState, OrderBook, TradeSignal, Position } from '../types.js';
+
+const log = createLogger('strategy');
+
+/**
+ * premarket-scalp: 盤前套利策略 (包含風控)
+ * 
+ * 核心邏輯：
+ * 1. 只在盤前（下一局開始前）買入價格 < 50¢ 的 Up 或 Down
+ *    FAIR_VALUE_ENTRY 時還要求公允價（fair-value 模型）比賣一價高出來回手續費 + ENTRY_MIN_EDGE_CENTS
+ * 2. 當價格上升 >= 2¢ 時立即賣出獲利（買入數量按 POSITION_SIZING 計算，止損 / 獲利目標見 exit-policy）
+ * 3. 開局時必須清倉所有持倉
+ * 4. 分析當前進行中的盤口走勢來預測下一局盤前價格波動
+ * 
+ * 風控：
+ * - 滑點保護: 檢查訂單簿深度
+ * - 手續費計算: 確保淨利潤 > 0
+ * - 時間窗口: 開盤前 60秒強制清倉（holdToResolution 的持倉除外）
+ */
+export class PremarketScalpStrategy implements TradingStrategy {
+  readonly name = 'premarket-scalp';
+  readonly description = '盤前買入低於 MAX_BUY_PRICE 的一側，漲 PROFIT_TARGET 賣出，開局前清倉';
+  private lastPrices: Map<string, number[]> = new Map();
+  private readonly PRICE_HISTORY_LENGTH = 60;
+  private minProfitableMove: number = 0; // 考慮手續費後的最小獲利價格變動
+
+  /**
+   * 分析當前盤口走勢
+   * 返回預測的下一局有利方向
+   */
+  analyzeCurrentMarketTrend(state: MarketState): 'Up' | 'Down' | null {
+    if (!state.currentMarket) return null;
+
+    // 簡單策略：如果當前盤口 Up 價格高，下一局盤前可能 Up 會先漲
+    // 這是基於市場慣性的假設
+    const upPrice = state.upPrice;
+    const downPrice = state.downPrice;
+
+    if (upPrice > 55) return 'Up'; // 當前看漲，盤前可能延續
+    if (downPrice > 55) return 'Down';
+
+    return null; // 無明顯趨勢
+  }
+
+  /**
+   * 計算價格動量
+   */
+  calculateMomentum(tokenId: string, currentPrice: number): number {
+    const history = this.lastPrices.get(tokenId) || [];
+    
+    if (history.length < 5) {
+      this.updatePriceHistory(tokenId, currentPrice);
+      return 0;
+    }
+
+    // 計算短期動量 (最近 5 個價格點)
+    const recentPrices = history.slice(-5);
+    const avgRecent = recentPrices.reduce((a, b) => a + b, 0) / recentPrices.length;
+    const momentum = currentPrice - avgRecent;
+
+    this.updatePriceHistory(tokenId, currentPrice);
+    return momentum;
+  }
+
+  private updatePriceHistory(tokenId: string, price: number): void {
+    const history = this.lastPrices.get(tokenId) || [];
+    history.push(price);
+    if (history.length > this.PRICE_HISTORY_LENGTH) {
+      history.shift();
+    }
+    this.lastPrices.set(tokenId, history);
+  }
+
+  /**
+   * 生成交易信號
+   */
+  generateSignals(
+    state: MarketState,
+    positions: Map<string, Position>,
+    orderBooks: Record<string, OrderBook> = {},
+    account?: AccountContext
+  ): TradeSignal[] {
+    const signals: TradeSignal[] = [];
+    const now = Date.now();
+
+    // 情況 0: 檢測並清倉已結束市場的持倉（orphaned positions）
+    const validTokenIds = new Set([
+      state.upTokenId,
+      state.downTokenId,
+      state.currentUpTokenId,
+      state.currentDownTokenId,
+    ].filter(id => id)); // 過濾空字串
+    
+    // 持有到結算的持倉（完整套利）不參與強制清倉
+    for (const [tokenId, position] of positions) {
+      if (position.size > 0 && !position.holdToResolution && !validTokenIds.has(tokenId)) {
+        log.info(`[策略] 發現已結束市場的持倉: ${position.outcome} ${position.size} 股，強制清倉`);
+        signals.push({
+          action: 'SELL',
+          tokenId,
+          outcome: position.outcome,
+          price: position.currentPrice,
+          size: position.size,
+          reason: `清倉已結束市場持倉`,
+          bypassRiskCheck: true,
+        });
+      }
+    }
+    
+    if (signals.length > 0) {
+      return signals;
+    }
+
+    // 情況 1a: 下一個市場開局前強制清倉
+    if (state.nextMarket && state.timeToStart <= config.SELL_BEFORE_START_MS) {
+      for (const [tokenId, position] of positions) {
+        if (position.size > 0 && !position.holdToResolution) {
+          signals.push({
+            action: 'SELL',
+            tokenId,
+            outcome: position.outcome,
+            price: position.currentPrice,
+            size: position.size,
+            reason: `開局清倉 (距離開盤 ${Math.round(state.timeToStart / 1000)}s)`,
+            bypassRiskCheck: true,
+            exitKind: 'force_liquidation',
+          });
+        }
+      }
+      return signals;
+    }
+
+    // 情況 1b: 當前市場即將結束時強制清倉（防止持倉到結算）
+    if (state.currentMarket && state.timeToEnd > 0 && state.timeToEnd <= config.SELL_BEFORE_START_MS) {
+      for (const [tokenId, position] of positions) {
+        if (position.size > 0 && !position.holdToResolution) {
+          signals.push({
+            action: 'SELL',
+            tokenId,
+            outcome: position.outcome,
+            price: position.currentPrice,
+            size: position.size,
+            reason: `開局清倉 (當前市場剩餘 ${Math.round(state.timeToEnd / 1000)}s)`,
+            bypassRiskCheck: true,
+            exitKind: 'force_liquidation',
+          });
+        }
+      }
+      return signals;
+    }
+
+    // 情況 2a: 止損賣出 - 當價格跌破止損價（固定 / 移動 / 保本）時賣出
+    for (const [tokenId, position] of positions) {
+      if (position.size > 0) {
+        const loss = position.avgBuyPrice - position.currentPrice;
+        const exit = exitLevels(position, tradingTimeRemaining(tokenId, state));
+        if (loss >= exit.stopLossCents) {
+          log.info(`[策略] 觸發${exit.stopRule}: ${position.outcome} loss=${loss.toFixed(2)}¢ >= stopLoss=${exit.stopLossCents.toFixed(2)}¢`);
+          signals.push({
+            action: 'SELL',
+            tokenId,
+            outcome: position.outcome,
+            price: position.currentPrice,
+            size: position.size,
+            reason: exit.stopRule === '止損'
+              ? `止損賣出 @ ${position.currentPrice.toFixed(1)}¢ (loss: -${loss.toFixed(2)}¢)`
+              : `${exit.stopRule}賣出 @ ${position.currentPrice.toFixed(1)}¢ (最高 ${exit.highWaterPrice.toFixed(1)}¢, 止損價 ${exit.stopPrice.toFixed(1)}¢)`,
+            exitKind: STOP_EXIT_KINDS[exit.stopRule],
+          });
+        }
+      }
+    }
+    
+    if (signals.length > 0) {
+      return signals;
+    }
+
+    // 情況 2b: 獲利賣出 - 當價格達到目標（隨剩餘時間下降）時主動賣出
+    for (const [tokenId, position] of positions) {
+      if (position.size > 0) {
+        const profit = position.currentPrice - position.avgBuyPrice;
+        const { takeProfitCents } = exitLevels(position, tradingTimeRemaining(tokenId, state));
+        if (profit >= takeProfitCents) {
+          log.info(`[策略] 達到獲利目標: ${position.outcome} profit=${profit.toFixed(2)}¢ >= target=${takeProfitCents.toFixed(2)}¢`);
+          const decayed = takeProfitCents < config.PROFIT_TARGET ? `, 目標已降至 ${takeProfitCents.toFixed(2)}¢` : '';
+          signals.push({
+            action: 'SELL',
+            tokenId,
+            outcome: position.outcome,
+            price: position.currentPrice,
+            size: position.size,
+            reason: `獲利賣出 @ ${position.currentPrice.toFixed(1)}¢ (profit: ${profit.toFixed(2)}¢${decayed})`,
+          });
+        }
+      }
+    }
+    
+    // 如果有獲利賣出信號，先處理賣出
+    if (signals.length > 0) {
+      return signals;
+    }
+
+    // 情況 3: 盤前買入機會 (檢查時間窗口)
+    const timeCheck = riskManager.checkTimeWindow(state.timeToStart);
+    log.debug(`[策略] 時間檢查: canTrade=${timeCheck.canTrade}, reason=${timeCheck.reason}, timeToStart=${state.timeToStart}ms`);
+    
+    if (!timeCheck.canTrade) {
+      return signals;
+    }
+
+    // 情況 4a: 盤前買入（下一個市場）
+    if (state.nextMarket && state.timeToStart > config.MIN_TIME_TO_TRADE_MS) {
+      const signal = this.tryBuyMarket(state, positions, orderBooks, account, state.upTokenId, state.downTokenId, state.upPrice, state.downPrice, '盤前');
+      if (signal) {
+        signals.push(signal);
+        return signals;
+      }
+    }
+    
+    // 情況 4b: 盤中低吸（當前市場）- 市場進行中且距離結束還有足夠時間
+    if (config.ALLOW_CURRENT_MARKET_TRADING && state.currentMarket && state.timeToEnd > config.SELL_BEFORE_START_MS + 60000) { // 至少比清倉時間多 1 分鐘
+      const signal = this.tryBuyMarket(state, positions, orderBooks, account, state.currentUpTokenId, state.currentDownTokenId, state.currentUpPrice, state.currentDownPrice, '盤中低吸');
+      if (signal) {
+        signals.push(signal);
+        return signals;
+      }
+    }
+
+    return signals;
+  }
+
+  /**
+   * 嘗試在指定市場買入
+   */
+  private tryBuyMarket(
+    state: MarketState,
+    positions: Map<string, Position>,
+    orderBooks: Record<string, OrderBook>,
+    account: AccountContext | undefined,
+    upTokenId: string,
+    downTokenId: string,
+    upPrice: number,
+    downPrice: number,
+    label: string
+  ): TradeSignal | null {
+    if (!upTokenId || !downTokenId) return null;
+    
+    const trend = this.analyzeCurrentMarketTrend(state);
+
+    // 計算考慮手續費後的最小獲利價格變動
+    const minMove = riskManager.calculateMinPriceMove(
+      upPrice,
+      config.PROFIT_TARGET,
+      config.MAX_POSITION_SIZE
+    );
+    this.minProfitableMove = minMove;
+
+    log.debug(`[策略] ${label}買入條件檢查: trend=${trend}, minMove=${minMove.toFixed(2)}¢`);
+    log.debug(`[策略] Up: price=${upPrice.toFixed(1)}¢, hasPosition=${positions.has(upTokenId)}`);
+    log.debug(`[策略] Down: price=${downPrice.toFixed(1)}¢, hasPosition=${positions.has(downTokenId)}`);
+
+    // 檢查是否已有該市場的持倉 - 每個市場只買一次
+    const hasPositionInThisMarket = positions.has(upTokenId) || positions.has(downTokenId);
+    if (hasPositionInThisMarket) {
+      log.info(`[策略] 已有該市場持倉，不再買入`);
+      return null;
+    }
+
+    // 先檢查 Up，Up 價格太高或算出的數量為 0 時檢查 Down
+    const candidates = [
+      { tokenId: upTokenId, outcome: 'Up' as const, price: upPrice },
+      { tokenId: downTokenId, outcome: 'Down' as const, price: downPrice },
+    ];
+    for (const { tokenId, outcome, price } of candidates) {
+      if (price >= config.MAX_BUY_PRICE) continue;
+
+      const edge = this.entryEdge(tokenId, price, orderBooks[tokenId], state);
+      if (edge && !edge.ok) {
+        log.info(`[策略] ${outcome} ${edge.note}`);
+        continue;
+      }
+
+      const sizing = this.positionSize(price, orderBooks[tokenId], account);
+      if (sizing.size < 1) {
+        log.info(`[策略] ${outcome} 買入數量為 0: ${sizing.reason}`);
+        continue;
+      }
+
+      const momentum = this.calculateMomentum(tokenId, price);
+      return {
+        action: 'BUY',
+        tokenId,
+        outcome,
+        price,
+        size: sizing.size,
+        reason: `${label}買入 ${outcome} @ ${price.toFixed(1)}¢ (trend: ${trend || 'none'}, momentum: ${momentum.toFixed(2)}${edge ? `, ${edge.note}` : ''})`,
+        sizeReason: sizing.reason,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * 公允價入場條件：公允價 − 賣一價（沒有訂單簿時用中間價）> 來回 taker 手續費 + ENTRY_MIN_EDGE_CENTS
+   * FAIR_VALUE_ENTRY 關閉時返回 null（只看 MAX_BUY_PRICE）
+   */
+  private entryEdge(
+    tokenId: string,
+    price: number,
+    book: OrderBook | undefined,
+    state: MarketState
+  ): { ok: boolean; note: string } | null {
+    if (!config.FAIR_VALUE_ENTRY) return null;
+
+    const fair = tokenFairValue(tokenId, state);
+    if (fair === null) return { ok: false, note: '無法計算公允價（缺少現貨價格、開盤價或波動率）' };
+
+    const ask = book?.asks.length ? book.asks[0].price * 100 : price;
+    const edge = fair - ask;
+    const required = ((ask + fair) * config.TAKER_FEE_PERCENT) / 100 + config.ENTRY_MIN_EDGE_CENTS;
+    const note = `fair: ${fair.toFixed(1)}¢, ask: ${ask.toFixed(1)}¢, edge: ${edge.toFixed(2)}¢`;
+    return edge > required ? { ok: true, note } : { ok: false, note: `${note} <= ${required.toFixed(2)}¢，不買入` };
+  }
+
+  /**
+   * 買入數量：kelly 的每股盈虧為 PROFIT_TARGET / STOP_LOSS 扣除來回手續費
+   */
+  private positionSize(price: number, book: OrderBook | undefined, account: AccountContext | undefined): SizingResult {
+    const winCents = riskManager.calculateNetProfit(price, price + config.PROFIT_TARGET, 1).netProfit;
+    const lossCents = -riskManager.calculateNetProfit(price, price - config.STOP_LOSS, 1).netProfit;
+    return sizePosition({ price, collateral: account?.collateral ?? null, book, winCents, lossCents });
+  }
+}
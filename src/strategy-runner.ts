@@ -0,0 +1,385 @@
+/**
+ * 策略執行器 - 一個策略配一個 Trader
+ *
+ * 每個系列的每個啟用策略各有一個 runner（獨立持倉、掛單和盈虧）。
+ * 模擬交易時所有策略並排比較；實盤只執行 STRATEGIES 中的第一個策略。
+ * BUY / SELL 信號下單前都經過 RiskManager.assessTradeRisk，被拒絕的寫入風控審計日誌。
+ * 每個 tick 向 RiskManager 上報已實現盈虧、盤口結果和持倉成本；賬戶熔斷時只撤買單並清倉。
+ * 持倉的 Limit Sell 按出場規則的獲利目標（exit-policy）掛單，目標隨剩餘時間下降時重新定價。
+ */
+import { config } from './config.js';
+import { isStopExit, takeProfitTarget } from './exit-policy.js';
+import { createLogger } from './logger.js';
+import { riskManager, type TradeAnalysis } from './risk-manager.js';
+import { createStrategy, tradingTimeRemaining, type TradingStrategy } from './strategies/index.js';
+import { Trader } from './trader.js';
+import type { MarketFetcher } from './market-fetcher.js';
+import type { RiskAudit, RiskAuditEntry } from './risk-audit.js';
+import type { TradeLedger } from './trade-ledger.js';
+import type { MarketState, OrderBook, Position, TradeSignal } from './types.js';
+
+export interface ExecutedSignal {
+  signal: TradeSignal;
+  success: boolean;
+  avgBuyPrice?: number; // 賣出前的持倉成本
+  filledSize?: number; // Trader 記錄的實際成交數量（可能少於 signal.size）
+  avgFillPrice?: number; // 成交均價 (cents)
+  pnl?: number; // 賣出成交按持倉成本計算的盈虧 (cents)
+  rejection?: RiskAuditEntry; // 被下單前風控攔截（success 為 false）
+}
+
+export interface StrategyStats {
+  name: string;
+  series: string;
+  totalPnl: number; // cents
+  totalTrades: number;
+  winRate: number;
+  openPositions: number;
+}
+
+const log = createLogger('runner');
+
+const TRADE_INTERVAL_MS = 500; // 每筆交易之間的間隔 (rate limit)
+
+export class StrategyRunner {
+  // 購買鎖 - 防止同一市場重複購買
+  private buyingInProgress = false;
+  private lastBoughtMarketId: string | null = null;
+
+  // 賬戶級風控上報
+  private reportedPnl = 0; // 已上報給 RiskManager 的累計已實現盈虧
+  private roundMarketId: string | null = null;
+  private roundPnl = 0; // 當前盤口的已實現盈虧
+
+  constructor(
+    readonly strategy: TradingStrategy,
+    readonly trader: Trader,
+    readonly series: string,
+    private readonly fetcher: MarketFetcher,
+    private readonly audit: RiskAudit
+  ) {}
+
+  get name(): string {
+    return this.strategy.name;
+  }
+
+  // 日誌標籤：系列/策略
+  get label(): string {
+    return `${this.series}/${this.name}`;
+  }
+
+  resetLocks(): void {
+    this.buyingInProgress = false;
+    this.lastBoughtMarketId = null;
+  }
+
+  /**
+   * 生成並執行本 tick 的交易信號
+   */
+  async execute(state: MarketState, orderBooks: Record<string, OrderBook>): Promise<ExecutedSignal[]> {
+    const positions = this.trader.getPositions();
+    const marketId = state.nextMarket?.conditionId || state.currentMarket?.conditionId || '';
+
+    // 如果市場改變了，重置購買鎖
+    if (this.lastBoughtMarketId && this.lastBoughtMarketId !== marketId) {
+      log.info(`[${this.label}] 市場已改變，允許新購買`);
+      this.lastBoughtMarketId = null;
+    }
+
+    this.reportToRiskManager(marketId);
+    if (!riskManager.isHalted()) await this.repriceLimitSells(state);
+
+    // 賬戶熔斷：不再執行策略，只撤買單並清倉
+    const signals = riskManager.isHalted()
+      ? this.haltSignals()
+      : this.strategy.generateSignals(state, positions, orderBooks, { collateral: await this.trader.getCollateralBalance() });
+    const executed: ExecutedSignal[] = [];
+
+    for (const signal of signals) {
+      if (signal.action !== 'QUOTE' && signal.action !== 'CANCEL') {
+        log.info(`📍 [${this.label}] Signal: ${signal.action} ${signal.outcome} - ${signal.reason}`);
+        if (signal.sizeReason) {
+          log.info(`   └─ 數量 ${signal.size}: ${signal.sizeReason}`);
+        }
+      }
+
+      let success = false;
+      const avgBuyPrice = positions.get(signal.tokenId)?.avgBuyPrice;
+      const tradeCount = this.trader.getTradeHistory().length;
+
+      // 下單前風控（做市報價只受賬戶級限制）
+      if (signal.action === 'BUY' || signal.action === 'SELL' || signal.action === 'QUOTE') {
+        const rejection = await this.checkRisk(signal, state, orderBooks);
+        if (rejection) {
+          // 報價被攔截時撤掉現有報價，冷卻 / 超限期間不留買單
+          if (signal.action === 'QUOTE' && this.trader.getOrderManager().getActiveOrders(signal.tokenId, 'BUY').length > 0) {
+            await this.trader.cancelOrders(signal.tokenId, 'BUY', '報價被風控攔截');
+          }
+          executed.push({ signal, success: false, avgBuyPrice, rejection });
+          continue;
+        }
+      }
+
+      if (signal.action === 'BUY' && signal.pairedLeg) {
+        // 完整套利：兩腿一起下單，不受單市場購買鎖限制（每盤口上限由策略控制）
+        const market = state.allMarkets.find((m) => m.tokens.some((t) => t.tokenId === signal.tokenId));
+        if (!market) continue;
+        success = await this.trader.buyCompleteSet(market, signal.price, signal.pairedLeg.price, signal.size);
+      } else if (signal.action === 'BUY') {
+        // 防止重複購買: 檢查鎖和市場 ID
+        if (this.buyingInProgress) {
+          log.info(`[跳過] 購買中，等待上一筆完成`);
+          continue;
+        }
+        if (this.lastBoughtMarketId === marketId) {
+          log.info(`[跳過] 已在此市場購買過`);
+          continue;
+        }
+
+        this.buyingInProgress = true;
+        try {
+          const targetSellPrice = signal.price + takeProfitTarget(tradingTimeRemaining(signal.tokenId, state));
+          success = await this.trader.buy(signal.tokenId, signal.outcome, signal.price, signal.size, targetSellPrice);
+          if (success) {
+            this.lastBoughtMarketId = marketId;
+            log.info(`[鎖定] 已記錄市場: ${marketId.slice(0, 20)}...`);
+          }
+        } finally {
+          this.buyingInProgress = false;
+        }
+      } else if (signal.action === 'QUOTE') {
+        // 現有報價與目標價差距不大時保留，避免失去排隊位置
+        const quotes = this.trader.getOrderManager().getActiveOrders(signal.tokenId, 'BUY');
+        if (quotes.length === 1 && Math.abs(quotes[0].price - signal.price) < config.MM_REQUOTE_CENTS) {
+          continue;
+        }
+        success = await this.trader.requote(signal.tokenId, signal.outcome, signal.price, signal.size, signal.reason);
+      } else if (signal.action === 'CANCEL') {
+        if (this.trader.getOrderManager().getActiveOrders(signal.tokenId, 'BUY').length === 0) {
+          continue;
+        }
+        success = await this.trader.cancelOrders(signal.tokenId, 'BUY', signal.reason);
+      } else if (signal.action === 'SELL') {
+        // 強制清倉（開局前 / 風控熔斷）
+        if (signal.exitKind === 'force_liquidation') {
+          success = await this.trader.forceLiquidate(signal.tokenId, signal.outcome, signal.price);
+        } else {
+          success = await this.trader.sell(signal.tokenId, signal.outcome, signal.price, signal.size);
+        }
+        // 賣出後重置市場鎖，允許下一次購買；虧損的止損才開始冷卻（移動止損可能是鎖定利潤）
+        if (success) {
+          this.lastBoughtMarketId = null;
+          if (isStopExit(signal.exitKind) && avgBuyPrice !== undefined && signal.price < avgBuyPrice) {
+            riskManager.recordStopLoss();
+          }
+        }
+      } else {
+        continue;
+      }
+
+      executed.push({ signal, success, avgBuyPrice, ...this.fillsSince(tradeCount, signal) });
+      await this.sleep(TRADE_INTERVAL_MS);
+    }
+
+    return executed;
+  }
+
+  /**
+   * 下單前風控：按訂單簿檢查滑點和深度，按信號所屬盤口檢查時間窗口
+   * 完整套利兩腿都要通過；做市報價只檢查賬戶級限制；bypassRiskCheck 的強制清倉直接放行，只記錄到審計日誌
+   * 返回拒絕記錄，通過時返回 null
+   */
+  private async checkRisk(
+    signal: TradeSignal,
+    state: MarketState,
+    orderBooks: Record<string, OrderBook>
+  ): Promise<RiskAuditEntry | null> {
+    const side = signal.action === 'SELL' ? 'SELL' : 'BUY';
+    const entry = (type: RiskAuditEntry['type'], reasons: string[], analysis?: TradeAnalysis | null): RiskAuditEntry => ({
+      type,
+      timestamp: Date.now(),
+      series: this.series,
+      strategy: this.name,
+      action: side,
+      tokenId: signal.tokenId,
+      outcome: signal.outcome,
+      price: signal.price,
+      size: signal.size,
+      signalReason: signal.reason,
+      reasons,
+      analysis,
+      paper: config.PAPER_TRADING || undefined,
+    });
+
+    if (signal.bypassRiskCheck) {
+      log.info(`[風控] ${this.label} 強制清倉，跳過風控: ${signal.reason}`);
+      this.audit.record(entry('BYPASSED', []));
+      return null;
+    }
+
+    const legs = [{ tokenId: signal.tokenId, outcome: signal.outcome, price: signal.price }];
+    if (signal.pairedLeg) legs.push(signal.pairedLeg);
+
+    const reasons: string[] = [];
+    let analysis: TradeAnalysis | null = null;
+
+    // 賬戶級限制只約束買入（賣出只會降低風險）；重新報價會撤掉該 token 的舊報價，不重複計入
+    if (side === 'BUY') {
+      this.updateExposure(signal.action === 'QUOTE' ? signal.tokenId : undefined);
+      const orderNotional = legs.reduce((sum, leg) => sum + leg.price * signal.size, 0);
+      reasons.push(...riskManager.checkAccountLimits(orderNotional).reasons);
+    }
+    // 報價是掛單，不吃訂單簿，不檢查滑點和深度
+    for (const leg of signal.action === 'QUOTE' ? [] : legs) {
+      const book = orderBooks[leg.tokenId] || (await this.fetcher.getOrderBook(leg.tokenId));
+      const result = await riskManager.assessTradeRisk(book, side, signal.size, leg.price, tradingTimeRemaining(leg.tokenId, state));
+      if (!result.approved) {
+        reasons.push(...result.reasons.map((r) => (legs.length > 1 ? `${leg.outcome}: ${r}` : r)));
+        analysis = analysis || result.analysis;
+      }
+    }
+    if (reasons.length === 0) return null;
+
+    log.info(`🛡️ [${this.label}] 風控攔截 ${side} ${signal.outcome}: ${reasons.join('; ')}`);
+    const rejection = entry('REJECTED', reasons, analysis);
+    this.audit.record(rejection);
+    return rejection;
+  }
+
+  /**
+   * 上報本 tick 新增的已實現盈虧和持倉成本；盤口切換時上報上一個盤口的盈虧
+   * 清倉發生在盤口切換之前，所以先累計盈虧再判斷切換
+   */
+  private reportToRiskManager(marketId: string): void {
+    const totalPnl = this.trader.getTotalPnL();
+    const delta = totalPnl - this.reportedPnl;
+    this.reportedPnl = totalPnl;
+    this.roundPnl += delta;
+    riskManager.recordRealizedPnl(delta);
+
+    if (this.roundMarketId !== marketId) {
+      if (this.roundMarketId) riskManager.recordRound(this.label, this.roundPnl);
+      this.roundMarketId = marketId;
+      this.roundPnl = 0;
+    }
+
+    this.updateExposure();
+  }
+
+  /**
+   * 持倉成本加上未成交買單（做市報價）的名義金額；excludeTokenId 的買單不計入
+   */
+  private updateExposure(excludeTokenId?: string): void {
+    let notional = 0;
+    for (const pos of this.trader.getPositions().values()) {
+      notional += pos.size * pos.avgBuyPrice;
+    }
+    for (const order of this.trader.getOrderManager().getActiveOrders(undefined, 'BUY')) {
+      if (order.tokenId === excludeTokenId) continue;
+      notional += order.price * (order.size - order.filledSize);
+    }
+    riskManager.updateExposure(this.label, notional);
+  }
+
+  /**
+   * 熔斷時的信號：撤掉所有買單，清倉（持有到結算的完整套利已對沖，保留）
+   */
+  private haltSignals(): TradeSignal[] {
+    const signals: TradeSignal[] = [];
+    const quotes = new Map<string, 'Up' | 'Down'>();
+    for (const order of this.trader.getOrderManager().getActiveOrders(undefined, 'BUY')) {
+      quotes.set(order.tokenId, order.outcome);
+    }
+    for (const [tokenId, outcome] of quotes) {
+      signals.push({ action: 'CANCEL', tokenId, outcome, price: 0, size: 0, reason: '風控熔斷' });
+    }
+    for (const [tokenId, position] of this.trader.getPositions()) {
+      if (position.size > 0 && !position.holdToResolution) {
+        signals.push({
+          action: 'SELL',
+          tokenId,
+          outcome: position.outcome,
+          price: position.currentPrice,
+          size: position.size,
+          reason: '風控熔斷清倉',
+          bypassRiskCheck: true,
+          exitKind: 'force_liquidation',
+        });
+      }
+    }
+    return signals;
+  }
+
+  /**
+   * 持倉 Limit Sell 的目標價：成本 + 出場規則當前的獲利目標
+   */
+  limitSellPrice(tokenId: string, position: Position, state: MarketState): number {
+    return position.avgBuyPrice + takeProfitTarget(tradingTimeRemaining(tokenId, state));
+  }
+
+  /**
+   * 執行信號期間 Trader 記錄的同方向成交（完整套利只算信號那一腿，不含平掉的多餘部分）
+   */
+  private fillsSince(tradeCount: number, signal: TradeSignal): Pick<ExecutedSignal, 'filledSize' | 'avgFillPrice' | 'pnl'> {
+    const fills = this.trader
+      .getTradeHistory()
+      .slice(tradeCount)
+      .filter((t) => t.market === signal.tokenId && t.side === signal.action);
+    const filledSize = fills.reduce((sum, t) => sum + t.size, 0);
+    if (filledSize <= 0) return { filledSize: 0 };
+
+    return {
+      filledSize,
+      avgFillPrice: fills.reduce((sum, t) => sum + t.price * t.size, 0) / filledSize,
+      pnl: signal.action === 'SELL' ? fills.reduce((sum, t) => sum + (t.pnl || 0), 0) : undefined,
+    };
+  }
+
+  /**
+   * 獲利目標隨剩餘時間變化時，把持倉的 Limit Sell 改到新目標價
+   */
+  private async repriceLimitSells(state: MarketState): Promise<void> {
+    if (this.strategy.autoLimitSell === false) return;
+    for (const [tokenId, position] of this.trader.getPositions()) {
+      if (position.size <= 0 || position.holdToResolution) continue;
+      await this.trader.repriceLimitSell(tokenId, position.outcome, this.limitSellPrice(tokenId, position, state));
+    }
+  }
+
+  getStats(): StrategyStats {
+    const history = this.trader.getTradeHistory();
+    const wins = history.filter((t) => (t.pnl || 0) > 0).length;
+    const totalTrades = history.filter((t) => t.side === 'SELL').length;
+
+    return {
+      name: this.name,
+      series: this.series,
+      totalPnl: this.trader.getTotalPnL(),
+      totalTrades,
+      winRate: totalTrades > 0 ? (wins / totalTrades) * 100 : 0,
+      openPositions: Array.from(this.trader.getPositions().values()).filter((p) => p.size > 0).length,
+    };
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * 本次要執行的策略名稱：模擬交易全部並排執行，實盤只取第一個
+ */
+export function activeStrategyNames(): string[] {
+  if (config.PAPER_TRADING) return config.STRATEGIES;
+  if (config.STRATEGIES.length > 1) {
+    log.warn(`⚠️ 實盤只執行第一個策略 ${config.STRATEGIES[0]}，其餘策略僅在模擬交易中並排執行`);
+  }
+  return config.STRATEGIES.slice(0, 1);
+}
+
+/**
+ * 建立策略和它專屬的 Trader（共用該系列的行情、全局賬本和風控審計日誌）
+ */
+export function createRunner(name: string, fetcher: MarketFetcher, ledger: TradeLedger, audit: RiskAudit): StrategyRunner {
+  return new StrategyRunner(createStrategy(name), new Trader(fetcher, ledger), fetcher.getSeries().id, fetcher, audit);
+}
@@ -0,0 +1,171 @@
+/**
+ * Web 控制面板認證測試（離線）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import type { IncomingMessage } from 'http';
+import { after, before, describe, it, mock } from 'node:test';
+import { AuthManager, SESSION_COOKIE, hasRole, hashPassword, parseCookies, parseUsers, verifyPassword } from './backend/auth.js';
+
+const request = (headers: Record<string, string>, method = 'GET') => ({ headers, method }) as unknown as IncomingMessage;
+
+// 最小的 express Response 替身，記錄狀態碼和回應
+function response() {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    locals: {} as Record<string, unknown>,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+}
+
+describe('AuthManager', () => {
+  const hashed = hashPassword('viewer-pass');
+  const auth = new AuthManager({
+    adminToken: 'admin-token',
+    metricsToken: 'metrics-token',
+    users: `alice:alice-pass:operator, bob:${hashed}:viewer`,
+    sessionTtlMs: 60000,
+    corsOrigins: ['https://panel.example.com'],
+  });
+
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it('AUTH_USERS：角色省略時為 viewer，密碼可以包含冒號', () => {
+    assert.deepStrictEqual(parseUsers('a:p1:operator,b:p:2,c:secret'), [
+      { username: 'a', password: 'p1', role: 'operator' },
+      { username: 'b', password: 'p:2', role: 'viewer' },
+      { username: 'c', password: 'secret', role: 'viewer' },
+    ]);
+    assert.throws(() => parseUsers('nopassword'), /AUTH_USERS/);
+  });
+
+  it('scrypt 雜湊和明文密碼', () => {
+    assert.ok(verifyPassword('viewer-pass', hashed));
+    assert.ok(!verifyPassword('wrong', hashed));
+    assert.ok(verifyPassword('plain', 'plain'));
+    assert.ok(!verifyPassword('plain', 'plainer'));
+  });
+
+  it('用戶名 / 密碼和 admin token 登入，錯誤憑證失敗', () => {
+    assert.deepStrictEqual(
+      [auth.login({ username: 'alice', password: 'alice-pass' })?.role, auth.login({ username: 'bob', password: 'viewer-pass' })?.role],
+      ['operator', 'viewer']
+    );
+    assert.strictEqual(auth.login({ token: 'admin-token' })?.username, 'admin');
+    assert.strictEqual(auth.login({ username: 'alice', password: 'bad' }), null);
+    assert.strictEqual(auth.login({ token: 'bad' }), null);
+    assert.strictEqual(auth.login({}), null);
+  });
+
+  it('從 session cookie 或 Bearer token 認證，登出後失效', () => {
+    const session = auth.login({ username: 'bob', password: 'viewer-pass' })!;
+    const cookie = `theme=dark; ${SESSION_COOKIE}=${session.id}`;
+    assert.strictEqual(auth.authenticate(request({ cookie }))?.username, 'bob');
+    assert.strictEqual(auth.authenticate(request({ authorization: 'Bearer admin-token' }))?.role, 'operator');
+    assert.strictEqual(auth.authenticate(request({ authorization: 'Bearer nope', cookie })), null, '錯誤的 Bearer 不回退到 cookie');
+    assert.strictEqual(auth.authenticate(request({})), null);
+
+    auth.logout(session.id);
+    assert.strictEqual(auth.authenticate(request({ cookie })), null);
+  });
+
+  it('session 過期後失效', () => {
+    const shortLived = new AuthManager({ adminToken: 't', users: '', sessionTtlMs: 1000 });
+    const session = shortLived.login({ token: 't' })!;
+    const now = mock.method(Date, 'now', () => session.expiresAt);
+    try {
+      assert.strictEqual(shortLived.getSession(session.id), null);
+    } finally {
+      now.mock.restore();
+    }
+  });
+
+  it('同一 IP 連續失敗 10 次後鎖定，其他 IP 不受影響', () => {
+    const limited = new AuthManager({ adminToken: 't', users: '' });
+    for (let i = 0; i < 9; i++) limited.login({ token: 'bad' }, '10.0.0.1');
+    assert.ok(!limited.isLockedOut('10.0.0.1'));
+    limited.login({ token: 'bad' }, '10.0.0.1');
+    assert.ok(limited.isLockedOut('10.0.0.1'));
+    assert.ok(!limited.isLockedOut('10.0.0.2'));
+  });
+
+  it('沒有設定任何憑證時生成 admin token', () => {
+    const generated = new AuthManager({ adminToken: '', users: '' });
+    assert.ok(generated.generatedToken);
+    assert.strictEqual(generated.adminToken.length, 48);
+    assert.ok(generated.login({ token: generated.adminToken }));
+    assert.ok(!new AuthManager({ adminToken: '', users: 'a:b' }).generatedToken);
+  });
+
+  it('Origin：同源、CORS_ORIGINS 和非瀏覽器客戶端允許', () => {
+    assert.ok(auth.isOriginAllowed(undefined, 'localhost:3002'));
+    assert.ok(auth.isOriginAllowed('http://localhost:3002', 'localhost:3002'));
+    assert.ok(auth.isOriginAllowed('https://panel.example.com', 'localhost:3002'));
+    assert.ok(!auth.isOriginAllowed('https://evil.example.com', 'localhost:3002'));
+    assert.ok(!auth.isOriginAllowed('null', 'localhost:3002'));
+  });
+
+  it('require 中間件：未登入 401，角色不足 403，跨站請求 403', () => {
+    const viewer = auth.login({ username: 'bob', password: 'viewer-pass' })!;
+    const cookie = `${SESSION_COOKIE}=${viewer.id}`;
+    const run = (role: 'viewer' | 'operator', req: IncomingMessage) => {
+      const res = response();
+      let called = false;
+      auth.require(role)(req as any, res as any, () => {
+        called = true;
+      });
+      return { status: called ? 'next' : res.statusCode, session: res.locals.session };
+    };
+
+    assert.strictEqual(run('viewer', request({})).status, 401);
+    assert.strictEqual(run('viewer', request({ cookie })).status, 'next');
+    assert.strictEqual(run('viewer', request({ cookie })).session, viewer);
+    assert.strictEqual(run('operator', request({ cookie }, 'POST')).status, 403);
+    assert.strictEqual(run('operator', request({ authorization: 'Bearer admin-token' }, 'POST')).status, 'next');
+    assert.strictEqual(
+      run('operator', request({ authorization: 'Bearer admin-token', origin: 'https://evil.example.com', host: 'localhost:3002' }, 'POST')).status,
+      403
+    );
+  });
+
+  it('metrics 中間件：接受 METRICS_TOKEN 和已登入的 viewer，METRICS_TOKEN 不能訪問其他 API', () => {
+    const viewer = auth.login({ username: 'bob', password: 'viewer-pass' })!;
+    const run = (middleware: ReturnType<typeof auth.requireMetrics>, req: IncomingMessage) => {
+      const res = response();
+      let called = false;
+      middleware(req as any, res as any, () => {
+        called = true;
+      });
+      return called ? 'next' : res.statusCode;
+    };
+
+    assert.strictEqual(run(auth.requireMetrics(), request({ authorization: 'Bearer metrics-token' })), 'next');
+    assert.strictEqual(run(auth.requireMetrics(), request({ cookie: `${SESSION_COOKIE}=${viewer.id}` })), 'next');
+    assert.strictEqual(run(auth.requireMetrics(), request({ authorization: 'Bearer wrong' })), 401);
+    assert.strictEqual(run(auth.requireMetrics(), request({})), 401);
+    assert.strictEqual(run(auth.require('viewer'), request({ authorization: 'Bearer metrics-token' })), 401);
+  });
+
+  it('hasRole 和 cookie 解析', () => {
+    const session = { id: 'x', username: 'u', role: 'operator' as const, expiresAt: Infinity };
+    assert.ok(hasRole(session, 'viewer'));
+    assert.ok(!hasRole({ ...session, role: 'viewer' }, 'operator'));
+    assert.deepStrictEqual(parseCookies('a=1; b=%E4%B8%AD; bad; =x'), { a: '1', b: '中' });
+  });
+});
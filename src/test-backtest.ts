@@ -0,0 +1,202 @@
+/**
+ * 回測引擎和 SimulatedTrader 測試（離線，使用構造的錄製 tick）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it, mock } from 'node:test';
+import { BacktestEngine, loadRecordedTicks } from './backtest.js';
+import { config } from './config.js';
+import { logManager, type LogEntry } from './logger.js';
+import { SimulatedTrader } from './simulated-trader.js';
+import { TEST_CONFIG, market, orderBook } from './test-fixtures.js';
+import type { Market, MarketState, OrderBook, RecordedTick } from './types.js';
+
+Object.assign(config, TEST_CONFIG);
+
+const T0 = Date.UTC(2026, 0, 1, 12, 0, 0);
+const MINUTE = 60 * 1000;
+
+// 兩個連續的盤口：r1 在 T0 + 5 分鐘開盤，r2 在 r1 結束（T0 + 20 分鐘）時開盤
+const R1 = market('r1', T0 + 5 * MINUTE, 'r1-up', 'r1-down');
+const R2 = market('r2', T0 + 20 * MINUTE, 'r2-up', 'r2-down');
+
+/**
+ * 盤前的 tick：nextMarket 為 next，沒有進行中的盤口
+ */
+function tick(timestamp: number, next: Market | null, prices: Partial<MarketState>, orderBooks: Record<string, OrderBook>, allMarkets = [R1, R2]): RecordedTick {
+  const startTime = next ? new Date(next.startDate).getTime() : 0;
+  return {
+    timestamp,
+    serverTimeOffset: 0,
+    state: {
+      currentMarket: null,
+      nextMarket: next,
+      allMarkets,
+      upPrice: 50,
+      downPrice: 50,
+      upTokenId: next?.tokens[0].tokenId || '',
+      downTokenId: next?.tokens[1].tokenId || '',
+      currentUpTokenId: '',
+      currentDownTokenId: '',
+      currentUpPrice: 0,
+      currentDownPrice: 0,
+      timeToStart: next ? startTime - timestamp : 0,
+      timeToEnd: 0,
+      ...prices,
+    },
+    orderBooks,
+  };
+}
+
+// 結算後的盤口：token 價格為結果（Up 1 / Down 0）
+function resolved(m: Market, upWins: boolean): Market {
+  return { ...m, closed: true, tokens: [{ ...m.tokens[0], price: upWins ? 1 : 0 }, { ...m.tokens[1], price: upWins ? 0 : 1 }] };
+}
+
+describe('BacktestEngine', () => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'backtest-'));
+
+  // premarket-scalp：r1 的 Limit Sell 在下一個 tick 成交；r2 買入後買盤掉到 38¢，開局清倉以 -10¢ 限價賣出
+  const scalpTicks = [
+    tick(T0, R1, { upPrice: 45, downPrice: 56 }, { 'r1-up': orderBook([[0.44, 200]], [[0.45, 200]]) }),
+    tick(T0 + 10000, R1, { upPrice: 47, downPrice: 54 }, { 'r1-up': orderBook([[0.47, 300]], [[0.48, 300]]) }),
+    tick(T0 + 15 * MINUTE, R2, { upPrice: 60, downPrice: 40 }, { 'r2-down': orderBook([[0.39, 200]], [[0.4, 200]]) }),
+    tick(T0 + 20 * MINUTE - 4000, R2, { upPrice: 60, downPrice: 40 }, { 'r2-down': orderBook([[0.38, 500]], [[0.41, 100]]) }),
+  ];
+
+  before(() => {
+    // 錄製文件的行順序不必按時間，loadRecordedTicks 會排序
+    const lines = [scalpTicks[2], scalpTicks[0], scalpTicks[3], scalpTicks[1]].map((t) => JSON.stringify(t));
+    fs.writeFileSync(path.join(tmpDir, 'btc-15m.jsonl'), lines.join('\n') + '\n');
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('按盤口統計成交、手續費和盈虧：Limit Sell 獲利和開局清倉', async () => {
+    const ticks = loadRecordedTicks(tmpDir);
+    assert.deepStrictEqual(ticks.map((t) => t.timestamp), scalpTicks.map((t) => t.timestamp));
+
+    const report = await new BacktestEngine({ strategy: 'premarket-scalp', quiet: true }).run(ticks);
+
+    // r1: 100 @ 45（taker 1% = 45¢）→ Limit Sell 100 @ 47（maker 0）
+    // r2: 100 @ 40（40¢）→ 開局清倉限價 30¢，吃到買一 38¢（38¢）；普通賣出的 40¢ 限價不會成交
+    assert.deepStrictEqual(
+      report.rounds.map((r) => [r.slug, r.buys, r.sells, r.volume, r.fees, r.grossPnl, r.netPnl, r.heldToSettlement]),
+      [
+        ['r1', 1, 1, 200, 45, 200, 155, false],
+        ['r2', 1, 1, 200, 78, -200, -278, false],
+      ]
+    );
+    assert.deepStrictEqual(
+      [report.ticks, report.startTime, report.endTime, report.totalNetPnl, report.winningRounds, report.losingRounds],
+      [4, T0, T0 + 20 * MINUTE - 4000, -123, 1, 1]
+    );
+  });
+
+  it('持有到市場結束的完整套利按結果結算；參數覆蓋和靜音只作用於本次回測', async () => {
+    const maxSize = config.ARB_MAX_SIZE;
+    const entries: LogEntry[] = [];
+    const listener = (entry: LogEntry) => entries.push(entry);
+    logManager.on('entry', listener);
+
+    const ticks = [
+      tick(T0, R1, {}, { 'r1-up': orderBook([[0.44, 100]], [[0.45, 100]]), 'r1-down': orderBook([[0.49, 100]], [[0.5, 100]]) }, [R1]),
+      tick(T0 + 20 * MINUTE + 1000, null, {}, {}, [resolved(R1, true)]),
+    ];
+    const report = await new BacktestEngine({
+      strategy: 'complete-set-arb',
+      overrides: { ARB_MAX_SIZE: 50, ARB_MIN_PROFIT_CENTS: 0.5 },
+      quiet: true,
+    })
+      .run(ticks)
+      .finally(() => logManager.off('entry', listener));
+
+    // 50 組 Up 45 + Down 50（手續費 22.5 + 25），Up 勝出：Up 按 100¢、Down 按 0¢ 結算
+    const [round] = report.rounds;
+    assert.deepStrictEqual(
+      [round.slug, round.buys, round.sells, round.fees, round.grossPnl, round.netPnl, round.heldToSettlement],
+      ['r1', 2, 2, 47.5, 250, 202.5, true]
+    );
+    assert.deepStrictEqual(
+      report.fills.filter((f) => f.settlement).map((f) => [f.outcome, f.price, f.size, f.pnl]),
+      [
+        ['Up', 100, 50, 2750],
+        ['Down', 0, 50, -2500],
+      ]
+    );
+    assert.strictEqual(config.ARB_MAX_SIZE, maxSize, '不修改全局 config');
+    assert.deepStrictEqual(entries, [], 'quiet 時不輸出任何級別的日誌');
+  });
+});
+
+describe('SimulatedTrader', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it('買入逐檔吃單，Limit Sell 在買盤觸及目標價的 tick 成交', async () => {
+    const trader = new SimulatedTrader();
+    trader.onTick(tick(T0, R1, {}, { 'r1-up': orderBook([[0.44, 100]], [[0.45, 60], [0.46, 100]]) }));
+
+    // 限價 46¢（+1¢）：60 @ 45 + 40 @ 46
+    assert.strictEqual(await trader.buy('r1-up', 'Up', 45, 100, 48), true);
+    const [buy] = trader.getFills();
+    assert.deepStrictEqual([buy.side, buy.size, buy.price], ['BUY', 100, 45.4]);
+    assert.deepStrictEqual(trader.getOpenOrders('r1-up', 'SELL').map((o) => [o.price, o.size]), [[48, 100]]);
+
+    trader.onTick(tick(T0 + 1000, R1, {}, { 'r1-up': orderBook([[0.47, 500]], [[0.48, 500]]) }));
+    assert.strictEqual(trader.getFills().length, 1, '買一 47¢ 未觸及 48¢');
+
+    trader.onTick(tick(T0 + 2000, R1, {}, { 'r1-up': orderBook([[0.48, 500]], [[0.49, 500]]) }));
+    const sell = trader.getFills()[1];
+    assert.deepStrictEqual([sell.side, sell.size, sell.price, sell.fee], ['SELL', 100, 48, 0]);
+    assert.ok(Math.abs(sell.pnl! - 260) < 1e-9);
+    assert.strictEqual(trader.getPositions().size, 0);
+  });
+
+  it('完整套利第二腿成交不足時以 -10¢ 賣出多出的第一腿，其餘持有到結算', async () => {
+    const trader = new SimulatedTrader();
+    trader.onTick(
+      tick(T0, R1, {}, { 'r1-up': orderBook([[0.44, 100]], [[0.45, 100]]), 'r1-down': orderBook([[0.49, 100]], [[0.5, 30]]) }, [R1])
+    );
+
+    assert.strictEqual(await trader.buyCompleteSet(R1, 45, 50, 50), true);
+    assert.deepStrictEqual(
+      trader.getFills().map((f) => [f.outcome, f.side, f.size, f.price]),
+      [
+        ['Up', 'BUY', 50, 45],
+        ['Down', 'BUY', 30, 50],
+        ['Up', 'SELL', 20, 44],
+      ]
+    );
+    assert.deepStrictEqual(
+      Array.from(trader.getPositions().values()).map((p) => [p.outcome, p.size, p.holdToResolution]),
+      [
+        ['Up', 30, true],
+        ['Down', 30, true],
+      ]
+    );
+
+    // 結束前不結算，結束後按結果結算
+    trader.onTick(tick(T0 + 20 * MINUTE - 1000, null, {}, {}, [R1]));
+    assert.strictEqual(trader.getPositions().size, 2);
+    trader.onTick(tick(T0 + 20 * MINUTE, null, {}, {}, [resolved(R1, false)]));
+    assert.deepStrictEqual(
+      trader.getFills().filter((f) => f.settlement).map((f) => [f.outcome, f.price, f.pnl]),
+      [
+        ['Up', 0, -1350],
+        ['Down', 100, 1500],
+      ]
+    );
+    assert.strictEqual(trader.getPositions().size, 0);
+  });
+});
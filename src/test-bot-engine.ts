@@ -0,0 +1,146 @@
+/**
+ * BotEngine 測試（對接本地模擬服務器，不需要網絡）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it, mock } from 'node:test';
+import { config } from './config.js';
+import { BotEngine, type MarketEvent, type TickEvent } from './bot-engine.js';
+import { logManager } from './logger.js';
+import { MockPolymarket } from './mock-polymarket.js';
+import { TEST_CONFIG } from './test-fixtures.js';
+
+Object.assign(config, TEST_CONFIG);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function nextEvent<T>(engine: BotEngine, event: 'market' | 'tick', timeoutMs = 5000): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`等待超時: ${event}`)), timeoutMs);
+    engine.once(event, (payload: T) => {
+      clearTimeout(timer);
+      resolve(payload);
+    });
+  });
+}
+
+describe('BotEngine', () => {
+  const mockServer = new MockPolymarket({ series: ['btc-15m'] });
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bot-engine-'));
+
+  before(async () => {
+    mock.method(console, 'log', () => {});
+    const port = await mockServer.start(0);
+    Object.assign(config, {
+      CLOB_HOST: `http://127.0.0.1:${port}`,
+      GAMMA_HOST: `http://127.0.0.1:${port}`,
+      PAPER_TRADING: true,
+      MARKET_FEED_ENABLED: false,
+      SPOT_FEED: 'off',
+      RECORD_MARKET_DATA: false,
+      RECORD_DIR: path.join(tmpDir, 'recordings'),
+      LEDGER_FILE: path.join(tmpDir, 'ledger.jsonl'),
+      RISK_AUDIT_FILE: path.join(tmpDir, 'risk-audit.jsonl'),
+      SERIES: ['btc-15m'],
+      STRATEGIES: ['premarket-scalp'],
+      POLL_INTERVAL_MS: 60000,
+      LOG_LEVEL: 'debug',
+    });
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    await mockServer.stop();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('啟動後立即 tick：推送市場狀態，所有 runner 執行完後發出 tick', async () => {
+    const engine = new BotEngine();
+    const statuses: boolean[] = [];
+    engine.on('status', (running) => statuses.push(running));
+    const market = nextEvent<MarketEvent>(engine, 'market');
+    const tick = nextEvent<TickEvent>(engine, 'tick');
+
+    await engine.start();
+    try {
+      const { series, state } = await market;
+      assert.strictEqual(series.id, 'btc-15m');
+      assert.ok(state?.nextMarket, '找到下一盤口');
+
+      const { loop } = await tick;
+      assert.deepStrictEqual(loop.runners.map((r) => r.label), ['btc-15m/premarket-scalp']);
+      assert.deepStrictEqual(engine.getRunners(), loop.runners);
+
+      // tick 內的日誌帶上 tickId 和下一盤口的 slug
+      const strategyLogs = logManager.getRecent().filter((e) => e.component === 'strategy' && e.tickId === 'btc-15m-1');
+      assert.ok(strategyLogs.length > 0, '策略日誌帶 tickId');
+      assert.ok(strategyLogs.every((e) => e.series === 'btc-15m' && e.slug === state?.nextMarket?.slug));
+    } finally {
+      engine.close();
+    }
+    assert.deepStrictEqual(statuses, [true, false]);
+  });
+
+  it('停止後不再 tick，再次啟動沿用同一個 runner', async () => {
+    const engine = new BotEngine();
+    let ticks = 0;
+    engine.on('tick', () => ticks++);
+
+    await engine.start();
+    const runner = engine.getRunners()[0];
+    await nextEvent(engine, 'tick');
+    engine.stop();
+    assert.strictEqual(engine.isRunning(), false);
+
+    await engine.start();
+    try {
+      assert.strictEqual(engine.getRunners()[0], runner, '保留模擬持倉');
+      await nextEvent(engine, 'tick');
+    } finally {
+      engine.close();
+    }
+    const stopped = ticks;
+    await sleep(100);
+    assert.strictEqual(ticks, stopped, '停止後沒有新的 tick');
+  });
+
+  it('未知策略時啟動失敗並保持停止', async () => {
+    const engine = new BotEngine();
+    config.STRATEGIES = ['no-such-strategy'];
+    try {
+      await assert.rejects(engine.start());
+      assert.strictEqual(engine.isRunning(), false);
+    } finally {
+      config.STRATEGIES = ['premarket-scalp'];
+      engine.close();
+    }
+  });
+
+  it('系列配置了未知的倉位計算方法時啟動失敗', async () => {
+    const engine = new BotEngine();
+    const original = config.SERIES_CONFIG;
+    config.SERIES_CONFIG = { 'btc-15m': { POSITION_SIZING: 'martingale' } };
+    try {
+      await assert.rejects(engine.start(), /未知倉位計算方法: martingale（可用: fixed, fixed-fraction, kelly）/);
+      assert.strictEqual(engine.isRunning(), false);
+    } finally {
+      config.SERIES_CONFIG = original;
+      engine.close();
+    }
+  });
+
+  it('只錄製模式：沒有 runner，錄製每個 tick', async () => {
+    const engine = new BotEngine({ recordOnly: true });
+    await engine.start();
+    try {
+      const { loop } = await nextEvent<TickEvent>(engine, 'tick');
+      assert.deepStrictEqual(loop.runners, []);
+    } finally {
+      engine.close();
+    }
+    assert.ok(fs.readdirSync(config.RECORD_DIR).some((f) => f.endsWith('.jsonl.gz')), '寫入錄製文件');
+  });
+});
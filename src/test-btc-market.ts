@@ -1,22 +1,25 @@
 /**
- * 測試 BTC 15min 市場獲取
+ * 測試市場獲取（默認 BTC 15min）
+ * 用法: tsx src/test-btc-market.ts [系列，例如 eth-15m / btc-1h]
  */
 import { MarketFetcher } from './market-fetcher.js';
+import { getSeries } from './series.js';
 
 async function test() {
-  console.log('🔍 測試 BTC 15min 市場獲取...\n');
+  const series = getSeries(process.argv[2] || 'btc-15m');
+  console.log(`🔍 測試 ${series.label} 市場獲取...\n`);
 
-  const fetcher = new MarketFetcher();
+  const fetcher = new MarketFetcher(null, series);
   
   // 同步服務器時間
   await fetcher.syncServerTime();
   
   // 獲取市場
-  console.log('\n📊 獲取即將來臨的 BTC 15min 市場...');
-  const markets = await fetcher.fetchUpcomingBTC15MinMarkets();
+  console.log(`\n📊 獲取即將來臨的 ${series.label} 市場...`);
+  const markets = await fetcher.fetchUpcomingMarkets();
   
   if (markets.length === 0) {
-    console.log('❌ 找不到 BTC 15min 市場');
+    console.log(`❌ 找不到 ${series.label} 市場`);
     return;
   }
   
@@ -0,0 +1,75 @@
+/**
+ * 完整套利檢測和策略測試（離線）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { config, withConfigOverrides } from './config.js';
+import { CompleteSetArbStrategy, detectCompleteSetArbitrage } from './strategies/complete-set-arb.js';
+import { CURRENT_DOWN, CURRENT_UP, NEXT_DOWN, NEXT_UP, TEST_CONFIG, marketState, orderBook, position, positions } from './test-fixtures.js';
+
+Object.assign(config, TEST_CONFIG, { ARB_MAX_SIZE: 100, ARB_MIN_PROFIT_CENTS: 0.5 });
+
+// 每組淨利 = (100 − 成本) − 1% × (成本 + 100)：45+50 → 3.05¢，45+52 → 1.03¢，47+52 → -0.99¢
+const upBook = orderBook([[0.44, 100]], [[0.45, 30], [0.47, 50]]);
+const downBook = orderBook([[0.49, 100]], [[0.5, 20], [0.52, 100]]);
+
+describe('detectCompleteSetArbitrage', () => {
+  it('兩邊 asks 逐檔配對，限價取吃到的最差一檔', () => {
+    const opportunity = detectCompleteSetArbitrage(upBook, downBook, 100)!;
+
+    assert.deepStrictEqual([opportunity.size, opportunity.upPrice, opportunity.downPrice], [30, 45, 52]);
+    assert.ok(Math.abs(opportunity.avgCost - (95 * 20 + 97 * 10) / 30) < 1e-9);
+    assert.ok(Math.abs(opportunity.netProfit - (3.05 * 20 + 1.03 * 10)) < 1e-9);
+  });
+
+  it('最多 maxSize 組，不足一組時沒有機會', () => {
+    assert.strictEqual(detectCompleteSetArbitrage(upBook, downBook, 25)!.size, 25);
+    assert.strictEqual(detectCompleteSetArbitrage(upBook, downBook, 0), null);
+    assert.strictEqual(detectCompleteSetArbitrage(orderBook([], [[0.45, 0.5]]), downBook, 100), null);
+  });
+
+  it('扣除手續費後每組淨利低於 ARB_MIN_PROFIT_CENTS 的檔位不計入', () => {
+    // 47+52 = 99¢ 毛利 1¢，手續費 0.99¢ 後不夠；沒有手續費時吃到 Up 的第二檔
+    const free = withConfigOverrides({ TAKER_FEE_PERCENT: 0 }, () => detectCompleteSetArbitrage(upBook, downBook, 100))!;
+    assert.deepStrictEqual([free.size, free.upPrice, free.downPrice], [80, 47, 52]);
+
+    // 第一檔 45+50 每組 3.05¢，要求 4¢ 時沒有機會
+    assert.strictEqual(detectCompleteSetArbitrage(upBook, downBook, 100, 4), null);
+  });
+
+  it('賣價合計 >= 100¢ 時沒有套利', () => {
+    assert.strictEqual(detectCompleteSetArbitrage(orderBook([], [[0.5, 100]]), orderBook([], [[0.5, 100]]), 100), null);
+    assert.strictEqual(detectCompleteSetArbitrage(orderBook([], [[0.52, 100]]), orderBook([], [[0.49, 100]]), 100), null);
+    assert.strictEqual(detectCompleteSetArbitrage(upBook, undefined, 100), null);
+  });
+});
+
+describe('CompleteSetArbStrategy', () => {
+  const strategy = new CompleteSetArbStrategy();
+
+  it('兩腿一起買入，扣除已持有的組數', () => {
+    const held = positions(position(NEXT_UP, 'Up', 90, 45), position(NEXT_DOWN, 'Down', 90, 50));
+    const signals = strategy.generateSignals(marketState(), held, { [NEXT_UP]: upBook, [NEXT_DOWN]: downBook });
+
+    assert.deepStrictEqual(
+      signals.map((s) => [s.action, s.tokenId, s.price, s.size, s.pairedLeg]),
+      [['BUY', NEXT_UP, 45, 10, { tokenId: NEXT_DOWN, outcome: 'Down', price: 50 }]]
+    );
+  });
+
+  it('單腿成交後以最優買價 -1¢ 賣出多出的部分，不再買入', () => {
+    const held = positions(position(CURRENT_UP, 'Up', 20, 45), position(CURRENT_DOWN, 'Down', 12, 50));
+    const signals = strategy.generateSignals(marketState(), held, {
+      [CURRENT_UP]: upBook,
+      [NEXT_UP]: upBook,
+      [NEXT_DOWN]: downBook,
+    });
+
+    assert.deepStrictEqual(
+      signals.map((s) => [s.action, s.tokenId, s.outcome, s.price, s.size, s.bypassRiskCheck]),
+      [['SELL', CURRENT_UP, 'Up', 43, 8, true]]
+    );
+    assert.match(signals[0].reason, /套利單腿平倉 \(Up 多 8\.0 股\)/);
+  });
+});
@@ -2,8 +2,7 @@
  * 測試腳本 - 驗證 API 連接和市場獲取
  */
 import axios from 'axios';
-
-const GAMMA_HOST = 'https://gamma-api.polymarket.com';
+import { config } from './config.js';
 
 async function testConnection() {
   console.log('🔍 Testing Polymarket API connection...\n');
@@ -11,7 +10,7 @@ async function testConnection() {
   try {
     // 測試 1: 獲取活躍事件
     console.log('1. Fetching active events...');
-    const eventsRes = await axios.get(`${GAMMA_HOST}/events`, {
+    const eventsRes = await axios.get(`${config.GAMMA_HOST}/events`, {
       params: {
         active: true,
         closed: false,
@@ -22,7 +21,7 @@ async function testConnection() {
 
     // 測試 2: 搜尋 BTC 15min 市場
     console.log('\n2. Searching for BTC 15min markets...');
-    const btcRes = await axios.get(`${GAMMA_HOST}/events`, {
+    const btcRes = await axios.get(`${config.GAMMA_HOST}/events`, {
       params: {
         slug_contains: 'btc-updown',
         active: true,
@@ -44,7 +43,7 @@ async function testConnection() {
       console.log('   ⚠️ No BTC 15min markets found via slug search');
       console.log('   Trying series endpoint...');
 
-      const seriesRes = await axios.get(`${GAMMA_HOST}/series`, {
+      const seriesRes = await axios.get(`${config.GAMMA_HOST}/series`, {
         params: { slug: 'btc-updown-15m' },
       });
       console.log('   Series response:', JSON.stringify(seriesRes.data, null, 2).slice(0, 500));
@@ -52,7 +51,7 @@ async function testConnection() {
 
     // 測試 3: 獲取訂單簿
     console.log('\n3. Testing CLOB API...');
-    const clobRes = await axios.get('https://clob.polymarket.com/');
+    const clobRes = await axios.get(`${config.CLOB_HOST}/`);
     console.log(`   ✅ CLOB API reachable: ${clobRes.status}`);
 
   } catch (error: any) {
@@ -0,0 +1,71 @@
+/**
+ * 出場規則測試（離線）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { config, withConfigOverrides } from './config.js';
+import { exitLevels, takeProfitTarget } from './exit-policy.js';
+import { TEST_CONFIG, position } from './test-fixtures.js';
+
+Object.assign(config, TEST_CONFIG);
+
+describe('exitLevels', () => {
+  it('全部關閉時為固定止損和 PROFIT_TARGET', () => {
+    const levels = exitLevels(position('a', 'Up', 10, 45, 48, { highWaterPrice: 49 }), 60000);
+    assert.deepStrictEqual(levels, {
+      stopLossCents: 5,
+      stopPrice: 40,
+      stopRule: '止損',
+      highWaterPrice: 49,
+      takeProfitCents: 2,
+      takeProfitPrice: 47,
+    });
+  });
+
+  it('移動止損跟隨最高價，低於固定止損時不生效', () => {
+    withConfigOverrides({ EXIT_TRAILING_STOP_CENTS: 3 }, () => {
+      const up = exitLevels(position('a', 'Up', 10, 45, 47, { highWaterPrice: 49 }), Infinity);
+      assert.deepStrictEqual([up.stopRule, up.stopPrice, up.stopLossCents], ['移動止損', 46, -1]);
+
+      const flat = exitLevels(position('a', 'Up', 10, 45, 44), Infinity);
+      assert.deepStrictEqual([flat.stopRule, flat.stopPrice], ['移動止損', 42]);
+
+      const loose = withConfigOverrides({ EXIT_TRAILING_STOP_CENTS: 8 }, () => exitLevels(position('a', 'Up', 10, 45, 44), Infinity));
+      assert.deepStrictEqual([loose.stopRule, loose.stopPrice], ['止損', 40]);
+    });
+  });
+
+  it('當前價高於記錄的最高價時以當前價為準', () => {
+    const levels = withConfigOverrides({ EXIT_TRAILING_STOP_CENTS: 1 }, () =>
+      exitLevels(position('a', 'Up', 10, 45, 50, { highWaterPrice: 48 }), Infinity)
+    );
+    assert.strictEqual(levels.stopPrice, 49);
+  });
+
+  it('保本止損和移動止損取較高的止損價', () => {
+    withConfigOverrides({ EXIT_BREAK_EVEN_TRIGGER_CENTS: 1, EXIT_TRAILING_STOP_CENTS: 3 }, () => {
+      const breakEven = exitLevels(position('a', 'Up', 10, 45, 45, { highWaterPrice: 46 }), Infinity);
+      assert.deepStrictEqual([breakEven.stopRule, breakEven.stopPrice], ['保本止損', 45]);
+
+      const trailing = exitLevels(position('a', 'Up', 10, 45, 47, { highWaterPrice: 50 }), Infinity);
+      assert.deepStrictEqual([trailing.stopRule, trailing.stopPrice], ['移動止損', 47]);
+    });
+  });
+});
+
+describe('takeProfitTarget', () => {
+  it('剩餘時間少於 EXIT_TP_DECAY_START_MS 後線性降到 EXIT_TP_MIN_CENTS', () => {
+    withConfigOverrides({ EXIT_TP_DECAY_START_MS: 65000, EXIT_TP_MIN_CENTS: 0.5 }, () => {
+      assert.strictEqual(takeProfitTarget(Infinity), 2);
+      assert.strictEqual(takeProfitTarget(65000), 2);
+      assert.strictEqual(takeProfitTarget(35000), 1.25);
+      assert.strictEqual(takeProfitTarget(5000), 0.5);
+      assert.strictEqual(takeProfitTarget(0), 0.5);
+    });
+  });
+
+  it('EXIT_TP_DECAY_START_MS = 0 時不下降', () => {
+    assert.strictEqual(takeProfitTarget(1000), 2);
+  });
+});
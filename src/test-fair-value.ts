@@ -0,0 +1,60 @@
+/**
+ * 公允價模型測試（離線）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { currentFairValue, fairValues, normalCdf, tokenFairValue, upProbability } from './fair-value.js';
+import { CURRENT_DOWN, CURRENT_UP, NEXT_DOWN, NEXT_UP, marketState, spotState } from './test-fixtures.js';
+
+const close = (actual: number, expected: number, tolerance = 1e-6) =>
+  assert.ok(Math.abs(actual - expected) < tolerance, `${actual} ≉ ${expected}`);
+
+describe('normalCdf / upProbability', () => {
+  it('標準正態分佈累積函數', () => {
+    close(normalCdf(0), 0.5);
+    close(normalCdf(1), 0.8413447);
+    close(normalCdf(-1.96), 0.0249979);
+  });
+
+  it('現價等於開盤價時為 50%，漲得越多、剩餘時間越短越確定', () => {
+    close(upProbability(100, 100, 0.0005, 600), 0.5);
+    assert.ok(upProbability(100.2, 100, 0.0005, 600) > 0.5);
+    assert.ok(upProbability(100.2, 100, 0.0005, 60) > upProbability(100.2, 100, 0.0005, 600));
+    assert.ok(upProbability(99.8, 100, 0.0005, 600) < 0.5);
+  });
+
+  it('到期或沒有波動時按現價是否 >= 開盤價', () => {
+    assert.strictEqual(upProbability(100, 100, 0.0005, 0), 1);
+    assert.strictEqual(upProbability(99.9, 100, 0, 600), 0);
+  });
+});
+
+describe('fairValues', () => {
+  it('當前盤口：Φ(ln(S/K) / (σ√T))，Up + Down = 100¢', () => {
+    const fair = currentFairValue(spotState(), 240000)!;
+    close(fair.up, 60.18, 0.01);
+    close(fair.up + fair.down, 100);
+    assert.deepStrictEqual([fair.strike, fair.spot], [100, 100.2]);
+  });
+
+  it('缺少現貨、開盤價或波動率時無法計算', () => {
+    assert.strictEqual(currentFairValue(null, 240000), null);
+    assert.strictEqual(currentFairValue(spotState({ roundStartPrice: null }), 240000), null);
+    assert.strictEqual(currentFairValue(spotState({ volatility: null }), 240000), null);
+  });
+
+  it('下一盤口還沒開盤，公允價 50¢', () => {
+    const { next } = fairValues(marketState({ spot: null }));
+    assert.deepStrictEqual([next?.up, next?.down, next?.strike], [50, 50, null]);
+  });
+
+  it('按 token 查詢所屬盤口的公允價', () => {
+    const state = marketState({ timeToEnd: 240000, spot: spotState() });
+    assert.strictEqual(tokenFairValue(NEXT_UP, state), 50);
+    assert.strictEqual(tokenFairValue(NEXT_DOWN, state), 50);
+    close(tokenFairValue(CURRENT_UP, state)!, 60.18, 0.01);
+    close(tokenFairValue(CURRENT_DOWN, state)!, 39.82, 0.01);
+    assert.strictEqual(tokenFairValue('expired', state), null);
+  });
+});
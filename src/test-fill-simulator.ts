@@ -0,0 +1,95 @@
+/**
+ * FillSimulator 吃單和掛單排隊測試（離線）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { config, withConfigOverrides } from './config.js';
+import { FillSimulator } from './fill-simulator.js';
+import { TEST_CONFIG, orderBook } from './test-fixtures.js';
+
+Object.assign(config, TEST_CONFIG);
+
+const fills = (results: ReturnType<FillSimulator['matchRestingOrders']>) => results.map((r) => [r.fill.filledSize, r.fill.avgPrice, r.fill.fee]);
+
+describe('FillSimulator.simulateMarketable', () => {
+  const simulator = new FillSimulator();
+
+  it('逐檔吃單直到限價，未成交部分取消，按成交金額收 taker 手續費', () => {
+    const book = orderBook([[0.44, 30], [0.43, 100]], [[0.45, 30], [0.46, 50], [0.48, 100]]);
+
+    // 30 @ 45 + 50 @ 46，48¢ 超過限價
+    const buy = simulator.simulateMarketable(book, 'BUY', 100, 46);
+    assert.deepStrictEqual([buy.filledSize, buy.avgPrice, buy.fee, buy.slippage], [80, 45.625, 36.5, 0.625]);
+
+    // 30 @ 44 + 20 @ 43
+    const sell = simulator.simulateMarketable(book, 'SELL', 50, 43);
+    assert.deepStrictEqual([sell.filledSize, sell.fee], [50, 21.8]);
+    assert.ok(Math.abs(sell.avgPrice - 43.6) < 1e-9);
+    assert.ok(Math.abs(sell.slippage - 0.4) < 1e-9);
+  });
+
+  it('最優價已越過限價或訂單簿為空時不成交', () => {
+    assert.strictEqual(simulator.simulateMarketable(orderBook([], [[0.45, 100]]), 'BUY', 10, 44).filledSize, 0);
+    assert.strictEqual(simulator.simulateMarketable(orderBook([[0.44, 100]], []), 'SELL', 10, 45).filledSize, 0);
+    assert.strictEqual(simulator.simulateMarketable(orderBook([], []), 'BUY', 10, 99).filledSize, 0);
+  });
+});
+
+describe('FillSimulator 掛單', () => {
+  it('同價位減少時隊列前移，排到後分批成交，按掛單價收 maker 手續費', () => {
+    withConfigOverrides({ MAKER_FEE_PERCENT: 0.5 }, () => {
+      const simulator = new FillSimulator();
+      const order = simulator.placeRestingOrder(orderBook([], [[0.47, 10], [0.48, 200]]), 'tok', 'Up', 'SELL', 48, 100);
+      assert.strictEqual(order.queueAhead, 200);
+
+      // 後來的 100 股排在我們之後，不影響隊列
+      assert.deepStrictEqual(simulator.matchRestingOrders('tok', orderBook([], [[0.48, 300]])), []);
+      assert.strictEqual(order.queueAhead, 200);
+
+      // 減少 150：前面還剩 50
+      assert.deepStrictEqual(simulator.matchRestingOrders('tok', orderBook([], [[0.48, 150]])), []);
+      assert.strictEqual(order.queueAhead, 50);
+
+      // 再減少 80：前面 50 用完，成交 30
+      assert.deepStrictEqual(fills(simulator.matchRestingOrders('tok', orderBook([], [[0.48, 70]]))), [[30, 48, 7.2]]);
+      assert.deepStrictEqual([order.filledSize, order.queueAhead], [30, 0]);
+
+      // 其他 token 的訂單簿不推進
+      assert.deepStrictEqual(simulator.matchRestingOrders('other', orderBook([[0.5, 500]], [])), []);
+
+      // 買盤穿過掛單價：剩餘 70 全部成交，訂單移除
+      assert.deepStrictEqual(fills(simulator.matchRestingOrders('tok', orderBook([[0.48, 100]], [[0.48, 70]]))), [[70, 48, 16.8]]);
+      assert.deepStrictEqual(simulator.getOpenOrders('tok'), []);
+    });
+  });
+
+  it('對手價穿過時先成交排在前面的部分', () => {
+    const simulator = new FillSimulator();
+    const order = simulator.placeRestingOrder(orderBook([], [[0.48, 200]]), 'tok', 'Up', 'SELL', 48, 50);
+
+    // 穿過的買單共 230，前面 200，輪到我們 30（maker 手續費 0）
+    assert.deepStrictEqual(fills(simulator.matchRestingOrders('tok', orderBook([[0.49, 130], [0.48, 100]], [[0.48, 200]]))), [[30, 48, 0]]);
+    assert.deepStrictEqual([order.filledSize, order.queueAhead], [30, 0]);
+    assert.strictEqual(simulator.getOpenOrders('tok').length, 1);
+  });
+
+  it('同價位被吃光且最優價越過掛單價時全部成交', () => {
+    const simulator = new FillSimulator();
+    simulator.placeRestingOrder(orderBook([[0.44, 100]], []), 'tok', 'Down', 'BUY', 44, 40);
+
+    assert.deepStrictEqual(fills(simulator.matchRestingOrders('tok', orderBook([[0.43, 100]], [[0.45, 100]]))), [[40, 44, 0]]);
+    assert.deepStrictEqual(simulator.getOpenOrders(), []);
+  });
+
+  it('取消後不再成交', () => {
+    const simulator = new FillSimulator();
+    const order = simulator.placeRestingOrder(orderBook([], [[0.48, 0]]), 'tok', 'Up', 'SELL', 48, 10);
+    simulator.placeRestingOrder(orderBook([], []), 'tok', 'Up', 'SELL', 50, 10);
+
+    assert.strictEqual(simulator.cancelOrder(order.orderId), true);
+    assert.strictEqual(simulator.cancelOrder(order.orderId), false);
+    simulator.cancelOrders('tok');
+    assert.deepStrictEqual(simulator.matchRestingOrders('tok', orderBook([[0.5, 100]], [])), []);
+  });
+});
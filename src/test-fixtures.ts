@@ -0,0 +1,127 @@
+/**
+ * 離線測試用的固定配置和數據構造器（npm test）
+ */
+import type { ConfigOverrides } from './config.js';
+import type { Market, MarketState, OrderBook, Position, SpotState } from './types.js';
+
+// 測試不受 .env 影響：固定所有決策規則用到的配置
+export const TEST_CONFIG: ConfigOverrides = {
+  MAX_BUY_PRICE: 50,
+  PROFIT_TARGET: 2,
+  STOP_LOSS: 5,
+  MAX_POSITION_SIZE: 100,
+  ALLOW_CURRENT_MARKET_TRADING: true,
+  SELL_BEFORE_START_MS: 5000,
+  MIN_TIME_TO_TRADE_MS: 6000,
+  TAKER_FEE_PERCENT: 1,
+  MAKER_FEE_PERCENT: 0,
+  MAX_SLIPPAGE_CENTS: 1,
+  MIN_ORDERBOOK_DEPTH: 50,
+  MAX_DAILY_LOSS_USDC: 50,
+  MAX_OPEN_NOTIONAL_USDC: 500,
+  MAX_CONSECUTIVE_LOSSES: 3,
+  STOP_LOSS_COOLDOWN_MS: 60000,
+  POSITION_SIZING: 'fixed',
+  SIZING_FRACTION: 0.02,
+  KELLY_FRACTION: 0.25,
+  KELLY_WIN_PROBABILITY: 0.6,
+  SIZING_DEPTH_FRACTION: 1,
+  PAPER_BANKROLL_USDC: 1000,
+  EXIT_TRAILING_STOP_CENTS: 0,
+  EXIT_BREAK_EVEN_TRIGGER_CENTS: 0,
+  EXIT_TP_DECAY_START_MS: 0,
+  EXIT_TP_MIN_CENTS: 0,
+  SPOT_VOLATILITY_WINDOW_MS: 300000,
+  FAIR_VALUE_ENTRY: false,
+  ENTRY_MIN_EDGE_CENTS: 1,
+  LOG_FILE: '', // 測試不寫日誌文件
+};
+
+export const NEXT_UP = 'next-up';
+export const NEXT_DOWN = 'next-down';
+export const CURRENT_UP = 'current-up';
+export const CURRENT_DOWN = 'current-down';
+
+const MINUTE = 60 * 1000;
+
+export function market(slug: string, startTime: number, upTokenId: string, downTokenId: string): Market {
+  return {
+    conditionId: `0x${slug}`,
+    questionId: `0x${slug}-question`,
+    slug,
+    question: `${slug} Up or Down`,
+    startDate: new Date(startTime).toISOString(),
+    endDate: new Date(startTime + 15 * MINUTE).toISOString(),
+    tokens: [
+      { tokenId: upTokenId, outcome: 'Up', price: 0.5 },
+      { tokenId: downTokenId, outcome: 'Down', price: 0.5 },
+    ],
+    active: true,
+    closed: false,
+    acceptingOrders: true,
+  };
+}
+
+/**
+ * 默認狀態：當前盤口還剩 5 分鐘，下一盤口 5 分鐘後開始，兩邊價格都是 50¢（不觸發買入）
+ */
+export function marketState(overrides: Partial<MarketState> = {}): MarketState {
+  const now = Date.now();
+  const currentMarket = market('current', now - 10 * MINUTE, CURRENT_UP, CURRENT_DOWN);
+  const nextMarket = market('next', now + 5 * MINUTE, NEXT_UP, NEXT_DOWN);
+
+  return {
+    currentMarket,
+    nextMarket,
+    allMarkets: [currentMarket, nextMarket],
+    upPrice: 50,
+    downPrice: 50,
+    upTokenId: NEXT_UP,
+    downTokenId: NEXT_DOWN,
+    currentUpTokenId: CURRENT_UP,
+    currentDownTokenId: CURRENT_DOWN,
+    currentUpPrice: 50,
+    currentDownPrice: 50,
+    timeToStart: 5 * MINUTE,
+    timeToEnd: 5 * MINUTE,
+    ...overrides,
+  };
+}
+
+/**
+ * 現貨狀態：默認開盤 100、現價 100.2 (+0.2%)、波動率每 √秒 0.05%
+ */
+export function spotState(overrides: Partial<SpotState> = {}): SpotState {
+  return {
+    symbol: 'BTCUSDT',
+    price: 100.2,
+    updatedAt: Date.now(),
+    roundStartPrice: 100,
+    changeSinceStart: 0.002,
+    volatility: 0.0005,
+    ...overrides,
+  };
+}
+
+export function position(
+  tokenId: string,
+  outcome: 'Up' | 'Down',
+  size: number,
+  avgBuyPrice: number,
+  currentPrice = avgBuyPrice,
+  extra: Partial<Position> = {}
+): Position {
+  return { tokenId, outcome, size, avgBuyPrice, currentPrice, ...extra };
+}
+
+export function positions(...list: Position[]): Map<string, Position> {
+  return new Map(list.map((p) => [p.tokenId, p]));
+}
+
+/**
+ * 訂單簿：[價格 (0-1), 股數]，按最優價在前傳入
+ */
+export function orderBook(bids: Array<[number, number]>, asks: Array<[number, number]>): OrderBook {
+  const toLevels = (levels: Array<[number, number]>) => levels.map(([price, size]) => ({ price, size }));
+  return { bids: toLevels(bids), asks: toLevels(asks) };
+}
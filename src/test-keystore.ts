@@ -0,0 +1,85 @@
+/**
+ * 錢包 keystore 測試（離線）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import { Wallet } from 'ethers';
+import { config } from './config.js';
+import { createKeystore, getSigner, keystoreStatus, loadSigner, lockKeystore, unlockKeystore, validateSigner } from './keystore.js';
+
+const SCRYPT_N = 1024; // 測試用低強度，默認值每次加解密要幾秒
+
+describe('keystore', () => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'keystore-'));
+  const file = path.join(tmpDir, 'keys', 'keystore.json');
+  const wallet = Wallet.createRandom();
+
+  before(async () => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+    Object.assign(config, { KEYSTORE_FILE: file, KEYSTORE_PASSPHRASE: '', PRIVATE_KEY: '', PAPER_TRADING: false });
+    await createKeystore(wallet.privateKey.slice(2), 'correct horse', { file, scryptN: SCRYPT_N });
+  });
+
+  afterEach(() => {
+    lockKeystore();
+    Object.assign(config, { KEYSTORE_PASSPHRASE: '', PRIVATE_KEY: '' });
+  });
+
+  after(() => {
+    mock.restoreAll();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('建立的 keystore 權限為 600，不覆蓋已存在的文件', async () => {
+    assert.strictEqual(fs.statSync(file).mode & 0o777, 0o600);
+    assert.ok(!fs.readFileSync(file, 'utf8').includes(wallet.privateKey.slice(2)), '文件中沒有明文私鑰');
+    await assert.rejects(createKeystore(wallet.privateKey, 'x', { file, scryptN: SCRYPT_N }), /已存在/);
+  });
+
+  it('正確密碼解鎖，signer 地址一致；狀態只有地址', async () => {
+    assert.strictEqual(getSigner(), null);
+    assert.throws(() => validateSigner(), /解鎖/);
+
+    assert.strictEqual(await unlockKeystore('correct horse'), wallet.address);
+    assert.strictEqual(getSigner()?.address, wallet.address);
+    validateSigner();
+
+    const status = keystoreStatus();
+    assert.deepStrictEqual(status, { file, exists: true, unlocked: true, address: wallet.address, source: 'keystore' });
+    assert.ok(!JSON.stringify(status).includes(wallet.privateKey.slice(2)));
+  });
+
+  it('密碼錯誤時拋出並保持鎖定', async () => {
+    await assert.rejects(unlockKeystore('wrong'), /密碼錯誤/);
+    assert.strictEqual(getSigner(), null);
+    await assert.rejects(unlockKeystore('x', path.join(tmpDir, 'missing.json')), /找不到/);
+  });
+
+  it('loadSigner 使用 KEYSTORE_PASSPHRASE，沒有密碼時不解鎖', async () => {
+    assert.strictEqual(await loadSigner(false), null);
+    config.KEYSTORE_PASSPHRASE = 'correct horse';
+    assert.strictEqual((await loadSigner(false))?.address, wallet.address);
+  });
+
+  it('沒有解鎖 keystore 時回退到 .env 的 PRIVATE_KEY', () => {
+    const plain = Wallet.createRandom();
+    config.PRIVATE_KEY = plain.privateKey;
+    assert.strictEqual(getSigner()?.address, plain.address);
+    assert.deepStrictEqual([keystoreStatus().source, keystoreStatus().address], ['env', plain.address]);
+  });
+
+  it('模擬交易不需要 signer', () => {
+    config.PAPER_TRADING = true;
+    try {
+      validateSigner();
+    } finally {
+      config.PAPER_TRADING = false;
+    }
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * 結構化日誌測試（離線）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import { config } from './config.js';
+import { createLogger, logManager, setLogContext, withLogContext, type LogEntry } from './logger.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('logger', () => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'logger-'));
+  const file = path.join(tmpDir, 'logs', 'bot.jsonl');
+  const log = createLogger('test');
+  const original = {
+    LOG_LEVEL: config.LOG_LEVEL,
+    LOG_FORMAT: config.LOG_FORMAT,
+    LOG_FILE: '', // 除了輪轉測試都不寫文件
+    LOG_MAX_BYTES: config.LOG_MAX_BYTES,
+    LOG_MAX_FILES: config.LOG_MAX_FILES,
+    LOG_BUFFER_SIZE: config.LOG_BUFFER_SIZE,
+  };
+  const printed: string[] = [];
+
+  // 攔截 logManager 的 entry 事件，只看這個測試寫入的日誌
+  function capture(fn: () => void | Promise<void>): Promise<LogEntry[]> {
+    const entries: LogEntry[] = [];
+    const listener = (entry: LogEntry) => entries.push(entry);
+    logManager.on('entry', listener);
+    return Promise.resolve(fn())
+      .then(() => entries)
+      .finally(() => logManager.off('entry', listener));
+  }
+
+  before(() => {
+    mock.method(console, 'log', (text: string) => printed.push(text));
+    mock.method(console, 'warn', (text: string) => printed.push(text));
+    mock.method(console, 'error', (text: string) => printed.push(text));
+    Object.assign(config, original);
+  });
+
+  afterEach(() => {
+    Object.assign(config, original);
+    printed.length = 0;
+    fs.rmSync(path.join(tmpDir, 'logs'), { recursive: true, force: true });
+  });
+
+  after(() => {
+    mock.restoreAll();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('tick 範圍內的日誌跨 await 帶上 tickId / series / slug，範圍外沒有', async () => {
+    const entries = await capture(async () => {
+      await withLogContext({ tickId: 'btc-15m-7', series: 'btc-15m' }, async () => {
+        log.info('before slug');
+        setLogContext({ slug: 'btc-updown-15m-1700000000' });
+        await sleep(1);
+        log.warn('after await');
+      });
+      log.info('outside');
+    });
+
+    assert.deepStrictEqual(
+      entries.map(({ level, component, tickId, series, slug, msg }) => ({ level, component, tickId, series, slug, msg })),
+      [
+        { level: 'info', component: 'test', tickId: 'btc-15m-7', series: 'btc-15m', slug: undefined, msg: 'before slug' },
+        { level: 'warn', component: 'test', tickId: 'btc-15m-7', series: 'btc-15m', slug: 'btc-updown-15m-1700000000', msg: 'after await' },
+        { level: 'info', component: 'test', tickId: undefined, series: undefined, slug: undefined, msg: 'outside' },
+      ]
+    );
+  });
+
+  it('低於 LOG_LEVEL 的日誌不輸出；Error 只保留訊息', async () => {
+    config.LOG_LEVEL = 'warn';
+    const entries = await capture(() => {
+      log.debug('hidden');
+      log.info('hidden');
+      log.error('下單失敗', { error: new Error('timeout'), size: 10 });
+    });
+    assert.strictEqual(entries.length, 1);
+    assert.deepStrictEqual(entries[0].data, { error: 'timeout', size: 10 });
+    assert.deepStrictEqual(printed, ['下單失敗 error=timeout size=10']);
+
+    config.LOG_LEVEL = 'silent';
+    assert.deepStrictEqual(await capture(() => log.error('hidden')), []);
+    assert.strictEqual(printed.length, 1, 'silent 時 error 也不輸出');
+  });
+
+  it('LOG_FORMAT=json 時控制台輸出一行 JSON', async () => {
+    config.LOG_FORMAT = 'json';
+    await capture(() => withLogContext({ tickId: 't-1' }, () => log.info('hello')));
+    const line = JSON.parse(printed[0]);
+    assert.strictEqual(line.msg, 'hello');
+    assert.strictEqual(line.tickId, 't-1');
+    assert.strictEqual(typeof line.timestamp, 'number');
+  });
+
+  it('寫入 JSONL 文件，超過 LOG_MAX_BYTES 時輪轉並只保留 LOG_MAX_FILES 個舊文件', async () => {
+    Object.assign(config, { LOG_FILE: file, LOG_MAX_BYTES: 300, LOG_MAX_FILES: 2 });
+    await capture(() => {
+      for (let i = 0; i < 12; i++) log.info(`line ${i}`, { padding: 'x'.repeat(40) });
+    });
+
+    assert.deepStrictEqual(fs.readdirSync(path.dirname(file)).sort(), ['bot.jsonl', 'bot.jsonl.1', 'bot.jsonl.2']);
+    for (const name of ['bot.jsonl', 'bot.jsonl.1', 'bot.jsonl.2']) {
+      assert.ok(fs.statSync(path.join(path.dirname(file), name)).size <= 300);
+    }
+    const last = fs.readFileSync(file, 'utf8').trim().split('\n').map((l) => JSON.parse(l));
+    assert.strictEqual(last[last.length - 1].msg, 'line 11');
+    assert.strictEqual(last[0].component, 'test');
+  });
+
+  it('記憶體中只保留最近 LOG_BUFFER_SIZE 條', async () => {
+    config.LOG_BUFFER_SIZE = 3;
+    await capture(() => {
+      for (let i = 0; i < 5; i++) log.info(`buffered ${i}`);
+    });
+    assert.deepStrictEqual(logManager.getRecent().map((e) => e.msg), ['buffered 2', 'buffered 3', 'buffered 4']);
+    assert.deepStrictEqual(logManager.getRecent(1).map((e) => e.msg), ['buffered 4']);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * 測試 WebSocket 行情 - 使用本地模擬的 CLOB market channel，不需要網絡
+ * 用法: npm run test:feed
+ */
+import assert from 'assert';
+import { WebSocketServer, WebSocket } from 'ws';
+import { MarketFeed } from './market-feed.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function waitFor(check: () => boolean, label: string, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error(`等待超時: ${label}`);
+    await sleep(20);
+  }
+}
+
+function bookSnapshot(assetId: string, bid: string, ask: string) {
+  return {
+    event_type: 'book',
+    asset_id: assetId,
+    market: '0xmock',
+    bids: [
+      { price: (Number(bid) - 0.01).toFixed(2), size: '200' },
+      { price: bid, size: '100' },
+    ],
+    asks: [
+      { price: (Number(ask) + 0.01).toFixed(2), size: '150' },
+      { price: ask, size: '80' },
+    ],
+    timestamp: String(Date.now()),
+  };
+}
+
+async function test() {
+  console.log('🔍 測試 WebSocket 行情...\n');
+
+  // 模擬 CLOB market channel：收到訂閱後推送 book 快照
+  const server = new WebSocketServer({ port: 0 });
+  await new Promise<void>((resolve) => server.on('listening', () => resolve()));
+  const port = (server.address() as { port: number }).port;
+
+  const received: any[] = [];
+  let connections = 0;
+  let socket: WebSocket | null = null;
+
+  server.on('connection', (ws) => {
+    connections++;
+    socket = ws;
+    ws.on('message', (data) => {
+      const raw = data.toString();
+      if (raw === 'PING') {
+        ws.send('PONG');
+        return;
+      }
+      const message = JSON.parse(raw);
+      received.push(message);
+      if (message.type === 'market' || message.operation === 'subscribe') {
+        ws.send(JSON.stringify(message.assets_ids.map((id: string) => bookSnapshot(id, '0.45', '0.47'))));
+      }
+    });
+  });
+
+  const feed = new MarketFeed(`ws://127.0.0.1:${port}`);
+
+  // 1. 初始訂閱 → 收到快照
+  feed.setSubscriptions(['up-1', 'down-1']);
+  await waitFor(() => feed.hasBook('up-1') && feed.hasBook('down-1'), '初始快照');
+  assert.deepStrictEqual(received[0], { assets_ids: ['up-1', 'down-1'], type: 'market' });
+
+  const book = feed.getOrderBook('up-1')!;
+  assert.deepStrictEqual(book.bids.map((l) => l.price), [0.45, 0.44], 'bids 由高到低');
+  assert.deepStrictEqual(book.asks.map((l) => l.price), [0.47, 0.48], 'asks 由低到高');
+  assert.strictEqual(feed.getPrice('up-1')!.toFixed(2), '0.46', '中間價');
+  console.log('✅ 初始快照與排序');
+
+  // 2. price_change 增量（新版格式）：新增更優買價、刪除最優賣價
+  socket!.send(
+    JSON.stringify({
+      event_type: 'price_change',
+      market: '0xmock',
+      price_changes: [
+        { asset_id: 'up-1', price: '0.46', size: '30', side: 'BUY' },
+        { asset_id: 'up-1', price: '0.47', size: '0', side: 'SELL' },
+      ],
+      timestamp: String(Date.now()),
+    })
+  );
+  await waitFor(() => feed.getBestBidAsk('up-1').bid === 0.46, 'price_change');
+  assert.deepStrictEqual(feed.getBestBidAsk('up-1'), { bid: 0.46, ask: 0.48 });
+  console.log('✅ price_change 增量');
+
+  // 3. 舊版格式 changes
+  socket!.send(
+    JSON.stringify({
+      event_type: 'price_change',
+      asset_id: 'down-1',
+      changes: [{ price: '0.50', size: '10', side: 'SELL' }],
+    })
+  );
+  await waitFor(() => feed.getOrderBook('down-1')!.asks.length === 3, '舊版 price_change');
+  console.log('✅ 舊版 price_change 格式');
+
+  // 4. 價差過大時使用最新成交價
+  socket!.send(JSON.stringify({ event_type: 'last_trade_price', asset_id: 'up-1', price: '0.52', size: '5', side: 'BUY' }));
+  await waitFor(() => feed.getLastTradePrice('up-1') === 0.52, 'last_trade_price');
+  socket!.send(
+    JSON.stringify({
+      event_type: 'price_change',
+      price_changes: [
+        { asset_id: 'up-1', price: '0.48', size: '0', side: 'SELL' },
+        { asset_id: 'up-1', price: '0.70', size: '10', side: 'SELL' },
+      ],
+    })
+  );
+  await waitFor(() => feed.getBestBidAsk('up-1').ask === 0.7, '擴大價差');
+  assert.strictEqual(feed.getPrice('up-1'), 0.52, '價差 > 10¢ 時用最新成交價');
+  console.log('✅ last_trade_price');
+
+  // 5. 盤口輪換：退訂舊 token，訂閱新 token
+  received.length = 0;
+  feed.setSubscriptions(['down-1', 'up-2']);
+  await waitFor(() => feed.hasBook('up-2'), '新 token 快照');
+  assert.deepStrictEqual(received, [
+    { assets_ids: ['up-1'], operation: 'unsubscribe' },
+    { assets_ids: ['up-2'], operation: 'subscribe' },
+  ]);
+  assert.strictEqual(feed.hasBook('up-1'), false, '舊 token 訂單簿已丟棄');
+  console.log('✅ 盤口輪換切換訂閱');
+
+  // 6. 斷線重連後重新訂閱
+  received.length = 0;
+  socket!.close();
+  await waitFor(() => !feed.hasBook('down-1'), '斷線清空訂單簿');
+  await waitFor(() => connections === 2 && feed.hasBook('down-1') && feed.hasBook('up-2'), '重連', 5000);
+  assert.deepStrictEqual(received[0], { assets_ids: ['down-1', 'up-2'], type: 'market' });
+  console.log('✅ 斷線重連');
+
+  feed.close();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  console.log('\n✅ 全部通過');
+}
+
+test().catch((error) => {
+  console.error('❌ 測試失敗:', error);
+  process.exit(1);
+});
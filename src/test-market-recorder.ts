@@ -0,0 +1,80 @@
+/**
+ * MarketRecorder 錄製和讀取測試（離線）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { after, afterEach, describe, it } from 'node:test';
+import { MarketRecorder, listRecordedRounds, readAllRecordings, readRecording, replayRound } from './market-recorder.js';
+import { getSeries } from './series.js';
+import { market, marketState, orderBook } from './test-fixtures.js';
+import type { Market, RecordedTick } from './types.js';
+
+const T0 = 1_760_000_000_000;
+const CURRENT = market('btc-updown-15m-1760000000', T0, 'cur-up', 'cur-down');
+const NEXT = market('btc-updown-15m-1760000900', T0 + 15 * 60 * 1000, 'next-up', 'next-down');
+
+function tick(timestamp: number, currentMarket: Market | null, nextMarket: Market | null): RecordedTick {
+  return {
+    timestamp,
+    serverTimeOffset: 120,
+    state: marketState({ currentMarket, nextMarket }),
+    orderBooks: { 'next-up': orderBook([[0.44, 100]], [[0.45, 50]]) },
+  };
+}
+
+describe('MarketRecorder', () => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recorder-'));
+  const file = (slug: string) => path.join(tmpDir, `${slug}.jsonl.gz`);
+
+  afterEach(() => {
+    for (const f of fs.readdirSync(tmpDir)) fs.rmSync(path.join(tmpDir, f));
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('每個 tick 寫入當前和下一盤口的 gzip 文件，讀回時按時間排序', () => {
+    const recorder = new MarketRecorder(tmpDir);
+    const ticks = [tick(T0 + 2000, CURRENT, NEXT), tick(T0 - 1000, null, CURRENT), tick(T0 + 1000, CURRENT, NEXT)];
+    for (const t of ticks) recorder.record(t);
+
+    assert.deepStrictEqual(listRecordedRounds(tmpDir), [CURRENT.slug, NEXT.slug]);
+    assert.deepStrictEqual(readRecording(file(CURRENT.slug)), [ticks[1], ticks[2], ticks[0]]);
+    assert.deepStrictEqual(Array.from(replayRound(NEXT.slug, tmpDir)), [ticks[2], ticks[0]]);
+
+    // 串接的 gzip member 可以整體解壓（zcat 同理）
+    const lines = zlib.gunzipSync(fs.readFileSync(file(NEXT.slug))).toString('utf8').trim().split('\n');
+    assert.deepStrictEqual(lines.map((l) => JSON.parse(l).timestamp), [T0 + 2000, T0 + 1000]);
+  });
+
+  it('文件末尾截斷的 tick 被忽略，之前的 tick 完整讀出', () => {
+    const recorder = new MarketRecorder(tmpDir);
+    recorder.record(tick(T0 + 1000, CURRENT, null));
+    recorder.record(tick(T0 + 2000, CURRENT, null));
+    const complete = fs.statSync(file(CURRENT.slug)).size;
+    recorder.record(tick(T0 + 3000, CURRENT, null));
+
+    // 模擬寫入最後一個 member 時進程被終止
+    fs.truncateSync(file(CURRENT.slug), complete + 40);
+    assert.deepStrictEqual(readRecording(file(CURRENT.slug)).map((t) => t.timestamp), [T0 + 1000, T0 + 2000]);
+
+    fs.truncateSync(file(CURRENT.slug), complete + 5);
+    assert.deepStrictEqual(readRecording(file(CURRENT.slug)).map((t) => t.timestamp), [T0 + 1000, T0 + 2000]);
+  });
+
+  it('合併所有盤口時按 timestamp 去重，可按系列篩選', () => {
+    const recorder = new MarketRecorder(tmpDir);
+    recorder.record(tick(T0 - 1000, null, CURRENT));
+    recorder.record(tick(T0 + 1000, CURRENT, NEXT));
+    recorder.record(tick(T0 + 2000, market('eth-updown-15m-1760000000', T0, 'eth-up', 'eth-down'), null));
+
+    assert.deepStrictEqual(readAllRecordings(tmpDir).map((t) => t.timestamp), [T0 - 1000, T0 + 1000, T0 + 2000]);
+    assert.deepStrictEqual(readAllRecordings(tmpDir, getSeries('btc-15m')).map((t) => t.timestamp), [T0 - 1000, T0 + 1000]);
+    assert.deepStrictEqual(readAllRecordings(path.join(tmpDir, 'missing')), []);
+  });
+});
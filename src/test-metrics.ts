@@ -0,0 +1,175 @@
+/**
+ * Prometheus 指標測試（對接本地模擬服務器，不需要網絡）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import axios from 'axios';
+import { after, before, describe, it, mock } from 'node:test';
+import { config } from './config.js';
+import { BotEngine } from './bot-engine.js';
+import { MarketFetcher } from './market-fetcher.js';
+import { MockPolymarket } from './mock-polymarket.js';
+import { RiskManager } from './risk-manager.js';
+import { getSeries } from './series.js';
+import { instrumentAxios, registerEngineMetrics, registry } from './metrics.js';
+import { TEST_CONFIG } from './test-fixtures.js';
+
+Object.assign(config, TEST_CONFIG);
+
+// 指標的當前值（標籤完全相同的那一條，直方圖取觀測次數），沒有時為 0
+async function value(name: string, labels: Record<string, string> = {}): Promise<number> {
+  const metric = await registry.getSingleMetric(name)!.get();
+  const target = String(metric.type) === 'histogram' ? `${name}_count` : name;
+  const match = metric.values.find(
+    (v: { metricName?: string; labels: Record<string, string | number> }) =>
+      (v.metricName ?? name) === target &&
+      Object.keys(labels).length === Object.keys(v.labels).length &&
+      Object.entries(labels).every(([k, l]) => v.labels[k] === l)
+  );
+  return match?.value ?? 0;
+}
+
+describe('metrics', () => {
+  const mockServer = new MockPolymarket({ series: ['btc-15m'] });
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'metrics-'));
+  let port = 0;
+
+  before(async () => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    port = await mockServer.start(0);
+    // Gamma 和 CLOB 用不同的主機名指向同一個模擬服務器，才能區分
+    Object.assign(config, {
+      CLOB_HOST: `http://localhost:${port}`,
+      GAMMA_HOST: `http://127.0.0.1:${port}`,
+      PAPER_TRADING: true,
+      MARKET_FEED_ENABLED: false,
+      SPOT_FEED: 'off',
+      RECORD_MARKET_DATA: false,
+      LEDGER_FILE: path.join(tmpDir, 'ledger.jsonl'),
+      RISK_AUDIT_FILE: path.join(tmpDir, 'risk-audit.jsonl'),
+      SERIES: ['btc-15m'],
+      STRATEGIES: ['premarket-scalp'],
+      POLL_INTERVAL_MS: 60000,
+    });
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    await mockServer.stop();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('axios 攔截器按 Gamma / CLOB 統計請求數、錯誤數和耗時', async () => {
+    const client = axios.create();
+    instrumentAxios(client);
+    instrumentAxios(client); // 重複調用不會重複計數
+    const before = {
+      gammaOk: await value('polybot_api_requests_total', { api: 'gamma', outcome: 'ok' }),
+      clobOk: await value('polybot_api_requests_total', { api: 'clob', outcome: 'ok' }),
+      clobError: await value('polybot_api_requests_total', { api: 'clob', outcome: 'error' }),
+      clobTimed: await value('polybot_api_request_duration_seconds', { api: 'clob' }),
+    };
+
+    await client.get(`${config.GAMMA_HOST}/events`, { params: { slug: 'none' } });
+    await client.get('/time', { baseURL: config.CLOB_HOST });
+    await assert.rejects(client.get(`${config.CLOB_HOST}/no-such-route`));
+
+    assert.strictEqual(await value('polybot_api_requests_total', { api: 'gamma', outcome: 'ok' }), before.gammaOk + 1);
+    assert.strictEqual(await value('polybot_api_requests_total', { api: 'clob', outcome: 'ok' }), before.clobOk + 1);
+    assert.strictEqual(await value('polybot_api_requests_total', { api: 'clob', outcome: 'error' }), before.clobError + 1);
+    assert.strictEqual(await value('polybot_api_request_duration_seconds', { api: 'clob' }), before.clobTimed + 2);
+  });
+
+  it('RiskManager.checkRateLimit 記錄等待次數和時間，達到每分鐘上限時記錄拒絕', async () => {
+    const risk = new RiskManager();
+    const original = { MIN_REQUEST_INTERVAL_MS: config.MIN_REQUEST_INTERVAL_MS, MAX_REQUESTS_PER_MINUTE: config.MAX_REQUESTS_PER_MINUTE };
+    Object.assign(config, { MIN_REQUEST_INTERVAL_MS: 50, MAX_REQUESTS_PER_MINUTE: 2 });
+    const waits = await value('polybot_rate_limit_waits_total');
+    const waited = await value('polybot_rate_limit_wait_seconds_total');
+    const rejections = await value('polybot_rate_limit_rejections_total');
+    try {
+      assert.ok(await risk.checkRateLimit());
+      assert.ok(await risk.checkRateLimit());
+      assert.ok(!(await risk.checkRateLimit()));
+    } finally {
+      Object.assign(config, original);
+    }
+
+    assert.strictEqual(await value('polybot_rate_limit_waits_total'), waits + 1);
+    const seconds = (await value('polybot_rate_limit_wait_seconds_total')) - waited;
+    assert.ok(seconds > 0 && seconds <= 0.05, `等待 ${seconds}s`);
+    assert.strictEqual(await value('polybot_rate_limit_rejections_total'), rejections + 1);
+  });
+
+  it('服務器時間偏移和兩次同步之間的漂移', async () => {
+    const fetcher = new MarketFetcher(null, getSeries('btc-1h'));
+    const labels = { series: 'btc-1h' };
+    assert.strictEqual(fetcher.getLastTimeSyncAt(), 0);
+
+    await fetcher.syncServerTime();
+    const first = await value('polybot_server_time_offset_seconds', labels);
+    assert.ok(Math.abs(first) <= 1, `偏移 ${first}s`);
+    assert.ok(fetcher.getLastTimeSyncAt() > 0);
+
+    mockServer.setScenario({ clockOffsetMs: 30000 });
+    try {
+      await fetcher.syncServerTime();
+    } finally {
+      mockServer.setScenario({ clockOffsetMs: 0 });
+    }
+    const second = await value('polybot_server_time_offset_seconds', labels);
+    assert.ok(Math.abs(second - 30) <= 1, `偏移 ${second}s`);
+    assert.ok(Math.abs((await value('polybot_server_time_drift_seconds', labels)) - (second - first)) < 1e-9);
+  });
+
+  it('tick 耗時、訂單狀態和抓取時讀取的盈虧 / 持倉', async () => {
+    const engine = new BotEngine();
+    registerEngineMetrics(engine, new RiskManager());
+    const labels = { series: 'btc-15m' };
+    const ticks = await value('polybot_tick_duration_seconds', labels);
+
+    await engine.start();
+    try {
+      await new Promise((resolve) => engine.once('tick', resolve));
+      await new Promise((resolve) => setImmediate(resolve));
+      assert.strictEqual(await value('polybot_tick_duration_seconds', labels), ticks + 1);
+      assert.ok((await value('polybot_last_tick_timestamp_seconds', labels)) * 1000 <= Date.now());
+      assert.strictEqual(await value('polybot_bot_running'), 1);
+
+      // 模擬持倉：10 股，成本 40¢，當前 46¢
+      const runner = engine.getRunners()[0];
+      const orderLabels = { series: 'btc-15m', strategy: 'premarket-scalp', side: 'BUY', mode: 'paper' };
+      const filled = await value('polybot_orders_total', { ...orderLabels, status: 'filled' });
+      const manager = runner.trader.getOrderManager();
+      manager.track({ orderId: 'metrics-1', tokenId: 'token-up', outcome: 'Up', side: 'BUY', price: 40, size: 10, paper: true, status: 'FILLED', filledSize: 10 });
+      manager.track({ orderId: 'metrics-2', tokenId: 'token-up', outcome: 'Up', side: 'BUY', price: 38, size: 10, paper: true });
+      manager.markCancelled('metrics-2');
+      assert.strictEqual(await value('polybot_orders_total', { ...orderLabels, status: 'filled' }), filled + 1);
+      assert.ok((await value('polybot_orders_total', { ...orderLabels, status: 'cancelled' })) >= 1);
+
+      runner.trader.getPositions().set('token-up', {
+        tokenId: 'token-up',
+        outcome: 'Up',
+        size: 10,
+        avgBuyPrice: 40,
+        currentPrice: 46,
+      });
+      const runnerLabels = { series: 'btc-15m', strategy: 'premarket-scalp' };
+      assert.strictEqual(await value('polybot_open_exposure_usdc', runnerLabels), 4);
+      assert.ok(Math.abs((await value('polybot_unrealized_pnl_usdc', runnerLabels)) - 0.6) < 1e-9);
+      assert.strictEqual(await value('polybot_realized_pnl_usdc', runnerLabels), runner.trader.getTotalPnL() / 100);
+
+      const text = await registry.metrics();
+      assert.match(text, /^polybot_account\{metric="halted"\} 0$/m);
+      assert.match(text, /^polybot_process_cpu_seconds_total /m);
+      runner.trader.getPositions().delete('token-up');
+    } finally {
+      engine.close();
+    }
+    assert.strictEqual(await value('polybot_bot_running'), 0);
+  });
+});
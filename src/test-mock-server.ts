@@ -0,0 +1,123 @@
+/**
+ * 端到端測試 - MarketFetcher / MarketFeed / 實盤 Trader 對接本地模擬服務器，不需要網絡
+ * 用法: npm run test:e2e
+ */
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Wallet } from 'ethers';
+import { config } from './config.js';
+import { MarketFeed } from './market-feed.js';
+import { MarketFetcher } from './market-fetcher.js';
+import { MockPolymarket } from './mock-polymarket.js';
+import { getSeries } from './series.js';
+import { TradeLedger } from './trade-ledger.js';
+import { Trader } from './trader.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function waitFor(check: () => boolean, label: string, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error(`等待超時: ${label}`);
+    await sleep(50);
+  }
+}
+
+async function test() {
+  console.log('🔍 端到端測試（本地模擬服務器）...\n');
+
+  const mock = new MockPolymarket({ series: ['btc-15m'], pricePath: [{ t: 0, up: 0.5 }] });
+  const port = await mock.start(0);
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-e2e-'));
+
+  // bot 指向模擬服務器，用隨機私鑰走實盤路徑
+  Object.assign(config, {
+    CLOB_HOST: `http://127.0.0.1:${port}`,
+    GAMMA_HOST: `http://127.0.0.1:${port}`,
+    PAPER_TRADING: false,
+    PRIVATE_KEY: Wallet.createRandom().privateKey,
+    FUNDER_ADDRESS: '',
+    PROFIT_TARGET: 2,
+    LOG_FILE: path.join(tmpDir, 'bot.jsonl'),
+  });
+
+  const feed = new MarketFeed(`ws://127.0.0.1:${port}/ws/market`);
+  const fetcher = new MarketFetcher(feed, getSeries('btc-15m'));
+  const trader = new Trader(fetcher, new TradeLedger(path.join(tmpDir, 'ledger.jsonl')));
+
+  try {
+    // 1. 盤口發現和實時行情
+    await fetcher.syncServerTime();
+    const state = await fetcher.getMarketState();
+    assert.ok(state?.currentMarket && state.nextMarket, '找到當前和下一盤口');
+    assert.strictEqual(state.upPrice, 50, 'Gamma 價格');
+    await waitFor(() => feed.hasBook(state.upTokenId), 'WebSocket 訂單簿快照');
+    const book = await fetcher.getOrderBook(state.upTokenId);
+    assert.deepStrictEqual([book.bids[0].price, book.asks[0].price], [0.49, 0.51], '最優買賣價');
+    console.log('✅ 盤口發現與 WebSocket 行情');
+
+    // 2. 實盤買入 → 成交 → 自動掛 Limit Sell
+    assert.ok(await trader.initialize(), 'API key 衍生');
+    assert.strictEqual(await trader.getCollateralBalance(), 1000, 'USDC 餘額');
+    assert.ok(await trader.buy(state.upTokenId, 'Up', 50, 10), '買入');
+    const sell = mock.getOrders().find((o) => o.side === 'SELL' && o.status === 'LIVE');
+    assert.ok(sell, 'Limit Sell 已掛單');
+    assert.deepStrictEqual([sell.price, sell.size], [0.52, 10], 'Limit Sell 價格 = 買入價 + PROFIT_TARGET');
+    console.log('✅ 買入成交並掛 Limit Sell');
+
+    // 3. 價格上漲穿過賣單 → maker 成交，訂單輪詢更新為 FILLED
+    mock.setScenario({ pricePath: [{ t: 0, up: 0.6 }] });
+    await waitFor(() => (feed.getPrice(state.upTokenId) || 0) > 0.55, 'WebSocket 推送新價格');
+    await trader.syncOrders();
+    assert.strictEqual(trader.getOrderManager().getOrder(sell.id)?.status, 'FILLED', '賣單成交');
+    console.log('✅ 價格路徑觸發掛單成交');
+
+    // 4. 部分成交：未成交部分撤銷，按交易所回報數量記錄持倉，單腿多出的部分賣出
+    mock.setScenario({ partialFillRatio: 0.5 });
+    const ordersBefore = mock.getOrders().length;
+    const market = state.allMarkets.find((m) => m.conditionId === state.nextMarket!.conditionId)!;
+    assert.ok(await trader.buyCompleteSet(market, 62, 42, 10), '完整套利');
+    const legs = mock.getOrders().slice(ordersBefore).filter((o) => o.side === 'BUY');
+    assert.deepStrictEqual(legs.map((o) => [o.sizeMatched, o.status]), [[5, 'CANCELED'], [2.5, 'CANCELED']], '未成交部分已撤銷');
+    assert.strictEqual(trader.getPositions().get(market.tokens[1].tokenId)?.size, 2.5, 'Down 按實際成交記錄');
+    console.log('✅ 部分成交');
+
+    // 5. 不成交的掛單：強制清倉只撤該 token 的掛單（同一賬戶其他 Trader 的掛單保留）→ cancelAll
+    mock.setScenario({ fillMode: 'never', partialFillRatio: 1 });
+    const other = new Trader(fetcher, new TradeLedger(path.join(tmpDir, 'other-ledger.jsonl')));
+    assert.ok(await other.initialize(), '同一賬戶的另一個 Trader');
+    assert.ok(await other.requote(state.upTokenId, 'Up', 40, 5, '其他策略報價'), '其他 Trader 掛買單');
+    assert.ok(await trader.requote(state.downTokenId, 'Down', 40, 5, '測試報價'), '掛買單');
+    assert.ok(await trader.forceLiquidate(state.downTokenId, 'Down', 40), '強制清倉');
+    assert.deepStrictEqual(
+      mock.getOrders().filter((o) => o.status === 'LIVE' && o.side === 'BUY').map((o) => o.tokenId),
+      [state.upTokenId],
+      '強制清倉不撤其他 token 的掛單'
+    );
+    assert.strictEqual(other.getOrderManager().getActiveOrders(state.upTokenId, 'BUY').length, 1);
+    assert.strictEqual(trader.getOrderManager().getActiveOrders(state.downTokenId, 'BUY').length, 0);
+    console.log('✅ 強制清倉只撤該 token 的掛單');
+
+    await trader.cancelAllOrders();
+    assert.ok(!mock.getOrders().some((o) => o.status === 'LIVE'), 'cancelAll 撤銷全部掛單');
+    console.log('✅ cancelAll');
+
+    // 6. 已結束盤口的結算結果（按價格路徑）
+    const past = mock.listMarkets().find((m) => m.endTime <= mock.now())!;
+    assert.strictEqual(await fetcher.getResolvedOutcome(past.slug), 'Up', '結算結果');
+    console.log('✅ 結算結果');
+  } finally {
+    feed.close();
+    await mock.stop();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+
+  console.log('\n✅ 全部通過');
+}
+
+test().catch((error) => {
+  console.error('❌ 測試失敗:', error);
+  process.exit(1);
+});
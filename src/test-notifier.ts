@@ -0,0 +1,156 @@
+/**
+ * 通知測試（本地 webhook 接收器，不需要網絡）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import { EventEmitter } from 'events';
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import { config } from './config.js';
+import { Notifier, discordChannel, formatText, parseEvents, telegramChannel, webhookChannel, type NotifyChannel } from './notifier.js';
+import { RiskManager } from './risk-manager.js';
+import { WebhookSink } from './webhook-sink.js';
+import type { BotEngine } from './bot-engine.js';
+import type { ManagedOrder } from './order-manager.js';
+
+describe('Notifier', () => {
+  const sink = new WebhookSink();
+  const original = {
+    NOTIFY_RATE_LIMIT_PER_MINUTE: config.NOTIFY_RATE_LIMIT_PER_MINUTE,
+    NOTIFY_TICK_ERROR_THRESHOLD: config.NOTIFY_TICK_ERROR_THRESHOLD,
+    PAPER_TRADING: config.PAPER_TRADING,
+  };
+  let url = '';
+
+  before(async () => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+    url = `http://127.0.0.1:${await sink.start(0)}`;
+  });
+
+  afterEach(() => {
+    Object.assign(config, original);
+    sink.clear();
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    await sink.stop();
+  });
+
+  it('Telegram / Discord / webhook 的請求格式', async () => {
+    const notifier = new Notifier([
+      telegramChannel('123:abc', '42', url),
+      discordChannel(`${url}/discord`),
+      webhookChannel(`${url}/webhook`),
+    ]);
+    assert.deepStrictEqual(notifier.getChannels(), ['telegram', 'discord', 'webhook']);
+
+    notifier.notify({ type: 'stop_loss', level: 'warn', title: '止損', message: 'Up 10 股 @ 40.0¢', series: 'btc-15m', strategy: 'premarket-scalp' });
+    await notifier.flush();
+
+    const byPath = Object.fromEntries(sink.getReceived().map((w) => [w.path, w.body]));
+    const text = '⚠️ 止損 [btc-15m/premarket-scalp]\nUp 10 股 @ 40.0¢';
+    assert.deepStrictEqual(byPath['/bot123:abc/sendMessage'], { chat_id: '42', text, disable_web_page_preview: true });
+    assert.deepStrictEqual(byPath['/discord'], { content: text });
+    assert.strictEqual(byPath['/webhook'].type, 'stop_loss');
+    assert.strictEqual(byPath['/webhook'].series, 'btc-15m');
+    assert.strictEqual(typeof byPath['/webhook'].timestamp, 'number');
+  });
+
+  it('每個渠道只接收設定的通知類型；未知類型報錯', async () => {
+    const notifier = new Notifier([
+      webhookChannel(`${url}/all`),
+      webhookChannel(`${url}/critical`, parseEvents('risk_halt, liquidation_failed', 'NOTIFY_WEBHOOK_EVENTS')),
+    ]);
+    notifier.notify({ type: 'fill', level: 'info', title: '成交', message: '' });
+    notifier.notify({ type: 'risk_halt', level: 'critical', title: '熔斷', message: '' });
+    await notifier.flush();
+
+    assert.deepStrictEqual(
+      sink.getReceived().map((w) => `${w.path} ${w.body.type}`).sort(),
+      ['/all fill', '/all risk_halt', '/critical risk_halt']
+    );
+    assert.throws(() => parseEvents('fill,fills', 'DISCORD_EVENTS'), /DISCORD_EVENTS 包含未知的通知類型: fills/);
+    assert.deepStrictEqual(parseEvents('', 'DISCORD_EVENTS'), []);
+  });
+
+  it('超過每分鐘上限時丟棄，緊急通知不受限並附上略過的條數', async () => {
+    config.NOTIFY_RATE_LIMIT_PER_MINUTE = 2;
+    const notifier = new Notifier([webhookChannel(`${url}/webhook`)]);
+    for (let i = 0; i < 5; i++) {
+      notifier.notify({ type: 'fill', level: 'info', title: `成交 ${i}`, message: '' });
+    }
+    notifier.notify({ type: 'liquidation_failed', level: 'critical', title: '強制清倉失敗', message: '' });
+    await notifier.flush();
+
+    // 並發發送，到達順序不固定
+    const bodies = sink.getReceived().map((w) => w.body);
+    assert.deepStrictEqual(bodies.map((b) => b.title).sort(), ['強制清倉失敗', '成交 0', '成交 1'].sort());
+    const critical = bodies.find((b) => b.type === 'liquidation_failed');
+    assert.strictEqual(critical.suppressed, 3);
+    assert.ok(bodies.filter((b) => b.type === 'fill').every((b) => b.suppressed === undefined));
+    assert.match(formatText(critical), /限速略過 3 條通知/);
+  });
+
+  it('發送失敗只記錄日誌', async () => {
+    const failing: NotifyChannel = {
+      name: 'broken',
+      events: [],
+      send: () => Promise.reject(new Error('connect ECONNREFUSED')),
+    };
+    const notifier = new Notifier([failing, webhookChannel(`${url}/webhook`)]);
+    notifier.notify({ type: 'test', level: 'info', title: '測試', message: '' });
+    await notifier.flush();
+    assert.strictEqual(sink.getReceived().length, 1);
+  });
+
+  it('引擎和風控事件：啟動、成交、止損、強制清倉、清倉失敗、連續出錯和熔斷', async () => {
+    config.NOTIFY_TICK_ERROR_THRESHOLD = 2;
+    config.PAPER_TRADING = true;
+    const engine = new EventEmitter() as unknown as BotEngine;
+    const risk = new RiskManager();
+    const notifier = new Notifier([webhookChannel(`${url}/webhook`)]);
+    notifier.attach(engine, risk);
+
+    const series = { id: 'btc-15m' } as any;
+    const order = (status: ManagedOrder['status'], filledSize = 10) =>
+      ({ orderId: 'o1', side: 'BUY', outcome: 'Up', price: 45, size: 10, filledSize, avgFillPrice: 44.5, status, paper: true }) as ManagedOrder;
+    const trade = { strategy: 'premarket-scalp', series: 'btc-15m', outcome: 'Up' as const, side: 'SELL' as const, price: 40, size: 10 };
+
+    engine.emit('status', true);
+    engine.emit('order', { order: order('OPEN'), strategy: 'premarket-scalp', series: 'btc-15m' });
+    engine.emit('order', { order: order('FILLED'), strategy: 'premarket-scalp', series: 'btc-15m' });
+    engine.emit('order', { order: order('CANCELLED', 4), strategy: 'premarket-scalp', series: 'btc-15m' });
+    engine.emit('order', { order: order('CANCELLED', 0), strategy: 'premarket-scalp', series: 'btc-15m' });
+    engine.emit('trade', { ...trade, id: '1', timestamp: 0, market: 'm', reason: '保本止損賣出', exitKind: 'break_even_stop', pnl: -50 });
+    engine.emit('trade', { ...trade, id: '2', timestamp: 0, market: 'm', reason: '獲利了結', pnl: 50 });
+    engine.emit('trade', { ...trade, id: '3', timestamp: 0, market: 'm', reason: '開局清倉 (距離開盤 5s)', exitKind: 'force_liquidation', pnl: 0 });
+    engine.emit('trade_failed', { ...trade, timestamp: 0, market: 'm', reason: '風控熔斷清倉', exitKind: 'force_liquidation' });
+    engine.emit('trade_failed', { ...trade, side: 'BUY', timestamp: 0, market: 'm', reason: '盤前買入' });
+    for (let i = 0; i < 3; i++) engine.emit('tick_error', { series, error: new Error('Gamma 503') });
+    engine.emit('tick', { loop: { series } } as any);
+    engine.emit('tick_error', { series, error: new Error('Gamma 503') });
+    risk.halt('當日虧損 50.00 USDC >= 50 USDC');
+    engine.emit('status', false);
+    await notifier.flush();
+
+    const bodies = sink.getReceived().map((w) => w.body);
+    assert.deepStrictEqual(
+      bodies.map((b) => b.type).sort(),
+      ['start', 'fill', 'fill', 'stop_loss', 'force_liquidation', 'liquidation_failed', 'tick_errors', 'risk_halt', 'stop'].sort()
+    );
+    const byType = Object.fromEntries(bodies.map((b) => [b.type, b]));
+    assert.match(byType.start.message, /模擬交易/);
+    // 只在訂單結束且有成交時通知，顯示成交均價
+    assert.deepStrictEqual(Object.fromEntries(bodies.filter((b) => b.type === 'fill').map((b) => [b.title, b.message])), {
+      '成交 BUY Up': '10 股 @ 44.5¢（模擬）',
+      '部分成交 BUY Up': '4/10 股 @ 44.5¢（模擬）',
+    });
+    assert.match(byType.stop_loss.message, /PnL -0\.50 USDC/);
+    assert.strictEqual(byType.liquidation_failed.level, 'critical');
+    assert.strictEqual(byType.tick_errors.title, '連續 2 次 tick 出錯');
+    assert.strictEqual(byType.tick_errors.message, 'Gamma 503');
+    assert.match(byType.risk_halt.message, /當日虧損/);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * 倉位計算測試（離線）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { config, withConfigOverrides } from './config.js';
+import { kellyShares, paperCollateral, sizePosition, validateSizingMode } from './position-sizing.js';
+import { TEST_CONFIG, orderBook, position, positions } from './test-fixtures.js';
+
+Object.assign(config, TEST_CONFIG);
+
+describe('sizePosition', () => {
+  it('fixed: MAX_POSITION_SIZE 股', () => {
+    assert.deepStrictEqual(sizePosition({ price: 40, collateral: 1000 }), { size: 100, reason: '固定 100 股' });
+  });
+
+  it('fixed: 可用資金不足時按資金買入', () => {
+    const result = sizePosition({ price: 40, collateral: 20 });
+    assert.deepStrictEqual(result, { size: 50, reason: '固定 100 股，受限於資金 20.00 USDC' });
+  });
+
+  it('fixed-fraction: 資金 × SIZING_FRACTION / 價格', () => {
+    const result = withConfigOverrides({ POSITION_SIZING: 'fixed-fraction' }, () => sizePosition({ price: 40, collateral: 1000 }));
+    assert.deepStrictEqual(result, { size: 50, reason: '資金 1000.00 USDC × 0.02' });
+  });
+
+  it('fixed-fraction / kelly: 不知道可用資金時不買入', () => {
+    for (const mode of ['fixed-fraction', 'kelly']) {
+      const result = withConfigOverrides({ POSITION_SIZING: mode }, () => sizePosition({ price: 40, collateral: null }));
+      assert.deepStrictEqual(result, { size: 0, reason: '無法獲取可用資金' });
+    }
+  });
+
+  it('kelly: 資金 × (pW − qL) / (W·L) × KELLY_FRACTION', () => {
+    // 100000¢ × (0.6 × 2 − 0.4 × 1) / (2 × 1) = 40000 股 → × 0.25 → 上限 100
+    const result = withConfigOverrides({ POSITION_SIZING: 'kelly', KELLY_FRACTION: 0.25 }, () =>
+      sizePosition({ price: 40, collateral: 1000, winCents: 2, lossCents: 1, winProbability: 0.6 })
+    );
+    assert.strictEqual(result.size, 100);
+    assert.match(result.reason, /^Kelly × 0\.25 \(p=0\.60, \+2\.00¢ \/ -1\.00¢\)，受限於上限 100 股$/);
+
+    const small = withConfigOverrides({ POSITION_SIZING: 'kelly', KELLY_FRACTION: 0.25 }, () =>
+      sizePosition({ price: 40, collateral: 1, winCents: 2, lossCents: 1, winProbability: 0.6 })
+    );
+    assert.strictEqual(small.size, 2, '100¢ × 0.4 / 2 × 0.25 = 5 股，資金只夠 2.5 股');
+  });
+
+  it('kelly: 沒有正期望時不買入', () => {
+    const result = withConfigOverrides({ POSITION_SIZING: 'kelly' }, () =>
+      sizePosition({ price: 40, collateral: 1000, winCents: 1, lossCents: 6, winProbability: 0.6 })
+    );
+    assert.strictEqual(result.size, 0);
+    assert.match(result.reason, /無正期望$/);
+  });
+
+  it('按訂單簿可用流動性 × SIZING_DEPTH_FRACTION 限制', () => {
+    const book = orderBook([], [[0.4, 30], [0.41, 30]]);
+    assert.deepStrictEqual(sizePosition({ price: 40, collateral: 1000, book }), {
+      size: 60,
+      reason: '固定 100 股，受限於深度 60 × 1',
+    });
+
+    const half = withConfigOverrides({ SIZING_DEPTH_FRACTION: 0.5 }, () => sizePosition({ price: 40, collateral: 1000, book }));
+    assert.strictEqual(half.size, 30);
+
+    const off = withConfigOverrides({ SIZING_DEPTH_FRACTION: 0 }, () => sizePosition({ price: 40, collateral: 1000, book }));
+    assert.strictEqual(off.size, 100);
+  });
+
+  it('未知方法拋出錯誤；啟動時的檢查用同一個訊息', () => {
+    assert.throws(() => withConfigOverrides({ POSITION_SIZING: 'martingale' }, () => sizePosition({ price: 40, collateral: 1000 })), /未知倉位計算方法/);
+    assert.throws(() => validateSizingMode('martingale'), /^Error: 未知倉位計算方法: martingale（可用: fixed, fixed-fraction, kelly）$/);
+    assert.doesNotThrow(() => validateSizingMode('kelly'));
+  });
+});
+
+describe('kellyShares / paperCollateral', () => {
+  it('盈虧無效時為 0', () => {
+    assert.strictEqual(kellyShares(1000, 0.9, 0, 1), 0);
+    assert.strictEqual(kellyShares(1000, 0.9, 1, 0), 0);
+  });
+
+  it('模擬資金 = 初始資金 + 已實現盈虧 − 持倉成本', () => {
+    const held = positions(position('a', 'Up', 100, 40), position('b', 'Down', 50, 60));
+    assert.strictEqual(paperCollateral(held, 500), 1000 + (500 - 4000 - 3000) / 100);
+  });
+});
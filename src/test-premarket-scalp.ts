@@ -0,0 +1,313 @@
+/**
+ * premarket-scalp 決策規則測試（離線）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import { before, beforeEach, describe, it, mock } from 'node:test';
+import { config, withConfigOverrides } from './config.js';
+import { PremarketScalpStrategy } from './strategies/premarket-scalp.js';
+import {
+  CURRENT_DOWN,
+  CURRENT_UP,
+  NEXT_DOWN,
+  NEXT_UP,
+  TEST_CONFIG,
+  marketState,
+  orderBook,
+  position,
+  positions,
+  spotState,
+} from './test-fixtures.js';
+import type { Position } from './types.js';
+
+Object.assign(config, TEST_CONFIG);
+
+describe('PremarketScalpStrategy.generateSignals', () => {
+  let strategy: PremarketScalpStrategy;
+  const none = new Map<string, Position>();
+
+  // 策略每個 tick 都會打印檢查過程，測試輸出只保留結果
+  before(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  beforeEach(() => {
+    strategy = new PremarketScalpStrategy();
+  });
+
+  describe('已結束市場的持倉', () => {
+    it('清倉不屬於當前 / 下一盤口的持倉，並跳過其他規則', () => {
+      const held = positions(position('expired', 'Up', 30, 40, 35), position(NEXT_UP, 'Up', 10, 40, 50));
+      const signals = strategy.generateSignals(marketState({ upPrice: 30, downPrice: 70 }), held);
+
+      assert.deepStrictEqual(
+        signals.map((s) => [s.action, s.tokenId, s.size, s.price]),
+        [['SELL', 'expired', 30, 35]]
+      );
+      assert.match(signals[0].reason, /清倉已結束市場持倉/);
+      assert.strictEqual(signals[0].bypassRiskCheck, true);
+      assert.strictEqual(signals[0].exitKind, undefined, '普通賣出，不用 forceLiquidate');
+    });
+
+    it('持有到結算的持倉不清倉', () => {
+      const held = positions(position('expired', 'Up', 30, 40, 40, { holdToResolution: true }));
+      assert.deepStrictEqual(strategy.generateSignals(marketState(), held), []);
+    });
+  });
+
+  describe('下一盤口開局前清倉', () => {
+    it('距離開盤 <= SELL_BEFORE_START_MS 時賣出全部持倉', () => {
+      const held = positions(position(NEXT_UP, 'Up', 20, 45, 46), position(CURRENT_DOWN, 'Down', 5, 60, 70));
+      const signals = strategy.generateSignals(marketState({ timeToStart: 5000 }), held);
+
+      assert.deepStrictEqual(
+        signals.map((s) => [s.action, s.tokenId, s.size, s.price]),
+        [
+          ['SELL', NEXT_UP, 20, 46],
+          ['SELL', CURRENT_DOWN, 5, 70],
+        ]
+      );
+      assert.ok(signals.every((s) => s.reason.includes('開局清倉 (距離開盤 5s)')));
+      assert.ok(signals.every((s) => s.bypassRiskCheck), '強制清倉跳過下單前風控');
+      assert.ok(signals.every((s) => s.exitKind === 'force_liquidation'));
+    });
+
+    it('沒有持倉時不買入', () => {
+      assert.deepStrictEqual(strategy.generateSignals(marketState({ timeToStart: 3000, upPrice: 40, downPrice: 60 }), none), []);
+    });
+
+    it('持有到結算的持倉不清倉', () => {
+      const held = positions(position(NEXT_UP, 'Up', 20, 45, 46, { holdToResolution: true }));
+      assert.deepStrictEqual(strategy.generateSignals(marketState({ timeToStart: 1000 }), held), []);
+    });
+  });
+
+  describe('當前盤口即將結束時清倉', () => {
+    it('沒有下一盤口、剩餘時間 <= SELL_BEFORE_START_MS 時賣出', () => {
+      const held = positions(position(CURRENT_UP, 'Up', 15, 45, 47));
+      const state = marketState({ nextMarket: null, upTokenId: CURRENT_UP, downTokenId: CURRENT_DOWN, timeToStart: 0, timeToEnd: 4000 });
+      const signals = strategy.generateSignals(state, held);
+
+      assert.deepStrictEqual(signals.map((s) => [s.action, s.tokenId, s.size]), [['SELL', CURRENT_UP, 15]]);
+      assert.match(signals[0].reason, /開局清倉 \(當前市場剩餘 4s\)/);
+    });
+
+    it('已經結束 (timeToEnd <= 0) 時不走此規則', () => {
+      const held = positions(position(CURRENT_UP, 'Up', 15, 45, 45));
+      const state = marketState({ nextMarket: null, upTokenId: CURRENT_UP, downTokenId: CURRENT_DOWN, timeToStart: 0, timeToEnd: 0 });
+      assert.deepStrictEqual(strategy.generateSignals(state, held), []);
+    });
+  });
+
+  describe('止損', () => {
+    it('虧損 >= STOP_LOSS 時按現價賣出', () => {
+      const held = positions(position(NEXT_UP, 'Up', 10, 45, 40));
+      const signals = strategy.generateSignals(marketState(), held);
+
+      assert.deepStrictEqual(signals.map((s) => [s.action, s.tokenId, s.price, s.size]), [['SELL', NEXT_UP, 40, 10]]);
+      assert.match(signals[0].reason, /止損賣出 @ 40\.0¢ \(loss: -5\.00¢\)/);
+      assert.strictEqual(signals[0].exitKind, 'stop_loss');
+    });
+
+    it('虧損未達 STOP_LOSS 時繼續持有', () => {
+      const held = positions(position(NEXT_UP, 'Up', 10, 45, 40.5));
+      assert.deepStrictEqual(strategy.generateSignals(marketState(), held), []);
+    });
+
+    it('止損優先於同一 tick 的獲利賣出', () => {
+      const held = positions(position(NEXT_UP, 'Up', 10, 45, 39), position(NEXT_DOWN, 'Down', 10, 40, 45));
+      const signals = strategy.generateSignals(marketState(), held);
+      assert.deepStrictEqual(signals.map((s) => s.tokenId), [NEXT_UP]);
+    });
+  });
+
+  describe('出場規則', () => {
+    it('移動止損：從最高價回落 EXIT_TRAILING_STOP_CENTS 時賣出', () => {
+      const held = positions(position(NEXT_UP, 'Up', 10, 45, 46, { highWaterPrice: 46.9 }));
+      const signals = withConfigOverrides({ EXIT_TRAILING_STOP_CENTS: 0.5 }, () => strategy.generateSignals(marketState(), held));
+
+      assert.deepStrictEqual(signals.map((s) => [s.action, s.tokenId, s.price]), [['SELL', NEXT_UP, 46]]);
+      assert.match(signals[0].reason, /^移動止損賣出 @ 46\.0¢ \(最高 46\.9¢, 止損價 46\.4¢\)/);
+      assert.strictEqual(signals[0].exitKind, 'trailing_stop');
+    });
+
+    it('保本止損：漲過觸發值後回到成本時賣出', () => {
+      const held = positions(position(NEXT_UP, 'Up', 10, 45, 45, { highWaterPrice: 46.5 }));
+      const signals = withConfigOverrides({ EXIT_BREAK_EVEN_TRIGGER_CENTS: 1.5 }, () => strategy.generateSignals(marketState(), held));
+      assert.match(signals[0].reason, /^保本止損賣出 @ 45\.0¢/);
+      assert.strictEqual(signals[0].exitKind, 'break_even_stop');
+
+      const notTriggered = positions(position(NEXT_UP, 'Up', 10, 45, 45, { highWaterPrice: 46 }));
+      assert.deepStrictEqual(
+        withConfigOverrides({ EXIT_BREAK_EVEN_TRIGGER_CENTS: 1.5 }, () => strategy.generateSignals(marketState(), notTriggered)),
+        []
+      );
+    });
+
+    it('獲利目標隨 timeToStart 下降', () => {
+      // 距離開盤 32.5s：在 60s → 5s 之間走了一半，目標從 2¢ 降到 1¢
+      const held = positions(position(NEXT_UP, 'Up', 10, 45, 46));
+      const state = marketState({ timeToStart: 32500 });
+      const signals = withConfigOverrides({ EXIT_TP_DECAY_START_MS: 60000 }, () => strategy.generateSignals(state, held));
+
+      assert.deepStrictEqual(signals.map((s) => [s.action, s.tokenId]), [['SELL', NEXT_UP]]);
+      assert.match(signals[0].reason, /獲利賣出 @ 46\.0¢ \(profit: 1\.00¢, 目標已降至 1\.00¢\)/);
+    });
+
+    it('當前盤口的持倉按 timeToEnd 計算獲利目標', () => {
+      const held = positions(position(CURRENT_UP, 'Up', 10, 45, 46));
+      const early = withConfigOverrides({ EXIT_TP_DECAY_START_MS: 60000 }, () =>
+        strategy.generateSignals(marketState({ timeToStart: 20000, timeToEnd: 120000 }), held)
+      );
+      assert.deepStrictEqual(early, []);
+    });
+  });
+
+  describe('獲利賣出', () => {
+    it('漲幅 >= PROFIT_TARGET 時按現價賣出', () => {
+      const held = positions(position(CURRENT_DOWN, 'Down', 25, 45, 47));
+      const signals = strategy.generateSignals(marketState(), held);
+
+      assert.deepStrictEqual(signals.map((s) => [s.action, s.tokenId, s.price, s.size]), [['SELL', CURRENT_DOWN, 47, 25]]);
+      assert.match(signals[0].reason, /獲利賣出 @ 47\.0¢ \(profit: 2\.00¢\)/);
+    });
+
+    it('漲幅未達 PROFIT_TARGET 時不賣出', () => {
+      const held = positions(position(CURRENT_DOWN, 'Down', 25, 45, 46.9));
+      assert.deepStrictEqual(strategy.generateSignals(marketState(), held), []);
+    });
+  });
+
+  describe('盤前買入', () => {
+    it('Up 低於 MAX_BUY_PRICE 時買入 MAX_POSITION_SIZE 股 Up', () => {
+      const signals = strategy.generateSignals(marketState({ upPrice: 48, downPrice: 52 }), none);
+
+      assert.deepStrictEqual(signals.map((s) => [s.action, s.tokenId, s.outcome, s.price, s.size]), [['BUY', NEXT_UP, 'Up', 48, 100]]);
+      assert.match(signals[0].reason, /^盤前買入 Up @ 48\.0¢/);
+    });
+
+    it('Up 太貴時改買 Down', () => {
+      const signals = strategy.generateSignals(marketState({ upPrice: 53, downPrice: 47 }), none);
+      assert.deepStrictEqual(signals.map((s) => [s.action, s.tokenId, s.outcome, s.price]), [['BUY', NEXT_DOWN, 'Down', 47]]);
+    });
+
+    it('兩邊都不低於 MAX_BUY_PRICE 時不買入', () => {
+      assert.deepStrictEqual(strategy.generateSignals(marketState({ upPrice: 50, downPrice: 50, currentUpPrice: 50, currentDownPrice: 50 }), none), []);
+    });
+
+    it('已持有該盤口時不再買入', () => {
+      const held = positions(position(NEXT_DOWN, 'Down', 10, 47, 47));
+      const signals = strategy.generateSignals(marketState({ upPrice: 45, downPrice: 55 }), held);
+      assert.deepStrictEqual(signals, []);
+    });
+
+    it('距離開盤 <= MIN_TIME_TO_TRADE_MS 時暫停買入', () => {
+      const state = marketState({ timeToStart: 6000, upPrice: 40, downPrice: 60, currentUpPrice: 40, currentDownPrice: 60 });
+      assert.deepStrictEqual(strategy.generateSignals(state, none), []);
+    });
+
+    it('趨勢寫入買入原因', () => {
+      const signals = strategy.generateSignals(marketState({ upPrice: 45, downPrice: 56 }), none);
+      assert.match(signals[0].reason, /trend: Down/);
+    });
+  });
+
+  describe('買入數量', () => {
+    it('按訂單簿深度限制數量並寫入 sizeReason', () => {
+      const books = { [NEXT_UP]: orderBook([[0.47, 100]], [[0.48, 40]]) };
+      const [signal] = strategy.generateSignals(marketState({ upPrice: 48, downPrice: 52 }), none, books, { collateral: 1000 });
+
+      assert.deepStrictEqual([signal.tokenId, signal.size], [NEXT_UP, 40]);
+      assert.strictEqual(signal.sizeReason, '固定 100 股，受限於深度 40 × 1');
+    });
+
+    it('kelly 沒有正期望時不買入', () => {
+      // 勝率 0.6：+2¢ / -5¢ 扣手續費後期望為負
+      const signals = withConfigOverrides({ POSITION_SIZING: 'kelly' }, () =>
+        strategy.generateSignals(marketState({ upPrice: 48, downPrice: 52 }), none, {}, { collateral: 1000 })
+      );
+      assert.deepStrictEqual(signals, []);
+    });
+
+    it('kelly 有正期望時按資金計算數量', () => {
+      const [signal] = withConfigOverrides({ POSITION_SIZING: 'kelly', KELLY_WIN_PROBABILITY: 0.9 }, () =>
+        strategy.generateSignals(marketState({ upPrice: 48, downPrice: 52 }), none, {}, { collateral: 10 })
+      );
+      // W = 2 − 0.98 = 1.02¢，L = 5 + 0.91 = 5.91¢ → 1000¢ × (0.9W − 0.1L) / (W·L) × 0.25 ≈ 13.6
+      assert.deepStrictEqual([signal.tokenId, signal.size], [NEXT_UP, 13]);
+      assert.match(signal.sizeReason!, /^Kelly × 0\.25 \(p=0\.90/);
+    });
+
+    it('Up 數量為 0 時改買 Down', () => {
+      const books = { [NEXT_UP]: orderBook([], []), [NEXT_DOWN]: orderBook([], [[0.47, 200]]) };
+      const signals = strategy.generateSignals(marketState({ upPrice: 48, downPrice: 47 }), none, books, { collateral: 1000 });
+      assert.deepStrictEqual(signals.map((s) => [s.tokenId, s.size]), [[NEXT_DOWN, 100]]);
+    });
+  });
+
+  describe('公允價入場', () => {
+    const fairEntry = <T>(fn: () => T): T => withConfigOverrides({ FAIR_VALUE_ENTRY: true }, fn);
+
+    it('下一盤口公允價 50¢：邊際超過來回手續費 + ENTRY_MIN_EDGE_CENTS 時買入', () => {
+      const books = { [NEXT_UP]: orderBook([[0.45, 200]], [[0.46, 200]]) };
+      const signals = fairEntry(() => strategy.generateSignals(marketState({ upPrice: 45.5, downPrice: 54.5 }), none, books));
+
+      assert.deepStrictEqual(signals.map((s) => [s.action, s.tokenId]), [['BUY', NEXT_UP]]);
+      assert.match(signals[0].reason, /fair: 50\.0¢, ask: 46\.0¢, edge: 4\.00¢/);
+    });
+
+    it('邊際不足時不買入（手續費 (49 + 50) × 1% + 1¢）', () => {
+      const books = { [NEXT_UP]: orderBook([[0.48, 200]], [[0.49, 200]]) };
+      const state = marketState({ upPrice: 48.5, downPrice: 51.5 });
+      assert.deepStrictEqual(fairEntry(() => strategy.generateSignals(state, none, books)), []);
+      assert.strictEqual(strategy.generateSignals(state, none, books).length, 1, 'FAIR_VALUE_ENTRY 關閉時只看 MAX_BUY_PRICE');
+    });
+
+    it('當前盤口按現貨相對開盤價的漲幅計算公允價', () => {
+      // ln(100.2 / 100) / (0.0005 × √240) ≈ 0.258 → P(Up) ≈ 60.2%
+      const state = marketState({ timeToEnd: 240000, currentUpPrice: 55, currentDownPrice: 45, spot: spotState() });
+      const signals = fairEntry(() => strategy.generateSignals(state, none));
+      assert.deepStrictEqual(signals, [], 'Down 公允價 ≈ 39.8¢ < 45¢');
+
+      const cheapUp = marketState({ timeToEnd: 240000, currentUpPrice: 45, currentDownPrice: 55, spot: spotState() });
+      const [signal] = fairEntry(() => strategy.generateSignals(cheapUp, none));
+      assert.deepStrictEqual([signal.action, signal.tokenId], ['BUY', CURRENT_UP]);
+      assert.match(signal.reason, /fair: 60\.2¢/);
+    });
+
+    it('沒有現貨數據時不在當前盤口買入', () => {
+      const state = marketState({ currentUpPrice: 40, currentDownPrice: 60 });
+      assert.deepStrictEqual(fairEntry(() => strategy.generateSignals(state, none)), []);
+    });
+  });
+
+  describe('盤中低吸', () => {
+    it('下一盤口沒有機會時在當前盤口買入', () => {
+      const signals = strategy.generateSignals(marketState({ currentUpPrice: 55, currentDownPrice: 45 }), none);
+
+      assert.deepStrictEqual(signals.map((s) => [s.action, s.tokenId, s.outcome, s.price, s.size]), [['BUY', CURRENT_DOWN, 'Down', 45, 100]]);
+      assert.match(signals[0].reason, /^盤中低吸買入 Down/);
+    });
+
+    it('盤前買入優先於盤中低吸', () => {
+      const signals = strategy.generateSignals(marketState({ upPrice: 49, downPrice: 51, currentUpPrice: 40, currentDownPrice: 60 }), none);
+      assert.deepStrictEqual(signals.map((s) => s.tokenId), [NEXT_UP]);
+    });
+
+    it('當前盤口剩餘時間 <= SELL_BEFORE_START_MS + 60s 時不買入', () => {
+      const state = marketState({ currentUpPrice: 40, currentDownPrice: 60, timeToEnd: 65000 });
+      assert.deepStrictEqual(strategy.generateSignals(state, none), []);
+    });
+
+    it('ALLOW_CURRENT_MARKET_TRADING=false 時不買入', () => {
+      const state = marketState({ currentUpPrice: 40, currentDownPrice: 60 });
+      const signals = withConfigOverrides({ ALLOW_CURRENT_MARKET_TRADING: false }, () => strategy.generateSignals(state, none));
+      assert.deepStrictEqual(signals, []);
+    });
+
+    it('沒有下一盤口時 (timeToStart = 0) 時間窗口檢查阻止盤中低吸', () => {
+      const state = marketState({ nextMarket: null, upTokenId: CURRENT_UP, downTokenId: CURRENT_DOWN, timeToStart: 0, currentUpPrice: 42, currentDownPrice: 58 });
+      assert.deepStrictEqual(strategy.generateSignals(state, none), []);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * RiskManager 規則測試（離線）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import { before, describe, it, mock } from 'node:test';
+import { config, withConfigOverrides } from './config.js';
+import { RiskManager } from './risk-manager.js';
+import { TEST_CONFIG, orderBook } from './test-fixtures.js';
+
+Object.assign(config, TEST_CONFIG);
+
+const close = (actual: number, expected: number, message?: string) =>
+  assert.ok(Math.abs(actual - expected) < 1e-9, message || `${actual} ≈ ${expected}`);
+
+describe('RiskManager.analyzeOrderBook', () => {
+  const risk = new RiskManager();
+  const book = orderBook(
+    [[0.49, 40], [0.48, 100]],
+    [[0.51, 40], [0.52, 60], [0.6, 100]]
+  );
+
+  it('買入吃 asks：計算有效價格、滑點和 taker 手續費', () => {
+    const analysis = risk.analyzeOrderBook(book, 'BUY', 80, 51);
+
+    assert.strictEqual(analysis.canTrade, true);
+    assert.strictEqual(analysis.reason, 'OK');
+    close(analysis.effectivePrice, 51.5); // (40 × 51 + 40 × 52) / 80
+    close(analysis.slippage, 0.5);
+    close(analysis.estimatedFee, 41.2); // 41.2 USDC × 1% → cents
+    assert.strictEqual(analysis.availableLiquidity, 100, '只累計到成交為止的檔位');
+  });
+
+  it('賣出吃 bids', () => {
+    const analysis = risk.analyzeOrderBook(book, 'SELL', 60, 49);
+    assert.strictEqual(analysis.canTrade, true);
+    close(analysis.effectivePrice, (40 * 49 + 20 * 48) / 60);
+  });
+
+  it('訂單簿為空時拒絕', () => {
+    const analysis = risk.analyzeOrderBook(orderBook([], []), 'BUY', 10, 50);
+    assert.deepStrictEqual([analysis.canTrade, analysis.reason, analysis.availableLiquidity], [false, '訂單簿為空', 0]);
+  });
+
+  it('流動性不足時拒絕', () => {
+    const analysis = risk.analyzeOrderBook(book, 'SELL', 200, 49);
+    assert.strictEqual(analysis.canTrade, false);
+    assert.strictEqual(analysis.reason, '流動性不足: 需要 200, 可用 140');
+    assert.strictEqual(analysis.availableLiquidity, 140);
+  });
+
+  it('滑點超過 MAX_SLIPPAGE_CENTS 時拒絕', () => {
+    // 40 × 51 + 60 × 52 + 100 × 60 → 平均 55.8¢，滑點 4.8¢
+    const analysis = risk.analyzeOrderBook(book, 'BUY', 200, 51);
+    assert.strictEqual(analysis.canTrade, false);
+    assert.match(analysis.reason, /^滑點過大: 4\.80¢ > 1¢$/);
+    close(analysis.slippage, 4.8);
+  });
+
+  it('滑點剛好等於上限時允許', () => {
+    const analysis = risk.analyzeOrderBook(orderBook([], [[0.5, 50], [0.52, 50]]), 'BUY', 100, 50);
+    close(analysis.slippage, 1);
+    assert.strictEqual(analysis.canTrade, true);
+  });
+
+  it('訂單簿深度低於 MIN_ORDERBOOK_DEPTH 時拒絕', () => {
+    const analysis = risk.analyzeOrderBook(orderBook([], [[0.51, 30]]), 'BUY', 20, 51);
+    assert.strictEqual(analysis.canTrade, false);
+    assert.strictEqual(analysis.reason, '訂單簿深度不足: 30 < 50');
+  });
+
+  it('深度檢查使用配置值', () => {
+    const analysis = withConfigOverrides({ MIN_ORDERBOOK_DEPTH: 20 }, () =>
+      risk.analyzeOrderBook(orderBook([], [[0.51, 30]]), 'BUY', 20, 51)
+    );
+    assert.strictEqual(analysis.canTrade, true);
+  });
+});
+
+describe('RiskManager.calculateMinPriceMove', () => {
+  const risk = new RiskManager();
+
+  it('x = (目標淨利 / 股數 + 2 × 買價 × 費率) / (1 - 費率)，向上取整到 0.1¢', () => {
+    // (2 / 100 + 2 × 50 × 0.01) / 0.99 = 1.0303... → 1.1
+    assert.strictEqual(risk.calculateMinPriceMove(50, 2, 100), 1.1);
+    // (10 / 10 + 2 × 40 × 0.01) / 0.99 = 1.8181... → 1.9
+    assert.strictEqual(risk.calculateMinPriceMove(40, 10, 10), 1.9);
+  });
+
+  it('無手續費時只需覆蓋目標淨利', () => {
+    const move = withConfigOverrides({ TAKER_FEE_PERCENT: 0 }, () => risk.calculateMinPriceMove(50, 30, 100));
+    assert.strictEqual(move, 0.3);
+  });
+
+  it('按最小變動賣出時淨利不低於目標', () => {
+    for (const buyPrice of [10, 35, 50, 72, 95]) {
+      const move = risk.calculateMinPriceMove(buyPrice, 2, 100);
+      const { netProfit } = risk.calculateNetProfit(buyPrice, buyPrice + move, 100);
+      assert.ok(netProfit >= 2 - 1e-9, `買價 ${buyPrice}¢：淨利 ${netProfit.toFixed(3)}¢`);
+    }
+  });
+});
+
+describe('RiskManager.calculateNetProfit', () => {
+  it('買賣兩邊都扣 taker 手續費', () => {
+    const result = new RiskManager().calculateNetProfit(50, 52, 100);
+    close(result.grossProfit, 200);
+    close(result.fees, 102);
+    close(result.netProfit, 98);
+    assert.strictEqual(result.profitable, true);
+  });
+});
+
+describe('RiskManager.checkTimeWindow', () => {
+  const risk = new RiskManager();
+
+  it('距離開盤 <= SELL_BEFORE_START_MS 時需要清倉', () => {
+    assert.deepStrictEqual(risk.checkTimeWindow(5000), { canTrade: false, reason: '距離開盤 5s，需要清倉' });
+  });
+
+  it('距離開盤 <= MIN_TIME_TO_TRADE_MS 時暫停交易', () => {
+    assert.deepStrictEqual(risk.checkTimeWindow(6000), { canTrade: false, reason: '距離開盤 6s < 6s，暫停交易' });
+  });
+
+  it('其餘時間可以交易', () => {
+    assert.deepStrictEqual(risk.checkTimeWindow(6001), { canTrade: true, reason: 'OK' });
+  });
+});
+
+describe('RiskManager 賬戶級風控', () => {
+  const now = Date.parse('2026-01-01T12:00:00Z');
+
+  // 熔斷和冷卻會打印日誌，測試輸出只保留結果
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  it('當日虧損達到 MAX_DAILY_LOSS_USDC 時熔斷並發出 halt 事件', () => {
+    const risk = new RiskManager();
+    const halts: string[] = [];
+    risk.on('halt', (status) => halts.push(status.haltReason!));
+
+    risk.recordRealizedPnl(-3000, now);
+    risk.recordRealizedPnl(1000, now);
+    assert.strictEqual(risk.isHalted(), false);
+
+    risk.recordRealizedPnl(-3000, now); // 累計 -50 USDC
+    assert.strictEqual(risk.isHalted(), true);
+    assert.deepStrictEqual(halts, ['當日虧損 50.00 USDC >= 50 USDC']);
+    assert.deepStrictEqual(risk.checkAccountLimits(0, now).reasons, ['風控熔斷: 當日虧損 50.00 USDC >= 50 USDC']);
+  });
+
+  it('跨 UTC 日重置當日虧損', () => {
+    const risk = new RiskManager();
+    risk.recordRealizedPnl(-4000, now);
+    risk.recordRealizedPnl(-4000, now + 24 * 60 * 60 * 1000);
+    assert.strictEqual(risk.isHalted(), false);
+    assert.strictEqual(risk.getAccountStatus(now + 24 * 60 * 60 * 1000).dailyRealizedPnl, -4000);
+  });
+
+  it('連續虧損盤口數達到上限時熔斷，盈利盤口重置計數，無成交盤口不計', () => {
+    const risk = new RiskManager();
+    risk.recordRound('btc-15m/test', -10, now);
+    risk.recordRound('btc-15m/test', -10, now);
+    risk.recordRound('btc-15m/test', 5, now);
+    risk.recordRound('btc-15m/test', -10, now);
+    risk.recordRound('btc-15m/test', 0, now);
+    risk.recordRound('btc-15m/test', -10, now);
+    assert.strictEqual(risk.getAccountStatus(now).consecutiveLosingRounds, 2);
+    assert.strictEqual(risk.isHalted(), false);
+
+    risk.recordRound('eth-15m/test', -10, now);
+    assert.strictEqual(risk.isHalted(), true, '所有系列合計');
+  });
+
+  it('持倉名義金額超過 MAX_OPEN_NOTIONAL_USDC 時拒絕買入', () => {
+    const risk = new RiskManager();
+    risk.updateExposure('btc-15m/a', 30000);
+    risk.updateExposure('eth-15m/a', 15000);
+    assert.strictEqual(risk.checkAccountLimits(5000, now).canTrade, true);
+    assert.deepStrictEqual(risk.checkAccountLimits(5100, now).reasons, ['持倉名義金額超限: 450.00 + 51.00 > 500 USDC']);
+
+    risk.updateExposure('btc-15m/a', 0);
+    assert.strictEqual(risk.checkAccountLimits(5100, now).canTrade, true);
+  });
+
+  it('止損後 STOP_LOSS_COOLDOWN_MS 內暫停買入', () => {
+    const risk = new RiskManager();
+    risk.recordStopLoss(now);
+    assert.deepStrictEqual(risk.checkAccountLimits(0, now + 1000).reasons, ['止損冷卻中，剩餘 59s']);
+    assert.strictEqual(risk.checkAccountLimits(0, now + 60000).canTrade, true);
+  });
+
+  it('限制為 0 時不生效', () => {
+    const risk = new RiskManager();
+    withConfigOverrides({ MAX_DAILY_LOSS_USDC: 0, MAX_OPEN_NOTIONAL_USDC: 0 }, () => {
+      risk.recordRealizedPnl(-1e6, now);
+      assert.strictEqual(risk.checkAccountLimits(1e9, now).canTrade, true);
+    });
+  });
+
+  it('重新啟用後清除熔斷、冷卻和計數，當日虧損從 0 計算', () => {
+    const risk = new RiskManager();
+    risk.recordStopLoss(now);
+    risk.recordRealizedPnl(-6000, now);
+    assert.strictEqual(risk.isHalted(), true);
+
+    risk.rearm(now);
+    const status = risk.getAccountStatus(now);
+    assert.deepStrictEqual(
+      [status.halted, status.haltReason, status.dailyRealizedPnl, status.consecutiveLosingRounds, status.cooldownUntil],
+      [false, null, 0, 0, null]
+    );
+    assert.strictEqual(risk.checkAccountLimits(0, now).canTrade, true);
+  });
+});
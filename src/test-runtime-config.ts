@@ -0,0 +1,139 @@
+/**
+ * 運行時配置測試（離線）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import { config } from './config.js';
+import { BUILTIN_PROFILES, RUNTIME_FIELDS, RuntimeConfigStore, validateRuntimeConfig } from './runtime-config.js';
+
+describe('RuntimeConfigStore', () => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'runtime-config-'));
+  const file = path.join(tmpDir, 'data', 'runtime-config.json');
+  const historyFile = path.join(tmpDir, 'logs', 'config-history.jsonl');
+  const original = Object.fromEntries(RUNTIME_FIELDS.map((f) => [f.key, config[f.key]]));
+  const store = () => new RuntimeConfigStore({ file, historyFile });
+
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+  });
+
+  afterEach(() => {
+    Object.assign(config, original);
+    fs.rmSync(path.join(tmpDir, 'data'), { recursive: true, force: true });
+    fs.rmSync(path.join(tmpDir, 'logs'), { recursive: true, force: true });
+  });
+
+  after(() => {
+    mock.restoreAll();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('校驗類型和範圍，接受 field 名稱和配置鍵', () => {
+    const { values, errors } = validateRuntimeConfig({
+      maxBuyPrice: 100,
+      stopLoss: 0,
+      maxPositionSize: 1.5,
+      paperTrade: 'yes',
+      funderAddress: '0x123',
+      strategies: ['premarket-scalp', 'nope'],
+      privateKey: 'x',
+      PROFIT_TARGET: 3,
+    });
+    assert.deepStrictEqual(errors, [
+      'maxBuyPrice 必須小於 100',
+      'stopLoss 必須大於 0',
+      'maxPositionSize 必須是整數',
+      'paperTrade 必須是 true 或 false',
+      'funderAddress 必須是 0x 開頭的 40 位十六進制地址，或留空',
+      'strategies 包含未知的值: nope',
+      '不支持修改的參數: privateKey',
+    ]);
+    assert.deepStrictEqual(values, { PROFIT_TARGET: 3 });
+  });
+
+  it('修改寫入磁盤和變更歷史；任何一項不合法時全部不套用', () => {
+    const runtime = store();
+    const changes = runtime.update({ maxBuyPrice: 45, stopLoss: config.STOP_LOSS }, { user: 'alice' });
+    assert.deepStrictEqual(changes, [{ key: 'MAX_BUY_PRICE', from: original.MAX_BUY_PRICE, to: 45 }]);
+    assert.strictEqual(config.MAX_BUY_PRICE, 45);
+    assert.deepStrictEqual(JSON.parse(fs.readFileSync(file, 'utf8')).values, { MAX_BUY_PRICE: 45 });
+
+    assert.throws(() => runtime.update({ profitTarget: 3, maxBuyPrice: -1 }, { user: 'alice' }), /maxBuyPrice 必須大於 0/);
+    assert.strictEqual(config.PROFIT_TARGET, original.PROFIT_TARGET);
+
+    const [entry] = runtime.getHistory();
+    assert.strictEqual(runtime.getHistory().length, 1);
+    assert.strictEqual(entry.user, 'alice');
+    assert.strictEqual(entry.action, 'update');
+    assert.deepStrictEqual(entry.changes, changes);
+  });
+
+  it('重啟後載入保存的修改，忽略不合法的值', () => {
+    store().update({ profitTarget: 3, series: ['btc-1h'] }, { user: 'alice' });
+    const saved = JSON.parse(fs.readFileSync(file, 'utf8'));
+    saved.values.STOP_LOSS = 500;
+    fs.writeFileSync(file, JSON.stringify(saved));
+    Object.assign(config, original);
+
+    store().load();
+    assert.strictEqual(config.PROFIT_TARGET, 3);
+    assert.deepStrictEqual(config.SERIES, ['btc-1h']);
+    assert.strictEqual(config.STOP_LOSS, original.STOP_LOSS);
+  });
+
+  it('運行中只能修改交易參數，相同的值不算修改', () => {
+    const runtime = store();
+    assert.throws(
+      () => runtime.update({ paperTrade: !config.PAPER_TRADING, maxBuyPrice: 30 }, { user: 'alice', running: true }),
+      /paperTrade 只能在機器人停止時修改/
+    );
+    assert.strictEqual(config.MAX_BUY_PRICE, original.MAX_BUY_PRICE);
+
+    runtime.update({ paperTrade: config.PAPER_TRADING, series: config.SERIES, maxBuyPrice: 30 }, { user: 'alice', running: true });
+    assert.strictEqual(config.MAX_BUY_PRICE, 30);
+  });
+
+  it('套用內建配置檔，手動修改交易參數後不再標記為該配置檔', () => {
+    const runtime = store();
+    runtime.applyProfile('conservative', { user: 'alice', running: true });
+    assert.strictEqual(config.MAX_BUY_PRICE, BUILTIN_PROFILES.conservative.MAX_BUY_PRICE);
+    assert.strictEqual(config.ALLOW_CURRENT_MARKET_TRADING, false);
+    assert.strictEqual(runtime.getActiveProfile(), 'conservative');
+    assert.strictEqual(runtime.getHistory()[0].profile, 'conservative');
+
+    runtime.update({ funderAddress: '' }, { user: 'alice' });
+    assert.strictEqual(runtime.getActiveProfile(), 'conservative');
+    runtime.update({ stopLoss: 4 }, { user: 'alice' });
+    assert.strictEqual(runtime.getActiveProfile(), null);
+    assert.throws(() => runtime.applyProfile('missing', { user: 'alice' }), /找不到配置檔/);
+  });
+
+  it('自訂配置檔：保存當前交易參數、重啟後保留、不能覆蓋內建配置檔', () => {
+    const runtime = store();
+    runtime.update({ maxBuyPrice: 35, maxPositionSize: 20 }, { user: 'alice' });
+    runtime.saveProfile('night', 'alice');
+    assert.throws(() => runtime.saveProfile('aggressive', 'alice'), /內建/);
+    assert.throws(() => runtime.saveProfile('Bad Name', 'alice'), /名稱/);
+
+    runtime.applyProfile('aggressive', { user: 'alice' });
+    const reloaded = store();
+    reloaded.load();
+    assert.strictEqual(config.MAX_BUY_PRICE, BUILTIN_PROFILES.aggressive.MAX_BUY_PRICE);
+    assert.strictEqual(reloaded.getActiveProfile(), 'aggressive');
+
+    const night = reloaded.listProfiles().find((p) => p.name === 'night');
+    assert.strictEqual(night?.builtin, false);
+    assert.strictEqual(night?.values.maxBuyPrice, 35);
+    reloaded.applyProfile('night', { user: 'alice' });
+    assert.strictEqual(config.MAX_POSITION_SIZE, 20);
+
+    reloaded.deleteProfile('night', 'alice');
+    assert.strictEqual(reloaded.getActiveProfile(), null);
+    assert.throws(() => reloaded.deleteProfile('conservative', 'alice'), /內建/);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * 市場系列 slug 生成、匹配和系列配置測試（離線）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import { describe, it, mock } from 'node:test';
+import { config, parseSeriesConfig, withConfigOverrides } from './config.js';
+import { buildSeriesSlug, getSeries, intervalStart, matchesSeries, registerSeries, seriesConfigOverrides } from './series.js';
+import { TEST_CONFIG } from './test-fixtures.js';
+
+Object.assign(config, TEST_CONFIG);
+
+const btc15m = getSeries('btc-15m');
+const btc1h = getSeries('btc-1h');
+
+describe('buildSeriesSlug', () => {
+  it('15 分鐘系列使用開始時間的 unix 秒', () => {
+    const start = intervalStart(btc15m, Date.UTC(2026, 9, 19, 3, 7, 30));
+    assert.strictEqual(start, Date.UTC(2026, 9, 19, 3, 0));
+    assert.strictEqual(buildSeriesSlug(btc15m, start), `btc-updown-15m-${start / 1000}`);
+  });
+
+  it('1 小時系列使用美東時間，午夜為 12am、中午為 12pm', () => {
+    // 2026-10-19 為夏令時 (UTC-4)
+    assert.strictEqual(buildSeriesSlug(btc1h, Date.UTC(2026, 9, 19, 4)), 'bitcoin-up-or-down-october-19-12am-et');
+    assert.strictEqual(buildSeriesSlug(btc1h, Date.UTC(2026, 9, 19, 16)), 'bitcoin-up-or-down-october-19-12pm-et');
+    assert.strictEqual(buildSeriesSlug(btc1h, Date.UTC(2026, 9, 19, 19)), 'bitcoin-up-or-down-october-19-3pm-et');
+    assert.strictEqual(buildSeriesSlug(getSeries('sol-1h'), Date.UTC(2026, 9, 20, 3)), 'solana-up-or-down-october-19-11pm-et');
+  });
+
+  it('夏令時切換前後按當時的美東時差', () => {
+    // 2026-03-08 02:00 EST 撥快到 03:00 EDT
+    assert.strictEqual(buildSeriesSlug(btc1h, Date.UTC(2026, 2, 8, 6)), 'bitcoin-up-or-down-march-8-1am-et');
+    assert.strictEqual(buildSeriesSlug(btc1h, Date.UTC(2026, 2, 8, 7)), 'bitcoin-up-or-down-march-8-3am-et');
+
+    // 2026-11-01 02:00 EDT 撥回 01:00 EST
+    assert.strictEqual(buildSeriesSlug(btc1h, Date.UTC(2026, 10, 1, 4)), 'bitcoin-up-or-down-november-1-12am-et');
+    assert.strictEqual(buildSeriesSlug(btc1h, Date.UTC(2026, 10, 1, 7)), 'bitcoin-up-or-down-november-1-2am-et');
+  });
+});
+
+describe('matchesSeries', () => {
+  it('只匹配同一系列的 slug', () => {
+    assert.ok(matchesSeries(btc15m, 'btc-updown-15m-1760000000'));
+    assert.ok(!matchesSeries(btc15m, 'eth-updown-15m-1760000000'));
+    assert.ok(!matchesSeries(btc15m, 'btc-updown-15m-1760000000-extra'));
+    assert.ok(!matchesSeries(btc15m, undefined));
+
+    assert.ok(matchesSeries(btc1h, 'bitcoin-up-or-down-october-19-12am-et'));
+    assert.ok(!matchesSeries(btc1h, 'ethereum-up-or-down-october-19-12am-et'));
+    assert.ok(!matchesSeries(btc1h, 'bitcoin-up-or-down-october-19-12am'));
+  });
+
+  it('生成的 slug 都能匹配回自己的系列', () => {
+    for (const id of ['btc-15m', 'eth-15m', 'sol-15m', 'btc-1h', 'eth-1h', 'sol-1h']) {
+      const series = getSeries(id);
+      assert.ok(matchesSeries(series, buildSeriesSlug(series, Date.UTC(2026, 9, 19, 16))), id);
+    }
+  });
+
+  it('重複註冊和未知系列時報錯', () => {
+    assert.throws(() => registerSeries(btc15m), /系列已註冊: btc-15m/);
+    assert.throws(() => getSeries('doge-5m'), /未知系列: doge-5m（可用: btc-15m, eth-15m, sol-15m, btc-1h, eth-1h, sol-1h）/);
+  });
+});
+
+describe('seriesConfigOverrides', () => {
+  it('只保留 config 中已有且類型相同的鍵', () => {
+    const warn = mock.method(console, 'warn', () => {});
+    try {
+      const overrides = withConfigOverrides(
+        { SERIES_CONFIG: { 'btc-1h': { MAX_BUY_PRICE: 45, PROFIT_TARGET: '3', NOT_A_KEY: 1, STRATEGIES: ['complete-set-arb'] } } },
+        () => [seriesConfigOverrides('btc-1h'), seriesConfigOverrides('btc-15m')]
+      );
+
+      assert.deepStrictEqual(overrides, [{ MAX_BUY_PRICE: 45, STRATEGIES: ['complete-set-arb'] }, {}]);
+      assert.strictEqual(warn.mock.callCount(), 2);
+    } finally {
+      warn.mock.restore();
+    }
+  });
+});
+
+describe('parseSeriesConfig', () => {
+  it('解析系列 id 到配置覆蓋的 JSON 對象', () => {
+    assert.deepStrictEqual(parseSeriesConfig('{"btc-1h": {"MAX_BUY_PRICE": 45}}'), { 'btc-1h': { MAX_BUY_PRICE: 45 } });
+    assert.deepStrictEqual(parseSeriesConfig('{}'), {});
+  });
+
+  it('JSON 不合法或結構不對時拋出並指明 SERIES_CONFIG', () => {
+    assert.throws(() => parseSeriesConfig('{btc-1h'), /SERIES_CONFIG 不是合法的 JSON/);
+    assert.throws(() => parseSeriesConfig('[]'), /SERIES_CONFIG 必須是 JSON 對象/);
+    assert.throws(() => parseSeriesConfig('{"btc-1h": 45}'), /SERIES_CONFIG\.btc-1h 必須是 JSON 對象/);
+  });
+});
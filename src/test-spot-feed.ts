@@ -0,0 +1,202 @@
+/**
+ * 現貨價格測試（離線，Binance 用本地 WebSocket 模擬）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { after, before, describe, it, mock } from 'node:test';
+import { WebSocketServer } from 'ws';
+import { config } from './config.js';
+import { BinanceSpotSource, ReplaySpotSource, SpotFeed, readSpotTicks, type SpotTick } from './spot-feed.js';
+import { TEST_CONFIG } from './test-fixtures.js';
+
+Object.assign(config, TEST_CONFIG);
+
+const T0 = 1_760_000_000_000;
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function waitFor(check: () => boolean, label: string, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error(`等待超時: ${label}`);
+    await sleep(20);
+  }
+}
+
+describe('SpotFeed', () => {
+  const feed = () => new SpotFeed(new ReplaySpotSource(path.join(tmpDir, 'empty.jsonl'), false));
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'spot-feed-'));
+
+  before(() => {
+    mock.method(console, 'log', () => {});
+    fs.writeFileSync(path.join(tmpDir, 'empty.jsonl'), '');
+  });
+
+  after(() => {
+    mock.restoreAll();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('同一秒只保留最後一筆，忽略亂序的舊成交', () => {
+    const spot = feed();
+    spot.record({ symbol: 'btcusdt', price: 100, timestamp: T0 + 100 });
+    spot.record({ symbol: 'BTCUSDT', price: 101, timestamp: T0 + 900 });
+    spot.record({ symbol: 'BTCUSDT', price: 99, timestamp: T0 + 500 });
+
+    assert.strictEqual(spot.getPrice('BTCUSDT'), 101);
+    assert.strictEqual(spot.getSpotState('BTCUSDT', null, T0 + 1000)?.updatedAt, T0 + 900);
+  });
+
+  it('開盤價取盤口開始時或之前的最後一個樣本', () => {
+    const spot = feed();
+    spot.record({ symbol: 'BTCUSDT', price: 100, timestamp: T0 - 2000 });
+    spot.record({ symbol: 'BTCUSDT', price: 102, timestamp: T0 });
+    spot.record({ symbol: 'BTCUSDT', price: 102.51, timestamp: T0 + 5000 });
+
+    const state = spot.getSpotState('BTCUSDT', T0, T0 + 6000)!;
+    assert.strictEqual(state.roundStartPrice, 102);
+    assert.ok(Math.abs(state.changeSinceStart! - 0.005) < 1e-12);
+
+    assert.strictEqual(spot.getSpotState('BTCUSDT', T0 - 5000, T0 + 6000)?.roundStartPrice, null, '啟動晚於開盤');
+    assert.strictEqual(spot.getSpotState('BTCUSDT', null, T0 + 6000)?.changeSinceStart, null);
+  });
+
+  it('波動率 = √(Σ 對數收益率² / 秒數)，樣本不足時為 null', () => {
+    const spot = feed();
+    const r = 0.001;
+    for (let i = 0; i <= 20; i++) {
+      // 每 2 秒一個樣本，漲跌交替 ±0.1%
+      spot.record({ symbol: 'BTCUSDT', price: 100 * Math.exp(i % 2 === 0 ? 0 : r), timestamp: T0 + i * 2000 });
+    }
+    const state = spot.getSpotState('BTCUSDT', null, T0 + 40000)!;
+    assert.ok(Math.abs(state.volatility! - r / Math.sqrt(2)) < 1e-9);
+
+    const short = feed();
+    short.record({ symbol: 'BTCUSDT', price: 100, timestamp: T0 });
+    short.record({ symbol: 'BTCUSDT', price: 101, timestamp: T0 + 1000 });
+    assert.strictEqual(short.getSpotState('BTCUSDT', null, T0 + 1000)?.volatility, null);
+  });
+
+  it('超過 30 秒沒有新價格時不提供現貨狀態', () => {
+    const spot = feed();
+    spot.record({ symbol: 'BTCUSDT', price: 100, timestamp: T0 });
+    assert.ok(spot.getSpotState('BTCUSDT', null, T0 + 30000));
+    assert.strictEqual(spot.getSpotState('BTCUSDT', null, T0 + 30001), null);
+    assert.strictEqual(spot.getSpotState('ETHUSDT', null, T0), null);
+  });
+
+  it('各系列的交易對合併後通知價格來源', () => {
+    const calls: string[][] = [];
+    const source = Object.assign(new ReplaySpotSource(path.join(tmpDir, 'empty.jsonl'), false), {
+      setSymbols: (symbols: string[]) => calls.push(symbols),
+    });
+    const spot = new SpotFeed(source);
+    spot.setSymbols(['btcusdt'], 'btc-15m');
+    spot.setSymbols(['BTCUSDT'], 'btc-1h');
+    spot.setSymbols(['ETHUSDT'], 'eth-15m');
+
+    assert.deepStrictEqual(calls, [['BTCUSDT'], ['BTCUSDT', 'ETHUSDT']]);
+  });
+});
+
+describe('ReplaySpotSource', () => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'spot-replay-'));
+
+  before(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('讀取 SpotTick 和市場錄製文件，支援 .gz，按時間排序', () => {
+    const lines = [
+      JSON.stringify({ symbol: 'BTCUSDT', price: 101, timestamp: T0 + 1000 }),
+      JSON.stringify({ timestamp: T0 + 5000, state: { spot: { symbol: 'BTCUSDT', price: 102, updatedAt: T0 + 2000 } } }),
+      JSON.stringify({ timestamp: T0 + 6000, state: { spot: null } }),
+      JSON.stringify({ symbol: 'ETHUSDT', price: 3000, timestamp: T0 }),
+      '{"symbol": "BTCUSDT", "pri',
+    ];
+    const file = path.join(tmpDir, 'spot.jsonl.gz');
+    fs.writeFileSync(file, zlib.gzipSync(lines.join('\n')));
+
+    assert.deepStrictEqual(readSpotTicks(file), [
+      { symbol: 'ETHUSDT', price: 3000, timestamp: T0 },
+      { symbol: 'BTCUSDT', price: 101, timestamp: T0 + 1000 },
+      { symbol: 'BTCUSDT', price: 102, timestamp: T0 + 2000 },
+    ]);
+  });
+
+  it('advanceTo 推送到指定時間為止、已訂閱交易對的價格', () => {
+    const file = path.join(tmpDir, 'ticks.jsonl');
+    const ticks: SpotTick[] = [
+      { symbol: 'BTCUSDT', price: 100, timestamp: T0 },
+      { symbol: 'ETHUSDT', price: 3000, timestamp: T0 + 500 },
+      { symbol: 'BTCUSDT', price: 101, timestamp: T0 + 1000 },
+      { symbol: 'BTCUSDT', price: 102, timestamp: T0 + 2000 },
+    ];
+    fs.writeFileSync(file, ticks.map((t) => JSON.stringify(t)).join('\n'));
+
+    const source = new ReplaySpotSource(file, false);
+    const spot = new SpotFeed(source);
+    const received: number[] = [];
+    spot.on('tick', (t) => received.push(t.price));
+    spot.setSymbols(['BTCUSDT']);
+
+    source.advanceTo(T0 + 1000);
+    assert.deepStrictEqual(received, [100, 101]);
+    source.advanceTo(T0 + 5000);
+    assert.deepStrictEqual(received, [100, 101, 102]);
+  });
+
+  it('realtime 時第一筆對齊到現在', async () => {
+    const file = path.join(tmpDir, 'realtime.jsonl');
+    fs.writeFileSync(file, JSON.stringify({ symbol: 'BTCUSDT', price: 100, timestamp: T0 }));
+
+    const spot = new SpotFeed(new ReplaySpotSource(file));
+    const start = Date.now();
+    spot.setSymbols(['BTCUSDT']);
+    await waitFor(() => spot.getPrice('BTCUSDT') !== null, '回放第一筆');
+    spot.close();
+
+    const state = spot.getSpotState('BTCUSDT', null)!;
+    assert.ok(state.updatedAt >= start && state.updatedAt <= Date.now());
+  });
+});
+
+describe('BinanceSpotSource', () => {
+  it('訂閱 aggTrade combined stream，交易對改變時重新連接', async () => {
+    mock.method(console, 'log', () => {});
+    const server = new WebSocketServer({ port: 0 });
+    await new Promise<void>((resolve) => server.on('listening', () => resolve()));
+    const port = (server.address() as { port: number }).port;
+    const urls: string[] = [];
+
+    server.on('connection', (ws, request) => {
+      urls.push(request.url || '');
+      ws.send(JSON.stringify({ stream: 'btcusdt@aggTrade', data: { e: 'aggTrade', s: 'BTCUSDT', p: '67000.5', q: '0.1', T: Date.now() } }));
+      ws.send('not json');
+    });
+
+    const spot = new SpotFeed(new BinanceSpotSource(`ws://127.0.0.1:${port}/`));
+    try {
+      spot.setSymbols(['BTCUSDT'], 'btc-15m');
+      await waitFor(() => spot.getPrice('BTCUSDT') === 67000.5, '收到 BTC 成交');
+      assert.deepStrictEqual(urls, ['/stream?streams=btcusdt@aggTrade']);
+
+      spot.setSymbols(['ETHUSDT'], 'eth-15m');
+      await waitFor(() => urls.length === 2, '重新連接');
+      assert.strictEqual(urls[1], '/stream?streams=btcusdt@aggTrade/ethusdt@aggTrade');
+    } finally {
+      spot.close();
+      for (const client of server.clients) client.terminate();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      mock.restoreAll();
+    }
+  });
+});
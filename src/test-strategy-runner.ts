@@ -0,0 +1,291 @@
+/**
+ * StrategyRunner 下單前風控測試（離線）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import { config, withConfigOverrides } from './config.js';
+import { MarketFetcher } from './market-fetcher.js';
+import { RiskAudit, type RiskAuditEntry } from './risk-audit.js';
+import { riskManager } from './risk-manager.js';
+import { getSeries } from './series.js';
+import { StrategyRunner } from './strategy-runner.js';
+import type { TradingStrategy } from './strategy.js';
+import { TradeLedger } from './trade-ledger.js';
+import { Trader } from './trader.js';
+import { CURRENT_UP, NEXT_DOWN, NEXT_UP, TEST_CONFIG, marketState, orderBook, position } from './test-fixtures.js';
+import type { OrderBook, TradeSignal } from './types.js';
+
+Object.assign(config, TEST_CONFIG, { PAPER_TRADING: true });
+
+const deepBook = orderBook([[0.49, 200]], [[0.51, 200]]);
+const thinBook = orderBook([[0.49, 30]], [[0.51, 30]]);
+
+function signal(overrides: Partial<TradeSignal>): TradeSignal {
+  return { action: 'BUY', tokenId: NEXT_UP, outcome: 'Up', price: 51, size: 20, reason: '測試', ...overrides };
+}
+
+describe('StrategyRunner 下單前風控', () => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'runner-risk-'));
+  const auditFile = path.join(tmpDir, 'risk-audit.jsonl');
+  let signals: TradeSignal[] = [];
+  let runner: StrategyRunner;
+  let fetcher: MarketFetcher;
+  let trader: Trader;
+
+  const strategy: TradingStrategy = {
+    name: 'test',
+    description: '返回預設信號',
+    generateSignals: () => signals,
+  };
+
+  const auditLines = (): RiskAuditEntry[] =>
+    fs.existsSync(auditFile) ? fs.readFileSync(auditFile, 'utf8').trim().split('\n').filter(Boolean).map((l) => JSON.parse(l)) : [];
+
+  const run = (books: Record<string, OrderBook>, state = marketState()) => runner.execute(state, books);
+
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(() => {
+    fs.rmSync(auditFile, { force: true });
+    fetcher = new MarketFetcher(null, getSeries('btc-15m'));
+    trader = new Trader(fetcher, new TradeLedger(path.join(tmpDir, 'ledger.jsonl')));
+    mock.method(trader, 'buy', async () => true);
+    mock.method(trader, 'sell', async () => true);
+    mock.method(trader, 'forceLiquidate', async () => true);
+    mock.method(trader, 'buyCompleteSet', async () => true);
+    runner = new StrategyRunner(strategy, trader, 'btc-15m', fetcher, new RiskAudit(auditFile));
+  });
+
+  // 賬戶級風控是全局單例
+  afterEach(() => {
+    riskManager.rearm();
+  });
+
+  after(() => {
+    mock.restoreAll();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('通過風控的買入照常下單', async () => {
+    signals = [signal({})];
+    const [result] = await run({ [NEXT_UP]: deepBook });
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.rejection, undefined);
+    assert.strictEqual((trader.buy as any).mock.callCount(), 1);
+    assert.deepStrictEqual(auditLines(), []);
+  });
+
+  it('深度不足時拒絕，不下單並寫入審計日誌', async () => {
+    signals = [signal({})];
+    const [result] = await run({ [NEXT_UP]: thinBook });
+
+    assert.strictEqual(result.success, false);
+    assert.deepStrictEqual(result.rejection?.reasons, ['訂單簿深度不足: 30 < 50']);
+    assert.strictEqual((trader.buy as any).mock.callCount(), 0);
+
+    const [entry] = auditLines();
+    assert.deepStrictEqual(
+      [entry.type, entry.series, entry.strategy, entry.action, entry.tokenId, entry.size, entry.signalReason],
+      ['REJECTED', 'btc-15m', 'test', 'BUY', NEXT_UP, 20, '測試']
+    );
+    assert.strictEqual(entry.analysis?.availableLiquidity, 30);
+  });
+
+  it('普通賣出同樣經過風控', async () => {
+    signals = [signal({ action: 'SELL', tokenId: CURRENT_UP, price: 49, reason: '止損賣出' })];
+    const [result] = await run({ [CURRENT_UP]: thinBook });
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual((trader.sell as any).mock.callCount(), 0);
+  });
+
+  it('時間窗口按信號所屬盤口計算：下一盤口用 timeToStart', async () => {
+    signals = [signal({})];
+    const [result] = await run({ [NEXT_UP]: deepBook }, marketState({ timeToStart: 6000 }));
+    assert.deepStrictEqual(result.rejection?.reasons, ['距離開盤 6s < 6s，暫停交易']);
+  });
+
+  it('時間窗口按信號所屬盤口計算：當前盤口用 timeToEnd', async () => {
+    signals = [signal({ tokenId: CURRENT_UP })];
+    const [result] = await run({ [CURRENT_UP]: deepBook }, marketState({ timeToStart: 1000, timeToEnd: 60000 }));
+    assert.strictEqual(result.success, true);
+  });
+
+  it('強制清倉跳過風控，記錄 BYPASSED', async () => {
+    signals = [signal({ action: 'SELL', price: 49, reason: '開局清倉 (距離開盤 3s)', bypassRiskCheck: true, exitKind: 'force_liquidation' })];
+    const [result] = await run({ [NEXT_UP]: orderBook([], []) }, marketState({ timeToStart: 3000 }));
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual((trader.forceLiquidate as any).mock.callCount(), 1);
+    assert.deepStrictEqual(auditLines().map((e) => e.type), ['BYPASSED']);
+  });
+
+  it('完整套利兩腿都要通過，拒絕原因標明是哪一腿', async () => {
+    signals = [signal({ price: 51, pairedLeg: { tokenId: NEXT_DOWN, outcome: 'Down', price: 47 } })];
+    const [result] = await run({ [NEXT_UP]: deepBook, [NEXT_DOWN]: orderBook([], []) });
+
+    assert.strictEqual(result.success, false);
+    assert.deepStrictEqual(result.rejection?.reasons, ['Down: 訂單簿為空']);
+    assert.strictEqual((trader.buyCompleteSet as any).mock.callCount(), 0);
+  });
+
+  it('本 tick 沒有的訂單簿向 fetcher 獲取', async () => {
+    const getOrderBook = mock.method(fetcher, 'getOrderBook', async () => deepBook);
+    trader.getPositions().set('expired', position('expired', 'Up', 20, 40));
+    signals = [signal({ action: 'SELL', tokenId: 'expired', price: 49 })];
+    const [result] = await run({});
+
+    assert.strictEqual(result.success, true);
+    assert.deepStrictEqual(getOrderBook.mock.calls.map((c) => c.arguments[0]), ['expired']);
+  });
+
+  it('返回實際成交數量、均價和盈虧，而不是信號的價格和數量', async () => {
+    (trader.sell as any).mock.restore();
+    const book = orderBook([[0.5, 10], [0.49, 100]], [[0.52, 100]]);
+    mock.method(fetcher, 'getOrderBook', async () => book);
+    trader.getPositions().set(CURRENT_UP, position(CURRENT_UP, 'Up', 20, 45));
+    signals = [signal({ action: 'SELL', tokenId: CURRENT_UP, price: 49, reason: '止盈' })];
+
+    const [result] = await run({ [CURRENT_UP]: book });
+
+    // 10 股 @ 50 + 10 股 @ 49
+    assert.deepStrictEqual([result.success, result.filledSize, result.avgFillPrice, result.pnl], [true, 20, 49.5, 90]);
+  });
+
+  describe('賬戶級風控', () => {
+    it('熔斷時不執行策略，撤買單並清倉', async () => {
+      trader.getPositions().set(NEXT_UP, position(NEXT_UP, 'Up', 20, 45));
+      trader.getPositions().set(NEXT_DOWN, position(NEXT_DOWN, 'Down', 10, 50, 50, { holdToResolution: true }));
+      signals = [signal({ tokenId: CURRENT_UP })];
+      riskManager.halt('測試');
+
+      const results = await run({ [NEXT_UP]: deepBook, [CURRENT_UP]: deepBook });
+
+      assert.deepStrictEqual(
+        results.map((r) => [r.signal.action, r.signal.tokenId, r.signal.reason, r.success]),
+        [['SELL', NEXT_UP, '風控熔斷清倉', true]],
+        '持有到結算的完整套利不清倉'
+      );
+      assert.strictEqual((trader.forceLiquidate as any).mock.callCount(), 1);
+      assert.strictEqual((trader.buy as any).mock.callCount(), 0);
+    });
+
+    it('止損冷卻和熔斷原因寫入買入的拒絕原因', async () => {
+      riskManager.recordStopLoss();
+      signals = [signal({})];
+      const [result] = await run({ [NEXT_UP]: deepBook });
+
+      assert.match(result.rejection!.reasons[0], /^止損冷卻中/);
+      assert.strictEqual((trader.buy as any).mock.callCount(), 0);
+    });
+
+    it('止損冷卻期間拒絕做市報價並撤掉舊報價', async () => {
+      const requote = mock.method(trader, 'requote', async () => true);
+      trader.getOrderManager().track({ orderId: 'quote-1', tokenId: NEXT_UP, outcome: 'Up', side: 'BUY', price: 45, size: 20, paper: true });
+      riskManager.recordStopLoss();
+      signals = [signal({ action: 'QUOTE', price: 46, reason: '做市報價' })];
+
+      const [result] = await run({ [NEXT_UP]: deepBook });
+
+      assert.strictEqual(result.success, false);
+      assert.match(result.rejection!.reasons[0], /^止損冷卻中/);
+      assert.strictEqual(requote.mock.callCount(), 0);
+      assert.strictEqual(trader.getOrderManager().getActiveOrders(NEXT_UP, 'BUY').length, 0);
+    });
+
+    it('未成交的買單計入持倉名義金額，重新報價時不重複計算舊報價', async () => {
+      const requote = mock.method(trader, 'requote', async () => true);
+      trader.getOrderManager().track({ orderId: 'quote-up', tokenId: NEXT_UP, outcome: 'Up', side: 'BUY', price: 45, size: 20, paper: true });
+      trader.getOrderManager().track({ orderId: 'quote-down', tokenId: NEXT_DOWN, outcome: 'Down', side: 'BUY', price: 50, size: 20, paper: true, filledSize: 10 });
+
+      await withConfigOverrides({ MAX_OPEN_NOTIONAL_USDC: 15 }, async () => {
+        // Up 的舊報價 900 不計: 500 (Down 未成交部分) + 1000 <= 1500
+        signals = [signal({ action: 'QUOTE', price: 50, reason: '做市報價' })];
+        assert.strictEqual((await run({}))[0].success, true);
+        assert.strictEqual(riskManager.getOpenNotional(), 500);
+
+        // 另一個 token 的報價要加上 Up 的舊報價: 900 + 500 + 1000 > 1500
+        signals = [signal({ action: 'QUOTE', tokenId: CURRENT_UP, price: 50, reason: '做市報價' })];
+        const [result] = await run({});
+        assert.match(result.rejection!.reasons[0], /^持倉名義金額超限/);
+      });
+      assert.strictEqual(requote.mock.callCount(), 1);
+    });
+
+    it('止損賣出成交後開始冷卻', async () => {
+      trader.getPositions().set(CURRENT_UP, position(CURRENT_UP, 'Up', 20, 55, 49));
+      signals = [signal({ action: 'SELL', tokenId: CURRENT_UP, price: 49, reason: '止損賣出 @ 49.0¢', exitKind: 'stop_loss' })];
+      await run({ [CURRENT_UP]: deepBook });
+
+      assert.ok(riskManager.getAccountStatus().cooldownUntil);
+    });
+
+    it('上報新增的已實現盈虧和持倉成本', async () => {
+      const recordRealizedPnl = mock.method(riskManager, 'recordRealizedPnl');
+      const pnl = mock.method(trader, 'getTotalPnL', () => -120);
+      trader.getPositions().set(NEXT_UP, position(NEXT_UP, 'Up', 20, 45));
+      signals = [];
+
+      await run({});
+      pnl.mock.mockImplementation(() => -200);
+      await run({});
+
+      assert.deepStrictEqual(recordRealizedPnl.mock.calls.map((c) => c.arguments[0]), [-120, -80]);
+      assert.strictEqual(riskManager.getOpenNotional(), 900);
+      recordRealizedPnl.mock.restore();
+    });
+
+    it('移動止損在盈利時賣出不開始冷卻', async () => {
+      trader.getPositions().set(CURRENT_UP, position(CURRENT_UP, 'Up', 20, 45, 49));
+      signals = [signal({ action: 'SELL', tokenId: CURRENT_UP, price: 49, reason: '移動止損賣出 @ 49.0¢', exitKind: 'trailing_stop' })];
+      await run({ [CURRENT_UP]: deepBook });
+
+      assert.strictEqual(riskManager.getAccountStatus().cooldownUntil, null);
+    });
+  });
+
+  describe('Limit Sell 重新定價', () => {
+    it('按出場規則的獲利目標重新定價持倉的 Limit Sell', async () => {
+      const reprice = mock.method(trader, 'repriceLimitSell', async () => true);
+      trader.getPositions().set(NEXT_UP, position(NEXT_UP, 'Up', 20, 45));
+      trader.getPositions().set(NEXT_DOWN, position(NEXT_DOWN, 'Down', 10, 50, 50, { holdToResolution: true }));
+      signals = [];
+
+      await withConfigOverrides({ EXIT_TP_DECAY_START_MS: 60000 }, () => run({}, marketState({ timeToStart: 32500 })));
+
+      assert.deepStrictEqual(reprice.mock.calls.map((c) => c.arguments), [[NEXT_UP, 'Up', 46]]);
+    });
+
+    it('買入時 Limit Sell 掛在當前的獲利目標', async () => {
+      signals = [signal({})];
+      await withConfigOverrides({ EXIT_TP_DECAY_START_MS: 60000 }, () =>
+        run({ [NEXT_UP]: deepBook }, marketState({ timeToStart: 32500 }))
+      );
+
+      assert.deepStrictEqual((trader.buy as any).mock.calls[0].arguments, [NEXT_UP, 'Up', 51, 20, 52]);
+    });
+
+    it('模擬交易：撤掉舊的 Limit Sell 並按剩餘數量重掛', async () => {
+      const paper = new Trader(fetcher, new TradeLedger(path.join(tmpDir, 'ledger.jsonl')));
+      mock.method(fetcher, 'getOrderBook', async () => deepBook);
+      assert.strictEqual(await paper.buy(NEXT_UP, 'Up', 51, 20), true);
+      const [original] = paper.getOrderManager().getActiveOrders(NEXT_UP, 'SELL');
+      assert.strictEqual(original.price, 53);
+
+      assert.strictEqual(await paper.repriceLimitSell(NEXT_UP, 'Up', 52.5), false, '相差不到 1¢ 不改單');
+      assert.strictEqual(await paper.repriceLimitSell(NEXT_UP, 'Up', 52), true);
+
+      const active = paper.getOrderManager().getActiveOrders(NEXT_UP, 'SELL');
+      assert.deepStrictEqual(active.map((o) => [o.price, o.size]), [[52, 20]]);
+      assert.strictEqual(paper.getOrderManager().getOrder(original.orderId)?.status, 'CANCELLED');
+    });
+  });
+});
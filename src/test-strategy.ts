@@ -1,12 +1,12 @@
 import { MarketFetcher } from './market-fetcher.js';
-import { Strategy } from './strategy.js';
+import { createStrategy } from './strategies/index.js';
 import { config } from './config.js';
 
 async function testStrategy() {
   console.log('=== 策略測試 ===\n');
   
   const fetcher = new MarketFetcher();
-  const strategy = new Strategy();
+  const strategy = createStrategy(process.argv[2] || config.STRATEGIES[0]);
   
   // 同步時間
   await fetcher.syncServerTime();
@@ -31,6 +31,7 @@ async function testStrategy() {
   console.log('');
   
   console.log('⚙️ 配置:');
+  console.log(`  策略: ${strategy.name}`);
   console.log(`  MAX_BUY_PRICE: ${config.MAX_BUY_PRICE}¢`);
   console.log(`  MIN_TIME_TO_TRADE_MS: ${config.MIN_TIME_TO_TRADE_MS}ms`);
   console.log(`  SELL_BEFORE_START_MS: ${config.SELL_BEFORE_START_MS}ms`);
@@ -40,7 +41,8 @@ async function testStrategy() {
   const positions = new Map();
   console.log('🔍 生成交易信號...\n');
   
-  const signals = strategy.generateSignals(state, positions);
+  const orderBooks = await fetcher.getOrderBooks(state);
+  const signals = strategy.generateSignals(state, positions, orderBooks);
   
   console.log('\n📍 信號結果:');
   if (signals.length === 0) {
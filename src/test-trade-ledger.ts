@@ -0,0 +1,77 @@
+/**
+ * TradeLedger 持倉成本重建和成交去重測試（離線）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import { config, withConfigOverrides } from './config.js';
+import { TradeLedger } from './trade-ledger.js';
+import { TEST_CONFIG } from './test-fixtures.js';
+
+Object.assign(config, TEST_CONFIG, { PAPER_TRADING: false });
+
+describe('TradeLedger', () => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-'));
+  const ledgerFile = path.join(tmpDir, 'ledger.jsonl');
+
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(ledgerFile, { force: true });
+  });
+
+  after(() => {
+    mock.restoreAll();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('重新載入時按成交記錄重建加權持倉成本，實盤和模擬分開', () => {
+    const ledger = new TradeLedger(ledgerFile);
+    ledger.recordOrder('o1', 'up', 'Up', 'BUY', 45, 100, '盤前買入');
+    ledger.recordFill('o1', 'up', 'Up', 'BUY', 45, 100, 45, 't1');
+    ledger.recordFill('o2', 'up', 'Up', 'BUY', 48, 50, 24, 't2');
+    ledger.recordFill('o3', 'up', 'Up', 'SELL', 50, 30, 15, 't3');
+    ledger.recordFill('o4', 'down', 'Down', 'BUY', 40, 20, 8, 't4');
+    ledger.recordFill('o5', 'down', 'Down', 'SELL', 42, 20, 8.4, 't5');
+    ledger.recordCancel('o6', 'up', '撤單');
+    withConfigOverrides({ PAPER_TRADING: true }, () => ledger.recordFill('paper-1', 'up', 'Up', 'BUY', 30, 10, 3));
+
+    // 進程在寫入最後一行時被終止
+    fs.appendFileSync(ledgerFile, '{"type":"FILL","timestamp":');
+
+    const reloaded = new TradeLedger(ledgerFile);
+    assert.strictEqual(reloaded.getEntries().length, 8);
+    for (const l of [ledger, reloaded]) {
+      // (45 × 100 + 48 × 50) / 150 = 46，賣出不改變成本；Down 全部賣出後移除
+      assert.deepStrictEqual(Array.from(l.getPositions().values()), [{ tokenId: 'up', outcome: 'Up', size: 120, avgBuyPrice: 46 }]);
+      assert.deepStrictEqual(l.getPosition('up', true), { tokenId: 'up', outcome: 'Up', size: 10, avgBuyPrice: 30 });
+      assert.strictEqual(l.getPosition('down'), undefined);
+    }
+  });
+
+  it('同一 tradeId 的成交只記錄一次，重新載入後仍然去重', () => {
+    const ledger = new TradeLedger(ledgerFile);
+    ledger.recordFill('o1', 'up', 'Up', 'BUY', 45, 100, 45, 't1');
+    ledger.recordFill('o1', 'up', 'Up', 'BUY', 45, 100, 45, 't1');
+    assert.strictEqual(ledger.getPosition('up')!.size, 100);
+
+    const reloaded = new TradeLedger(ledgerFile);
+    assert.ok(reloaded.hasTrade('t1'));
+    reloaded.recordFill('o1', 'up', 'Up', 'BUY', 45, 100, 45, 't1');
+    reloaded.recordFill('o2', 'up', 'Up', 'BUY', 45, 100, 45, 't2');
+
+    // 沒有 tradeId 的成交（模擬成交）不去重
+    reloaded.recordFill('o3', 'up', 'Up', 'BUY', 45, 10, 4.5);
+    reloaded.recordFill('o3', 'up', 'Up', 'BUY', 45, 10, 4.5);
+
+    const fills = fs.readFileSync(ledgerFile, 'utf8').trim().split('\n').map((l) => JSON.parse(l).tradeId);
+    assert.deepStrictEqual(fills, ['t1', 't2', undefined, undefined]);
+    assert.strictEqual(reloaded.getPosition('up')!.size, 220);
+  });
+});
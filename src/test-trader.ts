@@ -0,0 +1,133 @@
+/**
+ * Trader 模擬交易和資金查詢測試（離線）
+ * 用法: npm test
+ */
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import { config, withConfigOverrides } from './config.js';
+import { MarketFetcher } from './market-fetcher.js';
+import { getSeries } from './series.js';
+import { TradeLedger } from './trade-ledger.js';
+import { Trader } from './trader.js';
+import { NEXT_DOWN, NEXT_UP, TEST_CONFIG, marketState, orderBook } from './test-fixtures.js';
+
+Object.assign(config, TEST_CONFIG, { PAPER_TRADING: true });
+
+describe('Trader', () => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'trader-'));
+  const ledgerFile = path.join(tmpDir, 'ledger.jsonl');
+
+  before(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(ledgerFile, { force: true });
+  });
+
+  after(() => {
+    mock.restoreAll();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('同一毫秒內的兩筆模擬成交各有訂單 ID，都被追蹤和寫入賬本', async () => {
+    const fetcher = new MarketFetcher(null, getSeries('btc-15m'));
+    mock.method(fetcher, 'getOrderBook', async () => orderBook([[0.44, 100]], [[0.45, 100]]));
+    const ledger = new TradeLedger(ledgerFile);
+    const trader = new Trader(fetcher, ledger);
+    const now = mock.method(Date, 'now', () => 1_700_000_000_000);
+
+    try {
+      assert.ok(await trader.buyCompleteSet(marketState().nextMarket!, 46, 46, 10));
+    } finally {
+      now.mock.restore();
+    }
+
+    const buys = trader.getOrderManager().getAllOrders().filter((o) => o.side === 'BUY');
+    assert.deepStrictEqual(buys.map((o) => [o.tokenId, o.status, o.filledSize, o.avgFillPrice]), [
+      [NEXT_UP, 'FILLED', 10, 45],
+      [NEXT_DOWN, 'FILLED', 10, 45],
+    ]);
+    assert.notStrictEqual(buys[0].orderId, buys[1].orderId);
+
+    const orderIds = (type: string) => ledger.getEntries().filter((e) => e.type === type).map((e) => e.orderId);
+    assert.deepStrictEqual(orderIds('ORDER'), buys.map((o) => o.orderId));
+    assert.deepStrictEqual(orderIds('FILL'), buys.map((o) => o.orderId));
+    assert.deepStrictEqual(orderIds('HOLD'), [`hold-${marketState().nextMarket!.slug}`]);
+  });
+
+  it('實盤重啟後從賬本恢復完整套利的持有到結算，結束後結算', async () => {
+    const nextMarket = marketState().nextMarket!;
+    await withConfigOverrides({ PAPER_TRADING: false }, async () => {
+      const ledger = new TradeLedger(ledgerFile);
+      ledger.recordFill('o1', NEXT_UP, 'Up', 'BUY', 45, 50, 22.5, 't1');
+      ledger.recordFill('o2', NEXT_DOWN, 'Down', 'BUY', 50, 50, 25, 't2');
+      ledger.recordHold(nextMarket);
+
+      // 重啟：新的賬本和 Trader，持倉從鏈上餘額同步
+      const fetcher = new MarketFetcher(null, getSeries('btc-15m'));
+      const trader = new Trader(fetcher, new TradeLedger(ledgerFile));
+      (trader as any).clobClient = { getBalanceAllowance: async () => ({ balance: '50000000' }) };
+      await trader.syncPositionsFromApi(NEXT_UP, NEXT_DOWN, 46, 52);
+
+      assert.deepStrictEqual(
+        Array.from(trader.getPositions().values()).map((p) => [p.outcome, p.size, p.avgBuyPrice, p.holdToResolution]),
+        [
+          ['Up', 50, 45, true],
+          ['Down', 50, 50, true],
+        ]
+      );
+
+      mock.method(fetcher, 'getServerTime', () => new Date(nextMarket.endDate).getTime() + 1000);
+      mock.method(fetcher, 'getResolvedOutcome', async () => 'Down');
+      await trader.settleResolvedPositions();
+
+      assert.deepStrictEqual(trader.getTradeHistory().map((t) => [t.outcome, t.side, t.price, t.pnl]), [
+        ['Up', 'SELL', 0, -2250],
+        ['Down', 'SELL', 100, 2500],
+      ]);
+      assert.strictEqual(trader.getPositions().size, 0);
+    });
+  });
+
+  it('已結算盤口的 token 不再視為持有到結算', () => {
+    const nextMarket = marketState().nextMarket!;
+    const ledger = new TradeLedger(ledgerFile);
+    ledger.recordFill('o1', NEXT_UP, 'Up', 'BUY', 45, 50, 22.5);
+    ledger.recordHold(nextMarket);
+    assert.deepStrictEqual(new TradeLedger(ledgerFile).getHeldMarket(NEXT_DOWN), nextMarket);
+
+    ledger.recordFill(`settlement-${nextMarket.slug}`, NEXT_UP, 'Up', 'SELL', 100, 50, 0);
+    assert.strictEqual(new TradeLedger(ledgerFile).getHeldMarket(NEXT_UP), undefined);
+  });
+
+  it('實盤 USDC 餘額緩存幾秒，下單後重新查詢', async () => {
+    const trader = new Trader(new MarketFetcher(null, getSeries('btc-15m')), new TradeLedger(ledgerFile));
+    const getBalanceAllowance = mock.fn(async () => ({ balance: '125000000' }));
+    (trader as any).clobClient = { getBalanceAllowance };
+    let now = 1_700_000_000_000;
+    const clock = mock.method(Date, 'now', () => now);
+
+    try {
+      await withConfigOverrides({ PAPER_TRADING: false }, async () => {
+        assert.strictEqual(await trader.getCollateralBalance(), 125);
+        now += 4000;
+        assert.strictEqual(await trader.getCollateralBalance(), 125);
+        assert.strictEqual(getBalanceAllowance.mock.callCount(), 1, '緩存期內不查詢');
+
+        now += 1000;
+        await trader.getCollateralBalance();
+        assert.strictEqual(getBalanceAllowance.mock.callCount(), 2, '緩存過期後重新查詢');
+
+        (trader as any).trackPostedOrder({ orderID: 'live-1', status: 'live' }, NEXT_UP, 'Up', 'BUY', 45, 10);
+        await trader.getCollateralBalance();
+        assert.strictEqual(getBalanceAllowance.mock.callCount(), 3, '下單後重新查詢');
+      });
+    } finally {
+      clock.mock.restore();
+    }
+  });
+});
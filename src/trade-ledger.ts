@@ -0,0 +1,217 @@
+/**
+ * 交易賬本 - 以 JSONL 只追加方式記錄每筆下單、成交和撤單
+ *
+ * 重啟後用成交記錄重建每個 token 的真實持倉成本，
+ * 取代 syncPositionsFromApi 用當前價格估算 avgBuyPrice 的做法；
+ * 完整套利持有到結算的盤口也記在賬本中（HOLD），重啟後恢復。
+ */
+import fs from 'fs';
+import path from 'path';
+import { config } from './config.js';
+import { createLogger } from './logger.js';
+import type { Market } from './types.js';
+
+export interface LedgerEntry {
+  type: 'ORDER' | 'FILL' | 'CANCEL' | 'HOLD';
+  timestamp: number;
+  orderId: string;
+  tokenId: string; // HOLD: 盤口 conditionId
+  outcome?: 'Up' | 'Down';
+  side?: 'BUY' | 'SELL';
+  price?: number; // cents
+  size?: number;
+  fee?: number; // cents
+  tradeId?: string; // FILL: CLOB trade id，用於去重
+  reason?: string;
+  market?: Market; // HOLD: 持有到結算的盤口
+  paper?: boolean;
+}
+
+export interface LedgerPosition {
+  tokenId: string;
+  outcome: 'Up' | 'Down';
+  size: number;
+  avgBuyPrice: number; // cents
+}
+
+const log = createLogger('ledger');
+
+export class TradeLedger {
+  private entries: LedgerEntry[] = [];
+  private tradeIds: Set<string> = new Set();
+  private positions: Map<string, LedgerPosition> = new Map(); // 實盤持倉成本
+  private paperPositions: Map<string, LedgerPosition> = new Map();
+  private holds: Map<string, Market> = new Map(); // slug -> 持有到結算的盤口（實盤）
+  private paperHolds: Map<string, Market> = new Map();
+
+  constructor(private file: string = config.LEDGER_FILE) {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    this.load();
+  }
+
+  /**
+   * 讀取賬本並重建持倉成本
+   */
+  private load(): void {
+    if (!fs.existsSync(this.file)) return;
+
+    const lines = fs.readFileSync(this.file, 'utf8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        this.apply(JSON.parse(line));
+      } catch {
+        log.warn('[賬本] 忽略無法解析的記錄', { file: this.file });
+      }
+    }
+    log.info(`[賬本] 已載入 ${this.entries.length} 筆記錄，${this.positions.size} 個實盤持倉`);
+  }
+
+  private append(entry: LedgerEntry): void {
+    try {
+      fs.appendFileSync(this.file, JSON.stringify(entry) + '\n');
+    } catch (error: any) {
+      log.error('[賬本] 寫入失敗', { file: this.file, error });
+    }
+    this.apply(entry);
+  }
+
+  private apply(entry: LedgerEntry): void {
+    this.entries.push(entry);
+    if (entry.type === 'HOLD' && entry.market) {
+      (entry.paper ? this.paperHolds : this.holds).set(entry.market.slug, entry.market);
+      return;
+    }
+    if (entry.type !== 'FILL' || !entry.size || entry.price === undefined) return;
+    if (entry.tradeId) this.tradeIds.add(entry.tradeId);
+
+    const positions = entry.paper ? this.paperPositions : this.positions;
+    const existing = positions.get(entry.tokenId);
+
+    if (entry.side === 'BUY') {
+      if (!existing) {
+        positions.set(entry.tokenId, {
+          tokenId: entry.tokenId,
+          outcome: entry.outcome || 'Up',
+          size: entry.size,
+          avgBuyPrice: entry.price,
+        });
+      } else {
+        const newSize = existing.size + entry.size;
+        existing.avgBuyPrice = (existing.avgBuyPrice * existing.size + entry.price * entry.size) / newSize;
+        existing.size = newSize;
+      }
+    } else if (existing) {
+      existing.size -= entry.size;
+      if (existing.size <= 0.01) {
+        positions.delete(entry.tokenId);
+      }
+    }
+  }
+
+  recordOrder(
+    orderId: string,
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    side: 'BUY' | 'SELL',
+    price: number,
+    size: number,
+    reason?: string
+  ): void {
+    this.append({
+      type: 'ORDER',
+      timestamp: Date.now(),
+      orderId,
+      tokenId,
+      outcome,
+      side,
+      price,
+      size,
+      reason,
+      paper: config.PAPER_TRADING || undefined,
+    });
+  }
+
+  recordFill(
+    orderId: string,
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    side: 'BUY' | 'SELL',
+    price: number,
+    size: number,
+    fee: number,
+    tradeId?: string,
+    timestamp: number = Date.now()
+  ): void {
+    if (tradeId && this.tradeIds.has(tradeId)) return;
+    this.append({
+      type: 'FILL',
+      timestamp,
+      orderId,
+      tokenId,
+      outcome,
+      side,
+      price,
+      size,
+      fee,
+      tradeId,
+      paper: config.PAPER_TRADING || undefined,
+    });
+  }
+
+  recordCancel(orderId: string, tokenId: string, reason?: string): void {
+    this.append({
+      type: 'CANCEL',
+      timestamp: Date.now(),
+      orderId,
+      tokenId,
+      reason,
+      paper: config.PAPER_TRADING || undefined,
+    });
+  }
+
+  /**
+   * 完整套利買入後記錄該盤口持有到結算
+   */
+  recordHold(market: Market): void {
+    this.append({
+      type: 'HOLD',
+      timestamp: Date.now(),
+      orderId: `hold-${market.slug}`,
+      tokenId: market.conditionId,
+      market,
+      paper: config.PAPER_TRADING || undefined,
+    });
+  }
+
+  hasTrade(tradeId: string): boolean {
+    return this.tradeIds.has(tradeId);
+  }
+
+  /**
+   * 按賬本成交記錄計算的持倉成本
+   */
+  getPosition(tokenId: string, paper: boolean = config.PAPER_TRADING): LedgerPosition | undefined {
+    return (paper ? this.paperPositions : this.positions).get(tokenId);
+  }
+
+  getPositions(paper: boolean = config.PAPER_TRADING): Map<string, LedgerPosition> {
+    return paper ? this.paperPositions : this.positions;
+  }
+
+  /**
+   * token 所屬的持有到結算盤口（該盤口在賬本中還有持倉時）
+   */
+  getHeldMarket(tokenId: string, paper: boolean = config.PAPER_TRADING): Market | undefined {
+    const positions = paper ? this.paperPositions : this.positions;
+    for (const market of (paper ? this.paperHolds : this.holds).values()) {
+      if (!market.tokens.some((t) => t.tokenId === tokenId)) continue;
+      return market.tokens.some((t) => positions.has(t.tokenId)) ? market : undefined;
+    }
+    return undefined;
+  }
+
+  getEntries(): LedgerEntry[] {
+    return this.entries;
+  }
+}
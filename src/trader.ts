@@ -1,10 +1,19 @@
 import { ClobClient, Side } from '@polymarket/clob-client';
-import { Wallet } from 'ethers';
 import { config } from './config.js';
-import type { Position, TradeRecord } from './types.js';
+import { FillSimulator } from './fill-simulator.js';
+import { getSigner } from './keystore.js';
+import { createLogger } from './logger.js';
+import { MarketFetcher } from './market-fetcher.js';
+import { TradeLedger } from './trade-ledger.js';
+import { OrderManager } from './order-manager.js';
+import { paperCollateral } from './position-sizing.js';
+import type { FillResult } from './fill-simulator.js';
+import type { Market, OrderBook, Position, TradeRecord } from './types.js';
 
-const CLOB_HTTP_URL = 'https://clob.polymarket.com';
-const CHAIN_ID = 137; // Polygon mainnet
+const log = createLogger('trader');
+
+const RESOLUTION_CHECK_INTERVAL_MS = 30000; // 查詢結算結果的間隔
+const COLLATERAL_CACHE_MS = 5000; // 實盤 USDC 餘額的緩存時間（策略每個 tick 都要用，不必每次查詢）
 
 export interface ApiCredentials {
   apiKey: string;
@@ -17,26 +26,48 @@ export class Trader {
   private apiCredentials: ApiCredentials | null = null;
   private positions: Map<string, Position> = new Map();
   private tradeHistory: TradeRecord[] = [];
-  private pendingSellOrders: Map<string, string> = new Map(); // tokenId -> orderId
+  private fillSimulator = new FillSimulator(); // 模擬交易撮合
+  private fetcher: MarketFetcher;
+  private ledger: TradeLedger; // 持久化訂單 / 成交 / 撤單記錄
+  private lastTradeImport: Map<string, number> = new Map(); // tokenId -> 上次查詢成交記錄時間
+  private resolutionMarkets: Map<string, Market> = new Map(); // slug -> 持有到結算的盤口
+  private lastResolutionCheck: Map<string, number> = new Map(); // slug -> 上次查詢結算結果時間
+  private collateralCache: { balance: number; fetchedAt: number } | null = null; // 下單後清除
+
+  private orderManager: OrderManager; // 訂單生命週期
+  private paperOrderSeq = 0; // 同一毫秒內的模擬成交也要有不同的訂單 ID
+
+  constructor(fetcher?: MarketFetcher, ledger?: TradeLedger, orderManager?: OrderManager) {
+    this.fetcher = fetcher || new MarketFetcher();
+    this.ledger = ledger || new TradeLedger();
+    this.orderManager = orderManager || new OrderManager();
+
+    // 撤單 / 過期寫入賬本
+    this.orderManager.on('update', ({ order, previousStatus }) => {
+      if (previousStatus && (order.status === 'CANCELLED' || order.status === 'EXPIRED')) {
+        this.ledger.recordCancel(order.orderId, order.tokenId, order.reason || order.status);
+      }
+    });
+  }
 
   async initialize(): Promise<boolean> {
     if (config.PAPER_TRADING) {
-      console.log('🧪 Paper trading mode - no real trades will be executed');
+      log.info('🧪 Paper trading mode - no real trades will be executed');
       return true;
     }
 
-    if (!config.PRIVATE_KEY) {
-      console.error('[交易] 未配置私鑰');
+    const signer = getSigner();
+    if (!signer) {
+      log.error('[交易] 錢包未解鎖（keystore 或 PRIVATE_KEY）');
       return false;
     }
 
     try {
-      const signer = new Wallet(config.PRIVATE_KEY);
 
       // 創建 L1 客戶端以獲取 API 憑證
-      const l1Client = new ClobClient(CLOB_HTTP_URL, CHAIN_ID, signer);
+      const l1Client = new ClobClient(config.CLOB_HOST, config.CHAIN_ID, signer);
 
-      console.log('[交易] 正在從私鑰衍生 API 憑證...');
+      log.info('[交易] 正在從私鑰衍生 API 憑證...');
       const creds = await l1Client.createOrDeriveApiKey();
 
       this.apiCredentials = {
@@ -45,15 +76,15 @@ export class Trader {
         passphrase: creds.passphrase,
       };
 
-      console.log(`[交易] API 憑證已獲取: ${this.apiCredentials.apiKey.slice(0, 8)}...`);
+      log.info(`[交易] API 憑證已獲取: ${this.apiCredentials.apiKey.slice(0, 8)}...`);
 
       // 創建 L2 客戶端用於交易
       if (config.FUNDER_ADDRESS) {
         // Proxy wallet 模式 (signatureType=1)
-        console.log(`[交易] 使用 Proxy Wallet: ${config.FUNDER_ADDRESS}`);
+        log.info(`[交易] 使用 Proxy Wallet: ${config.FUNDER_ADDRESS}`);
         this.clobClient = new ClobClient(
-          CLOB_HTTP_URL,
-          CHAIN_ID,
+          config.CLOB_HOST,
+          config.CHAIN_ID,
           signer,
           creds,
           1, // signatureType 1 = Polymarket proxy wallet
@@ -61,19 +92,19 @@ export class Trader {
         );
       } else {
         // EOA 模式 (signatureType=0)
-        console.log(`[交易] 使用 EOA Wallet: ${signer.address}`);
+        log.info(`[交易] 使用 EOA Wallet: ${signer.address}`);
         this.clobClient = new ClobClient(
-          CLOB_HTTP_URL,
-          CHAIN_ID,
+          config.CLOB_HOST,
+          config.CHAIN_ID,
           signer,
           creds
         );
       }
 
-      console.log('✅ 交易客戶端已初始化');
+      log.info('✅ 交易客戶端已初始化');
       return true;
     } catch (err) {
-      console.error('[交易] 初始化失敗:', err);
+      log.error('[交易] 初始化失敗', { error: err });
       return false;
     }
   }
@@ -90,83 +121,153 @@ export class Trader {
       // 查詢 Up 持倉
       const upBalances = await this.clobClient.getBalanceAllowance({ asset_type: 'CONDITIONAL' as any, token_id: upTokenId });
       const upBalance = parseFloat(upBalances?.balance || '0') / 1e6;
+      await this.reconcileLedger(upTokenId, 'Up', upBalance);
       
       if (upBalance > 0.1) {
+        const costBasis = this.ledger.getPosition(upTokenId)?.avgBuyPrice;
         if (!this.positions.has(upTokenId)) {
-          // 新發現的持倉（可能是 bot 重啟後）- 用當前價格作為估計
-          // 注意：這不是真正的買入價，只是估計值
-          console.log(`[同步] 發現 Up 持倉: ${upBalance.toFixed(1)} 股 (估計買入價: ${upPrice.toFixed(1)}¢)`);
+          // 新發現的持倉（可能是 bot 重啟後）- 優先用賬本重建的成本，沒有記錄才用當前價格估計
+          log.info(`[同步] 發現 Up 持倉: ${upBalance.toFixed(1)} 股 (${costBasis !== undefined ? `賬本成本: ${costBasis.toFixed(2)}` : `估計買入價: ${upPrice.toFixed(1)}`}¢)`);
           this.positions.set(upTokenId, {
             tokenId: upTokenId,
             outcome: 'Up',
             size: Math.floor(upBalance),
-            avgBuyPrice: upPrice, // 估計值，實際買入時會被正確設置
+            avgBuyPrice: costBasis ?? upPrice,
             currentPrice: upPrice,
           });
+          this.restoreHold(upTokenId);
         } else {
-          // 已有持倉記錄 - 只更新數量和現價，保留原始 avgBuyPrice
+          // 已有持倉記錄 - 更新數量和現價，成本以賬本為準
           const pos = this.positions.get(upTokenId)!;
           pos.size = Math.floor(upBalance);
           pos.currentPrice = upPrice;
-          // 不更新 avgBuyPrice - 保留實際買入價格
+          if (costBasis !== undefined) pos.avgBuyPrice = costBasis;
         }
       } else {
         if (this.positions.has(upTokenId)) {
-          console.log(`[同步] Up 持倉已清空`);
+          log.info(`[同步] Up 持倉已清空`);
           this.positions.delete(upTokenId);
-          this.pendingSellOrders.delete(upTokenId);
         }
       }
 
       // 查詢 Down 持倉
       const downBalances = await this.clobClient.getBalanceAllowance({ asset_type: 'CONDITIONAL' as any, token_id: downTokenId });
       const downBalance = parseFloat(downBalances?.balance || '0') / 1e6;
+      await this.reconcileLedger(downTokenId, 'Down', downBalance);
       
       if (downBalance > 0.1) {
+        const costBasis = this.ledger.getPosition(downTokenId)?.avgBuyPrice;
         if (!this.positions.has(downTokenId)) {
-          console.log(`[同步] 發現 Down 持倉: ${downBalance.toFixed(1)} 股 (估計買入價: ${downPrice.toFixed(1)}¢)`);
+          log.info(`[同步] 發現 Down 持倉: ${downBalance.toFixed(1)} 股 (${costBasis !== undefined ? `賬本成本: ${costBasis.toFixed(2)}` : `估計買入價: ${downPrice.toFixed(1)}`}¢)`);
           this.positions.set(downTokenId, {
             tokenId: downTokenId,
             outcome: 'Down',
             size: Math.floor(downBalance),
-            avgBuyPrice: downPrice,
+            avgBuyPrice: costBasis ?? downPrice,
             currentPrice: downPrice,
           });
+          this.restoreHold(downTokenId);
         } else {
-          // 已有持倉記錄 - 只更新數量和現價，保留原始 avgBuyPrice
+          // 已有持倉記錄 - 更新數量和現價，成本以賬本為準
           const pos = this.positions.get(downTokenId)!;
           pos.size = Math.floor(downBalance);
           pos.currentPrice = downPrice;
-          // 不更新 avgBuyPrice - 保留實際買入價格
+          if (costBasis !== undefined) pos.avgBuyPrice = costBasis;
         }
       } else {
         if (this.positions.has(downTokenId)) {
-          console.log(`[同步] Down 持倉已清空`);
+          log.info(`[同步] Down 持倉已清空`);
           this.positions.delete(downTokenId);
-          this.pendingSellOrders.delete(downTokenId);
         }
       }
     } catch (error: any) {
-      console.error('[同步] 查詢持倉失敗:', error?.message);
+      log.error('[同步] 查詢持倉失敗', { error: error?.message });
+    }
+  }
+
+  /**
+   * 重啟後發現的持倉屬於完整套利時，從賬本恢復持有到結算的標記和待結算盤口
+   */
+  private restoreHold(tokenId: string): void {
+    const position = this.positions.get(tokenId);
+    const market = this.ledger.getHeldMarket(tokenId);
+    if (!position || !market) return;
+
+    position.holdToResolution = true;
+    if (!this.resolutionMarkets.has(market.slug)) {
+      log.info(`🔒 [同步] ${market.slug} 為完整套利持倉，持有到結算`);
+      this.resolutionMarkets.set(market.slug, market);
     }
   }
 
   /**
-   * 為現有持倉補掛 Limit Sell 訂單
+   * 賬本持倉與鏈上餘額不一致時，從 CLOB 成交記錄補錄
+   * （重啟前的成交、後台成交的 Limit Sell 等）
+   */
+  private async reconcileLedger(tokenId: string, outcome: 'Up' | 'Down', balance: number): Promise<void> {
+    const ledgerSize = this.ledger.getPosition(tokenId)?.size || 0;
+    if (Math.abs(ledgerSize - balance) < 0.1) return;
+
+    // 成交記錄可能稍後才出現，限制查詢頻率
+    const lastImport = this.lastTradeImport.get(tokenId) || 0;
+    if (Date.now() - lastImport < 10000) return;
+    this.lastTradeImport.set(tokenId, Date.now());
+
+    await this.importTradesFromApi(tokenId, outcome);
+  }
+
+  /**
+   * 將 CLOB 成交記錄寫入賬本（按 trade id 去重）
+   */
+  private async importTradesFromApi(tokenId: string, outcome: 'Up' | 'Down'): Promise<void> {
+    if (!this.clobClient || !this.apiCredentials) return;
+
+    try {
+      const trades = await this.clobClient.getTrades({ asset_id: tokenId });
+      trades.sort((a, b) => Number(a.match_time) - Number(b.match_time));
+
+      for (const trade of trades) {
+        const timestamp = Number(trade.match_time) * 1000;
+
+        if (trade.trader_side === 'TAKER') {
+          const price = Number(trade.price) * 100;
+          const size = Number(trade.size);
+          const fee = (price * size * Number(trade.fee_rate_bps || 0)) / 10000;
+          this.ledger.recordFill(trade.taker_order_id, tokenId, outcome, trade.side as 'BUY' | 'SELL', price, size, fee, trade.id, timestamp);
+          continue;
+        }
+
+        // 作為 maker 成交：從 maker_orders 找出自己的訂單
+        for (const maker of trade.maker_orders || []) {
+          if (maker.owner !== this.apiCredentials.apiKey || maker.asset_id !== tokenId) continue;
+          const price = Number(maker.price) * 100;
+          const size = Number(maker.matched_amount);
+          const fee = (price * size * Number(maker.fee_rate_bps || 0)) / 10000;
+          this.ledger.recordFill(maker.order_id, tokenId, outcome, maker.side as 'BUY' | 'SELL', price, size, fee, `${trade.id}:${maker.order_id}`, timestamp);
+        }
+      }
+    } catch (error: any) {
+      log.error('[賬本] 查詢成交記錄失敗', { error });
+    }
+  }
+
+  /**
+   * 為現有持倉補掛 Limit Sell 訂單（默認掛在買入價 + PROFIT_TARGET）
    */
   async placeLimitSellForPosition(
     tokenId: string,
     outcome: 'Up' | 'Down',
-    buyPrice: number
+    buyPrice: number,
+    targetSellPrice = buyPrice + config.PROFIT_TARGET
   ): Promise<boolean> {
     if (config.PAPER_TRADING || !this.clobClient) {
       return false;
     }
 
-    // 檢查是否已有掛單（必須有有效的 orderId）
-    const existingOrder = this.pendingSellOrders.get(tokenId);
-    if (existingOrder && existingOrder.length > 0) {
-      console.log(`[Limit Sell] 已有掛單: ${existingOrder}`);
+    // 檢查是否已有未結束的賣單
+    const existingOrder = this.orderManager.getActiveOrders(tokenId, 'SELL')[0];
+    if (existingOrder) {
+      log.info(`[Limit Sell] 已有掛單: ${existingOrder.orderId} (${existingOrder.status})`);
       return true;
     }
 
@@ -174,14 +275,14 @@ export class Trader {
       // 查詢可用餘額（allowance = 可賣數量，balance = 總持倉）
       const balances = await this.clobClient.getBalanceAllowance({ asset_type: 'CONDITIONAL' as any, token_id: tokenId });
       if (!balances) {
-        console.log(`[Limit Sell] 無法查詢持倉`);
+        log.info(`[Limit Sell] 無法查詢持倉`);
         return false;
       }
 
       const rawBalance = parseFloat(balances.balance || '0') / 1e6;
       let rawAllowance = parseFloat(balances.allowance || '0') / 1e6;
       
-      console.log(`[Limit Sell] balance=${rawBalance.toFixed(4)}, allowance=${rawAllowance.toFixed(4)}`);
+      log.debug(`[Limit Sell] balance=${rawBalance.toFixed(4)}, allowance=${rawAllowance.toFixed(4)}`);
       
       // 如果 allowance=0 但 balance>0，需要檢查是否真的有掛單
       if (rawAllowance < 0.1 && rawBalance > 0.1) {
@@ -191,12 +292,25 @@ export class Trader {
           const sellOrders = openOrders?.filter((o: any) => o.side === 'SELL') || [];
           
           if (sellOrders.length > 0) {
-            console.log(`[Limit Sell] 已有 ${sellOrders.length} 個賣單掛單中`);
-            this.pendingSellOrders.set(tokenId, sellOrders[0].id || 'existing');
+            log.info(`[Limit Sell] 已有 ${sellOrders.length} 個賣單掛單中`);
+            for (const o of sellOrders) {
+              if (this.orderManager.getOrder(o.id)) continue;
+              this.orderManager.track({
+                orderId: o.id,
+                tokenId,
+                outcome,
+                side: 'SELL',
+                price: parseFloat(o.price) * 100,
+                size: parseFloat(o.original_size),
+                filledSize: parseFloat(o.size_matched || '0'),
+                reason: '交易所已有掛單',
+                status: 'OPEN',
+              });
+            }
             return true;
           } else {
             // 沒有掛單，需要 approve 然後下單
-            console.log(`[Limit Sell] 無掛單，嘗試 approve token...`);
+            log.info(`[Limit Sell] 無掛單，嘗試 approve token...`);
             await this.clobClient.updateBalanceAllowance({ 
               asset_type: 'CONDITIONAL' as any, 
               token_id: tokenId 
@@ -206,16 +320,16 @@ export class Trader {
             // 重新查詢 allowance
             const newBalances = await this.clobClient.getBalanceAllowance({ asset_type: 'CONDITIONAL' as any, token_id: tokenId });
             rawAllowance = parseFloat(newBalances?.allowance || '0') / 1e6;
-            console.log(`[Limit Sell] Approve 後 allowance=${rawAllowance.toFixed(4)}`);
+            log.info(`[Limit Sell] Approve 後 allowance=${rawAllowance.toFixed(4)}`);
             
             if (rawAllowance < 0.1) {
               // 還是 0，直接用 balance 嘗試
-              console.log(`[Limit Sell] allowance 仍為 0，用 balance 嘗試下單`);
+              log.info(`[Limit Sell] allowance 仍為 0，用 balance 嘗試下單`);
               rawAllowance = rawBalance;
             }
           }
         } catch (e: any) {
-          console.log(`[Limit Sell] 查詢掛單失敗: ${e?.message}，用 balance 嘗試`);
+          log.info(`[Limit Sell] 查詢掛單失敗: ${e?.message}，用 balance 嘗試`);
           rawAllowance = rawBalance;
         }
       }
@@ -225,14 +339,13 @@ export class Trader {
       if (rawAllowance > 0.1) {
         actualSize = parseFloat(rawAllowance.toFixed(1));
       } else {
-        console.log(`[Limit Sell] 無可賣股份`);
+        log.info(`[Limit Sell] 無可賣股份`);
         return false;
       }
 
-      const targetSellPrice = buyPrice + config.PROFIT_TARGET;
       const targetSellPriceDecimal = targetSellPrice / 100;
 
-      console.log(`📊 補掛 Limit Sell: ${actualSize} 股 ${outcome} @ ${targetSellPriceDecimal.toFixed(2)} (+${config.PROFIT_TARGET}¢) [raw: ${rawBalance}]`);
+      log.info(`📊 補掛 Limit Sell: ${actualSize} 股 ${outcome} @ ${targetSellPriceDecimal.toFixed(2)} (+${(targetSellPrice - buyPrice).toFixed(2)}¢) [raw: ${rawBalance}]`);
 
       const sellResponse = await this.clobClient.createAndPostOrder({
         tokenID: tokenId,
@@ -241,15 +354,60 @@ export class Trader {
         side: Side.SELL,
       });
 
-      console.log(`📌 LIMIT SELL order placed: ${sellResponse.orderID} @ ${targetSellPriceDecimal.toFixed(2)} x ${actualSize}`);
-      this.pendingSellOrders.set(tokenId, sellResponse.orderID || '');
-      return true;
+      log.info(`📌 LIMIT SELL order placed: ${sellResponse.orderID} @ ${targetSellPriceDecimal.toFixed(2)} x ${actualSize}`);
+      return this.trackPostedOrder(sellResponse, tokenId, outcome, 'SELL', targetSellPrice, actualSize, '補掛 Limit Sell') !== null;
     } catch (error: any) {
-      console.error('[Limit Sell] 補掛失敗:', error?.message || error);
+      log.error('[Limit Sell] 補掛失敗', { error });
       return false;
     }
   }
 
+  /**
+   * 把現有的 Limit Sell 改到新的目標價（出場規則的獲利目標變化時調用）
+   * 與掛單價相差不到 1¢ 時不改單；沒有掛單時不處理（實盤由補掛流程負責）
+   */
+  async repriceLimitSell(tokenId: string, outcome: 'Up' | 'Down', targetSellPrice: number): Promise<boolean> {
+    const order = this.orderManager.getActiveOrders(tokenId, 'SELL')[0];
+    if (!order || Math.abs(order.price - targetSellPrice) < 1) return false;
+
+    const position = this.positions.get(tokenId);
+    if (!position) return false;
+
+    log.info(`[Limit Sell] 重新定價 ${outcome}: ${order.price.toFixed(1)}¢ → ${targetSellPrice.toFixed(1)}¢`);
+    const cancelled = await this.cancelOrders(tokenId, 'SELL', '重新定價');
+    if (!cancelled) return false;
+
+    if (config.PAPER_TRADING) {
+      const remaining = order.size - order.filledSize;
+      if (remaining <= 0) return false;
+      const book = await this.fetcher.getOrderBook(tokenId);
+      this.placePaperLimitSell(book, tokenId, outcome, targetSellPrice, remaining);
+      return true;
+    }
+
+    return this.placeLimitSellForPosition(tokenId, outcome, position.avgBuyPrice, targetSellPrice);
+  }
+
+  /**
+   * 模擬交易：掛 Limit Sell 排隊單
+   */
+  private placePaperLimitSell(book: OrderBook, tokenId: string, outcome: 'Up' | 'Down', price: number, size: number): void {
+    const order = this.fillSimulator.placeRestingOrder(book, tokenId, outcome, 'SELL', price, size);
+    this.ledger.recordOrder(order.orderId, tokenId, outcome, 'SELL', price, size, 'Limit Sell');
+    this.orderManager.track({
+      orderId: order.orderId,
+      tokenId,
+      outcome,
+      side: 'SELL',
+      price,
+      size,
+      reason: 'Limit Sell',
+      paper: true,
+      status: 'OPEN',
+    });
+    log.info(`📝 [PAPER] LIMIT SELL ${size} ${outcome} @ ${(price / 100).toFixed(2)} (排隊 ${order.queueAhead.toFixed(0)} 股)`);
+  }
+
   /**
    * 用 Market Sell 清掉剩餘小數股份
    */
@@ -279,7 +437,7 @@ export class Trader {
       // Market Sell: 用較低價格確保成交
       const marketPrice = Math.max((currentPrice - 5) / 100, 0.01); // 當前價 -5¢
 
-      console.log(`🧹 Market Sell 清理剩餘: ${sellSize} 股 ${outcome} @ ${marketPrice.toFixed(2)}`);
+      log.info(`🧹 Market Sell 清理剩餘: ${sellSize} 股 ${outcome} @ ${marketPrice.toFixed(2)}`);
 
       const sellResponse = await this.clobClient.createAndPostOrder({
         tokenID: tokenId,
@@ -288,38 +446,48 @@ export class Trader {
         side: Side.SELL,
       });
 
-      console.log(`✅ Market Sell 完成: ${sellResponse.orderID}`);
+      log.info(`✅ Market Sell 完成: ${sellResponse.orderID}`);
+      this.trackPostedOrder(sellResponse, tokenId, outcome, 'SELL', marketPrice * 100, sellSize, '清理剩餘股份');
       return true;
     } catch (error: any) {
-      console.error('[Market Sell] 失敗:', error?.message || error);
+      log.error('[Market Sell] 失敗', { error });
       return false;
     }
   }
 
   /**
-   * 買入指定 outcome，成功後立即掛 Limit Sell 訂單
+   * 買入指定 outcome，成功後立即掛 Limit Sell 訂單（默認掛在買入價 + PROFIT_TARGET）
    */
   async buy(
     tokenId: string,
     outcome: 'Up' | 'Down',
     price: number,
-    size: number
+    size: number,
+    targetSellPrice = price + config.PROFIT_TARGET
   ): Promise<boolean> {
     const priceDecimal = price / 100; // cents to decimal
-    const targetSellPrice = price + config.PROFIT_TARGET; // 買入價 + 差距值
     const targetSellPriceDecimal = targetSellPrice / 100;
 
     if (config.PAPER_TRADING) {
-      console.log(`📝 [PAPER] BUY ${size} ${outcome} @ ${priceDecimal.toFixed(2)}`);
-      console.log(`📝 [PAPER] LIMIT SELL ${size} ${outcome} @ ${targetSellPriceDecimal.toFixed(2)} (target: +${config.PROFIT_TARGET}¢)`);
-      this.updatePosition(tokenId, outcome, size, price);
-      this.recordTrade(tokenId, outcome, 'BUY', price, size);
-      this.pendingSellOrders.set(tokenId, `paper-${Date.now()}`);
+      // 與實盤一致：加 1¢ 的可成交限價單，按訂單簿逐檔成交
+      const book = await this.fetcher.getOrderBook(tokenId);
+      const fill = this.fillSimulator.simulateMarketable(book, 'BUY', size, Math.min(price + 1, 99));
+      if (fill.filledSize <= 0) {
+        log.info(`📝 [PAPER] BUY ${size} ${outcome} @ ${priceDecimal.toFixed(2)} 未成交 (訂單簿無可成交賣單)`);
+        return false;
+      }
+
+      log.info(`📝 [PAPER] BUY ${fill.filledSize}/${size} ${outcome} @ ${(fill.avgPrice / 100).toFixed(3)} (滑點 ${fill.slippage.toFixed(2)}¢, 手續費 ${fill.fee.toFixed(2)}¢)`);
+      this.updatePosition(tokenId, outcome, fill.filledSize, fill.avgPrice);
+      this.recordTrade(tokenId, outcome, 'BUY', fill.avgPrice, fill.filledSize, undefined, fill.fee);
+      this.recordPaperFill(tokenId, outcome, 'BUY', Math.min(price + 1, 99), size, fill);
+
+      this.placePaperLimitSell(book, tokenId, outcome, targetSellPrice, fill.filledSize);
       return true;
     }
 
     if (!this.clobClient) {
-      console.error('Trading client not initialized');
+      log.error('Trading client not initialized');
       return false;
     }
 
@@ -332,12 +500,13 @@ export class Trader {
         size,
         side: Side.BUY,
       });
-      console.log(`✅ BUY order placed: ${buyResponse.orderID} @ ${buyPrice.toFixed(2)}`);
+      log.info(`✅ BUY order placed: ${buyResponse.orderID} @ ${buyPrice.toFixed(2)}`);
+      this.trackPostedOrder(buyResponse, tokenId, outcome, 'BUY', buyPrice * 100, size);
       this.updatePosition(tokenId, outcome, size, price);
       this.recordTrade(tokenId, outcome, 'BUY', price, size);
 
       // 2. 等待買單成交並輪詢確認
-      console.log(`⏳ 等待買單成交...`);
+      log.info(`⏳ 等待買單成交...`);
       let actualSize = 0;
       let attempts = 0;
       const maxAttempts = 10; // 最多等 10 秒
@@ -349,13 +518,13 @@ export class Trader {
         try {
           const balances = await this.clobClient.getBalanceAllowance({ asset_type: 'CONDITIONAL' as any, token_id: tokenId });
           const rawBalance = parseFloat(balances?.balance || '0') / 1e6;
-          console.log(`📊 [${attempts}/${maxAttempts}] balance=${rawBalance.toFixed(2)}`);
+          log.debug(`📊 [${attempts}/${maxAttempts}] balance=${rawBalance.toFixed(2)}`);
           
           if (rawBalance >= size * 0.9) { // 至少 90% 成交
             // 確保有 allowance
             const rawAllowance = parseFloat(balances?.allowance || '0') / 1e6;
             if (rawAllowance < rawBalance * 0.9) {
-              console.log(`🔓 Approving token for selling...`);
+              log.info(`🔓 Approving token for selling...`);
               await this.clobClient.updateBalanceAllowance({ 
                 asset_type: 'CONDITIONAL' as any, 
                 token_id: tokenId 
@@ -366,16 +535,16 @@ export class Trader {
             } else {
               actualSize = parseFloat(rawAllowance.toFixed(1));
             }
-            console.log(`✅ 買單成交確認: ${actualSize} 股`);
+            log.info(`✅ 買單成交確認: ${actualSize} 股`);
             break;
           }
         } catch (e: any) {
-          console.log(`⚠️ 查詢失敗: ${e?.message}`);
+          log.info(`⚠️ 查詢失敗: ${e?.message}`);
         }
       }
 
       if (actualSize <= 0) {
-        console.log(`⚠️ 買單未成交或 allowance 為 0，Limit Sell 將由下一個 tick 補掛`);
+        log.info(`⚠️ 買單未成交或 allowance 為 0，Limit Sell 將由下一個 tick 補掛`);
         return true;
       }
 
@@ -387,17 +556,24 @@ export class Trader {
           size: actualSize,
           side: Side.SELL,
         });
-        console.log(`📌 LIMIT SELL order placed: ${sellResponse.orderID} @ ${targetSellPriceDecimal.toFixed(2)} (+${config.PROFIT_TARGET}¢) x ${actualSize}`);
-        this.pendingSellOrders.set(tokenId, sellResponse.orderID || '');
+        log.info(`📌 LIMIT SELL order placed: ${sellResponse.orderID} @ ${targetSellPriceDecimal.toFixed(2)} (+${(targetSellPrice - price).toFixed(2)}¢) x ${actualSize}`);
+        this.trackPostedOrder(sellResponse, tokenId, outcome, 'SELL', targetSellPrice, actualSize, 'Limit Sell');
       } catch (sellError: any) {
-        console.error('Failed to place limit sell order:', sellError?.message || sellError);
-        // Limit Sell 失敗，清除 pending 標記讓下一個 tick 重試
-        this.pendingSellOrders.delete(tokenId);
+        log.error('Failed to place limit sell order', { error: sellError });
+        // Limit Sell 失敗，記為拒單，下一個 tick 會重試補掛
+        this.orderManager.reject({
+          tokenId,
+          outcome,
+          side: 'SELL',
+          price: targetSellPrice,
+          size: actualSize,
+          reason: sellError?.message || 'Limit Sell 下單失敗',
+        });
       }
 
       return true;
     } catch (error: any) {
-      console.error('Buy order failed:', error?.message || error);
+      log.error('Buy order failed', { error });
       return false;
     }
   }
@@ -411,25 +587,37 @@ export class Trader {
     currentPrice: number
   ): Promise<boolean> {
     if (config.PAPER_TRADING) {
-      console.log(`📝 [PAPER] FORCE LIQUIDATE ${outcome}`);
-      this.positions.delete(tokenId);
-      this.pendingSellOrders.delete(tokenId);
+      this.cancelPaperOrders(tokenId);
+      const position = this.positions.get(tokenId);
+      if (!position) return true;
+
+      // 與實盤一致：當前價 -10¢ 的可成交限價單
+      const marketPrice = Math.max(currentPrice - 10, 1);
+      const book = await this.fetcher.getOrderBook(tokenId);
+      const fill = this.fillSimulator.simulateMarketable(book, 'SELL', position.size, marketPrice);
+      log.info(`📝 [PAPER] FORCE LIQUIDATE ${outcome}: ${fill.filledSize}/${position.size} @ ${(fill.avgPrice / 100).toFixed(3)} (滑點 ${fill.slippage.toFixed(2)}¢)`);
+      if (fill.filledSize <= 0) return false;
+
+      const pnl = (fill.avgPrice - position.avgBuyPrice) * fill.filledSize;
+      this.updatePosition(tokenId, outcome, -fill.filledSize, fill.avgPrice);
+      this.recordTrade(tokenId, outcome, 'SELL', fill.avgPrice, fill.filledSize, pnl, fill.fee);
+      this.recordPaperFill(tokenId, outcome, 'SELL', marketPrice, position.size, fill, '強制清倉');
+      if (this.positions.has(tokenId)) {
+        log.info(`📝 [PAPER] 強制清倉未完全成交，剩餘 ${this.positions.get(tokenId)!.size.toFixed(1)} 股`);
+      }
       return true;
     }
 
     if (!this.clobClient) {
-      console.error('Trading client not initialized');
+      log.error('Trading client not initialized');
       return false;
     }
 
     try {
-      // 1. 取消該 token 的所有掛單
-      console.log(`🚨 強制清倉: 取消 ${outcome} 的所有掛單...`);
-      try {
-        await this.clobClient.cancelAll();
-        console.log(`✅ 已取消所有掛單`);
-      } catch (cancelError: any) {
-        console.log(`⚠️ 取消掛單失敗: ${cancelError?.message}`);
+      // 1. 取消該 token 的掛單（只撤本 Trader 追蹤的訂單，不影響其他系列 / 策略）
+      log.info(`🚨 強制清倉: 取消 ${outcome} 的掛單...`);
+      if (!(await this.cancelOrders(tokenId, undefined, '強制清倉'))) {
+        log.info(`⚠️ 部分掛單取消失敗，繼續賣出`);
       }
 
       // 等待掛單取消生效
@@ -441,15 +629,14 @@ export class Trader {
       const sellSize = parseFloat(rawAllowance.toFixed(1));
 
       if (sellSize <= 0) {
-        console.log(`[強制清倉] 無可賣股份`);
+        log.info(`[強制清倉] 無可賣股份`);
         this.positions.delete(tokenId);
-        this.pendingSellOrders.delete(tokenId);
         return true;
       }
 
       // 3. Market Sell（用較低價格確保成交）
       const marketPrice = Math.max((currentPrice - 10) / 100, 0.01); // 當前價 -10¢
-      console.log(`🚨 Market Sell: ${sellSize} 股 ${outcome} @ ${marketPrice.toFixed(2)}`);
+      log.info(`🚨 Market Sell: ${sellSize} 股 ${outcome} @ ${marketPrice.toFixed(2)}`);
 
       const response = await this.clobClient.createAndPostOrder({
         tokenID: tokenId,
@@ -458,12 +645,12 @@ export class Trader {
         side: Side.SELL,
       });
 
-      console.log(`✅ 強制清倉完成: ${response.orderID}`);
+      log.info(`✅ 強制清倉完成: ${response.orderID}`);
+      this.trackPostedOrder(response, tokenId, outcome, 'SELL', marketPrice * 100, sellSize, '強制清倉');
       this.positions.delete(tokenId);
-      this.pendingSellOrders.delete(tokenId);
       return true;
     } catch (error: any) {
-      console.error('[強制清倉] 失敗:', error?.message || error);
+      log.error('[強制清倉] 失敗', { error });
       return false;
     }
   }
@@ -480,16 +667,26 @@ export class Trader {
     const priceDecimal = price / 100;
 
     if (config.PAPER_TRADING) {
+      // 先撤掉模擬 Limit Sell，再以信號價作為可成交限價單賣出
+      this.cancelPaperOrders(tokenId);
+      const book = await this.fetcher.getOrderBook(tokenId);
+      const fill = this.fillSimulator.simulateMarketable(book, 'SELL', size, price);
+      if (fill.filledSize <= 0) {
+        log.info(`📝 [PAPER] SELL ${size} ${outcome} @ ${priceDecimal.toFixed(2)} 未成交 (訂單簿無可成交買單)`);
+        return false;
+      }
+
       const position = this.positions.get(tokenId);
-      const pnl = position ? (price - position.avgBuyPrice) * size : 0;
-      console.log(`📝 [PAPER] SELL ${size} ${outcome} @ ${priceDecimal.toFixed(2)} | PnL: ${pnl.toFixed(2)}¢`);
-      this.updatePosition(tokenId, outcome, -size, price);
-      this.recordTrade(tokenId, outcome, 'SELL', price, size, pnl);
+      const pnl = position ? (fill.avgPrice - position.avgBuyPrice) * fill.filledSize : 0;
+      log.info(`📝 [PAPER] SELL ${fill.filledSize}/${size} ${outcome} @ ${(fill.avgPrice / 100).toFixed(3)} | PnL: ${pnl.toFixed(2)}¢ (手續費 ${fill.fee.toFixed(2)}¢)`);
+      this.updatePosition(tokenId, outcome, -fill.filledSize, fill.avgPrice);
+      this.recordTrade(tokenId, outcome, 'SELL', fill.avgPrice, fill.filledSize, pnl, fill.fee);
+      this.recordPaperFill(tokenId, outcome, 'SELL', price, size, fill);
       return true;
     }
 
     if (!this.clobClient) {
-      console.error('Trading client not initialized');
+      log.error('Trading client not initialized');
       return false;
     }
 
@@ -504,14 +701,372 @@ export class Trader {
       const position = this.positions.get(tokenId);
       const pnl = position ? (price - position.avgBuyPrice) * size : 0;
 
-      console.log(`✅ SELL order placed: ${response.orderID} | PnL: ${pnl.toFixed(2)}¢`);
+      log.info(`✅ SELL order placed: ${response.orderID} | PnL: ${pnl.toFixed(2)}¢`);
+      this.trackPostedOrder(response, tokenId, outcome, 'SELL', price, size);
       this.updatePosition(tokenId, outcome, -size, price);
       this.recordTrade(tokenId, outcome, 'SELL', price, size, pnl);
       return true;
     } catch (error) {
-      console.error('Sell order failed:', error);
+      log.error('Sell order failed', { error });
+      return false;
+    }
+  }
+
+  /**
+   * 掛限價買單（做市報價），成交後不會自動掛 Limit Sell
+   */
+  async placeLimitBuy(
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    price: number,
+    size: number,
+    reason = 'Limit Buy'
+  ): Promise<boolean> {
+    const priceDecimal = price / 100;
+
+    if (config.PAPER_TRADING) {
+      const book = await this.fetcher.getOrderBook(tokenId);
+      const order = this.fillSimulator.placeRestingOrder(book, tokenId, outcome, 'BUY', price, size);
+      this.ledger.recordOrder(order.orderId, tokenId, outcome, 'BUY', price, size, reason);
+      this.orderManager.track({
+        orderId: order.orderId,
+        tokenId,
+        outcome,
+        side: 'BUY',
+        price,
+        size,
+        reason,
+        paper: true,
+        status: 'OPEN',
+      });
+      log.info(`📝 [PAPER] LIMIT BUY ${size} ${outcome} @ ${priceDecimal.toFixed(2)} (排隊 ${order.queueAhead.toFixed(0)} 股)`);
+      return true;
+    }
+
+    if (!this.clobClient) {
+      log.error('Trading client not initialized');
+      return false;
+    }
+
+    try {
+      const response = await this.clobClient.createAndPostOrder({
+        tokenID: tokenId,
+        price: priceDecimal,
+        size,
+        side: Side.BUY,
+      });
+      log.info(`📌 LIMIT BUY order placed: ${response.orderID} ${outcome} @ ${priceDecimal.toFixed(2)} x ${size}`);
+      return this.trackPostedOrder(response, tokenId, outcome, 'BUY', price, size, reason) !== null;
+    } catch (error: any) {
+      log.error('Limit buy failed', { error });
+      this.orderManager.reject({ tokenId, outcome, side: 'BUY', price, size, reason: error?.message || 'Limit Buy 下單失敗' });
+      return false;
+    }
+  }
+
+  /**
+   * 取消某 token 的活躍訂單（可只取消某一方向）
+   */
+  async cancelOrders(tokenId: string, side?: 'BUY' | 'SELL', reason?: string): Promise<boolean> {
+    const orders = this.orderManager.getActiveOrders(tokenId, side);
+    if (orders.length === 0) return true;
+
+    if (config.PAPER_TRADING) {
+      for (const order of orders) {
+        this.fillSimulator.cancelOrder(order.orderId);
+        this.orderManager.markCancelled(order.orderId, reason);
+      }
+      return true;
+    }
+
+    if (!this.clobClient) {
+      log.error('Trading client not initialized');
+      return false;
+    }
+
+    try {
+      const response = await this.clobClient.cancelOrders(orders.map((o) => o.orderId));
+      const cancelled: string[] = response?.canceled || [];
+      for (const orderId of cancelled) {
+        this.orderManager.markCancelled(orderId, reason);
+      }
+      log.info(`🗑️ 已取消 ${cancelled.length}/${orders.length} 張訂單${reason ? ` (${reason})` : ''}`);
+      return cancelled.length === orders.length;
+    } catch (error: any) {
+      log.error('Cancel orders failed', { error });
+      return false;
+    }
+  }
+
+  /**
+   * 撤掉舊的買單報價並在新價格重掛
+   */
+  async requote(
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    price: number,
+    size: number,
+    reason?: string
+  ): Promise<boolean> {
+    const cancelled = await this.cancelOrders(tokenId, 'BUY', '重新報價');
+    if (!cancelled) return false;
+    return this.placeLimitBuy(tokenId, outcome, price, size, reason);
+  }
+
+  /**
+   * 完整套利：以可成交限價單買入同一盤口的 Up 和 Down，持有到結算
+   * 第二腿只買第一腿成交的數量；第二腿成交不足時立即賣出第一腿多出的部分
+   */
+  async buyCompleteSet(market: Market, upPrice: number, downPrice: number, size: number): Promise<boolean> {
+    const up = market.tokens.find((t) => t.outcome === 'Up');
+    const down = market.tokens.find((t) => t.outcome === 'Down');
+    if (!up || !down) return false;
+
+    const upFilled = await this.buyMarketable(up.tokenId, 'Up', upPrice, size, '完整套利');
+    if (upFilled <= 0) {
+      log.info(`[套利] Up 未成交，放棄本次套利`);
       return false;
     }
+
+    const downFilled = await this.buyMarketable(down.tokenId, 'Down', downPrice, upFilled, '完整套利');
+    const unpaired = upFilled - downFilled;
+    if (unpaired > 1e-6) {
+      // 單腿成交：多出的 Up 沒有對沖，用 -10¢ 的可成交限價單平掉
+      log.info(`⚠️ [套利] Down 只成交 ${downFilled.toFixed(1)}/${upFilled.toFixed(1)}，平掉多出的 Up ${unpaired.toFixed(1)} 股`);
+      await this.sell(up.tokenId, 'Up', Math.max(upPrice - 10, 1), unpaired);
+    }
+    if (downFilled <= 0) return false;
+
+    for (const tokenId of [up.tokenId, down.tokenId]) {
+      const position = this.positions.get(tokenId);
+      if (position) position.holdToResolution = true;
+    }
+    if (!this.resolutionMarkets.has(market.slug)) {
+      this.resolutionMarkets.set(market.slug, market);
+      this.ledger.recordHold(market);
+    }
+    log.info(`🔒 [套利] 買入 ${downFilled.toFixed(1)} 組 Up + Down (${market.slug})，持有到結算`);
+    return true;
+  }
+
+  /**
+   * 可成交限價單買入，未成交部分立即取消，返回成交數量
+   */
+  private async buyMarketable(
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    price: number,
+    size: number,
+    reason: string
+  ): Promise<number> {
+    if (config.PAPER_TRADING) {
+      const book = await this.fetcher.getOrderBook(tokenId);
+      const fill = this.fillSimulator.simulateMarketable(book, 'BUY', size, price);
+      log.info(`📝 [PAPER] BUY ${fill.filledSize}/${size} ${outcome} @ ${(fill.avgPrice / 100).toFixed(3)} (限價 ${price}¢, 手續費 ${fill.fee.toFixed(2)}¢)`);
+      if (fill.filledSize <= 0) return 0;
+
+      this.updatePosition(tokenId, outcome, fill.filledSize, fill.avgPrice);
+      this.recordTrade(tokenId, outcome, 'BUY', fill.avgPrice, fill.filledSize, undefined, fill.fee);
+      this.recordPaperFill(tokenId, outcome, 'BUY', price, size, fill, reason);
+      return fill.filledSize;
+    }
+
+    if (!this.clobClient) {
+      log.error('Trading client not initialized');
+      return 0;
+    }
+
+    try {
+      const response = await this.clobClient.createAndPostOrder({
+        tokenID: tokenId,
+        price: price / 100,
+        size,
+        side: Side.BUY,
+      });
+      const orderId = this.trackPostedOrder(response, tokenId, outcome, 'BUY', price, size, reason);
+      if (!orderId) return 0;
+
+      let filled = size;
+      if (String(response.status || '').toLowerCase() !== 'matched') {
+        // 沒有立即全部成交：撤掉剩餘部分，以交易所回報的成交數量為準
+        await this.clobClient.cancelOrder({ orderID: orderId });
+        const remote = await this.clobClient.getOrder(orderId);
+        filled = parseFloat(remote?.size_matched || '0');
+        this.orderManager.updateFilled(orderId, filled);
+        this.orderManager.markCancelled(orderId, '未成交部分已取消');
+      }
+
+      log.info(`✅ BUY ${filled}/${size} ${outcome} @ ${(price / 100).toFixed(2)} (${reason})`);
+      if (filled > 0) {
+        this.updatePosition(tokenId, outcome, filled, price);
+        this.recordTrade(tokenId, outcome, 'BUY', price, filled);
+      }
+      return filled;
+    } catch (error: any) {
+      log.error(`[${reason}] 買入失敗`, { error });
+      return 0;
+    }
+  }
+
+  /**
+   * 持有到結算的持倉：市場結束並公布結果後按 100¢ / 0¢ 結算
+   * （實盤需要到 Polymarket 贖回獲勝的一邊）
+   */
+  async settleResolvedPositions(): Promise<void> {
+    const now = this.fetcher.getServerTime();
+
+    for (const [slug, market] of this.resolutionMarkets) {
+      if (now < new Date(market.endDate).getTime()) continue;
+
+      const lastCheck = this.lastResolutionCheck.get(slug) || 0;
+      if (Date.now() - lastCheck < RESOLUTION_CHECK_INTERVAL_MS) continue;
+      this.lastResolutionCheck.set(slug, Date.now());
+
+      const winner = await this.fetcher.getResolvedOutcome(slug);
+      if (!winner) {
+        log.info(`[結算] ${slug} 尚未公布結果`);
+        continue;
+      }
+
+      for (const token of market.tokens) {
+        const position = this.positions.get(token.tokenId);
+        if (!position) continue;
+
+        const price = token.outcome === winner ? 100 : 0;
+        const pnl = (price - position.avgBuyPrice) * position.size;
+        log.info(`🏁 [結算] ${slug} ${token.outcome} ${position.size.toFixed(1)} 股 @ ${price}¢ | PnL: ${pnl.toFixed(2)}¢`);
+        this.recordTrade(token.tokenId, token.outcome, 'SELL', price, position.size, pnl, 0);
+        this.ledger.recordFill(`settlement-${slug}`, token.tokenId, token.outcome, 'SELL', price, position.size, 0);
+        this.positions.delete(token.tokenId);
+      }
+
+      if (!config.PAPER_TRADING) {
+        log.info(`[結算] ${slug} 結果為 ${winner}，請到 Polymarket 贖回`);
+      }
+      this.resolutionMarkets.delete(slug);
+      this.lastResolutionCheck.delete(slug);
+    }
+  }
+
+  /**
+   * 模擬交易：用最新訂單簿推進掛著的限價單（Limit Sell 和做市買單），處理部分成交
+   */
+  async processPaperFills(): Promise<void> {
+    if (!config.PAPER_TRADING) return;
+
+    const tokenIds = new Set(this.fillSimulator.getOpenOrders().map((o) => o.tokenId));
+    for (const tokenId of tokenIds) {
+      const book = await this.fetcher.getOrderBook(tokenId);
+      for (const { order, fill } of this.fillSimulator.matchRestingOrders(tokenId, book)) {
+        if (order.side === 'BUY') {
+          log.info(`📝 [PAPER] LIMIT BUY 成交 ${fill.filledSize.toFixed(1)} ${order.outcome} @ ${(fill.avgPrice / 100).toFixed(2)} (${order.filledSize.toFixed(1)}/${order.size})`);
+          this.updatePosition(tokenId, order.outcome, fill.filledSize, fill.avgPrice);
+          this.recordTrade(tokenId, order.outcome, 'BUY', fill.avgPrice, fill.filledSize, undefined, fill.fee);
+          this.ledger.recordFill(order.orderId, tokenId, order.outcome, 'BUY', fill.avgPrice, fill.filledSize, fill.fee);
+          this.orderManager.updateFilled(order.orderId, order.filledSize, fill.avgPrice);
+          continue;
+        }
+
+        const position = this.positions.get(tokenId);
+        if (!position) {
+          this.fillSimulator.cancelOrder(order.orderId);
+          this.orderManager.markCancelled(order.orderId, '沒有持倉');
+          continue;
+        }
+
+        const size = Math.min(fill.filledSize, position.size);
+        const pnl = (fill.avgPrice - position.avgBuyPrice) * size;
+        log.info(`📝 [PAPER] LIMIT SELL 成交 ${size.toFixed(1)} ${order.outcome} @ ${(fill.avgPrice / 100).toFixed(2)} (${order.filledSize.toFixed(1)}/${order.size}) | PnL: ${pnl.toFixed(2)}¢`);
+        this.updatePosition(tokenId, order.outcome, -size, fill.avgPrice);
+        this.recordTrade(tokenId, order.outcome, 'SELL', fill.avgPrice, size, pnl, fill.fee);
+        this.ledger.recordFill(order.orderId, tokenId, order.outcome, 'SELL', fill.avgPrice, size, fill.fee);
+        this.orderManager.updateFilled(order.orderId, order.filledSize, fill.avgPrice);
+      }
+    }
+  }
+
+  private cancelPaperOrders(tokenId: string): void {
+    for (const order of this.fillSimulator.getOpenOrders(tokenId)) {
+      this.orderManager.markCancelled(order.orderId);
+    }
+    this.fillSimulator.cancelOrders(tokenId);
+  }
+
+  /**
+   * 模擬的可成交限價單：下單與成交一起寫入賬本
+   */
+  private recordPaperFill(
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    side: 'BUY' | 'SELL',
+    limitPrice: number,
+    size: number,
+    fill: FillResult,
+    reason?: string
+  ): void {
+    const orderId = `paper-${Date.now()}-${side}-${++this.paperOrderSeq}`;
+    this.ledger.recordOrder(orderId, tokenId, outcome, side, limitPrice, size, reason);
+    this.ledger.recordFill(orderId, tokenId, outcome, side, fill.avgPrice, fill.filledSize, fill.fee);
+
+    // 未成交部分立即取消（與可成交限價單吃不到的部分一致）
+    const filledAll = fill.filledSize >= size - 1e-6;
+    this.orderManager.track({
+      orderId,
+      tokenId,
+      outcome,
+      side,
+      price: limitPrice,
+      size,
+      filledSize: fill.filledSize,
+      avgFillPrice: fill.avgPrice,
+      reason: filledAll ? reason : '未成交部分已取消',
+      paper: true,
+      status: filledAll ? 'FILLED' : 'CANCELLED',
+    });
+  }
+
+  /**
+   * 記錄下單回應：有 orderID 則寫入賬本並開始追蹤，否則記為拒單
+   */
+  private trackPostedOrder(
+    response: any,
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    side: 'BUY' | 'SELL',
+    price: number,
+    size: number,
+    reason?: string
+  ): string | null {
+    const orderId: string | undefined = response?.orderID;
+    if (!orderId) {
+      this.orderManager.reject({ tokenId, outcome, side, price, size, reason: response?.errorMsg || '下單失敗' });
+      return null;
+    }
+
+    this.ledger.recordOrder(orderId, tokenId, outcome, side, price, size, reason);
+    this.collateralCache = null; // 下單後餘額會變
+
+    const status = String(response.status || '').toLowerCase();
+    this.orderManager.track({
+      orderId,
+      tokenId,
+      outcome,
+      side,
+      price,
+      size,
+      reason,
+      filledSize: status === 'matched' ? size : 0,
+      status: status === 'matched' ? 'FILLED' : status === 'live' ? 'OPEN' : 'CREATED',
+    });
+    return orderId;
+  }
+
+  /**
+   * 輪詢交易所更新實盤訂單狀態
+   */
+  async syncOrders(): Promise<void> {
+    if (config.PAPER_TRADING || !this.clobClient) return;
+    await this.orderManager.poll(this.clobClient);
   }
 
   /**
@@ -522,9 +1077,10 @@ export class Trader {
 
     try {
       await this.clobClient.cancelAll();
-      console.log('🗑️ All orders cancelled');
+      log.info('🗑️ All orders cancelled');
+      this.orderManager.markAllCancelled('cancelAll');
     } catch (error) {
-      console.error('Failed to cancel orders:', error);
+      log.error('Failed to cancel orders', { error });
     }
   }
 
@@ -585,7 +1141,8 @@ export class Trader {
     side: 'BUY' | 'SELL',
     price: number,
     size: number,
-    pnl?: number
+    pnl?: number,
+    fee?: number
   ): void {
     this.tradeHistory.push({
       timestamp: new Date(),
@@ -595,6 +1152,7 @@ export class Trader {
       price,
       size,
       pnl,
+      fee,
     });
   }
 
@@ -606,13 +1164,43 @@ export class Trader {
     return this.positions;
   }
 
+  getOrderManager(): OrderManager {
+    return this.orderManager;
+  }
+
   getTradeHistory(): TradeRecord[] {
     return this.tradeHistory;
   }
 
+  /**
+   * 累計已實現盈虧（扣除手續費）
+   */
   getTotalPnL(): number {
-    return this.tradeHistory
-      .filter((t) => t.pnl !== undefined)
-      .reduce((sum, t) => sum + (t.pnl || 0), 0);
+    return this.tradeHistory.reduce((sum, t) => sum + (t.pnl || 0) - (t.fee || 0), 0);
+  }
+
+  /**
+   * 可用資金 (USDC)：實盤查詢 CLOB 的 USDC 餘額（緩存 COLLATERAL_CACHE_MS），模擬交易按初始資金和盈虧計算
+   * 查詢失敗時返回 null
+   */
+  async getCollateralBalance(): Promise<number | null> {
+    if (config.PAPER_TRADING) {
+      return paperCollateral(this.positions, this.getTotalPnL());
+    }
+    if (!this.clobClient) return null;
+    if (this.collateralCache && Date.now() - this.collateralCache.fetchedAt < COLLATERAL_CACHE_MS) {
+      return this.collateralCache.balance;
+    }
+
+    try {
+      const balances = await this.clobClient.getBalanceAllowance({ asset_type: 'COLLATERAL' as any });
+      if (!balances?.balance) return null;
+      const balance = parseFloat(balances.balance) / 1e6;
+      this.collateralCache = { balance, fetchedAt: Date.now() };
+      return balance;
+    } catch (error: any) {
+      log.error('[交易] 查詢 USDC 餘額失敗', { error });
+      return null;
+    }
   }
 }
@@ -34,15 +34,35 @@ export interface Position {
   size: number;
   avgBuyPrice: number;
   currentPrice: number;
+  holdToResolution?: boolean; // 完整套利的持倉：持有到結算，不參與開局強制清倉
+  highWaterPrice?: number; // 持倉以來的最高價 (cents)，移動止損 / 保本止損用
 }
 
+// 賣出的出場類型，StrategyRunner、回測和通知按它分派，不解析 reason 文字
+// force_liquidation: 開局清倉 / 熔斷清倉（Trader.forceLiquidate）；其餘為固定 / 移動 / 保本止損
+export type ExitKind = 'force_liquidation' | 'stop_loss' | 'trailing_stop' | 'break_even_stop';
+
 export interface TradeSignal {
-  action: 'BUY' | 'SELL' | 'HOLD';
+  // QUOTE: 在 price 保持一張限價買單（價格變動時撤單重掛）；CANCEL: 撤掉該 token 的買單報價
+  action: 'BUY' | 'SELL' | 'HOLD' | 'QUOTE' | 'CANCEL';
   tokenId: string;
   outcome: 'Up' | 'Down';
   price: number;
   size: number;
   reason: string;
+  // 完整套利：與 tokenId 同時買入的另一腿（兩腿數量相同，price 為各自的限價）
+  pairedLeg?: { tokenId: string; outcome: 'Up' | 'Down'; price: number };
+  // 強制清倉：跳過下單前風控（StrategyRunner 仍會寫入審計日誌）
+  bypassRiskCheck?: boolean;
+  // 出場類型，普通賣出（止盈、套利單腿平倉、清倉已結束市場持倉）不設
+  exitKind?: ExitKind;
+  // 買入數量的計算方式（見 src/position-sizing.ts）
+  sizeReason?: string;
+}
+
+// 策略生成信號時可用的賬戶信息（StrategyRunner / 回測每個 tick 提供）
+export interface AccountContext {
+  collateral: number | null; // 可用資金 (USDC)，未知時為 null
 }
 
 export interface MarketState {
@@ -60,6 +80,16 @@ export interface MarketState {
   currentDownPrice: number;
   timeToStart: number; // ms until next market starts
   timeToEnd: number; // ms until current market ends
+  spot?: SpotState | null; // 標的現貨價格（SPOT_FEED 關閉或沒有最新價格時為 null）
+}
+
+export interface SpotState {
+  symbol: string; // 交易對，例如 BTCUSDT
+  price: number; // 最新價格 (USD)
+  updatedAt: number; // 最新成交時間 (ms)
+  roundStartPrice: number | null; // 當前盤口開始時的價格，未知時為 null
+  changeSinceStart: number | null; // 當前盤口開始以來的漲跌幅（0.001 = +0.1%）
+  volatility: number | null; // 最近 SPOT_VOLATILITY_WINDOW_MS 的已實現波動率（對數收益率每 √秒 標準差）
 }
 
 export interface OrderBook {
@@ -75,4 +105,13 @@ export interface TradeRecord {
   price: number;
   size: number;
   pnl?: number;
+  fee?: number; // cents
+}
+
+// 回測 / 錄製用的單個 tick 快照
+export interface RecordedTick {
+  timestamp: number; // 服務器時間 (ms)
+  serverTimeOffset: number; // 本地時間與服務器時間的偏移 (ms)
+  state: MarketState;
+  orderBooks: Record<string, OrderBook>; // tokenId -> 訂單簿 (價格為小數 0-1，最優價在前)
 }
@@ -0,0 +1,53 @@
+/**
+ * 本地 webhook 接收器 - 記錄收到的通知，用來測試 Telegram / Discord / 通用 webhook 渠道
+ *
+ * 接受任何路徑的 POST（Telegram 的 /bot<token>/sendMessage 也一樣），GET / 返回已收到的請求。
+ */
+import express from 'express';
+import { createServer, type Server } from 'http';
+
+export interface ReceivedWebhook {
+  path: string;
+  body: any;
+  receivedAt: number;
+}
+
+export class WebhookSink {
+  private received: ReceivedWebhook[] = [];
+  private server: Server | null = null;
+
+  constructor(private onReceive?: (webhook: ReceivedWebhook) => void) {}
+
+  /**
+   * 啟動服務器，port 為 0 時使用隨機端口，返回實際端口
+   */
+  async start(port = 0): Promise<number> {
+    const app = express();
+    app.use(express.json());
+    app.get('/', (req, res) => res.json(this.received));
+    app.post('*', (req, res) => {
+      const webhook = { path: req.path, body: req.body, receivedAt: Date.now() };
+      this.received.push(webhook);
+      this.onReceive?.(webhook);
+      res.json({ ok: true });
+    });
+
+    const server = createServer(app);
+    this.server = server;
+    await new Promise<void>((resolve) => server.listen(port, resolve));
+    return (server.address() as { port: number }).port;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+    this.server = null;
+  }
+
+  getReceived(): ReceivedWebhook[] {
+    return this.received;
+  }
+
+  clear(): void {
+    this.received = [];
+  }
+}
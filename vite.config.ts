@@ -10,7 +10,6 @@ export default defineConfig({
     proxy: {
       '/api': {
         target: 'http://localhost:3001',
-        changeOrigin: true,
       },
       '/ws': {
         target: 'ws://localhost:3001',